@@ -1,3 +1,4 @@
+import MathMarkdown from '@/components/MathMarkdown';
 import { getAllHistory } from '@/services/historyStorage';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -134,6 +135,12 @@ const HistoryCard: React.FC<{
                 </Text>
               </ScrollView>
             </View>
+            {!isNote && !!item.aiAnswer && (
+              <View style={[styles.expandedSection, styles.expandedAnswer, { backgroundColor: '#181818' }]}>
+                <Text style={[styles.expandedLabel, { color: '#feca57' }]}>AI Answer:</Text>
+                <MathMarkdown content={item.aiAnswer} textColor={'#ffffff'} accentColor={'#feca57'} fontSize={14} />
+              </View>
+            )}
           </View>
         )}
       </TouchableOpacity>
@@ -431,6 +438,9 @@ const styles = StyleSheet.create({
     borderRadius: 12,
     padding: 16,
   },
+  expandedAnswer: {
+    marginTop: 12,
+  },
   expandedLabel: {
     fontWeight: '600',
     fontSize: 14,
@@ -1,5 +1,8 @@
+import AchievementToast from "@/components/AchievementToast";
 import { useColorScheme } from "@/hooks/useColorScheme";
+import achievementService from "@/services/achievementService";
 import { initDatabase } from "@/services/historyStorage";
+import syncService from "@/services/syncService";
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useFonts } from "expo-font";
 import * as Linking from 'expo-linking';
@@ -64,14 +67,15 @@ function RootLayoutNav() {
       <Stack.Screen name="study-notes" options={{ headerShown: false }} />
       <Stack.Screen name="quiz-maker" options={{ headerShown: false }} />
       <Stack.Screen name="flash-cards" options={{ headerShown: false }} />
-      <Stack.Screen name="mathematics" options={{ headerShown: false }} />
-      <Stack.Screen name="biology" options={{ headerShown: false }} />
-      <Stack.Screen name="chemistry" options={{ headerShown: false }} />
-      <Stack.Screen name="physics" options={{ headerShown: false }} />
+      <Stack.Screen name="subject/[id]" options={{ headerShown: false }} />
       <Stack.Screen name="mind-maps" options={{ headerShown: false }} />
       <Stack.Screen name="paywall" options={{ headerShown: false }} />
       <Stack.Screen name="HistoryList" options={{ headerShown: false }} />
+      <Stack.Screen name="search" options={{ headerShown: false }} />
       <Stack.Screen name="ai-scan" options={{ headerShown: false }} />
+      <Stack.Screen name="translator" options={{ headerShown: false }} />
+      <Stack.Screen name="homework" options={{ headerShown: false }} />
+      <Stack.Screen name="study-timer" options={{ headerShown: false }} />
       <Stack.Screen name="splash" options={{ headerShown: false }} />
       <Stack.Screen name="+not-found" />
     </Stack>
@@ -86,7 +90,12 @@ export default function RootLayout() {
 
   useEffect(() => {
     if (loaded) {
-      initDatabase();
+      initDatabase()
+        .then(() => {
+          achievementService.start();
+          return syncService.start();
+        })
+        .catch(error => console.error('Database initialization failed:', error));
       SplashScreen.hideAsync();
     }
   }, [loaded]);
@@ -121,6 +130,7 @@ export default function RootLayout() {
         <GlobalThemeProvider>
           <PurchasesProvider>
             <RootLayoutNav />
+            <AchievementToast />
           </PurchasesProvider>
         </GlobalThemeProvider>
       </ThemeProvider>
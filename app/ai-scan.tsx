@@ -108,7 +108,7 @@ const AIScan = () => {
       await new Promise(resolve => setTimeout(resolve, 300));
       
       // Check and spend credits
-      const creditResult = await subscriptionService.spendCredits(1);
+      const creditResult = await subscriptionService.reserveCredits(1, 'ai-scan');
       if (!creditResult.success) {
         hideProcessingModal();
         Alert.alert(
@@ -134,7 +134,11 @@ const AIScan = () => {
       
       try {
         // Get answer directly from image using Gemini
-        const { answer } = await getAnswerFromImage(uri);
+        const { answer } = await subscriptionService.runWithCredits(
+          creditResult.reservation,
+          credits => getAnswerFromImage(uri, 'ai-scan', credits),
+          result => !result.answer?.trim()
+        );
         
         setProcessingStep('Finalizing...');
         await new Promise(resolve => setTimeout(resolve, 300));
@@ -151,8 +155,7 @@ const AIScan = () => {
         }, 400);
         
       } catch (error) {
-        // Note: The credit has already been spent, we don't need to refund it
-        // as the spendCredits call is atomic - it only deducts on success
+        // runWithCredits has released the credit if the AI call failed
         console.error('Error processing image:', error);
         throw error;
       }
@@ -17,14 +17,22 @@ import {
     View
 } from 'react-native';
 import FlashCardGenerationModal from '../components/FlashCardGenerationModal';
-import FlashCardViewer from '../components/FlashCardViewer';
+import FlashCardViewer, { FlashCard } from '../components/FlashCardViewer';
 import ImageScanModal from '../components/ImageScanModal';
 import ManualFlashCardModal from '../components/ManualFlashCardModal';
 import NoteReaderModal from '../components/NoteReaderModal';
 import { useThemeContext } from '../providers/ThemeProvider';
+import { isAIGatewayError } from '../services/aiGateway';
 import { processImage } from '../services/geminiServices';
-import { FlashCardSet, getAllFlashCardSets } from '../services/historyStorage';
+import {
+    DueFlashCard,
+    FlashCardSet,
+    getAllFlashCardSets,
+    getDueFlashCards,
+    getFlashCardReviews
+} from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
+import { parseFlashCards } from '../utils/spacedRepetition';
 
 const { width, height } = Dimensions.get('window');
 
@@ -77,6 +85,11 @@ const FlashCardMaker = () => {
   
   // FlashCard viewer modal state
   const [viewerModalVisible, setViewerModalVisible] = useState(false);
+  const [viewerCards, setViewerCards] = useState<FlashCard[]>([]);
+  const [viewerTitle, setViewerTitle] = useState('');
+  
+  // Spaced repetition review queue
+  const [dueCards, setDueCards] = useState<DueFlashCard[]>([]);
   
   // Scan state for direct generation
   const [scanModalVisible, setScanModalVisible] = useState(false);
@@ -126,6 +139,7 @@ const FlashCardMaker = () => {
       }));
       
       setFlashCardSets(enhancedSets);
+      setDueCards(await getDueFlashCards());
     } catch (error) {
       console.error('Failed to load flash card sets:', error);
       handleError('network', 'Failed to load sets. Please check your connection and try again.', true);
@@ -151,9 +165,8 @@ const FlashCardMaker = () => {
 
   const processScannedImage = async (uri: string): Promise<string> => {
     try {
-      const creditResult = await subscriptionService.spendCredits(1);
-      const hasEnoughCredits = creditResult.success;
-      if (!hasEnoughCredits) {
+      const creditResult = await subscriptionService.reserveCredits(1, 'flash-cards');
+      if (!creditResult.success) {
         Alert.alert(
           "Out of Credits",
           "You need at least 1 credit to scan an image.",
@@ -165,7 +178,7 @@ const FlashCardMaker = () => {
         throw new Error('Insufficient credits');
       }
 
-      const text = await processImage(uri);
+      const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
       if (!text || text.trim().length === 0) {
         throw new Error('No text could be detected in the image. Please try with a clearer image.');
       }
@@ -173,6 +186,7 @@ const FlashCardMaker = () => {
       return text.trim();
     } catch (error) {
       console.error('Image processing error:', error);
+      if (isAIGatewayError(error)) throw error;
       throw new Error('Failed to process the image. Please try again with a clearer image.');
     }
   };
@@ -229,23 +243,33 @@ const FlashCardMaker = () => {
     router.push(`/note/${set.id}` as any);
   };
 
-  const openFlashCardViewer = (set: FlashCardSet) => {
+  const openFlashCardViewer = async (set: FlashCardSet) => {
+    const reviews = await getFlashCardReviews(set.id);
+    const cards = parseFlashCards(set.content).map((card, cardIndex) => {
+      const review = reviews.find(r => r.card_index === cardIndex && r.front === card.front);
+      return { ...card, setId: set.id, cardIndex, schedule: review ?? null };
+    });
     setSelectedSet(set);
+    setViewerTitle(set.title);
+    setViewerCards(cards);
     setViewerModalVisible(true);
   };
 
-  const parseFlashCards = (content: string): { front: string; back: string }[] => {
-    return content
-      .split('---')
-      .map(cardBlock => {
-        const frontMatch = cardBlock.match(/FRONT:\s*(.*)/);
-        const backMatch = cardBlock.match(/BACK:\s*(.*)/);
-        if (frontMatch && backMatch) {
-          return { front: frontMatch[1].trim(), back: backMatch[1].trim() };
-        }
-        return null;
-      })
-      .filter(Boolean) as { front: string; back: string }[];
+  const openReviewQueue = () => {
+    setViewerTitle('Due Today');
+    setViewerCards(dueCards.map(card => ({
+      front: card.front,
+      back: card.back,
+      setId: card.setId,
+      cardIndex: card.cardIndex,
+      schedule: card.schedule,
+    })));
+    setViewerModalVisible(true);
+  };
+
+  const closeFlashCardViewer = async () => {
+    setViewerModalVisible(false);
+    setDueCards(await getDueFlashCards());
   };
 
   const retryLastAction = () => {
@@ -332,6 +356,32 @@ const FlashCardMaker = () => {
     </View>
   );
 
+  const renderReviewQueue = () => {
+    if (dueCards.length === 0) return null;
+    const setCount = new Set(dueCards.map(card => card.setId)).size;
+
+    return (
+      <TouchableOpacity
+        style={[styles.reviewBanner, { backgroundColor: COLORS.cardColor, borderColor: COLORS.accentColor }]}
+        onPress={openReviewQueue}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.reviewIcon, { backgroundColor: COLORS.accentColor }]}>
+          <Ionicons name="calendar-outline" size={20} color={COLORS.textColor.white} />
+        </View>
+        <View style={styles.reviewText}>
+          <Text style={[styles.reviewTitle, { color: COLORS.textColor.primary }]}>
+            {dueCards.length} {dueCards.length === 1 ? 'card' : 'cards'} due today
+          </Text>
+          <Text style={[styles.reviewSubtitle, { color: COLORS.textColor.secondary }]}>
+            From {setCount} {setCount === 1 ? 'set' : 'sets'} • Tap to review
+          </Text>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={COLORS.accentColor} />
+      </TouchableOpacity>
+    );
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <Animated.View
@@ -468,7 +518,7 @@ const FlashCardMaker = () => {
             { useNativeDriver: false }
           )}
           scrollEventThrottle={16}
-          ListHeaderComponent={<View style={{ height: 8 }} />}
+          ListHeaderComponent={<View style={{ paddingTop: 8 }}>{renderReviewQueue()}</View>}
           ListFooterComponent={<View style={{ height: 80 }} />}
         />
       )}
@@ -476,9 +526,9 @@ const FlashCardMaker = () => {
       {/* Flash Card Viewer Modal */}
       <FlashCardViewer
         visible={viewerModalVisible}
-        onClose={() => setViewerModalVisible(false)}
-        cards={selectedSet ? parseFlashCards(selectedSet.content) : []}
-        title={selectedSet?.title || ''}
+        onClose={closeFlashCardViewer}
+        cards={viewerCards}
+        title={viewerTitle}
       />
 
       {/* Note Reader Modal for Preview and Edit */}
@@ -833,6 +883,33 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '500',
   },
+  reviewBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  reviewIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  reviewText: {
+    flex: 1,
+  },
+  reviewTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  reviewSubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   actionButton: {
     width: 44,
     height: 44,
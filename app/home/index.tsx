@@ -1,6 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
 import { useRouter } from 'expo-router';
-import React, { useRef, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -17,12 +18,14 @@ import {
 } from 'react-native';
 import AIAnswerModal from '../../components/AIAnswerModal';
 import AIScanModal from '../../components/AIScanModal';
+import AddSubjectModal from '../../components/AddSubjectModal';
 import { useThemeContext } from '../../providers/ThemeProvider';
 import { getAnswerFromImage } from '../../services/geminiServices';
 import {
     addHistory,
     updateHistoryAnswer
 } from "../../services/historyStorage";
+import { BUILT_IN_SUBJECTS, getSubjects, Subject } from "../../services/subjectRegistry";
 import subscriptionService from "../../services/subscriptionService";
 
 const { width, height } = Dimensions.get('window');
@@ -63,23 +66,23 @@ const Explore = () => {
         { name: 'Mind Maps', icon: 'git-network-outline', color: '#96ceb4', bgColor: '#f9fff9', feature: 'mind-maps' },
         { name: 'Homework', icon: 'book-outline', color: '#fa709a', bgColor: '#fff0f5', feature: 'homework' },
         { name: 'Magic Eraser', icon: 'sparkles-outline', color: '#ff6b6b', bgColor: '#fff0f0', feature: 'magic-eraser' },
-       // { name: 'Voice Notes', icon: 'mic-outline', color: '#4ecdc4', bgColor: '#f0fffe', feature: 'voice-notes' },
-       // { name: 'PDF Scanner', icon: 'document-outline', color: '#45b7d1', bgColor: '#f0f9ff', feature: 'pdf-scanner' },
-       // { name: 'Translator', icon: 'language-outline', color: '#ff9ff3', bgColor: '#fff0fe', feature: 'translator' },
+        { name: 'Voice Notes', icon: 'mic-outline', color: '#4ecdc4', bgColor: '#f0fffe', feature: 'voice-notes' },
+        { name: 'PDF Import', icon: 'document-outline', color: '#45b7d1', bgColor: '#f0f9ff', feature: 'pdf-scanner' },
+        { name: 'Translator', icon: 'language-outline', color: '#ff9ff3', bgColor: '#fff0fe', feature: 'translator' },
+        { name: 'Study Timer', icon: 'timer-outline', color: '#feca57', bgColor: '#fffbea', feature: 'timer' },
     ];
 
-    const allSubjects = [
-        { name: 'Mathematics', icon: 'calculator-outline', color: '#667eea', feature: 'mathematics' },
-        { name: 'Physics', icon: 'magnet-outline', color: '#764ba2',  feature: 'physics' },
-        { name: 'Chemistry', icon: 'flask-outline', color: '#f093fb',  feature: 'chemistry' },
-        { name: 'Biology', icon: 'leaf-outline', color: '#43e97b', feature: 'biology' },
-        { name: 'History', icon: 'time-outline', color: '#ff6b6b',  feature: 'history' },
-        { name: 'Geography', icon: 'earth-outline', color: '#4ecdc4',  feature: 'geography' },
-      //  { name: 'Literature', icon: 'library-outline', color: '#45b7d1',  feature: 'literature' },
-       // { name: 'Computer Science', icon: 'laptop-outline', color: '#96ceb4',  feature: 'computer-science' },
-       // { name: 'Economics', icon: 'trending-up-outline', color: '#feca57', feature: 'economics' },
-       // { name: 'Psychology', icon: 'bulb-outline', color: '#ff9ff3',  feature: 'psychology' },
-    ];
+    // Built-in subjects show straight away; custom ones are added once loaded
+    const [allSubjects, setAllSubjects] = useState<Subject[]>(BUILT_IN_SUBJECTS);
+    const [addSubjectVisible, setAddSubjectVisible] = useState(false);
+
+    const loadSubjects = useCallback(() => {
+        getSubjects()
+            .then(setAllSubjects)
+            .catch(error => console.error('Failed to load subjects:', error));
+    }, []);
+
+    useFocusEffect(loadSubjects);
 
     // Image scan modal state
     const [scanModalVisible, setScanModalVisible] = useState(false);
@@ -112,6 +115,12 @@ const Explore = () => {
       'quiz-maker': '/quiz-maker',
       'flash-cards': '/flash-cards',
       'mind-maps':'/mind-maps',
+      'voice-notes': '/study-notes?open=voice',
+      'pdf-scanner': '/study-notes?open=pdf',
+      'magic-eraser': '/study-notes?open=eraser',
+      'translator': '/translator',
+      'homework': '/homework',
+      'timer': '/study-timer',
       // Removed subject routes since they now use direct scanning
     };
 
@@ -144,9 +153,8 @@ const Explore = () => {
       }
     };
 
-    const handleSubjectPress = (feature: string) => {
-        // All subjects now use direct scanning like AI Scan
-        openScanModal(feature);
+    const handleSubjectPress = (subjectId: string) => {
+        router.push({ pathname: '/subject/[id]', params: { id: subjectId } });
     };
 
     const openScanModal = (feature: string) => {
@@ -172,7 +180,7 @@ const Explore = () => {
             await new Promise(resolve => setTimeout(resolve, 300));
             
             // Check and spend credits
-            const creditResult = await subscriptionService.spendCredits(1);
+            const creditResult = await subscriptionService.reserveCredits(1, pendingFeature || 'ai-scan');
             if (!creditResult.success) {
                 hideProcessingModal();
                 Alert.alert(
@@ -198,7 +206,11 @@ const Explore = () => {
             
             try {
                 // Get answer directly from image using Gemini
-                const { answer } = await getAnswerFromImage(uri);
+                const { answer } = await subscriptionService.runWithCredits(
+                    creditResult.reservation,
+                    credits => getAnswerFromImage(uri, 'ai-scan', credits),
+                    result => !result.answer?.trim()
+                );
                 
                 setProcessingStep('Finalizing...');
                 await new Promise(resolve => setTimeout(resolve, 300));
@@ -245,12 +257,6 @@ const Explore = () => {
         'study-notes': 'Create Study Note',
         'ai-scan': 'AI Scan',
         'calculator': 'Math Problem',
-        'physics': 'Physics Problem',
-        'chemistry': 'Chemistry Problem',
-        'biology': 'Biology Problem',
-        'mathematics': 'Mathematics Problem',
-        'history': 'History Question',
-        'geography': 'Geography Question',
         'homework': 'Homework Help',
         'magic-eraser': 'Magic Eraser',
       };
@@ -265,12 +271,6 @@ const Explore = () => {
         'study-notes': 'Take a photo or choose from gallery to create a study note',
         'ai-scan': 'Take a photo or choose from gallery to get AI analysis',
         'calculator': 'Take a photo of a math problem to get the solution',
-        'physics': 'Take a photo of a physics problem to get the solution',
-        'chemistry': 'Take a photo of a chemistry problem to get the solution',
-        'biology': 'Take a photo of a biology problem to get the solution',
-        'mathematics': 'Take a photo of a math problem to get the solution',
-        'history': 'Take a photo of a history question to get the answer',
-        'geography': 'Take a photo of a geography question to get the answer',
         'homework': 'Take a photo of your homework to get help',
         'magic-eraser': 'Take a photo to remove unwanted elements',
       };
@@ -285,12 +285,6 @@ const Explore = () => {
         'study-notes': 'Create Note',
         'ai-scan': 'Get AI Answer',
         'calculator': 'Solve Problem',
-        'physics': 'Get Solution',
-        'chemistry': 'Get Solution',
-        'biology': 'Get Solution',
-        'mathematics': 'Solve Problem',
-        'history': 'Get Answer',
-        'geography': 'Get Answer',
         'homework': 'Get Help',
         'magic-eraser': 'Remove Elements',
       };
@@ -305,12 +299,6 @@ const Explore = () => {
         'study-notes': 'document-text-outline',
         'ai-scan': 'sparkles-outline',
         'calculator': 'calculator-outline',
-        'physics': 'magnet-outline',
-        'chemistry': 'flask-outline',
-        'biology': 'leaf-outline',
-        'mathematics': 'calculator-outline',
-        'history': 'time-outline',
-        'geography': 'earth-outline',
         'homework': 'book-outline',
         'magic-eraser': 'sparkles-outline',
       };
@@ -329,6 +317,12 @@ const Explore = () => {
                     <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Ready to learn?</Text>
                 </View>
                 <View style={styles.headerButtons}>
+                    <TouchableOpacity 
+                        style={[styles.historyButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+                        onPress={() => router.push('/search' as any)}
+                    >
+                        <Ionicons name="search-outline" size={20} color={COLORS.accentColor} />
+                    </TouchableOpacity>
                     <TouchableOpacity 
                         style={[styles.historyButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
                         onPress={() => router.push('/HistoryList' as any)}
@@ -390,15 +384,15 @@ const Explore = () => {
                     </View>
                     
                     <View style={styles.subjectsContainer}>
-                        {displayedSubjects.map((subject, index) => (
+                        {displayedSubjects.map(subject => (
                             <TouchableOpacity 
-                                key={index} 
+                                key={subject.id} 
                                 style={[styles.subjectCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
-                                onPress={() => handleSubjectPress(subject.feature)}
+                                onPress={() => handleSubjectPress(subject.id)}
                                 activeOpacity={0.8}
                             >
                                 <View style={[styles.subjectIcon, { backgroundColor: subject.color }]}>
-                                    <Ionicons name={subject.icon as any} size={24} color="white" />
+                                    <Ionicons name={subject.icon} size={24} color="white" />
                                 </View>
                                 <View style={styles.subjectInfo}>
                                     <Text style={[styles.subjectName, { color: COLORS.textColor.primary }]}>{subject.name}</Text>
@@ -406,10 +400,30 @@ const Explore = () => {
                                 <Ionicons name="chevron-forward" size={16} color={COLORS.iconColor} />
                             </TouchableOpacity>
                         ))}
+                        {showAllSubjects && (
+                            <TouchableOpacity
+                                style={[styles.subjectCard, styles.addSubjectCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+                                onPress={() => setAddSubjectVisible(true)}
+                                activeOpacity={0.8}
+                            >
+                                <View style={[styles.subjectIcon, { backgroundColor: COLORS.backgroundColor, borderColor: COLORS.borderColor, borderWidth: 1 }]}>
+                                    <Ionicons name="add" size={24} color={COLORS.accentColor} />
+                                </View>
+                                <View style={styles.subjectInfo}>
+                                    <Text style={[styles.subjectName, { color: COLORS.accentColor }]}>Add subject</Text>
+                                </View>
+                            </TouchableOpacity>
+                        )}
                     </View>
                 </View>
             </ScrollView>
 
+            <AddSubjectModal
+                visible={addSubjectVisible}
+                onClose={() => setAddSubjectVisible(false)}
+                onSubjectAdded={loadSubjects}
+            />
+
             {/* AI Scan Modal */}
             <AIScanModal
                 visible={scanModalVisible}
@@ -582,6 +596,9 @@ const styles = StyleSheet.create({
         shadowRadius: 8,
         elevation: 2,
     },
+    addSubjectCard: {
+        borderStyle: 'dashed',
+    },
     subjectIcon: {
         width: 48,
         height: 48,
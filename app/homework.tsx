@@ -0,0 +1,632 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import ImageScanModal from '../components/ImageScanModal';
+import MathMarkdown from '../components/MathMarkdown';
+import SolutionSteps from '../components/SolutionSteps';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { AIRequestCancelledError, getAIErrorMessage } from '../services/aiGateway';
+import { checkHomeworkWork, getHomeworkHints, processImage } from '../services/geminiServices';
+import { addHistory } from '../services/historyStorage';
+import subscriptionService from '../services/subscriptionService';
+import { HintLadder, parseHintLadder, parseWorkCheck, WorkCheck, WorkVerdict } from '../utils/homeworkHelp';
+import { parseSolutionSteps } from '../utils/solutionSteps';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#fa709a',
+  dangerColor: '#ff6b6b',
+  warningColor: '#f59e0b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+type HomeworkMode = 'hints' | 'check';
+type ScanTarget = 'problem' | 'attempt';
+
+const HINT_LEVELS = ['Nudge', 'Next Step', 'Full Solution'];
+
+const VERDICTS: Record<WorkVerdict, { label: string; icon: string }> = {
+  correct: { label: 'Correct', icon: 'checkmark-circle' },
+  'partly-correct': { label: 'Partly Correct', icon: 'alert-circle' },
+  incorrect: { label: 'Not Quite', icon: 'close-circle' },
+};
+
+const Homework = () => {
+  const router = useRouter();
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+
+  const [mode, setMode] = useState<HomeworkMode>('hints');
+  const [problem, setProblem] = useState('');
+  const [attempt, setAttempt] = useState('');
+  const [scanTarget, setScanTarget] = useState<ScanTarget | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  // Raw answer, kept for layouts the parsers don't recognise
+  const [answer, setAnswer] = useState<string | null>(null);
+  const [hints, setHints] = useState<HintLadder | null>(null);
+  const [hintLevel, setHintLevel] = useState(1);
+  const [workCheck, setWorkCheck] = useState<WorkCheck | null>(null);
+  const [showCorrectSolution, setShowCorrectSolution] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const clearResult = () => {
+    setAnswer(null);
+    setHints(null);
+    setHintLevel(1);
+    setWorkCheck(null);
+    setShowCorrectSolution(false);
+  };
+
+  const switchMode = (next: HomeworkMode) => {
+    if (next === mode || isWorking) return;
+    setMode(next);
+    clearResult();
+  };
+
+  const showOutOfCredits = (message: string) => {
+    Alert.alert('Out of Credits', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Get Credits', onPress: () => router.push('/paywall') },
+    ]);
+  };
+
+  const processScannedImage = async (uri: string): Promise<string> => {
+    const creditResult = await subscriptionService.reserveCredits(1, 'homework');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || 'You need at least 1 credit to scan an image.');
+      throw new Error('Insufficient credits');
+    }
+    const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
+    return text.trim();
+  };
+
+  const handleScannedText = (text: string) => {
+    if (scanTarget === 'attempt') setAttempt(text);
+    else setProblem(text);
+    clearResult();
+  };
+
+  const submit = async () => {
+    const problemText = problem.trim();
+    const attemptText = attempt.trim();
+    if (!problemText || (mode === 'check' && !attemptText)) return;
+
+    const creditResult = await subscriptionService.reserveCredits(1, 'homework');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || 'You need 1 credit for homework help.');
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsWorking(true);
+    clearResult();
+    try {
+      const response = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        mode === 'hints'
+          ? getHomeworkHints(problemText, { ...credits, signal: abortController.signal })
+          : checkHomeworkWork(problemText, attemptText, { ...credits, signal: abortController.signal })
+      );
+      setAnswer(response);
+      if (mode === 'hints') setHints(parseHintLadder(response));
+      else setWorkCheck(parseWorkCheck(response));
+      addHistory('', 'homework', problemText, response).catch(error =>
+        console.warn('Failed to record homework history:', error)
+      );
+    } catch (error) {
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('Homework help failed:', error);
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to get help with this problem. Please try again.'));
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsWorking(false);
+    }
+  };
+
+  const renderInput = (
+    label: string,
+    value: string,
+    onChange: (text: string) => void,
+    placeholder: string,
+    target: ScanTarget
+  ) => (
+    <View style={[styles.card, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+      <View style={styles.cardHeader}>
+        <Text style={[styles.cardLabel, { color: COLORS.textColor.secondary }]}>{label}</Text>
+        <TouchableOpacity style={styles.scanButton} onPress={() => setScanTarget(target)} disabled={isWorking}>
+          <Ionicons name="scan-outline" size={18} color={COLORS.accentColor} />
+          <Text style={[styles.scanButtonText, { color: COLORS.accentColor }]}>Scan</Text>
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={[styles.input, { color: COLORS.textColor.primary }]}
+        value={value}
+        onChangeText={text => {
+          onChange(text);
+          clearResult();
+        }}
+        placeholder={placeholder}
+        placeholderTextColor={COLORS.textColor.light}
+        multiline
+        textAlignVertical="top"
+        editable={!isWorking}
+      />
+    </View>
+  );
+
+  const renderHintCard = (level: number, content: React.ReactNode) => (
+    <View key={level} style={[styles.card, styles.hintCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+      <View style={styles.hintHeader}>
+        <View style={[styles.levelBadge, { backgroundColor: COLORS.accentColor }]}>
+          <Text style={[styles.levelBadgeText, { color: COLORS.textColor.white }]}>{level}</Text>
+        </View>
+        <Text style={[styles.hintTitle, { color: COLORS.textColor.primary }]}>{HINT_LEVELS[level - 1]}</Text>
+      </View>
+      {content}
+    </View>
+  );
+
+  const renderHints = () => {
+    if (!answer) return null;
+    if (!hints) {
+      // The answer didn't come back as a ladder; show it whole
+      return (
+        <View style={[styles.card, styles.hintCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <MathMarkdown content={answer} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+        </View>
+      );
+    }
+
+    const parsedSolution = parseSolutionSteps(hints.solution);
+    const nextLabel = hintLevel === 1 ? 'Show Next Step' : 'Show Full Solution';
+    return (
+      <>
+        <Text style={[styles.progress, { color: COLORS.textColor.secondary }]}>
+          Hint {hintLevel} of {HINT_LEVELS.length}
+        </Text>
+        {renderHintCard(
+          1,
+          <MathMarkdown content={hints.nudge} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+        )}
+        {hintLevel >= 2 &&
+          renderHintCard(
+            2,
+            <MathMarkdown content={hints.nextStep} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+          )}
+        {hintLevel >= 3 &&
+          renderHintCard(
+            3,
+            parsedSolution ? (
+              <SolutionSteps solution={parsedSolution} accentColor={COLORS.accentColor} />
+            ) : (
+              <MathMarkdown content={hints.solution} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+            )
+          )}
+
+        {hintLevel < HINT_LEVELS.length && (
+          <>
+            <Text style={[styles.tryFirst, { color: COLORS.textColor.light }]}>Give it a try before revealing more.</Text>
+            <TouchableOpacity
+              style={[styles.secondaryButton, { borderColor: COLORS.accentColor }]}
+              onPress={() => setHintLevel(level => level + 1)}
+            >
+              <Ionicons name={hintLevel === 1 ? 'footsteps-outline' : 'eye-outline'} size={18} color={COLORS.accentColor} />
+              <Text style={[styles.secondaryButtonText, { color: COLORS.accentColor }]}>{nextLabel}</Text>
+            </TouchableOpacity>
+          </>
+        )}
+        <TouchableOpacity style={styles.linkButton} onPress={() => switchMode('check')}>
+          <Ionicons name="checkmark-done-outline" size={18} color={COLORS.accentColor} />
+          <Text style={[styles.linkText, { color: COLORS.accentColor }]}>Solved it? Check your work</Text>
+        </TouchableOpacity>
+      </>
+    );
+  };
+
+  const renderWorkCheck = () => {
+    if (!answer) return null;
+    if (!workCheck) {
+      return (
+        <View style={[styles.card, styles.hintCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <MathMarkdown content={answer} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+        </View>
+      );
+    }
+
+    const verdictColor =
+      workCheck.verdict === 'correct'
+        ? COLORS.successColor
+        : workCheck.verdict === 'partly-correct'
+          ? COLORS.warningColor
+          : COLORS.dangerColor;
+    const verdict = workCheck.verdict ? VERDICTS[workCheck.verdict] : null;
+
+    return (
+      <>
+        <View style={[styles.verdict, { backgroundColor: `${verdictColor}1a`, borderColor: verdictColor }]}>
+          {verdict && (
+            <View style={styles.verdictHeader}>
+              <Ionicons name={verdict.icon as any} size={24} color={verdictColor} />
+              <Text style={[styles.verdictLabel, { color: verdictColor }]}>{verdict.label}</Text>
+            </View>
+          )}
+          <MathMarkdown content={workCheck.summary} textColor={COLORS.textColor.primary} accentColor={verdictColor} />
+        </View>
+
+        {workCheck.mistakes.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>
+              {workCheck.mistakes.length === 1 ? '1 Mistake' : `${workCheck.mistakes.length} Mistakes`}
+            </Text>
+            {workCheck.mistakes.map((mistake, index) => (
+              <View
+                key={index}
+                style={[styles.mistake, { backgroundColor: COLORS.cardColor, borderLeftColor: COLORS.dangerColor }]}
+              >
+                <Text style={[styles.mistakeNumber, { color: COLORS.dangerColor }]}>{index + 1}</Text>
+                <View style={styles.mistakeBody}>
+                  <MathMarkdown content={mistake} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+                </View>
+              </View>
+            ))}
+          </>
+        )}
+
+        {!!workCheck.strengths && (
+          <>
+            <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>What You Did Well</Text>
+            <View style={[styles.card, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+              <MathMarkdown content={workCheck.strengths} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+            </View>
+          </>
+        )}
+
+        {!!workCheck.correctSolution && (
+          showCorrectSolution ? (
+            <>
+              <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Correct Solution</Text>
+              <View style={[styles.card, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+                <MathMarkdown
+                  content={workCheck.correctSolution}
+                  textColor={COLORS.textColor.primary}
+                  accentColor={COLORS.accentColor}
+                />
+              </View>
+            </>
+          ) : (
+            <TouchableOpacity
+              style={[styles.secondaryButton, { borderColor: COLORS.accentColor }]}
+              onPress={() => setShowCorrectSolution(true)}
+            >
+              <Ionicons name="eye-outline" size={18} color={COLORS.accentColor} />
+              <Text style={[styles.secondaryButtonText, { color: COLORS.accentColor }]}>Show Correct Solution</Text>
+            </TouchableOpacity>
+          )
+        )}
+      </>
+    );
+  };
+
+  const canSubmit = !!problem.trim() && (mode === 'hints' || !!attempt.trim());
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+      <StatusBar barStyle={resolvedTheme === 'dark' ? 'light-content' : 'dark-content'} backgroundColor={COLORS.headerBackground} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+        <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Homework Helper</Text>
+        <Text style={[styles.headerSubtitle, { color: COLORS.textColor.secondary }]}>
+          {mode === 'hints' ? 'Get unstuck one hint at a time' : 'Find out where your answer went wrong'}
+        </Text>
+        <View style={[styles.modeToggle, { backgroundColor: COLORS.backgroundColor }]}>
+          {(['hints', 'check'] as HomeworkMode[]).map(option => {
+            const selected = mode === option;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.modeOption, selected && { backgroundColor: COLORS.accentColor }]}
+                onPress={() => switchMode(option)}
+              >
+                <Ionicons
+                  name={option === 'hints' ? 'bulb-outline' : 'checkmark-done-outline'}
+                  size={18}
+                  color={selected ? COLORS.textColor.white : COLORS.textColor.secondary}
+                />
+                <Text style={[styles.modeText, { color: selected ? COLORS.textColor.white : COLORS.textColor.secondary }]}>
+                  {option === 'hints' ? 'Guided Hints' : 'Check My Work'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {renderInput('Problem', problem, setProblem, 'Type the question or scan it from your book', 'problem')}
+        {mode === 'check' &&
+          renderInput('Your Work', attempt, setAttempt, 'Write out your steps and answer, or scan your page', 'attempt')}
+
+        {isWorking ? (
+          <View style={styles.working}>
+            <ActivityIndicator size="small" color={COLORS.accentColor} />
+            <Text style={[styles.workingText, { color: COLORS.textColor.secondary }]}>
+              {mode === 'hints' ? 'Working out hints...' : 'Checking your work...'}
+            </Text>
+            <TouchableOpacity onPress={() => abortControllerRef.current?.abort()}>
+              <Text style={[styles.cancelText, { color: COLORS.dangerColor }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          !answer && (
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: COLORS.accentColor }, !canSubmit && styles.disabled]}
+              onPress={submit}
+              disabled={!canSubmit}
+            >
+              <Ionicons
+                name={mode === 'hints' ? 'bulb-outline' : 'checkmark-done-outline'}
+                size={20}
+                color={COLORS.textColor.white}
+              />
+              <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>
+                {mode === 'hints' ? 'Get a Hint (1 Credit)' : 'Check My Work (1 Credit)'}
+              </Text>
+            </TouchableOpacity>
+          )
+        )}
+
+        {mode === 'hints' ? renderHints() : renderWorkCheck()}
+      </ScrollView>
+
+      <ImageScanModal
+        visible={scanTarget !== null}
+        onClose={() => setScanTarget(null)}
+        onImageProcessed={handleScannedText}
+        onProcessImage={processScannedImage}
+        title={scanTarget === 'attempt' ? 'Scan Your Work' : 'Scan the Problem'}
+        subtitle={
+          scanTarget === 'attempt'
+            ? 'Take a photo of your written working and answer'
+            : 'Take a photo of the question from your book or worksheet'
+        }
+        actionButtonText="Use This Text"
+        actionButtonIcon="checkmark-outline"
+        accentColor={COLORS.accentColor}
+        showExtractedText={true}
+        showActionButton={true}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default Homework;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 50,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    borderRadius: 14,
+    padding: 4,
+    marginTop: 16,
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  scanButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    minHeight: 100,
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 4,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 4,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  linkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 16,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  working: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 18,
+  },
+  workingText: {
+    fontSize: 15,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  progress: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  hintCard: {
+    marginTop: 0,
+  },
+  hintHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 10,
+  },
+  levelBadge: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  levelBadgeText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  hintTitle: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  tryFirst: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  verdict: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+    marginTop: 16,
+  },
+  verdictHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 6,
+  },
+  verdictLabel: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  mistake: {
+    flexDirection: 'row',
+    gap: 12,
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    padding: 14,
+    marginBottom: 10,
+  },
+  mistakeNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  mistakeBody: {
+    flex: 1,
+  },
+});
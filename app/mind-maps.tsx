@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
-import { useRouter } from 'expo-router';
-import React, { useCallback, useRef, useState } from 'react';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
@@ -20,6 +20,7 @@ import {
 } from 'react-native';
 import ImageScanModal from '../components/ImageScanModal';
 import MindMapViewer from '../components/MindMapViewer';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { generateMindMapFromNotes } from '../services/geminiServices';
 import { addMindMap, getAllMindMaps, updateMindMap } from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
@@ -59,6 +60,9 @@ interface ErrorState {
 
 const MindMaps = () => {
   const router = useRouter();
+  // Set when another screen (e.g. search) links straight to one mind map
+  const { openId } = useLocalSearchParams<{ openId?: string }>();
+  const openedIdRef = useRef<string | null>(null);
   const [mindMaps, setMindMaps] = useState<MindMap[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedMindMap, setSelectedMindMap] = useState<MindMap | null>(null);
@@ -132,7 +136,7 @@ const MindMaps = () => {
     try {
       setIsGenerating(true);
       clearError();
-      const creditResult = await subscriptionService.spendCredits(2);
+      const creditResult = await subscriptionService.reserveCredits(2, 'mind-maps');
       if (!creditResult.success) {
         Alert.alert(
           'Out of Credits',
@@ -148,7 +152,7 @@ const MindMaps = () => {
       // Get raw AI response
       // Pass mode: topic if not from scan, notes if from scan
       const mode = scannedText ? 'notes' : 'topic';
-      const mindMapRaw = await generateMindMapFromNotes(inputContent, mode);
+      const mindMapRaw = await subscriptionService.runWithCredits(creditResult.reservation, credits => generateMindMapFromNotes(inputContent, mode, credits));
       let rawToStore = '';
       if (typeof mindMapRaw === 'object') {
         rawToStore = JSON.stringify(mindMapRaw);
@@ -158,7 +162,8 @@ const MindMaps = () => {
       setGeneratedMindMapRaw(rawToStore);
       setGeneratedMindMap(rawToStore);
     } catch (error) {
-      handleError('generating', 'Failed to generate mind map. Please try again.', true);
+      console.error('Mind map generation error:', error);
+      handleError('generating', getAIErrorMessage(error, 'Failed to generate mind map. Please try again.'), true);
     } finally {
       setIsGenerating(false);
     }
@@ -182,6 +187,15 @@ const MindMaps = () => {
     setPreviewModalVisible(true);
   };
 
+  useEffect(() => {
+    if (!openId || openedIdRef.current === openId) return;
+    const mindMap = mindMaps.find(map => String(map.id) === openId);
+    if (mindMap) {
+      openedIdRef.current = openId;
+      openPreview(mindMap);
+    }
+  }, [openId, mindMaps]);
+
   const closePreview = () => {
     setPreviewModalVisible(false);
     setSelectedMindMap(null);
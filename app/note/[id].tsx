@@ -2,18 +2,40 @@ import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Alert, KeyboardAvoidingView, Platform, ScrollView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import MathMarkdown from '../../components/MathMarkdown';
 import { useThemeColor } from '../../hooks/useThemeColor';
 import { addHistory, addNote, getFlashCardSetById, getNoteById, getQuizById, getScanNoteById, updateFlashCardSet, updateHistoryNote, updateNote, updateQuiz, updateScanNote } from '../../services/historyStorage';
+import { applyMarkdownFormat, MarkdownFormat, TextSelection } from '../../utils/markdownEditing';
+import { parseQuizDocument, quizContentToText, serializeQuizDocument } from '../../utils/quizFormat';
+
+const TOOLBAR_ACTIONS: { format: MarkdownFormat; icon?: keyof typeof Ionicons.glyphMap; label?: string }[] = [
+    { format: 'heading', label: 'H' },
+    { format: 'bold', label: 'B' },
+    { format: 'italic', label: 'I' },
+    { format: 'bullet-list', icon: 'list' },
+    { format: 'numbered-list', label: '1.' },
+    { format: 'quote', icon: 'chatbox-ellipses-outline' },
+    { format: 'code', icon: 'code-slash' },
+    { format: 'math', label: '∑' },
+    { format: 'table', icon: 'grid-outline' },
+];
 
 export default function NoteDetailScreen() {
-    const { id, isQuiz: isQuizParam } = useLocalSearchParams<{ id: string, isQuiz?: string }>();
+    // `type` names the table when the caller knows it (e.g. search results);
+    // without it the id is looked up in each table in turn
+    const { id, isQuiz: isQuizParam, type } = useLocalSearchParams<{ id: string, isQuiz?: string, type?: 'note' | 'scan-note' | 'flash-cards' }>();
     const router = useRouter();
     const [title, setTitle] = useState('');
     const [content, setContent] = useState('');
     const [isScanNote, setIsScanNote] = useState(false);
     const [isFlashCardSet, setIsFlashCardSet] = useState(false);
+    const [isPreview, setIsPreview] = useState(false);
+    const [selection, setSelection] = useState<TextSelection>({ start: 0, end: 0 });
     const isNew = id === 'new';
     const isQuiz = isQuizParam === 'true';
+    // Quizzes and flash card sets have their own text formats, so only notes
+    // get Markdown formatting and preview
+    const isMarkdown = !isQuiz && !isFlashCardSet;
 
     // Theme colors
     const backgroundColor = useThemeColor({}, 'background');
@@ -29,7 +51,16 @@ export default function NoteDetailScreen() {
                     const quiz = await getQuizById(Number(id));
                     if (quiz) {
                         setTitle(quiz.title);
-                        setContent(quiz.content);
+                        // Quizzes are edited in their readable text form and parsed back on save
+                        setContent(quizContentToText(quiz.content));
+                    }
+                } else if (type === 'note' || type === 'scan-note') {
+                    const note = type === 'scan-note' ? await getScanNoteById(Number(id)) : await getNoteById(Number(id));
+                    if (note) {
+                        setIsScanNote(type === 'scan-note');
+                        setIsFlashCardSet(false);
+                        setTitle(note.title);
+                        setContent(note.content);
                     }
                 } else {
                     // First try to load as flash card set
@@ -62,7 +93,13 @@ export default function NoteDetailScreen() {
             };
             loadNote();
         }
-    }, [id, isNew, isQuiz]);
+    }, [id, isNew, isQuiz, type]);
+
+    const applyFormat = (format: MarkdownFormat) => {
+        const result = applyMarkdownFormat(content, selection, format);
+        setContent(result.text);
+        setSelection(result.selection);
+    };
 
     const handleSave = async () => {
         if (!title.trim()) {
@@ -75,7 +112,12 @@ export default function NoteDetailScreen() {
                 await addHistory('', 'notes', title, content); 
             } else {
                 if (isQuiz) {
-                    await updateQuiz(Number(id), title, content);
+                    const quizDocument = parseQuizDocument(content);
+                    if (quizDocument.questions.length === 0) {
+                        Alert.alert("No Questions Found", "Use the format \"1. Question\" followed by \"A) Option\" lines, marking the correct option with ✓.");
+                        return;
+                    }
+                    await updateQuiz(Number(id), title, serializeQuizDocument(quizDocument));
                     await addHistory('', 'quiz-updated', title, content);
                 } else if (isFlashCardSet) {
                     await updateFlashCardSet(Number(id), title, content);
@@ -115,11 +157,49 @@ export default function NoteDetailScreen() {
                         </View>
                     )}
                 </View>
-                <TouchableOpacity style={[styles.saveButton, { backgroundColor: iconColor }]} onPress={handleSave}>
-                    <Text style={styles.saveButtonText}>Save</Text>
-                </TouchableOpacity>
+                <View style={styles.headerActions}>
+                    {isMarkdown && (
+                        <TouchableOpacity style={styles.previewButton} onPress={() => setIsPreview(preview => !preview)}>
+                            <Ionicons name={isPreview ? 'create-outline' : 'eye-outline'} size={22} color={iconColor} />
+                        </TouchableOpacity>
+                    )}
+                    <TouchableOpacity style={[styles.saveButton, { backgroundColor: iconColor }]} onPress={handleSave}>
+                        <Text style={styles.saveButtonText}>Save</Text>
+                    </TouchableOpacity>
+                </View>
             </View>
-            <ScrollView contentContainerStyle={styles.scrollContainer}>
+            {isMarkdown && !isPreview && (
+                <ScrollView
+                    horizontal
+                    showsHorizontalScrollIndicator={false}
+                    keyboardShouldPersistTaps="always"
+                    style={[styles.toolbar, { borderBottomColor: borderColor }]}
+                    contentContainerStyle={styles.toolbarContent}
+                >
+                    {TOOLBAR_ACTIONS.map(action => (
+                        <TouchableOpacity
+                            key={action.format}
+                            style={[styles.toolbarButton, { borderColor }]}
+                            onPress={() => applyFormat(action.format)}
+                        >
+                            {action.icon ? (
+                                <Ionicons name={action.icon} size={18} color={textColor} />
+                            ) : (
+                                <Text
+                                    style={[
+                                        styles.toolbarLabel,
+                                        { color: textColor },
+                                        action.format === 'italic' && styles.toolbarLabelItalic,
+                                    ]}
+                                >
+                                    {action.label}
+                                </Text>
+                            )}
+                        </TouchableOpacity>
+                    ))}
+                </ScrollView>
+            )}
+            <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
                 <TextInput
                     style={[styles.titleInput, { color: textColor, borderBottomColor: borderColor }]}
                     placeholder="Title"
@@ -127,14 +207,24 @@ export default function NoteDetailScreen() {
                     value={title}
                     onChangeText={setTitle}
                 />
-                <TextInput
-                    style={[styles.contentInput, { color: textColor }]}
-                    placeholder={isQuiz ? "Edit your quiz questions and answers here..." : isFlashCardSet ? "Edit your flash card content here..." : "Start writing your note here..."}
-                    placeholderTextColor={iconColor}
-                    value={content}
-                    onChangeText={setContent}
-                    multiline
-                />
+                {isMarkdown && isPreview ? (
+                    content.trim() ? (
+                        <MathMarkdown content={content} textColor={textColor} fontSize={18} />
+                    ) : (
+                        <Text style={[styles.previewEmpty, { color: iconColor }]}>Nothing to preview yet</Text>
+                    )
+                ) : (
+                    <TextInput
+                        style={[styles.contentInput, { color: textColor }]}
+                        placeholder={isQuiz ? "Edit your quiz questions and answers here..." : isFlashCardSet ? "Edit your flash card content here..." : "Start writing your note here..."}
+                        placeholderTextColor={iconColor}
+                        value={content}
+                        onChangeText={setContent}
+                        selection={isMarkdown ? selection : undefined}
+                        onSelectionChange={event => setSelection(event.nativeEvent.selection)}
+                        multiline
+                    />
+                )}
             </ScrollView>
         </KeyboardAvoidingView>
     );
@@ -179,6 +269,44 @@ const styles = StyleSheet.create({
         // color: '#6366f1', // replaced by theme
         marginLeft: 4,
     },
+    headerActions: {
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    previewButton: {
+        padding: 6,
+        marginRight: 8,
+    },
+    toolbar: {
+        flexGrow: 0,
+        borderBottomWidth: 1,
+    },
+    toolbarContent: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        gap: 8,
+    },
+    toolbarButton: {
+        minWidth: 36,
+        height: 36,
+        paddingHorizontal: 8,
+        borderRadius: 8,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    toolbarLabel: {
+        fontSize: 16,
+        fontWeight: '700',
+    },
+    toolbarLabelItalic: {
+        fontStyle: 'italic',
+        fontWeight: '500',
+    },
+    previewEmpty: {
+        fontSize: 16,
+        fontStyle: 'italic',
+    },
     saveButton: {
         // backgroundColor: '#667eea', // replaced by theme
         paddingHorizontal: 16,
@@ -20,10 +20,12 @@ import FlashCardGenerationModal from '../components/FlashCardGenerationModal';
 import FlashCardViewer from '../components/FlashCardViewer';
 import MindMapGenerationModal from '../components/MindMapGenerationModal';
 import NoteChatModal from '../components/NoteChatModal';
+import NoteFilterBar from '../components/NoteFilterBar';
+import NoteOrganizeModal from '../components/NoteOrganizeModal';
 import NoteReaderModal from '../components/NoteReaderModal';
 import QuizGenerationModal from '../components/QuizGenerationModal';
 import { useThemeContext } from '../providers/ThemeProvider';
-import { deleteNote, getAllNotes, Note, updateNote } from '../services/historyStorage';
+import { deleteNote, getAllNotes, getNoteTagNames, Note, updateNote } from '../services/historyStorage';
 
 // Dynamic color scheme based on theme
 const getColors = (isDark: boolean) => ({
@@ -60,6 +62,11 @@ export default function NotesScreen() {
     const [chatTargetNote, setChatTargetNote] = useState<Note | null>(null);
     const [mindMapModalVisible, setMindMapModalVisible] = useState(false);
     const [mindMapTargetNote, setMindMapTargetNote] = useState<Note | null>(null);
+    const [organizeTargetNote, setOrganizeTargetNote] = useState<Note | null>(null);
+    const [selectedFolderId, setSelectedFolderId] = useState<number | undefined>();
+    const [selectedTagId, setSelectedTagId] = useState<number | undefined>();
+    const [tagNames, setTagNames] = useState<Record<number, string[]>>({});
+    const [filterRefreshKey, setFilterRefreshKey] = useState(0);
     const router = useRouter();
 
     // Theme context
@@ -71,9 +78,13 @@ export default function NotesScreen() {
     const fadeAnim = React.useRef(new Animated.Value(1)).current;
 
     const loadNotes = useCallback(async () => {
-        const allNotes = await getAllNotes();
+        const [allNotes, noteTagNames] = await Promise.all([
+            getAllNotes({ folderId: selectedFolderId, tagId: selectedTagId }),
+            getNoteTagNames('note'),
+        ]);
         setNotes(allNotes);
-    }, []);
+        setTagNames(noteTagNames);
+    }, [selectedFolderId, selectedTagId]);
 
     useFocusEffect(
         useCallback(() => {
@@ -85,9 +96,10 @@ export default function NotesScreen() {
         return notes.filter(
             (note) =>
                 note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                note.content.toLowerCase().includes(searchQuery.toLowerCase())
+                note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
+                (tagNames[note.id] ?? []).some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
         );
-    }, [notes, searchQuery]);
+    }, [notes, searchQuery, tagNames]);
 
     const handleDelete = (id: number) => {
         Alert.alert(
@@ -176,6 +188,11 @@ export default function NotesScreen() {
         setChatTargetNote(null);
     };
 
+    const handleChatNoteUpdated = (content: string) => {
+        setChatTargetNote(prev => (prev ? { ...prev, content } : prev));
+        loadNotes();
+    };
+
     const openMindMapModal = (note: Note) => {
         setMindMapTargetNote(note);
         setMindMapModalVisible(true);
@@ -188,6 +205,11 @@ export default function NotesScreen() {
         loadNotes();
     };
 
+    const handleNoteOrganized = () => {
+        setFilterRefreshKey(key => key + 1);
+        loadNotes();
+    };
+
     const parseFlashCards = (content: string): { front: string; back: string }[] => {
         return content
             .split('---')
@@ -285,6 +307,14 @@ export default function NotesScreen() {
                                     {wordCount} words
                                 </Text>
                             </View>
+                            {(tagNames[item.id] ?? []).length > 0 && (
+                                <View style={[styles.statItem, { backgroundColor: COLORS.backgroundColor }]}>
+                                    <Ionicons name="pricetag" size={14} color={COLORS.accentColor} />
+                                    <Text style={[styles.statText, { color: COLORS.textColor.secondary }]} numberOfLines={1}>
+                                        {tagNames[item.id].map(tag => `#${tag}`).join(' ')}
+                                    </Text>
+                                </View>
+                            )}
                         </View>
                     </View>
                 </TouchableOpacity>
@@ -336,6 +366,13 @@ export default function NotesScreen() {
                         <Ionicons name="git-network-outline" size={18} color={COLORS.primary} />
                     </TouchableOpacity>
                     
+                    <TouchableOpacity 
+                        style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
+                        onPress={() => setOrganizeTargetNote(item)}
+                    >
+                        <Ionicons name="pricetag-outline" size={18} color={COLORS.primary} />
+                    </TouchableOpacity>
+                    
                     <TouchableOpacity 
                         style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
                         onPress={() => handleDelete(item.id)}
@@ -347,33 +384,36 @@ export default function NotesScreen() {
         );
     };
 
-    const renderEmptyState = () => (
-        <View style={styles.emptyContainer}>
-            <View style={[styles.emptyIconContainer, { backgroundColor: COLORS.backgroundColor }]}>
-                <Ionicons name="journal" size={64} color={COLORS.accentColor} />
+    const renderEmptyState = () => {
+        const isFiltered = !!searchQuery || selectedFolderId !== undefined || selectedTagId !== undefined;
+        return (
+            <View style={styles.emptyContainer}>
+                <View style={[styles.emptyIconContainer, { backgroundColor: COLORS.backgroundColor }]}>
+                    <Ionicons name="journal" size={64} color={COLORS.accentColor} />
+                </View>
+                <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>
+                    {isFiltered ? "No notes found" : "No notes yet"}
+                </Text>
+                <Text style={[styles.emptySubtitle, { color: COLORS.textColor.secondary }]}>
+                    {isFiltered 
+                        ? "Try adjusting your search or filters"
+                        : "Create your first note to get started"
+                    }
+                </Text>
+                {!isFiltered && (
+                    <TouchableOpacity
+                        style={[styles.createButton, { backgroundColor: COLORS.accentColor }]}
+                        onPress={() => router.push("/note/new" as any)}
+                    >
+                        <Ionicons name="add" size={20} color={COLORS.textColor.white} />
+                        <Text style={[styles.createButtonText, { color: COLORS.textColor.white }]}>
+                            Create Note
+                        </Text>
+                    </TouchableOpacity>
+                )}
             </View>
-            <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>
-                {searchQuery ? "No notes found" : "No notes yet"}
-            </Text>
-            <Text style={[styles.emptySubtitle, { color: COLORS.textColor.secondary }]}>
-                {searchQuery 
-                    ? "Try adjusting your search terms"
-                    : "Create your first note to get started"
-                }
-            </Text>
-            {!searchQuery && (
-                <TouchableOpacity
-                    style={[styles.createButton, { backgroundColor: COLORS.accentColor }]}
-                    onPress={() => router.push("/note/new" as any)}
-                >
-                    <Ionicons name="add" size={20} color={COLORS.textColor.white} />
-                    <Text style={[styles.createButtonText, { color: COLORS.textColor.white }]}>
-                        Create Note
-                    </Text>
-                </TouchableOpacity>
-            )}
-        </View>
-    );
+        );
+    };
 
     return (
         <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
@@ -433,6 +473,15 @@ export default function NotesScreen() {
                         </TouchableOpacity>
                     )}
                 </Animated.View>
+
+                <NoteFilterBar
+                    selectedFolderId={selectedFolderId}
+                    onSelectFolder={setSelectedFolderId}
+                    selectedTagId={selectedTagId}
+                    onSelectTag={setSelectedTagId}
+                    accentColor={COLORS.accentColor}
+                    refreshKey={filterRefreshKey}
+                />
             </View>
 
             {/* Notes List */}
@@ -451,6 +500,7 @@ export default function NotesScreen() {
                 visible={previewModalVisible}
                 onClose={() => setPreviewModalVisible(false)}
                 note={selectedNote}
+                attachmentNoteType="note"
             />
 
             <QuizGenerationModal
@@ -492,8 +542,12 @@ export default function NotesScreen() {
             <NoteChatModal
                 visible={chatModalVisible}
                 onClose={closeChatModal}
+                noteId={chatTargetNote?.id}
+                noteType="note"
                 noteTitle={chatTargetNote?.title || ''}
                 noteContent={chatTargetNote?.content || ''}
+                noteCreatedAt={chatTargetNote?.createdAt}
+                onNoteUpdated={handleChatNoteUpdated}
                 accentColor={COLORS.accentColor}
             />
 
@@ -506,6 +560,18 @@ export default function NotesScreen() {
                 sourceType="note"
                 onMindMapSaved={handleMindMapSaved}
             />
+
+            <NoteOrganizeModal
+                visible={!!organizeTargetNote}
+                onClose={() => setOrganizeTargetNote(null)}
+                noteType="note"
+                noteId={organizeTargetNote?.id}
+                noteTitle={organizeTargetNote?.title || ''}
+                subject={organizeTargetNote?.subject}
+                folderId={organizeTargetNote?.folder_id}
+                onSaved={handleNoteOrganized}
+                accentColor={COLORS.accentColor}
+            />
         </SafeAreaView>
     );
 }
@@ -12,6 +12,7 @@ import {
   View,
 } from 'react-native';
 import AuthModal from '../components/AuthModal';
+import { useSyncStatus } from '../hooks/useSyncStatus';
 import { useThemeContext } from '../providers/ThemeProvider';
 import {
   getAllFlashCardSets,
@@ -20,27 +21,37 @@ import {
   getAllQuizzes,
   getAllScanNotes
 } from '../services/historyStorage';
+import achievementService, { AchievementProgress } from '../services/achievementService';
 import subscriptionService from '../services/subscriptionService';
+import { formatStudyTime } from '../utils/studyTimer';
 import { supabase } from '../utils/supabase';
 
 const { width } = Dimensions.get('window');
 
 interface UserStats {
   problemsSolved: number;
+  // Days with a study session or completed quiz
   daysActive: number;
+  // Consecutive study days up to today
+  studyStreak: number;
+  studySeconds: number;
   notesCreated: number;
   totalScans: number;
   quizzesCreated: number;
   flashCardsCreated: number;
 }
 
-interface Achievement {
-  id: number;
-  title: string;
-  description: string;
-  earned: boolean;
-  icon: string;
-}
+// Earned ones first (newest first), then the closest to completion
+const sortAchievements = (achievements: AchievementProgress[]) =>
+  [...achievements].sort((a, b) => {
+    if (a.earnedAt || b.earnedAt) return (b.earnedAt ?? '').localeCompare(a.earnedAt ?? '');
+    return b.progress / b.target - a.progress / a.target;
+  });
+
+const formatProgress = (achievement: AchievementProgress) =>
+  achievement.counter === 'study-seconds'
+    ? `${formatStudyTime(achievement.progress)} / ${formatStudyTime(achievement.target)}`
+    : `${achievement.progress} / ${achievement.target}`;
 
 const Profile = () => {
   const router = useRouter();
@@ -89,14 +100,18 @@ const Profile = () => {
   const [stats, setStats] = useState<UserStats>({
     problemsSolved: 0,
     daysActive: 0,
+    studyStreak: 0,
+    studySeconds: 0,
     notesCreated: 0,
     totalScans: 0,
     quizzesCreated: 0,
     flashCardsCreated: 0
   });
+  const [achievements, setAchievements] = useState<AchievementProgress[]>([]);
   const [loading, setLoading] = useState(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [session, setSession] = useState<Session | null>(null);
+  const sync = useSyncStatus();
 
   // Quick actions data with updated styling
   const quickActions = [
@@ -108,15 +123,6 @@ const Profile = () => {
     { id: 'achievements', icon: 'trophy-outline', title: 'Achievements', route: '/explore', color: colors.danger },
   ];
 
-  const achievements: Achievement[] = [
-    { id: 1, title: 'First Quiz', description: 'Complete your first quiz', earned: stats.quizzesCreated > 0, icon: 'help-circle' },
-    { id: 2, title: 'Study Streak', description: '7 days of consistent study', earned: stats.daysActive >= 7, icon: 'flame' },
-    { id: 3, title: 'Note Master', description: 'Create 50 notes', earned: stats.notesCreated >= 50, icon: 'document-text' },
-    { id: 4, title: 'Quiz Champion', description: 'Score 90%+ on 10 quizzes', earned: false, icon: 'trophy' },
-    { id: 5, title: 'Scanner Pro', description: 'Scan 100 images', earned: stats.totalScans >= 100, icon: 'scan' },
-    { id: 6, title: 'Flashcard Fanatic', description: 'Create 25 flashcard sets', earned: stats.flashCardsCreated >= 25, icon: 'card' },
-  ];
-
   useEffect(() => {
     loadUserData();
     checkAuthStatus();
@@ -168,26 +174,21 @@ const Profile = () => {
       const creditData = await subscriptionService.getCurrentCredits();
       setCredits(creditData.total);
 
-      const [history, notes, scanNotes, quizzes, flashCards] = await Promise.all([
+      const [history, notes, scanNotes, quizzes, flashCards, achievementStatus] = await Promise.all([
         getAllHistory(),
         getAllNotes(),
         getAllScanNotes(),
         getAllQuizzes(),
-        getAllFlashCardSets()
+        getAllFlashCardSets(),
+        achievementService.getStatus()
       ]);
 
-      const allDates = [
-        ...history.map(h => new Date(h.createdAt).toDateString()),
-        ...notes.map(n => new Date(n.createdAt).toDateString()),
-        ...scanNotes.map(sn => new Date(sn.createdAt).toDateString()),
-        ...quizzes.map(q => new Date(q.createdAt).toDateString()),
-        ...flashCards.map(fc => new Date(fc.createdAt).toDateString())
-      ];
-      const uniqueDays = new Set(allDates).size;
-
+      setAchievements(sortAchievements(achievementStatus.achievements));
       setStats({
         problemsSolved: history.filter(h => h.feature === 'ai-scan').length,
-        daysActive: uniqueDays,
+        daysActive: achievementStatus.daysActive,
+        studyStreak: achievementStatus.currentStreak,
+        studySeconds: achievementStatus.studySeconds,
         notesCreated: notes.length + scanNotes.length,
         totalScans: history.filter(h => h.feature === 'ai-scan').length,
         quizzesCreated: quizzes.length,
@@ -214,6 +215,31 @@ const Profile = () => {
     loadUserData();
   };
 
+  const handleSyncNow = () => {
+    if (!session) {
+      setShowAuthModal(true);
+      return;
+    }
+    sync.syncNow().then(loadUserData);
+  };
+
+  const formatLastSynced = (lastSyncedAt: string | null) => {
+    if (!lastSyncedAt) return 'Never synced';
+    const minutes = Math.floor((Date.now() - new Date(lastSyncedAt).getTime()) / 60000);
+    if (minutes < 1) return 'Synced just now';
+    if (minutes < 60) return `Synced ${minutes}m ago`;
+    if (minutes < 24 * 60) return `Synced ${Math.floor(minutes / 60)}h ago`;
+    return `Synced ${new Date(lastSyncedAt).toLocaleDateString()}`;
+  };
+
+  const syncStateDisplay = {
+    idle: { label: 'Up to date', icon: 'cloud-done-outline', color: colors.success },
+    syncing: { label: 'Syncing…', icon: 'sync-outline', color: colors.primary },
+    offline: { label: 'Offline', icon: 'cloud-offline-outline', color: colors.warning },
+    error: { label: 'Sync error', icon: 'alert-circle-outline', color: colors.danger },
+    'signed-out': { label: 'Sign in to sync', icon: 'cloud-outline', color: colors.textTertiary },
+  }[sync.state];
+
   const handleAccountSettingsPress = () => {
     console.log('Account Settings button pressed');
     setShowAuthModal(true);
@@ -407,6 +433,60 @@ const Profile = () => {
             Flash Cards
           </Text>
         </View>
+        <View style={styles.additionalStatItem}>
+          <Text style={[styles.additionalStatNumber, { color: colors.accent }]}>
+            {formatStudyTime(stats.studySeconds)}
+          </Text>
+          <Text style={[styles.additionalStatLabel, { color: colors.textTertiary }]}>
+            Study Time
+          </Text>
+        </View>
+      </View>
+    </View>
+  );
+
+  const SyncSection = () => (
+    <View style={[styles.syncCard, { backgroundColor: colors.card }]}>
+      <View style={styles.cardHeader}>
+        <View style={styles.syncHeaderText}>
+          <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>
+            Cloud Sync
+          </Text>
+          <Text style={[styles.sectionSubtitle, { color: colors.textSecondary }]}>
+            {sync.state === 'signed-out' ? 'Your data is only on this device' : formatLastSynced(sync.lastSyncedAt)}
+          </Text>
+        </View>
+        <View style={[styles.iconContainer, { backgroundColor: syncStateDisplay.color }]}>
+          <Ionicons name={syncStateDisplay.icon as any} size={20} color="#ffffff" />
+        </View>
+      </View>
+
+      <View style={styles.syncRow}>
+        <View style={styles.syncInfo}>
+          <Text style={[styles.syncStateLabel, { color: syncStateDisplay.color }]}>
+            {syncStateDisplay.label}
+          </Text>
+          <Text style={[styles.progressText, { color: colors.textTertiary }]}>
+            {sync.pendingCount > 0
+              ? `${sync.pendingCount} change${sync.pendingCount === 1 ? '' : 's'} waiting to upload`
+              : 'No pending changes'}
+          </Text>
+          {sync.error && sync.state !== 'syncing' && (
+            <Text style={[styles.progressText, { color: colors.danger }]} numberOfLines={2}>
+              {sync.error}
+            </Text>
+          )}
+        </View>
+        <TouchableOpacity
+          style={[styles.syncButton, { backgroundColor: colors.primary, opacity: sync.state === 'syncing' ? 0.6 : 1 }]}
+          onPress={handleSyncNow}
+          disabled={sync.state === 'syncing'}
+        >
+          <Ionicons name="sync-outline" size={16} color="#ffffff" />
+          <Text style={styles.syncButtonText}>
+            {session ? 'Sync now' : 'Sign In'}
+          </Text>
+        </TouchableOpacity>
       </View>
     </View>
   );
@@ -466,28 +546,33 @@ const Profile = () => {
         {achievements.slice(0, 3).map((achievement) => (
           <View key={achievement.id} style={[styles.achievementItem, { 
             backgroundColor: colors.cardSecondary,
-            borderLeftColor: achievement.earned ? colors.success : colors.border,
+            borderLeftColor: achievement.earnedAt ? colors.success : colors.border,
           }]}>
             <View style={[styles.achievementIcon, { 
-              backgroundColor: achievement.earned ? colors.success : colors.cardTertiary,
+              backgroundColor: achievement.earnedAt ? colors.success : colors.cardTertiary,
             }]}>
               <Ionicons 
                 name={achievement.icon as any} 
                 size={18} 
-                color={achievement.earned ? "#ffffff" : colors.textTertiary} 
+                color={achievement.earnedAt ? "#ffffff" : colors.textTertiary} 
               />
             </View>
             <View style={styles.achievementContent}>
               <Text style={[styles.achievementTitle, { 
-                color: achievement.earned ? colors.textPrimary : colors.textSecondary 
+                color: achievement.earnedAt ? colors.textPrimary : colors.textSecondary 
               }]}>
                 {achievement.title}
               </Text>
               <Text style={[styles.achievementDescription, { color: colors.textTertiary }]}>
                 {achievement.description}
               </Text>
+              {!achievement.earnedAt && (
+                <Text style={[styles.achievementProgress, { color: colors.textSecondary }]}>
+                  {formatProgress(achievement)}
+                </Text>
+              )}
             </View>
-            {achievement.earned && (
+            {achievement.earnedAt && (
               <View style={[styles.earnedBadge, { backgroundColor: colors.success }]}>
                 <Ionicons name="checkmark" size={12} color="#ffffff" />
               </View>
@@ -517,7 +602,7 @@ const Profile = () => {
       <View style={styles.streakContent}>
         <View style={[styles.streakNumberCard, { backgroundColor: colors.cardSecondary }]}>
           <Text style={[styles.streakDays, { color: colors.warning }]}>
-            {stats.daysActive}
+            {stats.studyStreak}
           </Text>
           <Text style={[styles.streakLabel, { color: colors.textSecondary }]}>
             days
@@ -530,23 +615,33 @@ const Profile = () => {
               Weekly Goal
             </Text>
             <Text style={[styles.progressPercentage, { color: colors.textSecondary }]}>
-              {Math.min((stats.daysActive / 7) * 100, 100).toFixed(0)}%
+              {Math.min((stats.studyStreak / 7) * 100, 100).toFixed(0)}%
             </Text>
           </View>
           <View style={[styles.progressBar, { backgroundColor: colors.cardTertiary }]}>
             <View style={[styles.progressFill, { 
               backgroundColor: colors.warning,
-              width: `${Math.min((stats.daysActive / 7) * 100, 100)}%`
+              width: `${Math.min((stats.studyStreak / 7) * 100, 100)}%`
             }]} />
           </View>
           <Text style={[styles.progressText, { color: colors.textTertiary }]}>
-            {stats.daysActive >= 7 
+            {stats.studyStreak >= 7 
               ? 'Excellent! You\'ve reached your weekly goal!' 
-              : `${7 - stats.daysActive} more days to complete your goal`
+              : `${7 - stats.studyStreak} more days to complete your goal`
             }
           </Text>
         </View>
       </View>
+
+      <TouchableOpacity
+        style={[styles.streakButton, { backgroundColor: colors.cardSecondary }]}
+        onPress={() => router.push('/study-timer')}
+      >
+        <Ionicons name="timer-outline" size={18} color={colors.warning} />
+        <Text style={[styles.streakButtonText, { color: colors.textPrimary }]}>
+          Start a Study Session
+        </Text>
+      </TouchableOpacity>
     </View>
   );
 
@@ -559,6 +654,7 @@ const Profile = () => {
       >
         <ProfileHeader />
         <StatsSection />
+        <SyncSection />
         <QuickActionsSection />
         <AchievementsSection />
         <StudyStreakSection />
@@ -794,6 +890,47 @@ const styles = StyleSheet.create({
     shadowRadius: 16,
     elevation: 4,
   },
+  syncCard: {
+    marginHorizontal: 24,
+    marginBottom: 24,
+    borderRadius: 24,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 16,
+    elevation: 4,
+  },
+  syncHeaderText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  syncInfo: {
+    flex: 1,
+    gap: 4,
+  },
+  syncStateLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  syncButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+  },
+  syncButtonText: {
+    color: '#ffffff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   cardHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -942,6 +1079,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.8,
   },
+  achievementProgress: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 6,
+  },
   earnedBadge: {
     width: 28,
     height: 28,
@@ -1014,6 +1156,19 @@ const styles = StyleSheet.create({
     lineHeight: 18,
     opacity: 0.8,
   },
+  streakButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  streakButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
 }
 );
 
@@ -23,9 +23,11 @@ import PracticeQuizModal from '../components/PracticeQuizModal';
 import QuizGenerationModal from '../components/QuizGenerationModal';
 import ScanQuizModal from '../components/ScanQuizModal';
 import { useThemeContext } from '../providers/ThemeProvider';
+import { isAIGatewayError } from '../services/aiGateway';
 import { processImage } from '../services/geminiServices';
 import { getAllQuizzes } from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
+import { hasAnswerKey, parseQuizDocument, quizContentToText } from '../utils/quizFormat';
 
 const { width, height } = Dimensions.get('window');
 
@@ -66,13 +68,6 @@ interface ErrorState {
   retryable: boolean;
 }
 
-interface PracticeQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  questionType: 'multiple-choice' | 'true-false';
-}
-
 const QuizMaker = () => {
   const router = useRouter();
   
@@ -160,7 +155,7 @@ const QuizMaker = () => {
 
   const processScannedImage = async (uri: string): Promise<string> => {
     try {
-      const creditResult = await subscriptionService.spendCredits(1);
+      const creditResult = await subscriptionService.reserveCredits(1, 'quiz-maker');
       if (!creditResult.success) {
         Alert.alert(
           "Out of Credits",
@@ -173,7 +168,7 @@ const QuizMaker = () => {
         throw new Error('Insufficient credits');
       }
 
-      const text = await processImage(uri);
+      const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
       if (!text || text.trim().length === 0) {
         throw new Error('No text could be detected in the image. Please try with a clearer image.');
       }
@@ -181,6 +176,7 @@ const QuizMaker = () => {
       return text.trim();
     } catch (error) {
       console.error('Image processing error:', error);
+      if (isAIGatewayError(error)) throw error;
       throw new Error('Failed to process the image. Please try again with a clearer image.');
     }
   };
@@ -223,55 +219,7 @@ const QuizMaker = () => {
     loadQuizzes();
   };
 
-  const parseQuizContent = (content: string): PracticeQuestion[] => {
-    const questions: PracticeQuestion[] = [];
-    const lines = content.split('\n');
-    let currentQuestion: PracticeQuestion | null = null;
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      // Stop parsing if we reach the ANSWERS section
-      if (/^ANSWERS:?$/i.test(trimmedLine)) {
-        break;
-      }
-      // Check if it's a question (starts with number and dot)
-      if (/^\d+\./.test(trimmedLine)) {
-        if (currentQuestion) {
-          questions.push(currentQuestion);
-        }
-        const questionText = trimmedLine.replace(/^\d+\.\s*/, '');
-        currentQuestion = {
-          question: questionText,
-          options: [],
-          correctAnswer: 0,
-          questionType: 'multiple-choice'
-        };
-      }
-      // Check if it's an option (starts with letter and parenthesis)
-      else if (currentQuestion && /^[A-D]\)/.test(trimmedLine)) {
-        const optionText = trimmedLine.replace(/^[A-D]\)\s*/, '');
-        const optionIndex = trimmedLine.charCodeAt(0) - 65; // A=0, B=1, etc.
-        currentQuestion.options[optionIndex] = optionText;
-        // Check if it's marked as correct (has ✓)
-        if (optionText.includes('✓')) {
-          currentQuestion.correctAnswer = optionIndex;
-          currentQuestion.options[optionIndex] = optionText.replace(' ✓', '');
-        }
-        // Determine if it's true/false based on options
-        if (currentQuestion.options.length >= 2 && 
-            currentQuestion.options[0] === 'True' && 
-            currentQuestion.options[1] === 'False') {
-          currentQuestion.questionType = 'true-false';
-        }
-      }
-    }
-    if (currentQuestion) {
-      questions.push(currentQuestion);
-    }
-    return questions;
-  };
-
-  const startPractice = (quiz: Quiz, questionsOverride?: PracticeQuestion[]) => {
-    const questions = questionsOverride || parseQuizContent(quiz.content);
+  const startPractice = (quiz: Quiz) => {
     setSelectedQuiz(quiz);
     setPracticeModalVisible(true);
   };
@@ -294,14 +242,13 @@ const QuizMaker = () => {
     return date.toLocaleDateString([], { month: 'short', day: 'numeric' });
   };
 
-  const getQuestionCount = (content: string) => {
-    const matches = content.match(/^\d+\./gm);
-    return matches ? matches.length : 0;
-  };
-
   const renderQuizItem = ({ item, index }: { item: Quiz; index: number }) => {
-    const questionCount = getQuestionCount(item.content || '');
-    const hasAnswers = (item.content || '').includes('ANSWERS:');
+    const { questions } = parseQuizDocument(item.content);
+    const questionCount = questions.length;
+    const hasAnswers = questions.some(hasAnswerKey);
+    const previewText = questions.length > 0
+      ? questions.map((q, i) => `${i + 1}. ${q.question}`).join('\n')
+      : item.content || '';
     
     return (
       <View
@@ -342,7 +289,7 @@ const QuizMaker = () => {
             numberOfLines={3} 
             style={[styles.quizContentText, { color: COLORS.textColor.secondary }]}
           >
-            {(item.content || '').length > 100 ? (item.content || '').substring(0, 100) + '...' : (item.content || 'No content')}
+            {previewText.length > 100 ? previewText.substring(0, 100) + '...' : (previewText || 'No content')}
           </Text>
           
           {/* Stats Footer */}
@@ -556,7 +503,7 @@ const QuizMaker = () => {
       <NoteReaderModal
         visible={previewModalVisible}
         onClose={() => setPreviewModalVisible(false)}
-        note={selectedQuiz}
+        note={selectedQuiz ? { ...selectedQuiz, content: quizContentToText(selectedQuiz.content) } : null}
         isScanNote={false}
         isQuiz={true}
       />
@@ -578,7 +525,7 @@ const QuizMaker = () => {
       <QuizGenerationModal
         visible={quizGenerationModalVisible}
         onClose={closeQuizModal}
-        sourceContent={selectedQuiz?.content || ''}
+        sourceContent={selectedQuiz ? quizContentToText(selectedQuiz.content) : ''}
         sourceTitle={selectedQuiz?.title || ''}
         sourceId={selectedQuiz?.id}
         sourceType={(selectedQuiz?.source_note_type as 'note' | 'scan-note') || 'note'}
@@ -0,0 +1,403 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    FlatList,
+    Platform,
+    SafeAreaView,
+    ScrollView,
+    StatusBar,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import {
+    searchEverything,
+    SEARCH_HIGHLIGHT_END,
+    SEARCH_HIGHLIGHT_START,
+    SearchItemType,
+    SearchResult
+} from '../services/historyStorage';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  primary: '#667eea',
+  accentColor: '#667eea',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  highlightBackground: isDark ? 'rgba(102, 126, 234, 0.35)' : 'rgba(102, 126, 234, 0.18)',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const TYPE_FILTERS: { label: string; types?: SearchItemType[] }[] = [
+    { label: 'All' },
+    { label: 'Notes', types: ['note'] },
+    { label: 'Scan Notes', types: ['scan-note'] },
+    { label: 'Quizzes', types: ['quiz'] },
+    { label: 'Flash Cards', types: ['flash-cards'] },
+    { label: 'Mind Maps', types: ['mind-map'] },
+    { label: 'History', types: ['history'] },
+];
+
+const DATE_FILTERS: { label: string; days?: number }[] = [
+    { label: 'Any time' },
+    { label: 'Today', days: 0 },
+    { label: 'Past week', days: 7 },
+    { label: 'Past month', days: 30 },
+];
+
+const TYPE_DETAILS: Record<SearchItemType, { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }> = {
+    'note': { label: 'Note', icon: 'document-text-outline', color: '#feca57' },
+    'scan-note': { label: 'Scan Note', icon: 'scan-outline', color: '#4facfe' },
+    'quiz': { label: 'Quiz', icon: 'help-circle-outline', color: '#ff6b6b' },
+    'flash-cards': { label: 'Flash Cards', icon: 'albums-outline', color: '#43e97b' },
+    'mind-map': { label: 'Mind Map', icon: 'git-network-outline', color: '#a18cd1' },
+    'history': { label: 'History', icon: 'time-outline', color: '#667eea' },
+};
+
+// Start of the day `days` days ago, in local time
+const startOfDaysAgo = (days: number) => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - days);
+    return date;
+};
+
+// Splits search output into plain and matched parts using the highlight markers
+const splitHighlights = (text: string): { text: string; highlighted: boolean }[] => {
+    const parts: { text: string; highlighted: boolean }[] = [];
+    let highlighted = false;
+    let current = '';
+    for (const char of text) {
+        if (char === SEARCH_HIGHLIGHT_START || char === SEARCH_HIGHLIGHT_END) {
+            if (current) parts.push({ text: current, highlighted });
+            current = '';
+            highlighted = char === SEARCH_HIGHLIGHT_START;
+        } else {
+            current += char;
+        }
+    }
+    if (current) parts.push({ text: current, highlighted });
+    return parts;
+};
+
+export default function SearchScreen() {
+    const [query, setQuery] = useState('');
+    const [typeFilter, setTypeFilter] = useState(0);
+    const [dateFilter, setDateFilter] = useState(0);
+    const [results, setResults] = useState<SearchResult[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [refreshKey, setRefreshKey] = useState(0);
+    const router = useRouter();
+
+    const { resolvedTheme } = useThemeContext();
+    const COLORS = getColors(resolvedTheme === 'dark');
+
+    // Items may have been edited or deleted on the screen a result opened
+    useFocusEffect(
+        useCallback(() => {
+            setRefreshKey(key => key + 1);
+        }, [])
+    );
+
+    useEffect(() => {
+        if (!query.trim()) {
+            setResults([]);
+            setIsSearching(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsSearching(true);
+        const timer = setTimeout(async () => {
+            const days = DATE_FILTERS[dateFilter].days;
+            const found = await searchEverything(query, {
+                types: TYPE_FILTERS[typeFilter].types,
+                since: days === undefined ? undefined : startOfDaysAgo(days),
+            });
+            if (cancelled) return;
+            setResults(found);
+            setIsSearching(false);
+        }, SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [query, typeFilter, dateFilter, refreshKey]);
+
+    const openResult = (result: SearchResult) => {
+        switch (result.type) {
+            case 'note':
+            case 'scan-note':
+            case 'flash-cards':
+                router.push({ pathname: '/note/[id]', params: { id: String(result.id), type: result.type } } as any);
+                break;
+            case 'quiz':
+                router.push({ pathname: '/note/[id]', params: { id: String(result.id), isQuiz: 'true' } } as any);
+                break;
+            case 'mind-map':
+                router.push({ pathname: '/mind-maps', params: { openId: String(result.id) } } as any);
+                break;
+            case 'history':
+                router.push('/HistoryList' as any);
+                break;
+        }
+    };
+
+    const renderHighlighted = (text: string, style: any, numberOfLines: number) => (
+        <Text style={style} numberOfLines={numberOfLines}>
+            {splitHighlights(text).map((part, index) => (
+                <Text
+                    key={index}
+                    style={part.highlighted ? [styles.highlight, { backgroundColor: COLORS.highlightBackground, color: COLORS.textColor.primary }] : undefined}
+                >
+                    {part.text}
+                </Text>
+            ))}
+        </Text>
+    );
+
+    const renderResult = ({ item }: { item: SearchResult }) => {
+        const details = TYPE_DETAILS[item.type];
+        return (
+            <TouchableOpacity
+                style={[styles.resultCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+                onPress={() => openResult(item)}
+                activeOpacity={0.7}
+            >
+                <View style={[styles.resultIcon, { backgroundColor: `${details.color}20` }]}>
+                    <Ionicons name={details.icon} size={20} color={details.color} />
+                </View>
+                <View style={styles.resultBody}>
+                    {renderHighlighted(item.title || 'Untitled', [styles.resultTitle, { color: COLORS.textColor.primary }], 1)}
+                    {!!item.snippet.trim() &&
+                        renderHighlighted(item.snippet, [styles.resultSnippet, { color: COLORS.textColor.secondary }], 3)}
+                    <Text style={[styles.resultMeta, { color: COLORS.textColor.light }]}>
+                        {details.label} · {new Date(item.createdAt).toLocaleDateString()}
+                    </Text>
+                </View>
+            </TouchableOpacity>
+        );
+    };
+
+    const renderChips = (
+        options: { label: string }[],
+        selected: number,
+        onSelect: (index: number) => void
+    ) => (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+            {options.map((option, index) => {
+                const isSelected = index === selected;
+                return (
+                    <TouchableOpacity
+                        key={option.label}
+                        style={[
+                            styles.chip,
+                            {
+                                backgroundColor: isSelected ? COLORS.accentColor : COLORS.cardColor,
+                                borderColor: isSelected ? COLORS.accentColor : COLORS.borderColor,
+                            },
+                        ]}
+                        onPress={() => onSelect(index)}
+                    >
+                        <Text style={[styles.chipText, { color: isSelected ? COLORS.textColor.white : COLORS.textColor.secondary }]}>
+                            {option.label}
+                        </Text>
+                    </TouchableOpacity>
+                );
+            })}
+        </ScrollView>
+    );
+
+    const renderEmptyState = () => {
+        if (isSearching) return null;
+        const hasQuery = query.trim().length > 0;
+        return (
+            <View style={styles.emptyContainer}>
+                <Ionicons name={hasQuery ? 'search-outline' : 'library-outline'} size={48} color={COLORS.iconColor} />
+                <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>
+                    {hasQuery ? 'No matches' : 'Search everything'}
+                </Text>
+                <Text style={[styles.emptySubtitle, { color: COLORS.textColor.secondary }]}>
+                    {hasQuery
+                        ? 'Try other words or clear the filters'
+                        : 'Find notes, scans, quizzes, flash cards, mind maps and past answers'}
+                </Text>
+            </View>
+        );
+    };
+
+    return (
+        <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+            <StatusBar barStyle={resolvedTheme === 'dark' ? 'light-content' : 'dark-content'} backgroundColor={COLORS.headerBackground} />
+
+            {/* Header */}
+            <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+                <View style={styles.searchRow}>
+                    <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+                        <Ionicons name="arrow-back" size={24} color={COLORS.textColor.primary} />
+                    </TouchableOpacity>
+                    <View style={[styles.searchContainer, { backgroundColor: COLORS.cardColor, borderColor: COLORS.accentColor }]}>
+                        <Ionicons name="search" size={20} color={COLORS.textColor.secondary} style={styles.searchIcon} />
+                        <TextInput
+                            style={[styles.searchInput, { color: COLORS.textColor.primary }]}
+                            placeholder="Search everything..."
+                            placeholderTextColor={COLORS.textColor.light}
+                            value={query}
+                            onChangeText={setQuery}
+                            autoFocus
+                            returnKeyType="search"
+                        />
+                        {isSearching ? (
+                            <ActivityIndicator size="small" color={COLORS.accentColor} />
+                        ) : query.length > 0 && (
+                            <TouchableOpacity onPress={() => setQuery('')}>
+                                <Ionicons name="close-circle" size={20} color={COLORS.textColor.secondary} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+                {renderChips(TYPE_FILTERS, typeFilter, setTypeFilter)}
+                {renderChips(DATE_FILTERS, dateFilter, setDateFilter)}
+            </View>
+
+            <FlatList
+                data={results}
+                renderItem={renderResult}
+                keyExtractor={item => `${item.type}-${item.id}`}
+                contentContainerStyle={styles.listContainer}
+                keyboardShouldPersistTaps="handled"
+                showsVerticalScrollIndicator={false}
+                ListEmptyComponent={renderEmptyState()}
+                ItemSeparatorComponent={() => <View style={{ height: 12 }} />}
+            />
+        </SafeAreaView>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        paddingTop: Platform.OS === 'ios' ? 60 : 50,
+        paddingHorizontal: 20,
+        paddingBottom: 12,
+        borderBottomWidth: 1,
+    },
+    searchRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 12,
+    },
+    backButton: {
+        marginRight: 12,
+        padding: 4,
+    },
+    searchContainer: {
+        flex: 1,
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderRadius: 16,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        borderWidth: 1,
+    },
+    searchIcon: {
+        marginRight: 12,
+    },
+    searchInput: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '500',
+    },
+    chipRow: {
+        gap: 8,
+        paddingVertical: 4,
+    },
+    chip: {
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    listContainer: {
+        padding: 20,
+        paddingBottom: 100,
+    },
+    resultCard: {
+        flexDirection: 'row',
+        borderRadius: 16,
+        borderWidth: 1,
+        padding: 16,
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 2,
+    },
+    resultIcon: {
+        width: 40,
+        height: 40,
+        borderRadius: 12,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginRight: 12,
+    },
+    resultBody: {
+        flex: 1,
+    },
+    resultTitle: {
+        fontSize: 16,
+        fontWeight: '600',
+        marginBottom: 4,
+    },
+    resultSnippet: {
+        fontSize: 14,
+        lineHeight: 20,
+        marginBottom: 6,
+    },
+    resultMeta: {
+        fontSize: 12,
+        fontWeight: '500',
+    },
+    highlight: {
+        fontWeight: '700',
+    },
+    emptyContainer: {
+        alignItems: 'center',
+        paddingTop: 80,
+        paddingHorizontal: 40,
+    },
+    emptyTitle: {
+        fontSize: 20,
+        fontWeight: '600',
+        marginTop: 16,
+        marginBottom: 8,
+    },
+    emptySubtitle: {
+        fontSize: 15,
+        textAlign: 'center',
+        lineHeight: 22,
+    },
+});
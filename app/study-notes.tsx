@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
-import { useRouter } from 'expo-router';
-import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
@@ -21,15 +21,31 @@ import {
 import AppendScanModal from '../components/AppendScanModal';
 import EnhanceNotesModal from '../components/EnhanceNotesModal';
 import FlashCardGenerationModal from '../components/FlashCardGenerationModal';
-import ImageScanModal from '../components/ImageScanModal';
+import MagicEraserModal, { MagicEraserNote } from '../components/MagicEraserModal';
 import MindMapGenerationModal from '../components/MindMapGenerationModal';
+import MultiPageScanModal from '../components/MultiPageScanModal';
 import NoteChatModal from '../components/NoteChatModal';
+import NoteFilterBar from '../components/NoteFilterBar';
+import NoteOrganizeModal from '../components/NoteOrganizeModal';
+import NotePickerModal from '../components/NotePickerModal';
 import NoteReaderModal from '../components/NoteReaderModal';
+import PdfImportModal from '../components/PdfImportModal';
 import QuizGenerationModal from '../components/QuizGenerationModal';
+import VoiceNoteModal from '../components/VoiceNoteModal';
 import { useThemeContext } from '../providers/ThemeProvider';
-import { processImage } from '../services/geminiServices';
-import { addHistory, addScanNote, deleteScanNote, getAllScanNotes, updateScanNote } from '../services/historyStorage';
-import subscriptionService from '../services/subscriptionService';
+import {
+    addHistory,
+    addNoteAttachments,
+    addScanNote,
+    ChunkedNoteType,
+    deleteScanNote,
+    getAllScanNotes,
+    getNoteAttachmentSummaries,
+    getNoteTagNames,
+    getScanNoteById,
+    updateScanNote,
+} from '../services/historyStorage';
+import { ScannedPage } from '../utils/scanPages';
 
 const { width, height } = Dimensions.get('window');
 
@@ -52,15 +68,21 @@ const getColors = (isDark: boolean) => ({
   },
 });
 
+const SCAN_NOTE_TYPES: ChunkedNoteType[] = ['scan-note'];
+
 // Enhanced interfaces
 interface ScanNote {
   id: number;
   title: string;
   content: string;
   imageUri?: string;
+  imageCount?: number;
+  recordingCount?: number;
   createdAt: Date;
   wordCount: number;
   tags?: string[];
+  subject?: string | null;
+  folder_id?: number | null;
 }
 
 interface ErrorState {
@@ -71,8 +93,6 @@ interface ErrorState {
 }
 
 const StudyNotes = () => {
-  const router = useRouter();
-  
   // Theme context
   const { resolvedTheme } = useThemeContext();
   const COLORS = getColors(resolvedTheme === 'dark');
@@ -84,9 +104,28 @@ const StudyNotes = () => {
   const [isSearchFocused, setIsSearchFocused] = useState(false);
   const [previewModalVisible, setPreviewModalVisible] = useState(false);
   const [selectedNote, setSelectedNote] = useState<ScanNote | null>(null);
+
+  // Folder and tag filters
+  const [selectedFolderId, setSelectedFolderId] = useState<number | undefined>();
+  const [selectedTagId, setSelectedTagId] = useState<number | undefined>();
+  const [filterRefreshKey, setFilterRefreshKey] = useState(0);
+  const [organizeTargetNote, setOrganizeTargetNote] = useState<ScanNote | null>(null);
   
   // Image scan modal state
   const [scanModalVisible, setScanModalVisible] = useState(false);
+  const [pdfImportVisible, setPdfImportVisible] = useState(false);
+  const [voiceNoteVisible, setVoiceNoteVisible] = useState(false);
+  const [eraserTargetNote, setEraserTargetNote] = useState<MagicEraserNote | null>(null);
+  const [eraserPickerVisible, setEraserPickerVisible] = useState(false);
+
+  // The home screen's PDF Import, Voice Notes and Magic Eraser tools open this
+  // screen with ?open=pdf, ?open=voice or ?open=eraser
+  const { open: openParam } = useLocalSearchParams<{ open?: string }>();
+  useEffect(() => {
+    if (openParam === 'pdf') setPdfImportVisible(true);
+    if (openParam === 'voice') setVoiceNoteVisible(true);
+    if (openParam === 'eraser') setEraserPickerVisible(true);
+  }, [openParam]);
   
   // Error handling
   const [error, setError] = useState<ErrorState>({
@@ -106,7 +145,8 @@ const StudyNotes = () => {
     return notes.filter(
       (note) =>
         note.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        note.content.toLowerCase().includes(searchQuery.toLowerCase())
+        note.content.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        (note.tags ?? []).some(tag => tag.toLowerCase().includes(searchQuery.toLowerCase()))
     );
   }, [notes, searchQuery]);
 
@@ -151,12 +191,20 @@ const StudyNotes = () => {
     try {
       setLoading(true);
       clearError();
-      const scanNotes = await getAllScanNotes();
+      const [scanNotes, tagNames, attachments] = await Promise.all([
+        getAllScanNotes({ folderId: selectedFolderId, tagId: selectedTagId }),
+        getNoteTagNames('scan-note'),
+        getNoteAttachmentSummaries('scan-note'),
+      ]);
       
       const enhancedNotes = scanNotes.map(note => ({
         ...note,
         createdAt: new Date(note.createdAt),
-        wordCount: note.content.split(/\s+/).filter(word => word.length > 0).length
+        wordCount: note.content.split(/\s+/).filter(word => word.length > 0).length,
+        tags: tagNames[note.id] ?? [],
+        imageUri: attachments[note.id]?.firstUri,
+        imageCount: attachments[note.id]?.count ?? 0,
+        recordingCount: attachments[note.id]?.audioCount ?? 0
       }));
       
       setNotes(enhancedNotes);
@@ -166,7 +214,7 @@ const StudyNotes = () => {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [selectedFolderId, selectedTagId]);
 
   useFocusEffect(
     useCallback(() => {
@@ -174,7 +222,7 @@ const StudyNotes = () => {
     }, [loadNotes])
   );
 
-  // Scan handlers for ImageScanModal
+  // Scan handlers for MultiPageScanModal
   const openScanModal = () => {
     setScanModalVisible(true);
   };
@@ -183,58 +231,38 @@ const StudyNotes = () => {
     setScanModalVisible(false);
   };
 
-  const processScannedImage = async (uri: string): Promise<string> => {
-    try {
-      const creditResult = await subscriptionService.spendCredits(1);
-      if (!creditResult.success) {
-        Alert.alert(
-          "Out of Credits",
-          creditResult.error || "You need at least 1 credit to scan an image.",
-          [
-            { text: "Cancel", style: "cancel" },
-            { text: "Get Credits", onPress: () => router.push('/paywall') }
-          ]
-        );
-        throw new Error('Insufficient credits');
-      }
-
-      const text = await processImage(uri);
-      if (!text || text.trim().length === 0) {
-        throw new Error('No text could be detected in the image. Please try with a clearer image.');
-      }
+  const openPdfImport = () => {
+    setPdfImportVisible(true);
+  };
 
-      return text.trim();
-    } catch (error) {
-      console.error('Image processing error:', error);
-      throw new Error('Failed to process the image. Please try again with a clearer image.');
-    }
+  const openVoiceNote = () => {
+    setVoiceNoteVisible(true);
   };
 
-  const handleImageProcessed = async (extractedText: string) => {
-    try {
-      // Create a new note with the extracted text
-      const title = extractedText.split('\n')[0].substring(0, 50) + (extractedText.split('\n')[0].length > 50 ? '...' : '');
-      const noteId = await addScanNote(title, extractedText);
-      
-      // Add to history
-      await addHistory('', 'study-notes', title, extractedText);
-      
-      // Refresh notes
-      loadNotes();
-      
-      // Close modal
-      closeScanModal();
-      
-      // Show success message
-      Alert.alert(
-        'Note Created',
-        'Your study note has been successfully created!',
-        [{ text: 'OK' }]
-      );
-    } catch (error) {
-      console.error('Failed to save note:', error);
-      Alert.alert('Error', 'Failed to save the note. Please try again.');
-    }
+  // Errors are left to the scan modal, which keeps the pages so saving can be retried
+  const handleScanComplete = async (extractedText: string, pages: ScannedPage[]) => {
+    const pageCount = pages.length;
+    // Create a new note with the extracted text
+    const title = extractedText.split('\n')[0].substring(0, 50) + (extractedText.split('\n')[0].length > 50 ? '...' : '');
+    const noteId = await addScanNote(title, extractedText);
+
+    // Keep the photos with the note
+    await addNoteAttachments('scan-note', noteId, pages.map(page => ({ uri: page.imageUri, text: page.text })));
+
+    // Add to history
+    await addHistory('', 'study-notes', title, extractedText);
+
+    // Refresh notes
+    loadNotes();
+
+    // Show success message
+    Alert.alert(
+      'Note Created',
+      pageCount > 1
+        ? `Your ${pageCount}-page study note has been successfully created!`
+        : 'Your study note has been successfully created!',
+      [{ text: 'OK' }]
+    );
   };
 
   const retryLastAction = () => {
@@ -274,12 +302,15 @@ const StudyNotes = () => {
     setAppendModalVisible(true);
   };
 
-  const handleAppendToNote = async (newContent: string) => {
+  const handleAppendToNote = async (newContent: string, page?: ScannedPage) => {
     if (!noteToAppend) return;
     
     try {
       const updatedContent = noteToAppend.content + '\n\n' + newContent;
       await updateScanNote(noteToAppend.id, noteToAppend.title, updatedContent);
+      if (page) {
+        await addNoteAttachments('scan-note', noteToAppend.id, [{ uri: page.imageUri, text: page.text }]);
+      }
       loadNotes();
       setAppendModalVisible(false);
       setNoteToAppend(null);
@@ -345,6 +376,18 @@ const StudyNotes = () => {
     closeEnhanceModal();
   };
 
+  // The picker only has the note's text, so load the rest (subject, folder) for "Save as New Note"
+  const handleEraserNotePicked = async (noteId: number) => {
+    setEraserPickerVisible(false);
+    try {
+      const note = await getScanNoteById(noteId);
+      if (note) setEraserTargetNote(note);
+    } catch (error) {
+      console.error('Failed to load note for Magic Eraser:', error);
+      Alert.alert('Error', 'Failed to open the note. Please try again.');
+    }
+  };
+
   const openChatModal = (note: ScanNote) => {
     setChatTargetNote(note);
     setChatModalVisible(true);
@@ -355,6 +398,11 @@ const StudyNotes = () => {
     setChatTargetNote(null);
   };
 
+  const handleChatNoteUpdated = (content: string) => {
+    setChatTargetNote(prev => (prev ? { ...prev, content } : prev));
+    loadNotes();
+  };
+
   const openMindMapModal = (note: ScanNote) => {
     setMindMapTargetNote(note);
     setMindMapModalVisible(true);
@@ -369,6 +417,11 @@ const StudyNotes = () => {
     loadNotes();
   };
 
+  const handleNoteOrganized = () => {
+    setFilterRefreshKey(key => key + 1);
+    loadNotes();
+  };
+
   const handleSearchFocus = () => {
     setIsSearchFocused(true);
     Animated.timing(searchAnim, {
@@ -463,11 +516,27 @@ const StudyNotes = () => {
                   {wordCount} words
                 </Text>
               </View>
-              {item.imageUri && (
+              {!!item.imageCount && (
                 <View style={[styles.statItem, { backgroundColor: COLORS.backgroundColor }]}>
                   <Ionicons name="image" size={14} color={COLORS.accentColor} />
                   <Text style={[styles.statText, { color: COLORS.textColor.secondary }]}>
-                    Has Image
+                    {item.imageCount === 1 ? '1 image' : `${item.imageCount} images`}
+                  </Text>
+                </View>
+              )}
+              {!!item.recordingCount && (
+                <View style={[styles.statItem, { backgroundColor: COLORS.backgroundColor }]}>
+                  <Ionicons name="mic" size={14} color={COLORS.accentColor} />
+                  <Text style={[styles.statText, { color: COLORS.textColor.secondary }]}>
+                    {item.recordingCount === 1 ? '1 recording' : `${item.recordingCount} recordings`}
+                  </Text>
+                </View>
+              )}
+              {!!item.tags?.length && (
+                <View style={[styles.statItem, { backgroundColor: COLORS.backgroundColor }]}>
+                  <Ionicons name="pricetag" size={14} color={COLORS.accentColor} />
+                  <Text style={[styles.statText, { color: COLORS.textColor.secondary }]} numberOfLines={1}>
+                    {item.tags.map(tag => `#${tag}`).join(' ')}
                   </Text>
                 </View>
               )}
@@ -512,6 +581,20 @@ const StudyNotes = () => {
             <Ionicons name="sparkles-outline" size={20} color={COLORS.primary} />
           </TouchableOpacity>
           
+          <TouchableOpacity 
+            style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
+            onPress={() => setEraserTargetNote(item)}
+          >
+            <Ionicons name="color-wand-outline" size={20} color={COLORS.dangerColor} />
+          </TouchableOpacity>
+          
+          <TouchableOpacity 
+            style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
+            onPress={() => setOrganizeTargetNote(item)}
+          >
+            <Ionicons name="pricetag-outline" size={20} color={COLORS.primary} />
+          </TouchableOpacity>
+          
           {hasFlashCards && (
             <TouchableOpacity 
               style={[styles.actionButton, { backgroundColor: COLORS.successColor }]}
@@ -532,33 +615,48 @@ const StudyNotes = () => {
     );
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyContainer}>
-      <View style={[styles.emptyIconContainer, { backgroundColor: COLORS.backgroundColor }]}>
-        <Ionicons name="document-text-outline" size={64} color={COLORS.accentColor} />
+  const renderEmptyState = () => {
+    const isFiltered = !!searchQuery || selectedFolderId !== undefined || selectedTagId !== undefined;
+    return (
+      <View style={styles.emptyContainer}>
+        <View style={[styles.emptyIconContainer, { backgroundColor: COLORS.backgroundColor }]}>
+          <Ionicons name="document-text-outline" size={64} color={COLORS.accentColor} />
+        </View>
+        <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>
+          {isFiltered ? "No notes found" : "No study notes yet"}
+        </Text>
+        <Text style={[styles.emptySubtitle, { color: COLORS.textColor.secondary }]}>
+          {isFiltered 
+            ? "Try adjusting your search or filters"
+            : "Start by scanning documents to create your first study note"
+          }
+        </Text>
+        {!isFiltered && (
+          <TouchableOpacity
+            style={[styles.createButton, { backgroundColor: COLORS.accentColor }]}
+            onPress={openScanModal}
+          >
+            <Ionicons name="scan-outline" size={20} color={COLORS.textColor.white} />
+            <Text style={[styles.createButtonText, { color: COLORS.textColor.white }]}>
+              Scan Document
+            </Text>
+          </TouchableOpacity>
+        )}
+        {!isFiltered && (
+          <View style={styles.importLinks}>
+            <TouchableOpacity style={styles.importLink} onPress={openPdfImport}>
+              <Ionicons name="document-attach-outline" size={18} color={COLORS.accentColor} />
+              <Text style={[styles.importLinkText, { color: COLORS.accentColor }]}>Import a PDF</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.importLink} onPress={openVoiceNote}>
+              <Ionicons name="mic-outline" size={18} color={COLORS.accentColor} />
+              <Text style={[styles.importLinkText, { color: COLORS.accentColor }]}>Record a Voice Note</Text>
+            </TouchableOpacity>
+          </View>
+        )}
       </View>
-      <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>
-        {searchQuery ? "No notes found" : "No study notes yet"}
-      </Text>
-      <Text style={[styles.emptySubtitle, { color: COLORS.textColor.secondary }]}>
-        {searchQuery 
-          ? "Try adjusting your search terms"
-          : "Start by scanning documents to create your first study note"
-        }
-      </Text>
-      {!searchQuery && (
-        <TouchableOpacity
-          style={[styles.createButton, { backgroundColor: COLORS.accentColor }]}
-          onPress={openScanModal}
-        >
-          <Ionicons name="scan-outline" size={20} color={COLORS.textColor.white} />
-          <Text style={[styles.createButtonText, { color: COLORS.textColor.white }]}>
-            Scan Document
-          </Text>
-        </TouchableOpacity>
-      )}
-    </View>
-  );
+    );
+  };
 
   const renderError = () => {
     if (!error.type) return null;
@@ -604,6 +702,18 @@ const StudyNotes = () => {
               {notes.length} {notes.length === 1 ? 'note' : 'notes'}
             </Text>
           </View>
+          <TouchableOpacity
+            style={[styles.importButton, { borderColor: COLORS.accentColor }]}
+            onPress={openVoiceNote}
+          >
+            <Ionicons name="mic-outline" size={22} color={COLORS.accentColor} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.importButton, { borderColor: COLORS.accentColor }]}
+            onPress={openPdfImport}
+          >
+            <Ionicons name="document-attach-outline" size={22} color={COLORS.accentColor} />
+          </TouchableOpacity>
           <TouchableOpacity
             style={[styles.fab, { backgroundColor: COLORS.accentColor }]}
             onPress={openScanModal}
@@ -649,6 +759,15 @@ const StudyNotes = () => {
             </TouchableOpacity>
           )}
         </Animated.View>
+
+        <NoteFilterBar
+          selectedFolderId={selectedFolderId}
+          onSelectFolder={setSelectedFolderId}
+          selectedTagId={selectedTagId}
+          onSelectTag={setSelectedTagId}
+          accentColor={COLORS.accentColor}
+          refreshKey={filterRefreshKey}
+        />
       </View>
 
       {/* Error Banner */}
@@ -673,19 +792,30 @@ const StudyNotes = () => {
 
 
 
-      {/* Image Scan Modal */}
-      <ImageScanModal
+      {/* Multi-page Scan Modal */}
+      <MultiPageScanModal
         visible={scanModalVisible}
         onClose={closeScanModal}
-        onImageProcessed={handleImageProcessed}
+        onScanComplete={handleScanComplete}
+        creditFeature="study-notes"
         title="Create Study Note"
-        subtitle="Take a photo or choose from gallery to extract text for your study note"
         actionButtonText="Create Note"
-        actionButtonIcon="document-text-outline"
         accentColor={COLORS.accentColor}
-        onProcessImage={processScannedImage}
-        showExtractedText={true}
-        showActionButton={true}
+      />
+
+      {/* PDF Import Modal */}
+      <PdfImportModal
+        visible={pdfImportVisible}
+        onClose={() => setPdfImportVisible(false)}
+        onImported={loadNotes}
+        accentColor={COLORS.accentColor}
+      />
+
+      {/* Voice Note Modal */}
+      <VoiceNoteModal
+        visible={voiceNoteVisible}
+        onClose={() => setVoiceNoteVisible(false)}
+        onSaved={loadNotes}
       />
 
       {/* Note Preview Modal */}
@@ -694,6 +824,7 @@ const StudyNotes = () => {
         onClose={() => setPreviewModalVisible(false)}
         note={selectedNote}
         isScanNote={true}
+        attachmentNoteType="scan-note"
       />
 
       {/* Append Scan Modal */}
@@ -737,12 +868,32 @@ const StudyNotes = () => {
         onNoteEnhanced={handleNoteEnhanced}
       />
 
+      {/* Magic Eraser */}
+      <NotePickerModal
+        visible={eraserPickerVisible}
+        onClose={() => setEraserPickerVisible(false)}
+        onSelect={note => handleEraserNotePicked(note.id)}
+        title="Clean Up a Scan"
+        noteTypes={SCAN_NOTE_TYPES}
+        accentColor={COLORS.accentColor}
+      />
+      <MagicEraserModal
+        visible={!!eraserTargetNote}
+        onClose={() => setEraserTargetNote(null)}
+        note={eraserTargetNote}
+        onSaved={loadNotes}
+      />
+
       {/* Note Chat Modal */}
       <NoteChatModal
         visible={chatModalVisible}
         onClose={closeChatModal}
+        noteId={chatTargetNote?.id}
+        noteType="scan-note"
         noteTitle={chatTargetNote?.title || ''}
         noteContent={chatTargetNote?.content || ''}
+        noteCreatedAt={chatTargetNote?.createdAt}
+        onNoteUpdated={handleChatNoteUpdated}
         accentColor={COLORS.accentColor}
       />
 
@@ -756,6 +907,19 @@ const StudyNotes = () => {
         sourceType="scan-note"
         onMindMapSaved={handleMindMapSaved}
       />
+
+      {/* Tags, Subject and Folder */}
+      <NoteOrganizeModal
+        visible={!!organizeTargetNote}
+        onClose={() => setOrganizeTargetNote(null)}
+        noteType="scan-note"
+        noteId={organizeTargetNote?.id}
+        noteTitle={organizeTargetNote?.title || ''}
+        subject={organizeTargetNote?.subject}
+        folderId={organizeTargetNote?.folder_id}
+        onSaved={handleNoteOrganized}
+        accentColor={COLORS.accentColor}
+      />
     </SafeAreaView>
   );
 };
@@ -793,6 +957,15 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '500',
   },
+  importButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1.5,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
   fab: {
     width: 48,
     height: 48,
@@ -897,6 +1070,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  importLinks: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 16,
+  },
+  importLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  importLinkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
   primaryButton: {
     flexDirection: 'row',
     alignItems: 'center',
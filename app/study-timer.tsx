@@ -0,0 +1,609 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useLocalSearchParams } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  Vibration,
+  View
+} from 'react-native';
+import NotePickerModal, { PickedNote } from '../components/NotePickerModal';
+import { useThemeContext } from '../providers/ThemeProvider';
+import achievementService from '../services/achievementService';
+import { addStudySession, getRecentStudySessions, getStudyDays, StudySession } from '../services/historyStorage';
+import { cancelTimerNotification, scheduleTimerNotification } from '../services/studyNotifications';
+import { getSubjects, Subject } from '../services/subjectRegistry';
+import {
+  DEFAULT_TIMER_SETTINGS,
+  FOCUS_LENGTHS,
+  formatClock,
+  formatStudyTime,
+  localDay,
+  MIN_LOGGED_SECONDS,
+  nextPhase,
+  PHASE_LABELS,
+  phaseMinutes,
+  TimerPhase,
+  TimerSettings,
+} from '../utils/studyTimer';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#feca57',
+  breakColor: '#10b981',
+  dangerColor: '#ff6b6b',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+    onAccent: '#1a1a1a',
+  },
+});
+
+type TimerStatus = 'idle' | 'running' | 'paused';
+
+interface StudyStats {
+  todaySeconds: number;
+  streak: number;
+  recent: StudySession[];
+}
+
+const PHASE_NOTIFICATIONS: Record<TimerPhase, { title: string; body: string }> = {
+  focus: { title: 'Focus session complete', body: 'Nice work! Time for a break.' },
+  'short-break': { title: 'Break is over', body: 'Ready for the next focus session?' },
+  'long-break': { title: 'Long break is over', body: 'Ready to get back to studying?' },
+};
+
+const StudyTimer = () => {
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  // Subject screens can open the timer with ?subject=<id>
+  const { subject: subjectParam } = useLocalSearchParams<{ subject?: string }>();
+
+  const [settings, setSettings] = useState<TimerSettings>(DEFAULT_TIMER_SETTINGS);
+  const [phase, setPhase] = useState<TimerPhase>('focus');
+  const [status, setStatus] = useState<TimerStatus>('idle');
+  const [remainingMs, setRemainingMs] = useState(DEFAULT_TIMER_SETTINGS.focusMinutes * 60000);
+  const [now, setNow] = useState(Date.now());
+  const [completedFocus, setCompletedFocus] = useState(0);
+  const [subjects, setSubjects] = useState<Subject[]>([]);
+  const [subjectId, setSubjectId] = useState<string | null>(subjectParam ?? null);
+  const [linkedNote, setLinkedNote] = useState<PickedNote | null>(null);
+  const [notePickerVisible, setNotePickerVisible] = useState(false);
+  const [stats, setStats] = useState<StudyStats>({ todaySeconds: 0, streak: 0, recent: [] });
+
+  const endsAtRef = useRef(0);
+  const runStartedAtRef = useRef(0);
+  // Time already focused in this session before the current run (pauses excluded)
+  const focusedMillisRef = useRef(0);
+  const focusStartedAtRef = useRef<Date | null>(null);
+  const notificationIdRef = useRef<string | null>(null);
+
+  const phaseColor = phase === 'focus' ? COLORS.accentColor : COLORS.breakColor;
+  const totalMs = phaseMinutes(phase, settings) * 60000;
+  const displayMs = status === 'running' ? endsAtRef.current - now : remainingMs;
+  const progress = Math.min(1, Math.max(0, 1 - displayMs / totalMs));
+  const focusInProgress = phase === 'focus' && status !== 'idle';
+
+  const loadStats = useCallback(async () => {
+    try {
+      const [days, recent, achievementStatus] = await Promise.all([
+        getStudyDays(),
+        getRecentStudySessions(5),
+        achievementService.getStatus(),
+      ]);
+      const today = localDay();
+      setStats({
+        todaySeconds: days.find(day => day.day === today)?.seconds ?? 0,
+        streak: achievementStatus.currentStreak,
+        recent,
+      });
+    } catch (error) {
+      console.error('Failed to load study sessions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStats();
+    getSubjects()
+      .then(setSubjects)
+      .catch(error => console.error('Failed to load subjects:', error));
+  }, [loadStats]);
+
+  const logFocusSession = async (endedAt: Date, focusedMillis: number, completed: boolean) => {
+    const startedAt = focusStartedAtRef.current;
+    focusStartedAtRef.current = null;
+    focusedMillisRef.current = 0;
+    const seconds = Math.round(focusedMillis / 1000);
+    if (!startedAt || seconds < MIN_LOGGED_SECONDS) return;
+    try {
+      await addStudySession({
+        day: localDay(startedAt),
+        startedAt: startedAt.toISOString(),
+        endedAt: endedAt.toISOString(),
+        duration_seconds: seconds,
+        completed: completed ? 1 : 0,
+        subject: subjectId,
+        note_type: linkedNote?.type ?? null,
+        note_id: linkedNote?.id ?? null,
+      });
+      await loadStats();
+    } catch (error) {
+      console.error('Failed to log study session:', error);
+    }
+  };
+
+  const enterPhase = (next: TimerPhase, nextSettings: TimerSettings = settings) => {
+    setPhase(next);
+    setStatus('idle');
+    setRemainingMs(phaseMinutes(next, nextSettings) * 60000);
+  };
+
+  const start = async () => {
+    const startedAt = Date.now();
+    if (phase === 'focus' && !focusStartedAtRef.current) focusStartedAtRef.current = new Date(startedAt);
+    runStartedAtRef.current = startedAt;
+    endsAtRef.current = startedAt + remainingMs;
+    setNow(startedAt);
+    setStatus('running');
+
+    const { title, body } = PHASE_NOTIFICATIONS[phase];
+    const endsAt = endsAtRef.current;
+    await cancelTimerNotification(notificationIdRef.current);
+    const notificationId = await scheduleTimerNotification(title, body, new Date(endsAt));
+    // Paused or stopped while the notification was being scheduled
+    if (endsAtRef.current === endsAt) notificationIdRef.current = notificationId;
+    else cancelTimerNotification(notificationId);
+  };
+
+  const pause = () => {
+    const pausedAt = Date.now();
+    if (phase === 'focus') focusedMillisRef.current += pausedAt - runStartedAtRef.current;
+    setRemainingMs(Math.max(0, endsAtRef.current - pausedAt));
+    endsAtRef.current = 0;
+    setStatus('paused');
+    cancelTimerNotification(notificationIdRef.current);
+    notificationIdRef.current = null;
+  };
+
+  // Runs when the clock reaches zero, possibly late if the app was in the
+  // background; the session ends when the timer did, not when we noticed
+  const completePhase = () => {
+    const endedAt = endsAtRef.current;
+    // The notification has fired by now
+    notificationIdRef.current = null;
+    Vibration.vibrate();
+    if (phase === 'focus') {
+      const focusedMillis = focusedMillisRef.current + (endedAt - runStartedAtRef.current);
+      logFocusSession(new Date(endedAt), focusedMillis, true);
+      const completed = completedFocus + 1;
+      setCompletedFocus(completed);
+      enterPhase(nextPhase('focus', completed, settings));
+    } else {
+      enterPhase('focus');
+    }
+  };
+
+  // Ends the current phase early. A focus session stopped this way is still
+  // logged if it ran for at least a minute.
+  const stopEarly = () => {
+    cancelTimerNotification(notificationIdRef.current);
+    notificationIdRef.current = null;
+    endsAtRef.current = 0;
+    if (phase === 'focus' && status !== 'idle') {
+      const stoppedAt = Date.now();
+      const focusedMillis =
+        focusedMillisRef.current + (status === 'running' ? stoppedAt - runStartedAtRef.current : 0);
+      logFocusSession(new Date(stoppedAt), focusedMillis, false);
+    }
+  };
+
+  const reset = () => {
+    stopEarly();
+    enterPhase(phase);
+  };
+
+  const skipBreak = () => {
+    stopEarly();
+    enterPhase('focus');
+  };
+
+  const chooseFocusLength = (minutes: number) => {
+    const nextSettings = { ...settings, focusMinutes: minutes };
+    setSettings(nextSettings);
+    enterPhase('focus', nextSettings);
+  };
+
+  // Refs to the latest handlers for the interval and the unmount cleanup
+  const completePhaseRef = useRef(completePhase);
+  completePhaseRef.current = completePhase;
+  const stopEarlyRef = useRef(stopEarly);
+  stopEarlyRef.current = stopEarly;
+
+  useEffect(() => {
+    if (status !== 'running') return;
+    const interval = setInterval(() => {
+      const current = Date.now();
+      if (current >= endsAtRef.current) completePhaseRef.current();
+      else setNow(current);
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [status]);
+
+  // Leaving the screen ends the session
+  useEffect(() => () => stopEarlyRef.current(), []);
+
+  const subjectName = (id: string | null) => subjects.find(subject => subject.id === id)?.name ?? null;
+
+  const renderRecentSession = (session: StudySession) => {
+    const started = new Date(session.startedAt);
+    const label = subjectName(session.subject) ?? 'General study';
+    return (
+      <View key={session.id} style={[styles.sessionRow, { borderBottomColor: COLORS.borderColor }]}>
+        <Ionicons
+          name={session.completed ? 'checkmark-circle' : 'stop-circle-outline'}
+          size={20}
+          color={session.completed ? COLORS.breakColor : COLORS.iconColor}
+        />
+        <View style={styles.sessionText}>
+          <Text style={[styles.sessionTitle, { color: COLORS.textColor.primary }]} numberOfLines={1}>
+            {label}
+          </Text>
+          <Text style={[styles.sessionMeta, { color: COLORS.textColor.light }]}>
+            {started.toLocaleDateString()} · {started.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+          </Text>
+        </View>
+        <Text style={[styles.sessionDuration, { color: COLORS.textColor.secondary }]}>
+          {formatStudyTime(session.duration_seconds)}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+      <StatusBar barStyle={resolvedTheme === 'dark' ? 'light-content' : 'dark-content'} backgroundColor={COLORS.headerBackground} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+        <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Study Timer</Text>
+        <Text style={[styles.headerSubtitle, { color: COLORS.textColor.secondary }]}>
+          Focus in short sessions with breaks in between
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Today */}
+        <View style={styles.statsRow}>
+          <View style={[styles.statCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+            <Ionicons name="time-outline" size={20} color={COLORS.accentColor} />
+            <Text style={[styles.statValue, { color: COLORS.textColor.primary }]}>{formatStudyTime(stats.todaySeconds)}</Text>
+            <Text style={[styles.statLabel, { color: COLORS.textColor.secondary }]}>Today</Text>
+          </View>
+          <View style={[styles.statCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+            <Ionicons name="flame-outline" size={20} color={COLORS.dangerColor} />
+            <Text style={[styles.statValue, { color: COLORS.textColor.primary }]}>
+              {stats.streak} {stats.streak === 1 ? 'day' : 'days'}
+            </Text>
+            <Text style={[styles.statLabel, { color: COLORS.textColor.secondary }]}>Streak</Text>
+          </View>
+        </View>
+
+        {/* Timer */}
+        <View style={[styles.timerCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <View style={[styles.phaseBadge, { backgroundColor: `${phaseColor}26` }]}>
+            <Ionicons name={phase === 'focus' ? 'bulb-outline' : 'cafe-outline'} size={16} color={phaseColor} />
+            <Text style={[styles.phaseText, { color: phaseColor }]}>{PHASE_LABELS[phase]}</Text>
+          </View>
+          <Text style={[styles.clock, { color: COLORS.textColor.primary }]}>{formatClock(displayMs)}</Text>
+          <View style={[styles.progressTrack, { backgroundColor: COLORS.borderColor }]}>
+            <View style={[styles.progressFill, { backgroundColor: phaseColor, width: `${progress * 100}%` }]} />
+          </View>
+          <Text style={[styles.sessionCount, { color: COLORS.textColor.light }]}>
+            Session {(completedFocus % settings.sessionsBeforeLongBreak) + 1} of {settings.sessionsBeforeLongBreak}
+            {completedFocus > 0 ? ` · ${completedFocus} done` : ''}
+          </Text>
+
+          <View style={styles.controls}>
+            {status !== 'idle' && (
+              <TouchableOpacity style={[styles.roundButton, { borderColor: COLORS.borderColor }]} onPress={reset}>
+                <Ionicons name="refresh" size={22} color={COLORS.textColor.secondary} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.mainButton, { backgroundColor: phaseColor }]}
+              onPress={status === 'running' ? pause : start}
+            >
+              <Ionicons
+                name={status === 'running' ? 'pause' : 'play'}
+                size={30}
+                color={phase === 'focus' ? COLORS.textColor.onAccent : COLORS.textColor.white}
+              />
+            </TouchableOpacity>
+            {phase !== 'focus' && (
+              <TouchableOpacity style={[styles.roundButton, { borderColor: COLORS.borderColor }]} onPress={skipBreak}>
+                <Ionicons name="play-skip-forward" size={22} color={COLORS.textColor.secondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        {/* Focus length */}
+        <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Focus Length</Text>
+        <View style={styles.chipRow}>
+          {FOCUS_LENGTHS.map(minutes => {
+            const selected = settings.focusMinutes === minutes;
+            return (
+              <TouchableOpacity
+                key={minutes}
+                style={[
+                  styles.chip,
+                  { backgroundColor: COLORS.cardColor, borderColor: selected ? COLORS.accentColor : COLORS.borderColor },
+                  selected && { backgroundColor: COLORS.accentColor },
+                  focusInProgress && styles.disabled,
+                ]}
+                onPress={() => chooseFocusLength(minutes)}
+                disabled={focusInProgress}
+              >
+                <Text style={[styles.chipText, { color: selected ? COLORS.textColor.onAccent : COLORS.textColor.secondary }]}>
+                  {minutes} min
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* What this session is for */}
+        <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Studying</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.subjectRow}>
+          {[null, ...subjects].map(subject => {
+            const id = subject?.id ?? null;
+            const selected = subjectId === id;
+            return (
+              <TouchableOpacity
+                key={id ?? 'none'}
+                style={[
+                  styles.chip,
+                  { backgroundColor: COLORS.cardColor, borderColor: selected ? COLORS.accentColor : COLORS.borderColor },
+                  selected && { backgroundColor: COLORS.accentColor },
+                ]}
+                onPress={() => setSubjectId(id)}
+              >
+                <Text style={[styles.chipText, { color: selected ? COLORS.textColor.onAccent : COLORS.textColor.secondary }]}>
+                  {subject?.name ?? 'No subject'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+
+        <TouchableOpacity
+          style={[styles.noteLink, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={() => setNotePickerVisible(true)}
+        >
+          <Ionicons name="document-text-outline" size={20} color={COLORS.accentColor} />
+          <Text
+            style={[styles.noteLinkText, { color: linkedNote ? COLORS.textColor.primary : COLORS.textColor.secondary }]}
+            numberOfLines={1}
+          >
+            {linkedNote ? linkedNote.title : 'Link a note (optional)'}
+          </Text>
+          {linkedNote ? (
+            <TouchableOpacity onPress={() => setLinkedNote(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+              <Ionicons name="close-circle" size={20} color={COLORS.iconColor} />
+            </TouchableOpacity>
+          ) : (
+            <Ionicons name="chevron-forward" size={18} color={COLORS.iconColor} />
+          )}
+        </TouchableOpacity>
+
+        {/* Recent sessions */}
+        {stats.recent.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Recent Sessions</Text>
+            <View style={[styles.sessionsCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+              {stats.recent.map(renderRecentSession)}
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <NotePickerModal
+        visible={notePickerVisible}
+        onClose={() => setNotePickerVisible(false)}
+        onSelect={note => {
+          setLinkedNote(note);
+          setNotePickerVisible(false);
+        }}
+        title="Link a Note"
+        accentColor={COLORS.accentColor}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default StudyTimer;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 50,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  statCard: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  statValue: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  timerCard: {
+    alignItems: 'center',
+    padding: 24,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  phaseBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+  },
+  phaseText: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  clock: {
+    fontSize: 64,
+    fontWeight: '700',
+    fontVariant: ['tabular-nums'],
+    marginVertical: 12,
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  sessionCount: {
+    fontSize: 13,
+    marginTop: 10,
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 24,
+    marginTop: 20,
+  },
+  mainButton: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  roundButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    borderWidth: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  subjectRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  noteLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginTop: 12,
+  },
+  noteLinkText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  sessionsCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    paddingHorizontal: 14,
+  },
+  sessionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  sessionText: {
+    flex: 1,
+  },
+  sessionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sessionMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  sessionDuration: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,791 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  SafeAreaView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import AIAnswerModal from '../../components/AIAnswerModal';
+import FlashCardGenerationModal from '../../components/FlashCardGenerationModal';
+import ImageScanModal from '../../components/ImageScanModal';
+import MindMapGenerationModal from '../../components/MindMapGenerationModal';
+import MultiPageScanModal from '../../components/MultiPageScanModal';
+import NoteChatModal from '../../components/NoteChatModal';
+import NoteFilterBar from '../../components/NoteFilterBar';
+import NoteOrganizeModal from '../../components/NoteOrganizeModal';
+import NoteReaderModal from '../../components/NoteReaderModal';
+import QuizGenerationModal from '../../components/QuizGenerationModal';
+import { useThemeContext } from '../../providers/ThemeProvider';
+import { AIRequestCancelledError, AIStreamStatus, getAIErrorMessage, isAIGatewayError } from '../../services/aiGateway';
+import { processImage, streamSubjectAnswer } from '../../services/geminiServices';
+import {
+  addHistory,
+  addNoteAttachments,
+  addScanNote,
+  deleteScanNote,
+  getAllScanNotes,
+  getNoteTagNames,
+  ScanNote,
+} from '../../services/historyStorage';
+import { getSubject, removeCustomSubject, Subject, SubjectTool } from '../../services/subjectRegistry';
+import subscriptionService, { EmptyAIResponseError } from '../../services/subscriptionService';
+import { ScannedPage } from '../../utils/scanPages';
+
+// Dynamic color scheme based on theme; the accent is the subject's color
+const getColors = (isDark: boolean, accentColor: string) => ({
+  primary: accentColor,
+  accentColor,
+  dangerColor: '#ff6b6b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+// Note-level tools, in the order their buttons appear on a note card
+const NOTE_TOOL_ICONS: Partial<Record<SubjectTool, keyof typeof Ionicons.glyphMap>> = {
+  'quiz': 'help-circle',
+  'flash-cards': 'albums',
+  'chat': 'chatbubble-outline',
+  'mind-map': 'git-network-outline',
+};
+
+type ScanPurpose = 'ask' | 'scan-note';
+
+const SubjectScreen = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+
+  const [subject, setSubject] = useState<Subject | null>(null);
+  const [subjectMissing, setSubjectMissing] = useState(false);
+  const [notes, setNotes] = useState<ScanNote[]>([]);
+  const [tagNames, setTagNames] = useState<Record<number, string[]>>({});
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Folder and tag filters
+  const [selectedFolderId, setSelectedFolderId] = useState<number | undefined>();
+  const [selectedTagId, setSelectedTagId] = useState<number | undefined>();
+  const [filterRefreshKey, setFilterRefreshKey] = useState(0);
+
+  // Scanning, for both questions and new notes
+  const [scanPurpose, setScanPurpose] = useState<ScanPurpose | null>(null);
+
+  // Answer to a scanned question
+  const [answerVisible, setAnswerVisible] = useState(false);
+  const [question, setQuestion] = useState('');
+  const [answer, setAnswer] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamStatus, setStreamStatus] = useState<AIStreamStatus | undefined>();
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Note modals
+  const [previewNote, setPreviewNote] = useState<ScanNote | null>(null);
+  const [quizNote, setQuizNote] = useState<ScanNote | null>(null);
+  const [flashCardNote, setFlashCardNote] = useState<ScanNote | null>(null);
+  const [mindMapNote, setMindMapNote] = useState<ScanNote | null>(null);
+  const [chatNote, setChatNote] = useState<ScanNote | null>(null);
+  const [organizeNote, setOrganizeNote] = useState<ScanNote | null>(null);
+
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark', subject?.color ?? '#667eea');
+
+  useEffect(() => {
+    if (!id) return;
+    getSubject(id).then(found => {
+      setSubject(found);
+      setSubjectMissing(!found);
+    });
+  }, [id]);
+
+  // Abort an answer still streaming when the screen goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const loadNotes = useCallback(async () => {
+    if (!id) return;
+    try {
+      setLoading(true);
+      const [scanNotes, noteTagNames] = await Promise.all([
+        getAllScanNotes({ subject: id, folderId: selectedFolderId, tagId: selectedTagId }),
+        getNoteTagNames('scan-note'),
+      ]);
+      setNotes(scanNotes);
+      setTagNames(noteTagNames);
+    } catch (error) {
+      console.error('Failed to load subject notes:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id, selectedFolderId, selectedTagId]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadNotes();
+    }, [loadNotes])
+  );
+
+  const filteredNotes = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return notes.filter(
+      note =>
+        note.title.toLowerCase().includes(query) ||
+        note.content.toLowerCase().includes(query) ||
+        (tagNames[note.id] ?? []).some(tag => tag.toLowerCase().includes(query))
+    );
+  }, [notes, searchQuery, tagNames]);
+
+  const showOutOfCredits = (message?: string) => {
+    Alert.alert(
+      'Out of Credits',
+      message || 'You need at least 1 credit for this.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Get Credits', onPress: () => router.push('/paywall') },
+      ]
+    );
+  };
+
+  const processScannedImage = async (uri: string): Promise<string> => {
+    const creditResult = await subscriptionService.reserveCredits(1, id ?? 'subject');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error);
+      throw new Error('Insufficient credits');
+    }
+    try {
+      const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
+      if (!text?.trim()) {
+        throw new Error('No text could be detected in the image. Please try with a clearer image.');
+      }
+      return text.trim();
+    } catch (error) {
+      if (isAIGatewayError(error)) throw error;
+      throw new Error(getAIErrorMessage(error, 'Failed to process the image. Please try again with a clearer image.'));
+    }
+  };
+
+  // Errors are left to the scan modal, which keeps the pages so saving can be retried
+  const saveScannedNote = async (text: string, pages: ScannedPage[]) => {
+    if (!subject) return;
+    const firstLine = text.split('\n')[0];
+    const title = firstLine.substring(0, 50) + (firstLine.length > 50 ? '...' : '');
+    const noteId = await addScanNote(title, text, { subject: subject.id });
+    await addNoteAttachments('scan-note', noteId, pages.map(page => ({ uri: page.imageUri, text: page.text })));
+    await addHistory('', 'scan-notes', title, text);
+    loadNotes();
+  };
+
+  const askQuestion = async (text: string) => {
+    if (!subject) return;
+    setScanPurpose(null);
+
+    const creditResult = await subscriptionService.reserveCredits(1, subject.id);
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setQuestion(text);
+    setAnswer('');
+    setStreamStatus(undefined);
+    setIsStreaming(true);
+    setAnswerVisible(true);
+
+    try {
+      const result = await subscriptionService.runWithCredits(
+        creditResult.reservation,
+        credits =>
+          streamSubjectAnswer(subject, text, {
+            ...credits,
+            signal: abortController.signal,
+            onText: partial => {
+              if (abortControllerRef.current === abortController) setAnswer(partial);
+            },
+          }),
+        result => !result.text.trim()
+      );
+
+      // Stopped or interrupted answers are kept as far as they got
+      await addHistory('', subject.id, text, result.text);
+      if (abortControllerRef.current !== abortController) return;
+      setAnswer(result.text);
+      setStreamStatus(result.status);
+    } catch (error) {
+      if (error instanceof AIRequestCancelledError || error instanceof EmptyAIResponseError) return;
+      console.error('Failed to answer subject question:', error);
+      setAnswerVisible(false);
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to get an answer. Please try again.'));
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsStreaming(false);
+    }
+  };
+
+  const closeAnswer = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setAnswerVisible(false);
+    setQuestion('');
+    setAnswer('');
+    setStreamStatus(undefined);
+  };
+
+  const handleDeleteNote = (note: ScanNote) => {
+    Alert.alert(
+      'Delete Note',
+      'Are you sure you want to delete this note? This action cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            await deleteScanNote(note.id);
+            loadNotes();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDeleteSubject = () => {
+    if (!subject?.isCustom) return;
+    Alert.alert(
+      'Remove Subject',
+      `Remove "${subject.name}"? Its notes are kept in Scan Notes.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await removeCustomSubject(subject.id);
+            router.back();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleNoteOrganized = () => {
+    setFilterRefreshKey(key => key + 1);
+    loadNotes();
+  };
+
+  const openNoteTool = (tool: SubjectTool, note: ScanNote) => {
+    switch (tool) {
+      case 'quiz':
+        setQuizNote(note);
+        break;
+      case 'flash-cards':
+        setFlashCardNote(note);
+        break;
+      case 'mind-map':
+        setMindMapNote(note);
+        break;
+      case 'chat':
+        setChatNote(note);
+        break;
+    }
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString([], { month: 'short', day: 'numeric' });
+
+  if (subjectMissing) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: COLORS.backgroundColor }]}>
+        <Ionicons name="help-buoy-outline" size={56} color={COLORS.iconColor} />
+        <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>Subject not found</Text>
+        <TouchableOpacity style={[styles.createButton, { backgroundColor: COLORS.accentColor }]} onPress={() => router.back()}>
+          <Text style={[styles.createButtonText, { color: COLORS.textColor.white }]}>Go Back</Text>
+        </TouchableOpacity>
+      </SafeAreaView>
+    );
+  }
+
+  if (!subject) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered, { backgroundColor: COLORS.backgroundColor }]}>
+        <ActivityIndicator size="large" color={COLORS.accentColor} />
+      </SafeAreaView>
+    );
+  }
+
+  const noteTools = subject.tools.filter(tool => NOTE_TOOL_ICONS[tool]);
+
+  const renderNoteItem = ({ item }: { item: ScanNote }) => {
+    const tags = tagNames[item.id] ?? [];
+    return (
+      <View style={[styles.noteCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+        <TouchableOpacity style={styles.noteContent} onPress={() => setPreviewNote(item)} activeOpacity={0.8}>
+          <View style={styles.noteHeader}>
+            <Text style={[styles.noteTitle, { color: COLORS.textColor.primary }]} numberOfLines={2}>
+              {item.title}
+            </Text>
+            <Text style={[styles.noteDate, { color: COLORS.textColor.light }]}>{formatDate(item.createdAt)}</Text>
+          </View>
+          <Text style={[styles.noteExcerpt, { color: COLORS.textColor.secondary }]} numberOfLines={3}>
+            {item.content}
+          </Text>
+          {tags.length > 0 && (
+            <Text style={[styles.noteTags, { color: COLORS.accentColor }]} numberOfLines={1}>
+              {tags.map(tag => `#${tag}`).join(' ')}
+            </Text>
+          )}
+        </TouchableOpacity>
+
+        <View style={[styles.noteActions, { borderTopColor: COLORS.borderColor }]}>
+          {noteTools.map(tool => (
+            <TouchableOpacity
+              key={tool}
+              style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
+              onPress={() => openNoteTool(tool, item)}
+            >
+              <Ionicons name={NOTE_TOOL_ICONS[tool]!} size={20} color={COLORS.accentColor} />
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
+            onPress={() => setOrganizeNote(item)}
+          >
+            <Ionicons name="pricetag-outline" size={20} color={COLORS.accentColor} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: COLORS.backgroundColor }]}
+            onPress={() => handleDeleteNote(item)}
+          >
+            <Ionicons name="trash" size={20} color={COLORS.dangerColor} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    const isFiltered = !!searchQuery || selectedFolderId !== undefined || selectedTagId !== undefined;
+    return (
+      <View style={styles.emptyContainer}>
+        <View style={[styles.emptyIconContainer, { backgroundColor: `${subject.color}20` }]}>
+          <Ionicons name={subject.icon} size={56} color={subject.color} />
+        </View>
+        <Text style={[styles.emptyTitle, { color: COLORS.textColor.primary }]}>
+          {isFiltered ? 'No notes found' : `No ${subject.name} notes yet`}
+        </Text>
+        <Text style={[styles.emptySubtitle, { color: COLORS.textColor.secondary }]}>
+          {isFiltered
+            ? 'Try adjusting your search or filters'
+            : `Scan a page to start your ${subject.name} notes`}
+        </Text>
+        {!isFiltered && subject.tools.includes('scan-note') && (
+          <TouchableOpacity
+            style={[styles.createButton, { backgroundColor: COLORS.accentColor }]}
+            onPress={() => setScanPurpose('scan-note')}
+          >
+            <Ionicons name="scan-outline" size={20} color={COLORS.textColor.white} />
+            <Text style={[styles.createButtonText, { color: COLORS.textColor.white }]}>Scan Notes</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+      <StatusBar barStyle={resolvedTheme === 'dark' ? 'light-content' : 'dark-content'} backgroundColor={COLORS.headerBackground} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+        <View style={styles.headerContent}>
+          <TouchableOpacity onPress={() => router.back()} style={styles.backButton}>
+            <Ionicons name="arrow-back" size={24} color={COLORS.textColor.primary} />
+          </TouchableOpacity>
+          <View style={[styles.subjectIcon, { backgroundColor: subject.color }]}>
+            <Ionicons name={subject.icon} size={22} color={COLORS.textColor.white} />
+          </View>
+          <View style={styles.headerText}>
+            <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]} numberOfLines={1}>{subject.name}</Text>
+            <Text style={[styles.headerSubtitle, { color: COLORS.textColor.secondary }]}>
+              {notes.length} {notes.length === 1 ? 'note' : 'notes'}
+            </Text>
+          </View>
+          {subject.isCustom && (
+            <TouchableOpacity onPress={handleDeleteSubject} style={styles.backButton}>
+              <Ionicons name="trash-outline" size={22} color={COLORS.dangerColor} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Subject tools */}
+        <View style={styles.toolRow}>
+          {subject.tools.includes('ask') && (
+            <TouchableOpacity
+              style={[styles.toolButton, { backgroundColor: COLORS.accentColor }]}
+              onPress={() => setScanPurpose('ask')}
+            >
+              <Ionicons name="sparkles-outline" size={18} color={COLORS.textColor.white} />
+              <Text style={[styles.toolButtonText, { color: COLORS.textColor.white }]}>Ask a Question</Text>
+            </TouchableOpacity>
+          )}
+          {subject.tools.includes('scan-note') && (
+            <TouchableOpacity
+              style={[styles.toolButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.accentColor, borderWidth: 1 }]}
+              onPress={() => setScanPurpose('scan-note')}
+            >
+              <Ionicons name="scan-outline" size={18} color={COLORS.accentColor} />
+              <Text style={[styles.toolButtonText, { color: COLORS.accentColor }]}>Scan Notes</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {/* Search Bar */}
+        <View style={[styles.searchContainer, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <Ionicons name="search" size={20} color={COLORS.textColor.secondary} style={styles.searchIcon} />
+          <TextInput
+            style={[styles.searchInput, { color: COLORS.textColor.primary }]}
+            placeholder={`Search ${subject.name} notes...`}
+            placeholderTextColor={COLORS.textColor.light}
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+          />
+          {searchQuery.length > 0 && (
+            <TouchableOpacity onPress={() => setSearchQuery('')}>
+              <Ionicons name="close-circle" size={20} color={COLORS.textColor.secondary} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <NoteFilterBar
+          selectedFolderId={selectedFolderId}
+          onSelectFolder={setSelectedFolderId}
+          selectedTagId={selectedTagId}
+          onSelectTag={setSelectedTagId}
+          accentColor={COLORS.accentColor}
+          refreshKey={filterRefreshKey}
+        />
+      </View>
+
+      {/* Content */}
+      {loading && notes.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={COLORS.accentColor} />
+        </View>
+      ) : (
+        <FlatList
+          data={filteredNotes}
+          renderItem={renderNoteItem}
+          keyExtractor={item => item.id.toString()}
+          contentContainerStyle={styles.listContainer}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={renderEmptyState()}
+        />
+      )}
+
+      <ImageScanModal
+        visible={scanPurpose === 'ask'}
+        onClose={() => setScanPurpose(null)}
+        onImageProcessed={askQuestion}
+        title={`${subject.name} Question`}
+        subtitle={`Take a photo of a ${subject.name.toLowerCase()} question to get an explanation`}
+        actionButtonText="Get Answer (1 Credit)"
+        actionButtonIcon="sparkles-outline"
+        accentColor={COLORS.accentColor}
+        onProcessImage={processScannedImage}
+        showExtractedText={true}
+        showActionButton={true}
+      />
+
+      <MultiPageScanModal
+        visible={scanPurpose === 'scan-note'}
+        onClose={() => setScanPurpose(null)}
+        onScanComplete={saveScannedNote}
+        creditFeature={subject.id}
+        title={`New ${subject.name} Note`}
+        actionButtonText="Create Note"
+        accentColor={COLORS.accentColor}
+      />
+
+      <AIAnswerModal
+        visible={answerVisible}
+        onClose={closeAnswer}
+        onViewHistory={() => {
+          closeAnswer();
+          router.push('/HistoryList' as any);
+        }}
+        title={`${subject.name} Answer`}
+        question={question}
+        answer={answer}
+        feature={subject.id}
+        accentColor={COLORS.accentColor}
+        isStreaming={isStreaming}
+        onStopStreaming={() => abortControllerRef.current?.abort()}
+        streamStatus={streamStatus}
+      />
+
+      <NoteReaderModal
+        visible={!!previewNote}
+        onClose={() => setPreviewNote(null)}
+        note={previewNote}
+        attachmentNoteType="scan-note"
+      />
+
+      <QuizGenerationModal
+        visible={!!quizNote}
+        onClose={() => setQuizNote(null)}
+        sourceContent={quizNote?.content || ''}
+        sourceTitle={quizNote?.title || ''}
+        sourceId={quizNote?.id}
+        sourceType="scan-note"
+        onQuizSaved={loadNotes}
+      />
+
+      <FlashCardGenerationModal
+        visible={!!flashCardNote}
+        onClose={() => setFlashCardNote(null)}
+        sourceContent={flashCardNote?.content || ''}
+        sourceTitle={flashCardNote?.title || ''}
+        sourceId={flashCardNote?.id}
+        sourceType="scan-note"
+        onFlashCardSaved={loadNotes}
+      />
+
+      <MindMapGenerationModal
+        visible={!!mindMapNote}
+        onClose={() => setMindMapNote(null)}
+        sourceContent={mindMapNote?.content || ''}
+        sourceTitle={mindMapNote?.title || ''}
+        sourceId={mindMapNote?.id}
+        sourceType="scan-note"
+        onMindMapSaved={loadNotes}
+      />
+
+      <NoteChatModal
+        visible={!!chatNote}
+        onClose={() => setChatNote(null)}
+        noteId={chatNote?.id}
+        noteType="scan-note"
+        noteTitle={chatNote?.title || ''}
+        noteContent={chatNote?.content || ''}
+        noteCreatedAt={chatNote?.createdAt}
+        onNoteUpdated={content => {
+          setChatNote(prev => (prev ? { ...prev, content } : prev));
+          loadNotes();
+        }}
+        accentColor={COLORS.accentColor}
+      />
+
+      <NoteOrganizeModal
+        visible={!!organizeNote}
+        onClose={() => setOrganizeNote(null)}
+        noteType="scan-note"
+        noteId={organizeNote?.id}
+        noteTitle={organizeNote?.title || ''}
+        subject={organizeNote?.subject}
+        folderId={organizeNote?.folder_id}
+        onSaved={handleNoteOrganized}
+        accentColor={COLORS.accentColor}
+      />
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 16,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 50,
+    paddingHorizontal: 20,
+    paddingBottom: 20,
+    borderBottomWidth: 1,
+  },
+  headerContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  backButton: {
+    padding: 4,
+    marginRight: 8,
+  },
+  subjectIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: 14,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 26,
+    fontWeight: '700',
+  },
+  headerSubtitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  toolRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  toolButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+  },
+  toolButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderWidth: 1,
+  },
+  searchIcon: {
+    marginRight: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContainer: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  noteCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.1,
+    shadowRadius: 12,
+    elevation: 4,
+    overflow: 'hidden',
+    marginBottom: 16,
+  },
+  noteContent: {
+    padding: 20,
+    paddingBottom: 16,
+  },
+  noteHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  noteTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    flex: 1,
+    marginRight: 8,
+    lineHeight: 24,
+  },
+  noteDate: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  noteExcerpt: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  noteTags: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 10,
+  },
+  noteActions: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    gap: 12,
+    borderTopWidth: 1,
+  },
+  actionButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyContainer: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyIconContainer: {
+    marginBottom: 24,
+    width: 120,
+    height: 120,
+    borderRadius: 60,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyTitle: {
+    fontSize: 22,
+    fontWeight: '700',
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptySubtitle: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+    marginBottom: 32,
+    maxWidth: 300,
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 14,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  createButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
+
+export default SubjectScreen;
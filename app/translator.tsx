@@ -0,0 +1,736 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StatusBar,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import ImageScanModal from '../components/ImageScanModal';
+import NotePickerModal, { PickedNote } from '../components/NotePickerModal';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { AIRequestCancelledError, getAIErrorMessage } from '../services/aiGateway';
+import { processImage, translateText } from '../services/geminiServices';
+import { addFlashCardSet, addHistory, addNote } from '../services/historyStorage';
+import subscriptionService from '../services/subscriptionService';
+import {
+  AUTO_DETECT,
+  LANGUAGES,
+  MAX_TRANSLATION_CHARS,
+  translatedText,
+  translationCost,
+  TranslationResult,
+  translationToMarkdown,
+  vocabularyToFlashCards,
+} from '../utils/translation';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#ff9ff3',
+  dangerColor: '#ff6b6b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+type ResultView = 'side-by-side' | 'translation';
+type LanguageSlot = 'source' | 'target';
+
+const Translator = () => {
+  const router = useRouter();
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+
+  const [inputText, setInputText] = useState('');
+  const [sourceNote, setSourceNote] = useState<PickedNote | null>(null);
+  const [sourceLanguage, setSourceLanguage] = useState(AUTO_DETECT);
+  const [targetLanguage, setTargetLanguage] = useState('English');
+  const [pickingLanguage, setPickingLanguage] = useState<LanguageSlot | null>(null);
+  const [scanModalVisible, setScanModalVisible] = useState(false);
+  const [notePickerVisible, setNotePickerVisible] = useState(false);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [result, setResult] = useState<TranslationResult | null>(null);
+  const [resultView, setResultView] = useState<ResultView>('side-by-side');
+  const [savedNote, setSavedNote] = useState(false);
+  const [savedFlashCards, setSavedFlashCards] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const showOutOfCredits = (message: string) => {
+    Alert.alert('Out of Credits', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Get Credits', onPress: () => router.push('/paywall') },
+    ]);
+  };
+
+  // Input from a scan or a note replaces what was typed, trimmed to what one request takes
+  const applyInput = (text: string, note: PickedNote | null) => {
+    const trimmed = text.trim();
+    if (trimmed.length > MAX_TRANSLATION_CHARS) {
+      Alert.alert(
+        'Text Shortened',
+        `Only the first ${MAX_TRANSLATION_CHARS.toLocaleString()} characters can be translated at once.`
+      );
+    }
+    setInputText(trimmed.slice(0, MAX_TRANSLATION_CHARS));
+    setSourceNote(note);
+    setResult(null);
+  };
+
+  const processScannedImage = async (uri: string): Promise<string> => {
+    const creditResult = await subscriptionService.reserveCredits(1, 'translator');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || 'You need at least 1 credit to scan an image.');
+      throw new Error('Insufficient credits');
+    }
+    const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
+    return text.trim();
+  };
+
+  const handleNoteSelected = (note: PickedNote) => {
+    setNotePickerVisible(false);
+    applyInput(note.content, note);
+  };
+
+  const selectLanguage = (language: string) => {
+    if (pickingLanguage === 'source') setSourceLanguage(language);
+    if (pickingLanguage === 'target') setTargetLanguage(language);
+    setPickingLanguage(null);
+    setResult(null);
+  };
+
+  // A detected source language can be swapped in as the new target
+  const swapLanguages = () => {
+    const detected = sourceLanguage === AUTO_DETECT ? result?.sourceLanguage : sourceLanguage;
+    if (!detected || !LANGUAGES.includes(detected)) return;
+    setSourceLanguage(targetLanguage);
+    setTargetLanguage(detected);
+    if (result) setInputText(translatedText(result));
+    setSourceNote(null);
+    setResult(null);
+  };
+
+  const translate = async () => {
+    const text = inputText.trim();
+    if (!text) return;
+    if (sourceLanguage === targetLanguage) {
+      Alert.alert('Same Language', 'Choose a different language to translate into.');
+      return;
+    }
+    const cost = translationCost(text);
+    const creditResult = await subscriptionService.reserveCredits(cost, 'translator');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || `You need ${cost} ${cost === 1 ? 'credit' : 'credits'} to translate this text.`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setIsTranslating(true);
+    setResult(null);
+    setSavedNote(false);
+    setSavedFlashCards(false);
+    try {
+      const translation = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        translateText(text, sourceLanguage, targetLanguage, { ...credits, signal: abortController.signal })
+      );
+      setResult(translation);
+      addHistory('', 'translator', text, translatedText(translation)).catch(error =>
+        console.warn('Failed to record translation history:', error)
+      );
+    } catch (error) {
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('Translation failed:', error);
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to translate the text. Please try again.'));
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsTranslating(false);
+    }
+  };
+
+  const resultTitle = () => {
+    const base = sourceNote?.title ?? inputText.trim().split(/\s+/).slice(0, 6).join(' ');
+    return `${base} (${targetLanguage})`;
+  };
+
+  const saveAsNote = async () => {
+    if (!result) return;
+    try {
+      await addNote(resultTitle(), translationToMarkdown(result, targetLanguage));
+      setSavedNote(true);
+    } catch (error) {
+      console.error('Failed to save translation:', error);
+      Alert.alert('Error', 'Failed to save the note. Please try again.');
+    }
+  };
+
+  const saveFlashCards = async () => {
+    if (!result || result.vocabulary.length === 0) return;
+    try {
+      await addFlashCardSet(
+        `Vocabulary: ${resultTitle()}`,
+        vocabularyToFlashCards(result.vocabulary),
+        'term-definition',
+        sourceNote?.id,
+        sourceNote?.type
+      );
+      setSavedFlashCards(true);
+    } catch (error) {
+      console.error('Failed to save vocabulary flash cards:', error);
+      Alert.alert('Error', 'Failed to save the flash cards. Please try again.');
+    }
+  };
+
+  const renderLanguageButton = (slot: LanguageSlot, language: string) => (
+    <TouchableOpacity
+      style={[styles.languageButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+      onPress={() => setPickingLanguage(slot)}
+      disabled={isTranslating}
+    >
+      <Text style={[styles.languageLabel, { color: COLORS.textColor.light }]}>{slot === 'source' ? 'From' : 'To'}</Text>
+      <View style={styles.languageValue}>
+        <Text style={[styles.languageName, { color: COLORS.textColor.primary }]} numberOfLines={1}>
+          {language}
+        </Text>
+        <Ionicons name="chevron-down" size={16} color={COLORS.iconColor} />
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderResult = () => {
+    if (!result) return null;
+    return (
+      <View style={styles.section}>
+        <View style={styles.viewToggle}>
+          {(['side-by-side', 'translation'] as ResultView[]).map(view => {
+            const selected = resultView === view;
+            return (
+              <TouchableOpacity
+                key={view}
+                style={[
+                  styles.toggleOption,
+                  { borderColor: selected ? COLORS.accentColor : COLORS.borderColor },
+                  selected && { backgroundColor: COLORS.accentColor },
+                ]}
+                onPress={() => setResultView(view)}
+              >
+                <Text style={[styles.toggleText, { color: selected ? COLORS.textColor.white : COLORS.textColor.secondary }]}>
+                  {view === 'side-by-side' ? 'Side by Side' : 'Translation'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          {resultView === 'side-by-side' ? (
+            <>
+              <View style={[styles.bilingualRow, { borderBottomColor: COLORS.borderColor }]}>
+                <Text style={[styles.columnHeading, { color: COLORS.textColor.light }]}>{result.sourceLanguage}</Text>
+                <Text style={[styles.columnHeading, { color: COLORS.accentColor }]}>{targetLanguage}</Text>
+              </View>
+              {result.segments.map((segment, index) => (
+                <View
+                  key={index}
+                  style={[
+                    styles.bilingualRow,
+                    index < result.segments.length - 1 && { borderBottomColor: COLORS.borderColor },
+                  ]}
+                >
+                  <Text style={[styles.column, { color: COLORS.textColor.secondary }]} selectable>
+                    {segment.source}
+                  </Text>
+                  <Text style={[styles.column, { color: COLORS.textColor.primary }]} selectable>
+                    {segment.translation}
+                  </Text>
+                </View>
+              ))}
+            </>
+          ) : (
+            <Text style={[styles.translation, { color: COLORS.textColor.primary }]} selectable>
+              {translatedText(result)}
+            </Text>
+          )}
+        </View>
+
+        {result.vocabulary.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Vocabulary</Text>
+            {result.vocabulary.map((item, index) => (
+              <View
+                key={index}
+                style={[styles.vocabularyCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+              >
+                <View style={styles.vocabularyHeader}>
+                  <Text style={[styles.vocabularyTerm, { color: COLORS.textColor.primary }]}>{item.term}</Text>
+                  <Text style={[styles.vocabularyTranslation, { color: COLORS.accentColor }]}>{item.translation}</Text>
+                </View>
+                {!!item.explanation && (
+                  <Text style={[styles.vocabularyExplanation, { color: COLORS.textColor.secondary }]}>
+                    {item.explanation}
+                  </Text>
+                )}
+              </View>
+            ))}
+          </>
+        )}
+
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.actionButton, { borderColor: COLORS.accentColor }, savedNote && styles.disabled]}
+            onPress={saveAsNote}
+            disabled={savedNote}
+          >
+            <Ionicons name={savedNote ? 'checkmark' : 'save-outline'} size={18} color={COLORS.accentColor} />
+            <Text style={[styles.actionText, { color: COLORS.accentColor }]}>{savedNote ? 'Saved to Notes' : 'Save as Note'}</Text>
+          </TouchableOpacity>
+          {result.vocabulary.length > 0 && (
+            <TouchableOpacity
+              style={[styles.actionButton, { borderColor: COLORS.accentColor }, savedFlashCards && styles.disabled]}
+              onPress={saveFlashCards}
+              disabled={savedFlashCards}
+            >
+              <Ionicons name={savedFlashCards ? 'checkmark' : 'albums-outline'} size={18} color={COLORS.accentColor} />
+              <Text style={[styles.actionText, { color: COLORS.accentColor }]}>
+                {savedFlashCards ? 'Flash Cards Saved' : 'Make Flash Cards'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const cost = translationCost(inputText);
+  const languageOptions = pickingLanguage === 'source' ? [AUTO_DETECT, ...LANGUAGES] : LANGUAGES;
+  const selectedLanguage = pickingLanguage === 'source' ? sourceLanguage : targetLanguage;
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+      <StatusBar barStyle={resolvedTheme === 'dark' ? 'light-content' : 'dark-content'} backgroundColor={COLORS.headerBackground} />
+
+      {/* Header */}
+      <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+        <View style={styles.headerText}>
+          <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Translator</Text>
+          <Text style={[styles.headerSubtitle, { color: COLORS.textColor.secondary }]}>
+            Translate text and learn its vocabulary
+          </Text>
+        </View>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        {/* Languages */}
+        <View style={styles.languageBar}>
+          {renderLanguageButton('source', sourceLanguage)}
+          <TouchableOpacity
+            style={[styles.swapButton, { backgroundColor: COLORS.cardColor }]}
+            onPress={swapLanguages}
+            disabled={isTranslating}
+          >
+            <Ionicons name="swap-horizontal" size={20} color={COLORS.accentColor} />
+          </TouchableOpacity>
+          {renderLanguageButton('target', targetLanguage)}
+        </View>
+
+        {/* Input */}
+        <View style={[styles.card, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          {sourceNote && (
+            <View style={[styles.noteChip, { backgroundColor: COLORS.backgroundColor }]}>
+              <Ionicons name="document-text-outline" size={14} color={COLORS.accentColor} />
+              <Text style={[styles.noteChipText, { color: COLORS.textColor.secondary }]} numberOfLines={1}>
+                {sourceNote.title}
+              </Text>
+            </View>
+          )}
+          <TextInput
+            style={[styles.input, { color: COLORS.textColor.primary }]}
+            value={inputText}
+            onChangeText={text => {
+              setInputText(text);
+              setResult(null);
+            }}
+            placeholder="Type or paste text, scan a page, or pick one of your notes"
+            placeholderTextColor={COLORS.textColor.light}
+            multiline
+            textAlignVertical="top"
+            maxLength={MAX_TRANSLATION_CHARS}
+            editable={!isTranslating}
+          />
+          <View style={[styles.inputFooter, { borderTopColor: COLORS.borderColor }]}>
+            <TouchableOpacity style={styles.inputAction} onPress={() => setScanModalVisible(true)} disabled={isTranslating}>
+              <Ionicons name="scan-outline" size={20} color={COLORS.accentColor} />
+              <Text style={[styles.inputActionText, { color: COLORS.textColor.secondary }]}>Scan</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.inputAction} onPress={() => setNotePickerVisible(true)} disabled={isTranslating}>
+              <Ionicons name="document-text-outline" size={20} color={COLORS.accentColor} />
+              <Text style={[styles.inputActionText, { color: COLORS.textColor.secondary }]}>Notes</Text>
+            </TouchableOpacity>
+            {inputText.length > 0 && (
+              <TouchableOpacity style={styles.inputAction} onPress={() => applyInput('', null)} disabled={isTranslating}>
+                <Ionicons name="close-circle-outline" size={20} color={COLORS.iconColor} />
+                <Text style={[styles.inputActionText, { color: COLORS.textColor.secondary }]}>Clear</Text>
+              </TouchableOpacity>
+            )}
+            <Text style={[styles.counter, { color: COLORS.textColor.light }]}>
+              {inputText.length.toLocaleString()} / {MAX_TRANSLATION_CHARS.toLocaleString()}
+            </Text>
+          </View>
+        </View>
+
+        {isTranslating ? (
+          <View style={styles.translating}>
+            <ActivityIndicator size="small" color={COLORS.accentColor} />
+            <Text style={[styles.translatingText, { color: COLORS.textColor.secondary }]}>Translating...</Text>
+            <TouchableOpacity onPress={() => abortControllerRef.current?.abort()}>
+              <Text style={[styles.cancelText, { color: COLORS.dangerColor }]}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity
+            style={[styles.translateButton, { backgroundColor: COLORS.accentColor }, !inputText.trim() && styles.disabled]}
+            onPress={translate}
+            disabled={!inputText.trim()}
+          >
+            <Ionicons name="language-outline" size={20} color={COLORS.textColor.white} />
+            <Text style={[styles.translateButtonText, { color: COLORS.textColor.white }]}>
+              Translate ({cost} {cost === 1 ? 'Credit' : 'Credits'})
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {renderResult()}
+      </ScrollView>
+
+      {/* Language Picker */}
+      <Modal visible={pickingLanguage !== null} transparent animationType="fade" onRequestClose={() => setPickingLanguage(null)}>
+        <TouchableOpacity style={styles.pickerOverlay} activeOpacity={1} onPress={() => setPickingLanguage(null)}>
+          <View style={[styles.pickerSheet, { backgroundColor: COLORS.cardColor }]}>
+            <Text style={[styles.pickerTitle, { color: COLORS.textColor.primary }]}>
+              {pickingLanguage === 'source' ? 'Translate from' : 'Translate to'}
+            </Text>
+            <FlatList
+              data={languageOptions}
+              keyExtractor={item => item}
+              renderItem={({ item }) => (
+                <TouchableOpacity
+                  style={[styles.pickerRow, { borderBottomColor: COLORS.borderColor }]}
+                  onPress={() => selectLanguage(item)}
+                >
+                  <Text style={[styles.pickerText, { color: COLORS.textColor.primary }]}>{item}</Text>
+                  {item === selectedLanguage && <Ionicons name="checkmark" size={20} color={COLORS.accentColor} />}
+                </TouchableOpacity>
+              )}
+            />
+          </View>
+        </TouchableOpacity>
+      </Modal>
+
+      <ImageScanModal
+        visible={scanModalVisible}
+        onClose={() => setScanModalVisible(false)}
+        onImageProcessed={text => applyInput(text, null)}
+        onProcessImage={processScannedImage}
+        title="Scan Text to Translate"
+        subtitle="Take a photo or choose an image of the text you want to translate"
+        actionButtonText="Use This Text"
+        actionButtonIcon="language-outline"
+        accentColor={COLORS.accentColor}
+        showExtractedText={true}
+        showActionButton={true}
+      />
+
+      <NotePickerModal
+        visible={notePickerVisible}
+        onClose={() => setNotePickerVisible(false)}
+        onSelect={handleNoteSelected}
+        title="Translate a Note"
+        accentColor={COLORS.accentColor}
+      />
+    </SafeAreaView>
+  );
+};
+
+export default Translator;
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 60 : 50,
+    paddingBottom: 16,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontSize: 28,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  headerSubtitle: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 60,
+  },
+  languageBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  languageButton: {
+    flex: 1,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  languageLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  languageValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 4,
+    marginTop: 2,
+  },
+  languageName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  swapButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  card: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 16,
+  },
+  noteChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    marginBottom: 8,
+    maxWidth: '100%',
+  },
+  noteChipText: {
+    fontSize: 13,
+    flexShrink: 1,
+  },
+  input: {
+    minHeight: 140,
+    fontSize: 16,
+    lineHeight: 22,
+  },
+  inputFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 8,
+  },
+  inputAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  inputActionText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  counter: {
+    flex: 1,
+    textAlign: 'right',
+    fontSize: 12,
+  },
+  translateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 12,
+    marginTop: 16,
+  },
+  translateButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  translating: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+    paddingVertical: 18,
+    marginTop: 16,
+  },
+  translatingText: {
+    fontSize: 15,
+  },
+  cancelText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  section: {
+    marginTop: 24,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  toggleOption: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 18,
+    borderWidth: 1,
+  },
+  toggleText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  bilingualRow: {
+    flexDirection: 'row',
+    gap: 12,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: 'transparent',
+  },
+  columnHeading: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  column: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 22,
+  },
+  translation: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    marginTop: 24,
+    marginBottom: 12,
+  },
+  vocabularyCard: {
+    borderRadius: 14,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 10,
+  },
+  vocabularyHeader: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'baseline',
+    gap: 8,
+  },
+  vocabularyTerm: {
+    fontSize: 17,
+    fontWeight: '700',
+  },
+  vocabularyTranslation: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  vocabularyExplanation: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+    marginTop: 16,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    paddingHorizontal: 18,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  pickerOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  pickerSheet: {
+    maxHeight: '70%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingBottom: 30,
+  },
+  pickerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+  },
+  pickerText: {
+    fontSize: 16,
+  },
+});
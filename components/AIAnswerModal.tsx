@@ -1,5 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import {
     Animated,
     Dimensions,
@@ -13,6 +13,11 @@ import {
     View
 } from 'react-native';
 import { useThemeContext } from '../providers/ThemeProvider';
+import { AIStreamStatus } from '../services/aiGateway';
+import { getBuiltInSubject } from '../services/subjectRegistry';
+import { parseSolutionSteps } from '../utils/solutionSteps';
+import MathMarkdown from './MathMarkdown';
+import SolutionSteps from './SolutionSteps';
 
 const { width, height } = Dimensions.get('window');
 
@@ -45,6 +50,9 @@ interface AIAnswerModalProps {
   feature?: string;
   accentColor?: string;
   customActionButton?: React.ReactNode;
+  isStreaming?: boolean;
+  onStopStreaming?: () => void;
+  streamStatus?: AIStreamStatus;
 }
 
 const AIAnswerModal: React.FC<AIAnswerModalProps> = ({
@@ -57,11 +65,18 @@ const AIAnswerModal: React.FC<AIAnswerModalProps> = ({
   feature = "ai-scan",
   accentColor,
   customActionButton,
+  isStreaming = false,
+  onStopStreaming,
+  streamStatus,
 }) => {
   const { resolvedTheme } = useThemeContext();
   const COLORS = getColors(resolvedTheme === 'dark');
   const finalAccentColor = accentColor || COLORS.accentColor;
 
+  // Answers laid out as "## Step N" sections are revealed one step at a time
+  // once they've finished streaming
+  const solution = useMemo(() => (isStreaming ? null : parseSolutionSteps(answer)), [answer, isStreaming]);
+
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.8)).current;
@@ -99,28 +114,20 @@ const AIAnswerModal: React.FC<AIAnswerModalProps> = ({
     const iconMap: Record<string, string> = {
       'ai-scan': 'sparkles-outline',
       'calculator': 'calculator-outline',
-      'physics': 'magnet-outline',
-      'chemistry': 'flask-outline',
-      'biology': 'leaf-outline',
       'homework': 'book-outline',
       'magic-eraser': 'sparkles-outline',
-      'mathematics': 'calculator-outline',
     };
-    return iconMap[feature] || 'sparkles-outline';
+    return iconMap[feature] || getBuiltInSubject(feature)?.icon || 'sparkles-outline';
   };
 
   const getFeatureColor = () => {
     const colorMap: Record<string, string> = {
       'ai-scan': '#667eea',
       'calculator': '#764ba2',
-      'physics': '#764ba2',
-      'chemistry': '#f093fb',
-      'biology': '#43e97b',
       'homework': '#fa709a',
       'magic-eraser': '#ff6b6b',
-      'mathematics': '#667eea',
     };
-    return colorMap[feature] || finalAccentColor;
+    return colorMap[feature] || getBuiltInSubject(feature)?.color || finalAccentColor;
   };
 
   const formatFeatureName = (feature: string): string => {
@@ -200,11 +207,33 @@ const AIAnswerModal: React.FC<AIAnswerModalProps> = ({
               <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>AI Answer</Text>
               <View style={[styles.answerContainer, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
                 <ScrollView style={styles.answerScrollView} showsVerticalScrollIndicator={false}>
-                  <Text style={[styles.answerText, { color: COLORS.textColor.primary }]}>
-                    {answer || "No answer available"}
-                  </Text>
+                  {solution ? (
+                    <SolutionSteps solution={solution} accentColor={getFeatureColor()} />
+                  ) : (
+                    <MathMarkdown
+                      content={`${answer || "No answer available"}${isStreaming ? ' ▍' : ''}`}
+                      textColor={COLORS.textColor.primary}
+                      accentColor={getFeatureColor()}
+                    />
+                  )}
                 </ScrollView>
+                {!isStreaming && streamStatus && streamStatus !== 'complete' && (
+                  <Text style={[styles.streamStatusText, { color: COLORS.textColor.light }]}>
+                    {streamStatus === 'stopped'
+                      ? 'Stopped early. The partial answer was saved.'
+                      : 'Connection lost. The partial answer was saved.'}
+                  </Text>
+                )}
               </View>
+              {isStreaming && onStopStreaming && (
+                <TouchableOpacity
+                  style={[styles.stopButton, { borderColor: COLORS.dangerColor }]}
+                  onPress={onStopStreaming}
+                >
+                  <Ionicons name="stop-circle-outline" size={18} color={COLORS.dangerColor} />
+                  <Text style={[styles.stopButtonText, { color: COLORS.dangerColor }]}>Stop generating</Text>
+                </TouchableOpacity>
+              )}
             </View>
 
             {/* Custom Action Button */}
@@ -361,9 +390,26 @@ const styles = StyleSheet.create({
   answerScrollView: {
     flex: 1,
   },
-  answerText: {
-    fontSize: 16,
-    lineHeight: 24,
+  streamStatusText: {
+    fontSize: 13,
+    fontStyle: 'italic',
+    marginTop: 12,
+  },
+  stopButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'center',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 20,
+    borderWidth: 1,
+  },
+  stopButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
   },
   actionButtons: {
     flexDirection: 'row',
@@ -0,0 +1,127 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useRef, useState } from 'react';
+import { Animated, Platform, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import achievementService from '../services/achievementService';
+import { AchievementRule } from '../utils/achievements';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0e6c8',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#333',
+    secondary: isDark ? '#cccccc' : '#666',
+  },
+});
+
+const GOLD = '#f5a623';
+const SHOW_MS = 3500;
+
+// Slides a banner in from the top for each achievement as it unlocks, one at
+// a time. Mounted once at the root so it shows over any screen.
+export default function AchievementToast() {
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  const [queue, setQueue] = useState<AchievementRule[]>([]);
+  const current = queue[0];
+  const slideAnim = useRef(new Animated.Value(-160)).current;
+  const hideTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(
+    () => achievementService.subscribe(unlocked => setQueue(previous => [...previous, ...unlocked])),
+    []
+  );
+
+  const dismiss = () => {
+    if (hideTimer.current) clearTimeout(hideTimer.current);
+    hideTimer.current = null;
+    Animated.timing(slideAnim, { toValue: -160, duration: 200, useNativeDriver: true }).start(() =>
+      setQueue(previous => previous.slice(1))
+    );
+  };
+
+  useEffect(() => {
+    if (!current) return;
+    Animated.spring(slideAnim, { toValue: 0, useNativeDriver: true, friction: 8 }).start();
+    hideTimer.current = setTimeout(dismiss, SHOW_MS);
+    return () => {
+      if (hideTimer.current) clearTimeout(hideTimer.current);
+    };
+    // dismiss only touches refs and state setters
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [current, slideAnim]);
+
+  if (!current) return null;
+
+  return (
+    <Animated.View pointerEvents="box-none" style={[styles.container, { transform: [{ translateY: slideAnim }] }]}>
+      <TouchableOpacity
+        activeOpacity={0.9}
+        onPress={dismiss}
+        style={[styles.toast, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+      >
+        <View style={styles.iconCircle}>
+          <Ionicons name={current.icon as any} size={22} color="#ffffff" />
+        </View>
+        <View style={styles.textBlock}>
+          <Text style={styles.label}>Achievement Unlocked</Text>
+          <Text style={[styles.title, { color: COLORS.textColor.primary }]} numberOfLines={1}>{current.title}</Text>
+          <Text style={[styles.description, { color: COLORS.textColor.secondary }]} numberOfLines={1}>
+            {current.description}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 54 : 36,
+    left: 16,
+    right: 16,
+    zIndex: 1000,
+    elevation: 10,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 14,
+    borderRadius: 16,
+    borderWidth: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+  },
+  iconCircle: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: GOLD,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 12,
+  },
+  textBlock: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: GOLD,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginTop: 2,
+  },
+  description: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,283 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    Platform,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import {
+    createCustomSubject,
+    Subject,
+    SUBJECT_COLORS,
+    SUBJECT_ICONS,
+    SubjectIcon,
+} from '../services/subjectRegistry';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+interface AddSubjectModalProps {
+    visible: boolean;
+    onClose: () => void;
+    onSubjectAdded?: (subject: Subject) => void;
+}
+
+export default function AddSubjectModal({ visible, onClose, onSubjectAdded }: AddSubjectModalProps) {
+    const [name, setName] = useState('');
+    const [color, setColor] = useState(SUBJECT_COLORS[0]);
+    const [icon, setIcon] = useState<SubjectIcon>(SUBJECT_ICONS[0]);
+    const [persona, setPersona] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { resolvedTheme } = useThemeContext();
+    const COLORS = getColors(resolvedTheme === 'dark');
+
+    useEffect(() => {
+        if (!visible) return;
+        setName('');
+        setColor(SUBJECT_COLORS[0]);
+        setIcon(SUBJECT_ICONS[0]);
+        setPersona('');
+    }, [visible]);
+
+    const handleSave = async () => {
+        if (!name.trim()) return;
+        setIsSaving(true);
+        try {
+            const subject = await createCustomSubject({ name, color, icon, persona });
+            onSubjectAdded?.(subject);
+            onClose();
+        } catch (error) {
+            console.error('Failed to add subject:', error);
+            Alert.alert('Error', 'Failed to add the subject. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={onClose}>
+            <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+                <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+                    <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Add Subject</Text>
+                    <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                        <Ionicons name="close" size={24} color={COLORS.iconColor} />
+                    </TouchableOpacity>
+                </View>
+
+                <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} keyboardShouldPersistTaps="handled">
+                    {/* Preview */}
+                    <View style={[styles.preview, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+                        <View style={[styles.previewIcon, { backgroundColor: color }]}>
+                            <Ionicons name={icon} size={24} color={COLORS.textColor.white} />
+                        </View>
+                        <Text style={[styles.previewName, { color: name.trim() ? COLORS.textColor.primary : COLORS.textColor.light }]}>
+                            {name.trim() || 'Subject name'}
+                        </Text>
+                    </View>
+
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Name</Text>
+                    <TextInput
+                        style={[styles.input, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor, color: COLORS.textColor.primary }]}
+                        placeholder="e.g. Literature"
+                        placeholderTextColor={COLORS.textColor.light}
+                        value={name}
+                        onChangeText={setName}
+                        maxLength={40}
+                    />
+
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Color</Text>
+                    <View style={styles.optionWrap}>
+                        {SUBJECT_COLORS.map(option => (
+                            <TouchableOpacity
+                                key={option}
+                                style={[styles.colorOption, { backgroundColor: option }, color === option && { borderColor: COLORS.textColor.primary }]}
+                                onPress={() => setColor(option)}
+                            >
+                                {color === option && <Ionicons name="checkmark" size={18} color={COLORS.textColor.white} />}
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Icon</Text>
+                    <View style={styles.optionWrap}>
+                        {SUBJECT_ICONS.map(option => (
+                            <TouchableOpacity
+                                key={option}
+                                style={[
+                                    styles.iconOption,
+                                    {
+                                        backgroundColor: icon === option ? color : COLORS.cardColor,
+                                        borderColor: icon === option ? color : COLORS.borderColor,
+                                    },
+                                ]}
+                                onPress={() => setIcon(option)}
+                            >
+                                <Ionicons name={option} size={22} color={icon === option ? COLORS.textColor.white : COLORS.iconColor} />
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Tutor style (optional)</Text>
+                    <TextInput
+                        style={[
+                            styles.input,
+                            styles.personaInput,
+                            { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor, color: COLORS.textColor.primary },
+                        ]}
+                        placeholder="e.g. a literature teacher who quotes the text to support every point"
+                        placeholderTextColor={COLORS.textColor.light}
+                        value={persona}
+                        onChangeText={setPersona}
+                        multiline
+                    />
+                    <Text style={[styles.hint, { color: COLORS.textColor.light }]}>
+                        Describes who the AI should be when answering questions in this subject.
+                    </Text>
+                </ScrollView>
+
+                <View style={[styles.footer, { borderTopColor: COLORS.borderColor }]}>
+                    <TouchableOpacity
+                        style={[styles.saveButton, { backgroundColor: color }, (isSaving || !name.trim()) && styles.saveButtonDisabled]}
+                        onPress={handleSave}
+                        disabled={isSaving || !name.trim()}
+                    >
+                        {isSaving ? (
+                            <ActivityIndicator size="small" color={COLORS.textColor.white} />
+                        ) : (
+                            <Text style={[styles.saveButtonText, { color: COLORS.textColor.white }]}>Add Subject</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        paddingTop: Platform.OS === 'ios' ? 12 : 28,
+        paddingHorizontal: 20,
+        paddingBottom: 16,
+        borderBottomWidth: 1,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    content: {
+        flex: 1,
+    },
+    contentInner: {
+        padding: 20,
+        paddingBottom: 40,
+    },
+    preview: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 20,
+        borderRadius: 20,
+        borderWidth: 1,
+    },
+    previewIcon: {
+        width: 48,
+        height: 48,
+        borderRadius: 16,
+        justifyContent: 'center',
+        alignItems: 'center',
+        marginRight: 16,
+    },
+    previewName: {
+        fontSize: 17,
+        fontWeight: '600',
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: '700',
+        marginTop: 24,
+        marginBottom: 12,
+    },
+    input: {
+        borderWidth: 1,
+        borderRadius: 12,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+        fontSize: 15,
+    },
+    personaInput: {
+        minHeight: 80,
+        textAlignVertical: 'top',
+    },
+    hint: {
+        fontSize: 13,
+        marginTop: 8,
+    },
+    optionWrap: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 12,
+    },
+    colorOption: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        borderWidth: 2,
+        borderColor: 'transparent',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    iconOption: {
+        width: 48,
+        height: 48,
+        borderRadius: 14,
+        borderWidth: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    footer: {
+        padding: 20,
+        borderTopWidth: 1,
+    },
+    saveButton: {
+        paddingVertical: 16,
+        borderRadius: 12,
+        alignItems: 'center',
+    },
+    saveButtonDisabled: {
+        opacity: 0.6,
+    },
+    saveButtonText: {
+        fontSize: 16,
+        fontWeight: '600',
+    },
+});
@@ -1,11 +1,10 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
     ActivityIndicator,
     Alert,
     Dimensions,
-    Image,
     Modal,
     Platform,
     SafeAreaView,
@@ -18,15 +17,21 @@ import {
     View,
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { processImage } from '../services/geminiServices';
 import subscriptionService from '../services/subscriptionService';
+import { PreprocessedImage } from '../utils/imagePreprocessing';
+import { ScannedPage } from '../utils/scanPages';
+import ImagePreprocessor, { ImagePreprocessorHandle } from './ImagePreprocessor';
+import PreprocessPreview from './PreprocessPreview';
 
 const { width, height } = Dimensions.get('window');
 
 interface AppendScanModalProps {
   visible: boolean;
   onClose: () => void;
-  onAppend: (newContent: string) => void;
+  // page is the scanned photo and its text, to keep with the note
+  onAppend: (newContent: string, page?: ScannedPage) => void;
   existingContent: string;
   noteTitle: string;
 }
@@ -39,9 +44,12 @@ export default function AppendScanModal({
   noteTitle,
 }: AppendScanModalProps) {
   const [imageUri, setImageUri] = useState<string | null>(null);
+  const [processedImage, setProcessedImage] = useState<PreprocessedImage | null>(null);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [extractedText, setExtractedText] = useState('');
   const [appendedContent, setAppendedContent] = useState('');
+  const preprocessorRef = useRef<ImagePreprocessorHandle>(null);
 
   // Theme colors
   const backgroundColor = useThemeColor({}, 'background');
@@ -52,6 +60,7 @@ export default function AppendScanModal({
 
   const resetModalState = () => {
     setImageUri(null);
+    setProcessedImage(null);
     setExtractedText('');
     setAppendedContent('');
     setIsProcessing(false);
@@ -108,13 +117,18 @@ export default function AppendScanModal({
     }
     const asset = result.assets[0];
     setImageUri(asset.uri);
+    setProcessedImage(null);
+    setIsPreprocessing(true);
+    const processed = (await preprocessorRef.current?.preprocess(asset.uri)) ?? null;
+    setProcessedImage(processed);
+    setIsPreprocessing(false);
     try {
-      const creditResult = await subscriptionService.spendCredits(1);
+      const creditResult = await subscriptionService.reserveCredits(1, 'scan-append');
       if (!creditResult.success) {
         Alert.alert('Insufficient Credits', creditResult.error || 'Please purchase more credits to continue scanning.');
         return;
       }
-      const text = await processImage(asset.uri);
+      const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(processed?.uri ?? asset.uri, credits));
       if (!text || text.trim().length === 0) {
         Alert.alert('No Text Detected', 'No text could be detected in the image.');
         return;
@@ -123,7 +137,7 @@ export default function AppendScanModal({
       setAppendedContent(text);
     } catch (error) {
       console.error('Image processing error:', error);
-      Alert.alert('Error', 'Failed to process the image.');
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to process the image.'));
     }
   };
 
@@ -133,7 +147,7 @@ export default function AppendScanModal({
       return;
     }
     const newContent = existingContent + '\n\n' + appendedContent.trim();
-    onAppend(newContent);
+    onAppend(newContent, imageUri ? { imageUri, text: extractedText } : undefined);
     closeModal();
   };
 
@@ -201,17 +215,26 @@ export default function AppendScanModal({
             <View style={styles.imageSection}>
               <Text style={styles.sectionTitle}>Scanned Image</Text>
               <View style={styles.imageContainer}>
-                <Image source={{ uri: imageUri }} style={styles.previewImage} resizeMode="contain" />
+                <PreprocessPreview
+                  originalUri={imageUri}
+                  processed={processedImage}
+                  isProcessing={isPreprocessing}
+                  accentColor="#6366f1"
+                  height={250}
+                />
                 {isProcessing && (
                   <View style={styles.imageOverlay}>
                     <ActivityIndicator size="large" color="white" />
-                    <Text style={styles.imageOverlayText}>Extracting text...</Text>
+                    <Text style={styles.imageOverlayText}>
+                      {isPreprocessing ? 'Enhancing image...' : 'Extracting text...'}
+                    </Text>
                   </View>
                 )}
                 <TouchableOpacity
                   style={styles.removeImageButton}
                   onPress={() => {
                     setImageUri(null);
+                    setProcessedImage(null);
                     setExtractedText('');
                     setAppendedContent('');
                   }}
@@ -252,6 +275,7 @@ export default function AppendScanModal({
           </View>
         )}
       </SafeAreaView>
+      <ImagePreprocessor ref={preprocessorRef} />
     </Modal>
   );
 }
@@ -336,10 +360,6 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
     backgroundColor: '#111827',
   },
-  previewImage: {
-    width: '100%',
-    height: 250,
-  },
   removeImageButton: {
     position: 'absolute',
     top: 12,
@@ -0,0 +1,321 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useThemeColor } from '../hooks/useThemeColor';
+import { getAIErrorMessage } from '../services/aiGateway';
+import { processImage } from '../services/geminiServices';
+import {
+  ChunkedNoteType,
+  deleteNoteAttachment,
+  getNoteAttachments,
+  NoteAttachment,
+  updateNoteAttachmentText,
+} from '../services/historyStorage';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
+import AudioPlayerBar from './AudioPlayerBar';
+import ImagePreprocessor, { ImagePreprocessorHandle } from './ImagePreprocessor';
+
+interface AttachmentGalleryProps {
+  noteType: ChunkedNoteType;
+  noteId: number;
+  accentColor: string;
+}
+
+// The scanned pages a note was made from: a strip of thumbnails, and a full
+// screen viewer per page where the page can be read again or removed. Voice
+// recordings are listed below with a player each.
+// Renders nothing for notes without attachments.
+export default function AttachmentGallery({ noteType, noteId, accentColor }: AttachmentGalleryProps) {
+  const router = useRouter();
+  const textColor = useThemeColor({}, 'text');
+  const iconColor = useThemeColor({}, 'icon');
+  const backgroundColor = useThemeColor({}, 'background');
+
+  const [attachments, setAttachments] = useState<NoteAttachment[]>([]);
+  const [viewingIndex, setViewingIndex] = useState<number | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const preprocessorRef = useRef<ImagePreprocessorHandle>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(await getNoteAttachments(noteType, noteId));
+    } catch (error) {
+      console.error('Failed to load note attachments:', error);
+    }
+  }, [noteType, noteId]);
+
+  useEffect(() => {
+    loadAttachments();
+  }, [loadAttachments]);
+
+  const images = attachments.filter(attachment => attachment.media_type !== 'audio');
+  const recordings = attachments.filter(attachment => attachment.media_type === 'audio');
+  const viewing = viewingIndex !== null ? images[viewingIndex] : null;
+
+  const rerunOcr = async (attachment: NoteAttachment) => {
+    const creditResult = await subscriptionService.reserveCredits(1, 'scan-reocr');
+    if (!creditResult.success) {
+      Alert.alert('Out of Credits', creditResult.error || 'You need 1 credit to read the page again.', [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Get Credits', onPress: () => router.push('/paywall') },
+      ]);
+      return;
+    }
+    setIsReading(true);
+    try {
+      const processed = (await preprocessorRef.current?.preprocess(attachment.file_uri)) ?? null;
+      const text = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        processImage(processed?.uri ?? attachment.file_uri, credits)
+      );
+      await updateNoteAttachmentText(attachment.id, text.trim());
+      await loadAttachments();
+    } catch (error) {
+      console.error('Re-OCR failed:', error);
+      Alert.alert(
+        'Error',
+        error instanceof EmptyAIResponseError
+          ? 'No text could be detected on this page.'
+          : getAIErrorMessage(error, 'Failed to read the page. Please try again.')
+      );
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const confirmDelete = (attachment: NoteAttachment) => {
+    const isAudio = attachment.media_type === 'audio';
+    Alert.alert(
+      isAudio ? 'Remove Recording' : 'Remove Page Image',
+      `The ${isAudio ? 'recording' : 'image'} is deleted from this device. The note text stays as it is.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deleteNoteAttachment(attachment.id);
+              setViewingIndex(null);
+              await loadAttachments();
+            } catch (error) {
+              console.error('Failed to delete attachment:', error);
+              Alert.alert('Error', `Failed to remove the ${isAudio ? 'recording' : 'image'}. Please try again.`);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (attachments.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      {images.length > 0 && (
+        <>
+          <Text style={[styles.heading, { color: iconColor }]}>
+            Scanned {images.length === 1 ? 'page' : `pages (${images.length})`}
+          </Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+            {images.map((attachment, index) => (
+              <TouchableOpacity key={attachment.id} onPress={() => setViewingIndex(index)} activeOpacity={0.8}>
+                <Image source={{ uri: attachment.file_uri }} style={[styles.thumbnail, { borderColor: `${iconColor}55` }]} />
+                <Text style={[styles.thumbnailLabel, { color: iconColor }]}>{index + 1}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </>
+      )}
+
+      {recordings.length > 0 && (
+        <>
+          <Text style={[styles.heading, images.length > 0 && styles.headingSpaced, { color: iconColor }]}>
+            {recordings.length === 1 ? 'Recording' : `Recordings (${recordings.length})`}
+          </Text>
+          {recordings.map(recording => (
+            <View key={recording.id} style={styles.recording}>
+              <View style={styles.recordingPlayer}>
+                <AudioPlayerBar uri={recording.file_uri} accentColor={accentColor} />
+              </View>
+              <TouchableOpacity onPress={() => confirmDelete(recording)} style={styles.viewerButton}>
+                <Ionicons name="trash-outline" size={20} color="#ff6b6b" />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </>
+      )}
+
+      <Modal visible={!!viewing} animationType="fade" onRequestClose={() => setViewingIndex(null)}>
+        <SafeAreaView style={[styles.viewer, { backgroundColor }]}>
+          {viewing && viewingIndex !== null && (
+            <>
+              <View style={styles.viewerHeader}>
+                <TouchableOpacity onPress={() => setViewingIndex(null)} style={styles.viewerButton}>
+                  <Ionicons name="close" size={24} color={iconColor} />
+                </TouchableOpacity>
+                <Text style={[styles.viewerTitle, { color: textColor }]}>
+                  Page {viewingIndex + 1} of {images.length}
+                </Text>
+                <TouchableOpacity onPress={() => confirmDelete(viewing)} style={styles.viewerButton} disabled={isReading}>
+                  <Ionicons name="trash-outline" size={22} color="#ff6b6b" />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView contentContainerStyle={styles.viewerContent}>
+                <Image source={{ uri: viewing.file_uri }} style={styles.fullImage} resizeMode="contain" />
+
+                <View style={styles.pager}>
+                  <TouchableOpacity
+                    onPress={() => setViewingIndex(viewingIndex - 1)}
+                    disabled={viewingIndex === 0 || isReading}
+                    style={styles.viewerButton}
+                  >
+                    <Ionicons name="chevron-back" size={24} color={viewingIndex === 0 ? `${iconColor}55` : iconColor} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.reocrButton, { backgroundColor: accentColor }, isReading && styles.disabled]}
+                    onPress={() => rerunOcr(viewing)}
+                    disabled={isReading}
+                  >
+                    {isReading ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <Ionicons name="scan-outline" size={18} color="#ffffff" />
+                    )}
+                    <Text style={styles.reocrText}>{isReading ? 'Reading...' : 'Read Again (1 Credit)'}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => setViewingIndex(viewingIndex + 1)}
+                    disabled={viewingIndex === images.length - 1 || isReading}
+                    style={styles.viewerButton}
+                  >
+                    <Ionicons
+                      name="chevron-forward"
+                      size={24}
+                      color={viewingIndex === images.length - 1 ? `${iconColor}55` : iconColor}
+                    />
+                  </TouchableOpacity>
+                </View>
+
+                <Text style={[styles.textHeading, { color: iconColor }]}>Text on this page</Text>
+                <Text style={[styles.pageText, { color: textColor }]} selectable>
+                  {viewing.extracted_text || 'No text saved for this page yet. Read it again to extract it.'}
+                </Text>
+              </ScrollView>
+            </>
+          )}
+        </SafeAreaView>
+        <ImagePreprocessor ref={preprocessorRef} />
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
+  heading: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  headingSpaced: {
+    marginTop: 16,
+  },
+  strip: {
+    gap: 10,
+  },
+  thumbnail: {
+    width: 72,
+    height: 96,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  recording: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  recordingPlayer: {
+    flex: 1,
+  },
+  thumbnailLabel: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  viewer: {
+    flex: 1,
+  },
+  viewerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  viewerButton: {
+    padding: 8,
+  },
+  viewerTitle: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  viewerContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  fullImage: {
+    width: '100%',
+    height: 420,
+  },
+  pager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 16,
+  },
+  reocrButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 24,
+  },
+  reocrText: {
+    color: '#ffffff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  textHeading: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 8,
+  },
+  pageText: {
+    fontSize: 15,
+    lineHeight: 22,
+  },
+});
@@ -0,0 +1,110 @@
+import { Ionicons } from '@expo/vector-icons';
+import { setAudioModeAsync, useAudioPlayer, useAudioPlayerStatus } from 'expo-audio';
+import React, { useState } from 'react';
+import { Pressable, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { formatDuration } from '../utils/voiceRecording';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  trackColor: isDark ? '#333333' : '#e5e7eb',
+  textColor: {
+    secondary: isDark ? '#cccccc' : '#666',
+    white: '#ffffff',
+  },
+});
+
+interface AudioPlayerBarProps {
+  uri: string;
+  accentColor: string;
+}
+
+// Play/pause, a seekable progress track and the elapsed and total time of a recording
+export default function AudioPlayerBar({ uri, accentColor }: AudioPlayerBarProps) {
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  const player = useAudioPlayer(uri, 250);
+  const status = useAudioPlayerStatus(player);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const duration = status.duration || 0;
+  const progress = duration > 0 ? Math.min(status.currentTime / duration, 1) : 0;
+
+  const togglePlayback = async () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    // Play through the speaker even with the ringer switched off
+    await setAudioModeAsync({ playsInSilentMode: true, allowsRecording: false });
+    if (duration > 0 && status.currentTime >= duration - 0.1) await player.seekTo(0);
+    player.play();
+  };
+
+  const seek = (x: number) => {
+    if (trackWidth <= 0 || duration <= 0) return;
+    player.seekTo(Math.max(0, Math.min(x / trackWidth, 1)) * duration);
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: COLORS.cardColor }]}>
+      <TouchableOpacity
+        style={[styles.playButton, { backgroundColor: accentColor }]}
+        onPress={togglePlayback}
+        disabled={!status.isLoaded}
+      >
+        <Ionicons name={status.playing ? 'pause' : 'play'} size={20} color={COLORS.textColor.white} />
+      </TouchableOpacity>
+      <View style={styles.body}>
+        <Pressable
+          style={styles.trackTouchArea}
+          onLayout={event => setTrackWidth(event.nativeEvent.layout.width)}
+          onPress={event => seek(event.nativeEvent.locationX)}
+        >
+          <View style={[styles.track, { backgroundColor: COLORS.trackColor }]}>
+            <View style={[styles.trackFill, { backgroundColor: accentColor, width: `${progress * 100}%` }]} />
+          </View>
+        </Pressable>
+        <Text style={[styles.time, { color: COLORS.textColor.secondary }]}>
+          {formatDuration(status.currentTime * 1000)} / {formatDuration(duration * 1000)}
+        </Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 12,
+    borderRadius: 14,
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  body: {
+    flex: 1,
+  },
+  trackTouchArea: {
+    paddingVertical: 8,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  trackFill: {
+    height: '100%',
+  },
+  time: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
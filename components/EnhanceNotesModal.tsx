@@ -14,6 +14,7 @@ import {
     View
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { generateEnhancedNotes } from '../services/geminiServices';
 
 interface EnhanceNotesModalProps {
@@ -78,7 +79,7 @@ export default function EnhanceNotesModal({
             setEnhancedNotes(enhanced);
             setEnhanceState(prev => ({ ...prev, progress: 100 }));
         } catch (err: any) {
-            setError(err.message || 'Failed to enhance notes. Please try again.');
+            setError(getAIErrorMessage(err, 'Failed to enhance notes. Please try again.'));
         } finally {
             setEnhanceState(prev => ({ ...prev, isEnhancing: false, progress: 0 }));
         }
@@ -12,6 +12,7 @@ import {
     TouchableOpacity,
     View
 } from 'react-native';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { generateFlashCardsFromNotes } from '../services/geminiServices';
 import { addFlashCardSet } from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
@@ -52,7 +53,7 @@ export default function FlashCardGenerationModal({
       setIsGenerating(true);
       setProgress(10);
 
-      const creditResult = await subscriptionService.spendCredits(2);
+      const creditResult = await subscriptionService.reserveCredits(2, 'flash-cards');
       if (!creditResult.success) {
         Alert.alert(
           "Out of Credits",
@@ -68,14 +69,14 @@ export default function FlashCardGenerationModal({
       }
 
       setProgress(30);
-      const cards = await generateFlashCardsFromNotes(sourceContent, selectedCardType);
+      const cards = await subscriptionService.runWithCredits(creditResult.reservation, credits => generateFlashCardsFromNotes(sourceContent, selectedCardType, credits));
       setProgress(80);
       setGeneratedCards(cards);
       setProgress(100);
 
     } catch (error) {
       console.error('Flash card generation error:', error);
-      Alert.alert('Error', 'Failed to generate flash cards. Please try again.');
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to generate flash cards. Please try again.'));
     } finally {
       setIsGenerating(false);
       setProgress(0);
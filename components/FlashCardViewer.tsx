@@ -1,6 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import React, { useRef, useState } from 'react';
 import {
+    Alert,
     Animated,
     Dimensions,
     Modal,
@@ -15,12 +16,24 @@ import {
 } from 'react-native';
 import { Gesture, GestureDetector } from 'react-native-gesture-handler';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { reviewFlashCard } from '../services/historyStorage';
+import {
+    CardSchedule,
+    formatInterval,
+    REVIEW_GRADES,
+    ReviewGrade,
+    scheduleReview,
+} from '../utils/spacedRepetition';
 
 const { width, height } = Dimensions.get('window');
 
-interface FlashCard {
+// Cards that carry a setId/cardIndex can be graded and scheduled
+export interface FlashCard {
   front: string;
   back: string;
+  setId?: number;
+  cardIndex?: number;
+  schedule?: CardSchedule | null;
 }
 
 interface FlashCardViewerProps {
@@ -28,17 +41,31 @@ interface FlashCardViewerProps {
   onClose: () => void;
   cards: FlashCard[];
   title: string;
+  onReviewed?: () => void;
 }
 
+const GRADE_OPTIONS: Record<ReviewGrade, { label: string; color: string }> = {
+  again: { label: 'Again', color: '#ef4444' },
+  hard: { label: 'Hard', color: '#f59e0b' },
+  good: { label: 'Good', color: '#43e97b' },
+  easy: { label: 'Easy', color: '#3b82f6' },
+};
+
 export default function FlashCardViewer({
   visible,
   onClose,
   cards,
-  title
+  title,
+  onReviewed
 }: FlashCardViewerProps) {
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [showNoteView, setShowNoteView] = useState(false);
+  const [isGrading, setIsGrading] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [gradedSchedules, setGradedSchedules] = useState<Record<number, CardSchedule>>({});
+  // Cards graded Again, shown once more at the end of this session
+  const [requeuedCards, setRequeuedCards] = useState<FlashCard[]>([]);
   
   // Animation values
   const flipAnim = useRef(new Animated.Value(0)).current;
@@ -52,7 +79,10 @@ export default function FlashCardViewer({
   const borderColor = useThemeColor({}, 'icon');
   const iconColor = useThemeColor({}, 'icon');
 
-  const currentCard = cards[currentIndex];
+  const deck = [...cards, ...requeuedCards];
+  const currentCard = deck[currentIndex];
+  const canGrade = currentCard?.setId !== undefined && currentCard?.cardIndex !== undefined;
+  const currentSchedule = gradedSchedules[currentIndex] ?? currentCard?.schedule ?? null;
 
   const flipCard = () => {
     const toValue = isFlipped ? 0 : 1;
@@ -67,45 +97,34 @@ export default function FlashCardViewer({
     setIsFlipped(!isFlipped);
   };
 
+  const slideToCard = (index: number, toValue: number) => {
+    Animated.sequence([
+      Animated.timing(slideAnim, {
+        toValue,
+        duration: 300,
+        useNativeDriver: true,
+      }),
+      Animated.timing(slideAnim, {
+        toValue: 0,
+        duration: 0,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setCurrentIndex(index);
+      setIsFlipped(false);
+      flipAnim.setValue(0);
+    });
+  };
+
   const goToNextCard = () => {
-    if (currentIndex < cards.length - 1) {
-      Animated.sequence([
-        Animated.timing(slideAnim, {
-          toValue: -width,
-          duration: 300,
-          useNativeDriver: true,
-        }),
-        Animated.timing(slideAnim, {
-          toValue: 0,
-          duration: 0,
-          useNativeDriver: true,
-        }),
-      ]).start(() => {
-        setCurrentIndex(currentIndex + 1);
-        setIsFlipped(false);
-        flipAnim.setValue(0);
-      });
+    if (currentIndex < deck.length - 1) {
+      slideToCard(currentIndex + 1, -width);
     }
   };
 
   const goToPreviousCard = () => {
     if (currentIndex > 0) {
-      Animated.sequence([
-        Animated.timing(slideAnim, {
-          toValue: width,
-          duration: 300,
-          useNativeDriver: true,
-        }),
-        Animated.timing(slideAnim, {
-          toValue: 0,
-          duration: 0,
-          useNativeDriver: true,
-        }),
-      ]).start(() => {
-        setCurrentIndex(currentIndex - 1);
-        setIsFlipped(false);
-        flipAnim.setValue(0);
-      });
+      slideToCard(currentIndex - 1, width);
     }
   };
 
@@ -117,7 +136,7 @@ export default function FlashCardViewer({
     .onEnd((event) => {
       if (event.translationX > 100 && currentIndex > 0) {
         goToPreviousCard();
-      } else if (event.translationX < -100 && currentIndex < cards.length - 1) {
+      } else if (event.translationX < -100 && currentIndex < deck.length - 1) {
         goToNextCard();
       } else {
         Animated.spring(slideAnim, {
@@ -165,8 +184,42 @@ export default function FlashCardViewer({
     ],
   };
 
+  const gradeCard = async (grade: ReviewGrade) => {
+    if (!canGrade || isGrading) return;
+    try {
+      setIsGrading(true);
+      const schedule = await reviewFlashCard(currentCard.setId!, currentCard.cardIndex!, currentCard.front, grade);
+      setGradedSchedules({ ...gradedSchedules, [currentIndex]: schedule });
+      setReviewedCount(reviewedCount + 1);
+      onReviewed?.();
+
+      const requeue = grade === 'again';
+      if (requeue) {
+        setRequeuedCards([...requeuedCards, { ...currentCard, schedule }]);
+      }
+      // deck is from this render, so it doesn't include the card just requeued
+      if (currentIndex < deck.length - 1 + (requeue ? 1 : 0)) {
+        slideToCard(currentIndex + 1, -width);
+      } else {
+        Alert.alert(
+          'Session complete',
+          `You reviewed ${reviewedCount + 1} ${reviewedCount + 1 === 1 ? 'card' : 'cards'}.`,
+          [{ text: 'Done', onPress: onClose }]
+        );
+      }
+    } catch (error) {
+      console.error('Failed to save review:', error);
+      Alert.alert('Error', 'Failed to save your review. Please try again.');
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
   const resetViewer = () => {
     setCurrentIndex(0);
+    setReviewedCount(0);
+    setGradedSchedules({});
+    setRequeuedCards([]);
     setIsFlipped(false);
     flipAnim.setValue(0);
     slideAnim.setValue(0);
@@ -203,7 +256,7 @@ export default function FlashCardViewer({
               {title}
             </Text>
             <Text style={[styles.subtitle, { color: iconColor }]}>
-              {currentIndex + 1} of {cards.length}
+              {currentIndex + 1} of {deck.length}
             </Text>
           </View>
           <View style={styles.headerActions}>
@@ -297,14 +350,14 @@ export default function FlashCardViewer({
                 style={[
                   styles.progressFill,
                   { 
-                    width: `${((currentIndex + 1) / cards.length) * 100}%`,
+                    width: `${((currentIndex + 1) / deck.length) * 100}%`,
                     backgroundColor: iconColor 
                   }
                 ]} 
               />
             </View>
             <Text style={[styles.progressText, { color: iconColor }]}>
-              {currentIndex + 1} / {cards.length}
+              {currentIndex + 1} / {deck.length}
             </Text>
           </View>
 
@@ -312,23 +365,44 @@ export default function FlashCardViewer({
             style={[
               styles.navButton,
               { backgroundColor: cardColor, borderColor },
-              currentIndex === cards.length - 1 && styles.navButtonDisabled
+              currentIndex === deck.length - 1 && styles.navButtonDisabled
             ]}
             onPress={goToNextCard}
-            disabled={currentIndex === cards.length - 1}
+            disabled={currentIndex === deck.length - 1}
           >
             <Ionicons 
               name="chevron-forward" 
               size={24} 
-              color={currentIndex === cards.length - 1 ? iconColor : textColor} 
+              color={currentIndex === deck.length - 1 ? iconColor : textColor} 
             />
           </TouchableOpacity>
         </View>
 
+        {/* Grading */}
+        {canGrade && isFlipped && (
+          <View style={styles.gradeBar}>
+            {REVIEW_GRADES.map(grade => (
+              <TouchableOpacity
+                key={grade}
+                style={[styles.gradeButton, { backgroundColor: GRADE_OPTIONS[grade].color }, isGrading && styles.navButtonDisabled]}
+                onPress={() => gradeCard(grade)}
+                disabled={isGrading}
+              >
+                <Text style={styles.gradeLabel}>{GRADE_OPTIONS[grade].label}</Text>
+                <Text style={styles.gradeInterval}>
+                  {formatInterval(scheduleReview(currentSchedule, grade))}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* Instructions */}
         <View style={styles.instructions}>
           <Text style={[styles.instructionText, { color: iconColor }]}>
-            💡 Swipe left/right to navigate • Tap card to flip
+            {canGrade
+              ? '💡 Flip the card, then rate how well you remembered it'
+              : '💡 Swipe left/right to navigate • Tap card to flip'}
           </Text>
         </View>
 
@@ -500,6 +574,29 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  gradeBar: {
+    flexDirection: 'row',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  gradeButton: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  gradeLabel: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  gradeInterval: {
+    color: '#fff',
+    fontSize: 12,
+    opacity: 0.85,
+    marginTop: 2,
+  },
   instructions: {
     paddingHorizontal: 20,
     paddingBottom: Platform.OS === 'ios' ? 20 : 40,
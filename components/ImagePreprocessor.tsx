@@ -0,0 +1,127 @@
+import * as FileSystem from 'expo-file-system';
+import React, { forwardRef, useImperativeHandle, useRef, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import {
+  buildPreprocessPage,
+  DEFAULT_PREPROCESS_OPTIONS,
+  PreprocessedImage,
+  PreprocessMessage,
+  PreprocessOptions,
+} from '../utils/imagePreprocessing';
+
+// Large photos take a few seconds on older phones; past this the original is used
+const PREPROCESS_TIMEOUT_MS = 20000;
+
+export interface ImagePreprocessorHandle {
+  // Resolves with the cleaned-up image, or null when preprocessing failed and
+  // the original should be sent as is
+  preprocess: (uri: string, options?: Partial<PreprocessOptions>) => Promise<PreprocessedImage | null>;
+}
+
+interface PreprocessJob {
+  page: string;
+  originalUri: string;
+  originalBytes: number;
+  finish: (result: PreprocessedImage | null) => void;
+}
+
+const getFileSize = async (uri: string) => {
+  const info = await FileSystem.getInfoAsync(uri);
+  return info.exists ? info.size : 0;
+};
+
+// Renders an invisible WebView while a job runs. Jobs are queued, so several
+// pages can be handed over at once and come back in order.
+const ImagePreprocessor = forwardRef<ImagePreprocessorHandle>((_, ref) => {
+  const [job, setJob] = useState<PreprocessJob | null>(null);
+  const queueRef = useRef<Promise<unknown>>(Promise.resolve());
+
+  const runJob = async (uri: string, options?: Partial<PreprocessOptions>): Promise<PreprocessedImage | null> => {
+    try {
+      const [base64, originalBytes] = await Promise.all([
+        FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }),
+        getFileSize(uri),
+      ]);
+      return await new Promise<PreprocessedImage | null>(resolve => {
+        const timeout = setTimeout(() => {
+          console.warn('Image preprocessing timed out, using the original image');
+          finish(null);
+        }, PREPROCESS_TIMEOUT_MS);
+        const finish = (result: PreprocessedImage | null) => {
+          clearTimeout(timeout);
+          setJob(null);
+          resolve(result);
+        };
+        setJob({
+          page: buildPreprocessPage(base64, { ...DEFAULT_PREPROCESS_OPTIONS, ...options }),
+          originalUri: uri,
+          originalBytes,
+          finish,
+        });
+      });
+    } catch (error) {
+      console.error('Image preprocessing failed:', error);
+      return null;
+    }
+  };
+
+  useImperativeHandle(ref, () => ({
+    preprocess: (uri, options) => {
+      const result = queueRef.current.then(() => runJob(uri, options));
+      queueRef.current = result;
+      return result;
+    },
+  }));
+
+  const handleMessage = async (event: WebViewMessageEvent) => {
+    if (!job) return;
+    let message: PreprocessMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'error') {
+      console.error('Image preprocessing failed:', message.message);
+      job.finish(null);
+      return;
+    }
+    try {
+      const uri = `${FileSystem.cacheDirectory}preprocessed-${Date.now()}.jpg`;
+      await FileSystem.writeAsStringAsync(uri, message.data, { encoding: FileSystem.EncodingType.Base64 });
+      job.finish({
+        uri,
+        originalUri: job.originalUri,
+        width: message.width,
+        height: message.height,
+        bytes: await getFileSize(uri),
+        originalBytes: job.originalBytes,
+        perspectiveCorrected: message.perspectiveCorrected,
+      });
+    } catch (error) {
+      console.error('Failed to save preprocessed image:', error);
+      job.finish(null);
+    }
+  };
+
+  if (!job) return null;
+  return (
+    <View style={styles.hidden} pointerEvents="none">
+      <WebView source={{ html: job.page }} originWhitelist={['*']} onMessage={handleMessage} />
+    </View>
+  );
+});
+
+ImagePreprocessor.displayName = 'ImagePreprocessor';
+
+export default ImagePreprocessor;
+
+const styles = StyleSheet.create({
+  hidden: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    opacity: 0,
+  },
+});
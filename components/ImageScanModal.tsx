@@ -1,6 +1,5 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
-import { router } from 'expo-router';
 import React, { useEffect, useRef, useState } from 'react';
 import {
   ActivityIndicator,
@@ -8,7 +7,6 @@ import {
   Animated,
   Dimensions,
   Easing,
-  Image,
   KeyboardAvoidingView,
   Modal,
   Platform,
@@ -21,7 +19,10 @@ import {
   View
 } from 'react-native';
 import { useThemeContext } from '../providers/ThemeProvider';
-import subscriptionService from '../services/subscriptionService';
+import { getAIErrorMessage } from '../services/aiGateway';
+import { PreprocessedImage } from '../utils/imagePreprocessing';
+import ImagePreprocessor, { ImagePreprocessorHandle } from './ImagePreprocessor';
+import PreprocessPreview from './PreprocessPreview';
 
 const { width, height } = Dimensions.get('window');
 
@@ -76,9 +77,12 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
   const finalAccentColor = accentColor || COLORS.accentColor;
 
   const [imageUri, setImageUri] = useState<string | null>(null);
+  const [processedImage, setProcessedImage] = useState<PreprocessedImage | null>(null);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
   const [extractedText, setExtractedText] = useState<string>('');
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const preprocessorRef = useRef<ImagePreprocessorHandle>(null);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -166,11 +170,7 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
       });
 
       if (!result.canceled && result.assets && result.assets.length > 0) {
-        const asset = result.assets[0];
-        setImageUri(asset.uri);
-        if (onProcessImage) {
-          await processImage(asset.uri);
-        }
+        await prepareImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Camera error:', error);
@@ -192,11 +192,7 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
       });
 
       if (!result.canceled && result.assets && result.assets.length > 0) {
-        const asset = result.assets[0];
-        setImageUri(asset.uri);
-        if (onProcessImage) {
-          await processImage(asset.uri);
-        }
+        await prepareImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Gallery error:', error);
@@ -206,24 +202,22 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
     }
   };
 
+  // Cleans the photo up before OCR and falls back to the original if that fails
+  const prepareImage = async (uri: string) => {
+    setImageUri(uri);
+    setProcessedImage(null);
+    setIsPreprocessing(true);
+    const processed = (await preprocessorRef.current?.preprocess(uri)) ?? null;
+    setProcessedImage(processed);
+    setIsPreprocessing(false);
+    if (onProcessImage) {
+      await processImage(processed?.uri ?? uri);
+    }
+  };
+
   const processImage = async (uri: string) => {
     try {
-      // Check credits before processing
-      const creditResult = await subscriptionService.spendCredits(1);
-      if (!creditResult.success) {
-        Alert.alert(
-          "Out of Credits",
-          creditResult.error || "You need at least 1 credit to scan an image.",
-          [
-            { text: "Cancel", style: "cancel" },
-            { text: "Get Credits", onPress: () => {
-              router.push('/paywall');
-            }}
-          ]
-        );
-        return;
-      }
-
+      // Credits are reserved by the onProcessImage handler around its AI call
       if (onProcessImage) {
         const text = await onProcessImage(uri);
         if (!text || text.trim().length === 0) {
@@ -235,7 +229,7 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
       }
     } catch (error) {
       console.error('Image processing error:', error);
-      setError('Failed to process the image. Please try again with a clearer image.');
+      setError(getAIErrorMessage(error, 'Failed to process the image. Please try again with a clearer image.'));
     }
   };
 
@@ -248,6 +242,7 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
 
   const resetModal = () => {
     setImageUri(null);
+    setProcessedImage(null);
     setExtractedText('');
     setError(null);
     setIsScanning(false);
@@ -388,10 +383,12 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
                 >
                   <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Document Preview</Text>
                   <View style={[styles.imageContainer, { backgroundColor: COLORS.backgroundColor }]}> 
-                    <Image
-                      source={{ uri: imageUri }}
-                      style={styles.previewImage}
-                      resizeMode="contain"
+                    <PreprocessPreview
+                      originalUri={imageUri}
+                      processed={processedImage}
+                      isProcessing={isPreprocessing}
+                      accentColor={finalAccentColor}
+                      height={280}
                     />
                     {/* Ultra-minimal scan line, no corners */}
                     {isScanning && (
@@ -420,6 +417,7 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
                       style={styles.removeImageButton}
                       onPress={() => {
                         setImageUri(null);
+                        setProcessedImage(null);
                         setExtractedText('');
                         clearError();
                       }}
@@ -529,6 +527,7 @@ const ImageScanModal: React.FC<ImageScanModalProps> = ({
           </KeyboardAvoidingView>
         </Animated.View>
       </SafeAreaView>
+      <ImagePreprocessor ref={preprocessorRef} />
     </Modal>
   );
 };
@@ -671,10 +670,6 @@ const styles = StyleSheet.create({
     shadowRadius: 16,
     elevation: 8,
   },
-  previewImage: {
-    width: '100%',
-    height: 280,
-  },
   removeImageButton: {
     position: 'absolute',
     top: 16,
@@ -0,0 +1,587 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { AIRequestCancelledError, getAIErrorMessage } from '../services/aiGateway';
+import { cleanScanNote, countCleanupRequests } from '../services/geminiServices';
+import { addHistory, addScanNote, ScanNote, updateScanNote } from '../services/historyStorage';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
+import { DiffLine, diffLines, diffStats, FoldedLines, foldUnchanged } from '../utils/magicEraser';
+import MathMarkdown from './MathMarkdown';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#ff6b6b',
+  dangerColor: '#ff6b6b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+export type MagicEraserNote = Pick<ScanNote, 'id' | 'title' | 'content' | 'subject' | 'folder_id'>;
+
+type EraserStep = 'intro' | 'cleaning' | 'review' | 'saving';
+type ReviewView = 'changes' | 'cleaned';
+
+interface MagicEraserModalProps {
+  visible: boolean;
+  onClose: () => void;
+  note: MagicEraserNote | null;
+  // Called after the note was updated or a cleaned copy saved, so the caller can refresh
+  onSaved?: () => void;
+}
+
+// Strips headers, page numbers, adverts and repeated boilerplate from a scan
+// note, shows what was removed and kept, then updates the note or saves the
+// result as a new one
+export default function MagicEraserModal({ visible, onClose, note, onSaved }: MagicEraserModalProps) {
+  const router = useRouter();
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+
+  const [step, setStep] = useState<EraserStep>('intro');
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [cleaned, setCleaned] = useState<string | null>(null);
+  const [view, setView] = useState<ReviewView>('changes');
+  const [expandedFolds, setExpandedFolds] = useState<Set<number>>(new Set());
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const requests = note ? countCleanupRequests(note.content) : 1;
+  const diff = useMemo(() => (note && cleaned !== null ? diffLines(note.content, cleaned) : []), [note, cleaned]);
+  const stats = useMemo(() => diffStats(diff), [diff]);
+  const foldedDiff = useMemo(() => foldUnchanged(diff), [diff]);
+  const hasChanges = stats.removed > 0 || stats.added > 0;
+
+  const showOutOfCredits = (message: string) => {
+    Alert.alert('Out of Credits', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Get Credits', onPress: () => router.push('/paywall') },
+    ]);
+  };
+
+  const resetState = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setStep('intro');
+    setProgress(null);
+    setCleaned(null);
+    setView('changes');
+    setExpandedFolds(new Set());
+  };
+
+  const handleClose = () => {
+    if (step === 'cleaning' || step === 'saving') {
+      Alert.alert('Stop Cleaning?', 'The note is still being cleaned up.', [
+        { text: 'Keep Going', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: () => {
+            resetState();
+            onClose();
+          },
+        },
+      ]);
+      return;
+    }
+    resetState();
+    onClose();
+  };
+
+  const erase = async () => {
+    if (!note) return;
+    const creditResult = await subscriptionService.reserveCredits(requests, 'magic-eraser', requests);
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || `You need ${requests} ${requests === 1 ? 'credit' : 'credits'} to clean up this note.`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStep('cleaning');
+    setProgress({ completed: 0, total: requests });
+    try {
+      const result = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        cleanScanNote(note.content, {
+          ...credits,
+          signal: abortController.signal,
+          onProgress: (completed, total) => setProgress({ completed, total }),
+        })
+      );
+      setCleaned(result);
+      setExpandedFolds(new Set());
+      setView('changes');
+      setStep('review');
+    } catch (error) {
+      setStep('intro');
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('Magic Eraser failed:', error);
+      Alert.alert(
+        'Error',
+        error instanceof EmptyAIResponseError
+          ? 'Nothing was left after cleaning. The note was not changed.'
+          : getAIErrorMessage(error, 'Failed to clean up the note. Please try again.')
+      );
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const save = async (asNewNote: boolean) => {
+    if (!note || cleaned === null) return;
+    setStep('saving');
+    try {
+      if (asNewNote) {
+        await addScanNote(`${note.title} (Cleaned)`, cleaned, {
+          subject: note.subject ?? null,
+          folderId: note.folder_id ?? null,
+        });
+      } else {
+        await updateScanNote(note.id, note.title, cleaned);
+      }
+      addHistory('', 'magic-eraser', note.title, cleaned).catch(error =>
+        console.warn('Failed to record Magic Eraser history:', error)
+      );
+      onSaved?.();
+      resetState();
+      onClose();
+      Alert.alert(
+        asNewNote ? 'Saved as New Note' : 'Note Cleaned',
+        asNewNote ? 'The cleaned copy was added to your study notes.' : 'The removed lines are gone from your note.'
+      );
+    } catch (error) {
+      console.error('Failed to save cleaned note:', error);
+      Alert.alert('Error', 'Failed to save the note. Please try again.');
+      setStep('review');
+    }
+  };
+
+  const toggleFold = (index: number) => {
+    setExpandedFolds(previous => {
+      const next = new Set(previous);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const renderDiffLine = (line: DiffLine, key: string) => {
+    const removed = line.kind === 'removed';
+    const added = line.kind === 'added';
+    const color = removed ? COLORS.dangerColor : COLORS.successColor;
+    return (
+      <View
+        key={key}
+        style={[
+          styles.diffLine,
+          (removed || added) && { backgroundColor: `${color}1a`, borderLeftColor: color },
+        ]}
+      >
+        <Text style={[styles.diffMarker, { color: removed || added ? color : COLORS.textColor.light }]}>
+          {removed ? '−' : added ? '+' : ' '}
+        </Text>
+        <Text
+          style={[
+            styles.diffText,
+            { color: removed ? COLORS.textColor.secondary : COLORS.textColor.primary },
+            removed && styles.removedText,
+          ]}
+        >
+          {line.text}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderFold = (fold: FoldedLines, index: number) => {
+    if (expandedFolds.has(index)) {
+      return (
+        <View key={`fold-${index}`}>
+          {fold.lines.map((line, lineIndex) => renderDiffLine(line, `fold-${index}-${lineIndex}`))}
+          <TouchableOpacity style={styles.foldButton} onPress={() => toggleFold(index)}>
+            <Ionicons name="chevron-up" size={16} color={COLORS.iconColor} />
+            <Text style={[styles.foldText, { color: COLORS.textColor.light }]}>Hide unchanged lines</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+    return (
+      <TouchableOpacity
+        key={`fold-${index}`}
+        style={[styles.foldButton, { backgroundColor: COLORS.backgroundColor }]}
+        onPress={() => toggleFold(index)}
+      >
+        <Ionicons name="chevron-down" size={16} color={COLORS.iconColor} />
+        <Text style={[styles.foldText, { color: COLORS.textColor.light }]}>
+          {fold.lines.length} unchanged {fold.lines.length === 1 ? 'line' : 'lines'}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderIntro = () => (
+    <View style={styles.centered}>
+      <View style={[styles.bigIcon, { backgroundColor: COLORS.accentColor }]}>
+        <Ionicons name="sparkles-outline" size={40} color={COLORS.textColor.white} />
+      </View>
+      <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Clean Up This Scan</Text>
+      <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+        Magic Eraser removes page headers and footers, page numbers, adverts and boilerplate repeated across pages.
+        You can review every removed line before anything changes.
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, { backgroundColor: COLORS.accentColor }, !note?.content.trim() && styles.disabled]}
+        onPress={erase}
+        disabled={!note?.content.trim()}
+      >
+        <Ionicons name="sparkles-outline" size={20} color={COLORS.textColor.white} />
+        <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>
+          Erase Noise ({requests} {requests === 1 ? 'Credit' : 'Credits'})
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderCleaning = () => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color={COLORS.accentColor} />
+      <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Erasing Noise...</Text>
+      {progress && progress.total > 1 && (
+        <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+          Part {Math.min(progress.completed + 1, progress.total)} of {progress.total}
+        </Text>
+      )}
+      <TouchableOpacity
+        style={[styles.secondaryButton, styles.cancelButton, { borderColor: COLORS.dangerColor }]}
+        onPress={() => abortControllerRef.current?.abort()}
+      >
+        <Text style={[styles.secondaryButtonText, { color: COLORS.dangerColor }]}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderReview = () => {
+    if (!hasChanges) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="checkmark-circle" size={64} color={COLORS.successColor} />
+          <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Nothing to Erase</Text>
+          <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+            No headers, page numbers or other noise were found in this note.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <>
+        <View style={styles.statsRow}>
+          <View style={[styles.stat, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+            <Text style={[styles.statValue, { color: COLORS.dangerColor }]}>{stats.removed}</Text>
+            <Text style={[styles.statLabel, { color: COLORS.textColor.secondary }]}>Removed</Text>
+          </View>
+          <View style={[styles.stat, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+            <Text style={[styles.statValue, { color: COLORS.textColor.primary }]}>{stats.kept}</Text>
+            <Text style={[styles.statLabel, { color: COLORS.textColor.secondary }]}>Kept</Text>
+          </View>
+          {stats.added > 0 && (
+            <View style={[styles.stat, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+              <Text style={[styles.statValue, { color: COLORS.successColor }]}>{stats.added}</Text>
+              <Text style={[styles.statLabel, { color: COLORS.textColor.secondary }]}>Changed</Text>
+            </View>
+          )}
+        </View>
+
+        <View style={[styles.viewToggle, { backgroundColor: COLORS.cardColor }]}>
+          {(['changes', 'cleaned'] as ReviewView[]).map(option => {
+            const selected = view === option;
+            return (
+              <TouchableOpacity
+                key={option}
+                style={[styles.viewOption, selected && { backgroundColor: COLORS.accentColor }]}
+                onPress={() => setView(option)}
+              >
+                <Text style={[styles.viewOptionText, { color: selected ? COLORS.textColor.white : COLORS.textColor.secondary }]}>
+                  {option === 'changes' ? 'Changes' : 'Cleaned Note'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={[styles.card, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          {view === 'changes' ? (
+            foldedDiff.map((item, index) =>
+              item.kind === 'folded' ? renderFold(item, index) : renderDiffLine(item, `line-${index}`)
+            )
+          ) : (
+            <MathMarkdown content={cleaned ?? ''} textColor={COLORS.textColor.primary} accentColor={COLORS.accentColor} />
+          )}
+        </View>
+      </>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={handleClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+        <View style={[styles.header, { borderBottomColor: COLORS.borderColor }]}>
+          <View style={styles.headerText}>
+            <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Magic Eraser</Text>
+            {!!note && (
+              <Text style={[styles.headerSubtitle, { color: COLORS.textColor.secondary }]} numberOfLines={1}>
+                {note.title}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={handleClose} style={[styles.closeButton, { backgroundColor: COLORS.cardColor }]}>
+            <Ionicons name="close" size={20} color={COLORS.textColor.secondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {step === 'intro' && renderIntro()}
+          {step === 'cleaning' && renderCleaning()}
+          {(step === 'review' || step === 'saving') && renderReview()}
+        </ScrollView>
+
+        {(step === 'review' || step === 'saving') && (
+          <View style={[styles.footer, { borderTopColor: COLORS.borderColor }]}>
+            {hasChanges ? (
+              <>
+                <TouchableOpacity
+                  style={[styles.primaryButton, { backgroundColor: COLORS.accentColor }, step === 'saving' && styles.disabled]}
+                  onPress={() => save(false)}
+                  disabled={step === 'saving'}
+                >
+                  {step === 'saving' ? (
+                    <ActivityIndicator size="small" color={COLORS.textColor.white} />
+                  ) : (
+                    <>
+                      <Ionicons name="checkmark" size={20} color={COLORS.textColor.white} />
+                      <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>Accept Changes</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.secondaryButton, { borderColor: COLORS.accentColor }, step === 'saving' && styles.disabled]}
+                  onPress={() => save(true)}
+                  disabled={step === 'saving'}
+                >
+                  <Ionicons name="copy-outline" size={18} color={COLORS.accentColor} />
+                  <Text style={[styles.secondaryButtonText, { color: COLORS.accentColor }]}>Save as New Note</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <TouchableOpacity style={[styles.primaryButton, { backgroundColor: COLORS.accentColor }]} onPress={handleClose}>
+                <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>Done</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: Platform.OS === 'ios' ? 12 : 28,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    marginTop: 2,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  centered: {
+    alignItems: 'center',
+    paddingTop: 32,
+    gap: 16,
+  },
+  bigIcon: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  sectionSubtitle: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    alignSelf: 'stretch',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    alignSelf: 'stretch',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancelButton: {
+    alignSelf: 'center',
+    paddingHorizontal: 32,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  stat: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  statValue: {
+    fontSize: 22,
+    fontWeight: '700',
+  },
+  statLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 2,
+  },
+  viewToggle: {
+    flexDirection: 'row',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 12,
+  },
+  viewOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 9,
+  },
+  viewOptionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  card: {
+    borderRadius: 14,
+    borderWidth: 1,
+    padding: 12,
+  },
+  diffLine: {
+    flexDirection: 'row',
+    borderLeftWidth: 3,
+    borderLeftColor: 'transparent',
+    borderRadius: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 6,
+    marginBottom: 2,
+  },
+  diffMarker: {
+    width: 16,
+    fontSize: 14,
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  diffText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  removedText: {
+    textDecorationLine: 'line-through',
+  },
+  foldButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    borderRadius: 6,
+    marginVertical: 4,
+  },
+  foldText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    gap: 10,
+  },
+});
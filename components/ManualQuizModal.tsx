@@ -15,6 +15,7 @@ import {
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
 import { addQuiz } from '../services/historyStorage';
+import { createQuizDocument, serializeQuizDocument } from '../utils/quizFormat';
 
 type QuizType = 'multiple-choice' | 'true-false' | 'fill-blank';
 
@@ -165,42 +166,31 @@ export default function ManualQuizModal({
     try {
       setIsSavingManualQuiz(true);
       
-      // Format quiz content
-      let quizContent = '';
-      manualQuizQuestions.forEach((q, index) => {
-        quizContent += `${index + 1}. ${q.question}\n`;
-        
+      const quizDocument = createQuizDocument(manualQuizQuestions.map(q => {
         if (q.questionType === 'true-false') {
-          quizContent += `   A) True\n`;
-          quizContent += `   B) False\n`;
-          quizContent += `   (Correct Answer: ${q.correctAnswer === 0 ? 'A) True' : 'B) False'})\n`;
-        } else {
-          q.options.forEach((option, optIndex) => {
-            if (option.trim()) {
-              const letter = String.fromCharCode(65 + optIndex); // A, B, C, D
-              const isCorrect = optIndex === q.correctAnswer;
-              quizContent += `   ${letter}) ${option}${isCorrect ? ' ✓' : ''}\n`;
-            }
-          });
+          return {
+            id: `q${q.id}`,
+            type: 'true-false' as const,
+            question: q.question.trim(),
+            options: ['True', 'False'],
+            correctAnswer: q.correctAnswer === 0 ? 0 : 1,
+          };
         }
-        quizContent += '\n';
-      });
-      
-      quizContent += 'ANSWERS:\n';
-      manualQuizQuestions.forEach((q, index) => {
-        if (q.questionType === 'true-false') {
-          const correctLetter = q.correctAnswer === 0 ? 'A' : 'B';
-          const correctAnswer = q.correctAnswer === 0 ? 'True' : 'False';
-          quizContent += `${index + 1}. ${correctLetter}) ${correctAnswer}\n`;
-        } else {
-          const correctLetter = String.fromCharCode(65 + q.correctAnswer);
-          quizContent += `${index + 1}. ${correctLetter}) ${q.options[q.correctAnswer]}\n`;
-        }
-      });
+        // Drop blank options while keeping the correct answer pointing at the same text
+        const options = q.options.map(option => option.trim()).filter(option => option !== '');
+        const correctOption = q.options[q.correctAnswer]?.trim();
+        return {
+          id: `q${q.id}`,
+          type: 'multiple-choice' as const,
+          question: q.question.trim(),
+          options,
+          correctAnswer: Math.max(0, options.indexOf(correctOption ?? '')),
+        };
+      }));
 
       await addQuiz(
         manualQuizTitle.trim(),
-        quizContent,
+        serializeQuizDocument(quizDocument),
         'mixed', // Use 'mixed' for quizzes with different question types
         manualQuizQuestions.length
       );
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Linking, StyleProp, StyleSheet, View, ViewStyle } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+import { markdownToHtml } from '../utils/markdown';
+
+// KaTeX is loaded from the CDN; AI answers need a connection anyway, and
+// without it formulas fall back to their LaTeX source. The files are pinned by
+// their Subresource Integrity hashes (from the npm package of this version),
+// so the WebView refuses them if the CDN ever serves anything else.
+const KATEX_VERSION = '0.16.11';
+const KATEX_CSS = `https://cdn.jsdelivr.net/npm/katex@${KATEX_VERSION}/dist/katex.min.css`;
+const KATEX_CSS_INTEGRITY = 'sha384-nB0miv6/jRmo5UMMR1wu3Gz6NLsoTkbqJghGIsx//Rlm+ZU03BU6SQNC66uf4l5+';
+const KATEX_JS = `https://cdn.jsdelivr.net/npm/katex@${KATEX_VERSION}/dist/katex.min.js`;
+const KATEX_JS_INTEGRITY = 'sha384-7zkQWkzuo3B5mTepMUcHkMB5jZaolc2xDwL6VFqjFALcbeS9Ggm/Yr2r3Dy4lfFg';
+
+interface MathMarkdownProps {
+  content: string;
+  textColor: string;
+  accentColor?: string;
+  fontSize?: number;
+  // Enables tappable [n] citations, as used by note chat
+  onCitationPress?: (number: number) => void;
+  style?: StyleProp<ViewStyle>;
+}
+
+type PageMessage = { type: 'height'; height: number } | { type: 'cite'; number: number };
+
+const buildPage = (bodyHtml: string, textColor: string, accentColor: string, fontSize: number) => `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1">
+<link rel="stylesheet" href="${KATEX_CSS}" integrity="${KATEX_CSS_INTEGRITY}" crossorigin="anonymous">
+<script src="${KATEX_JS}" integrity="${KATEX_JS_INTEGRITY}" crossorigin="anonymous"></script>
+<style>
+  html, body { margin: 0; padding: 0; background: transparent; }
+  body {
+    color: ${textColor};
+    font-family: -apple-system, BlinkMacSystemFont, Roboto, 'Helvetica Neue', sans-serif;
+    font-size: ${fontSize}px;
+    line-height: 1.5;
+    word-wrap: break-word;
+    -webkit-text-size-adjust: 100%;
+  }
+  p, ul, ol, blockquote, pre, .block, .table { margin: 0 0 0.75em; }
+  #content > :last-child { margin-bottom: 0; }
+  h1, h2, h3, h4, h5, h6 { margin: 0.9em 0 0.4em; line-height: 1.3; }
+  h1 { font-size: 1.4em; } h2 { font-size: 1.25em; } h3 { font-size: 1.1em; } h4, h5, h6 { font-size: 1em; }
+  #content > :first-child { margin-top: 0; }
+  ul, ol { padding-left: 1.4em; }
+  li { margin-bottom: 0.25em; }
+  blockquote { border-left: 3px solid ${accentColor}; padding-left: 0.75em; opacity: 0.85; }
+  code { font-family: Menlo, monospace; font-size: 0.9em; background: ${accentColor}1f; border-radius: 4px; padding: 0 4px; }
+  pre { overflow-x: auto; background: ${accentColor}14; border-radius: 8px; padding: 10px; }
+  pre code { background: none; padding: 0; }
+  .table { overflow-x: auto; }
+  table { border-collapse: collapse; min-width: 100%; font-size: 0.95em; }
+  th, td { border: 1px solid ${textColor}33; padding: 6px 10px; text-align: left; vertical-align: top; }
+  th { background: ${accentColor}1f; font-weight: 600; }
+  hr { border: none; border-top: 1px solid ${textColor}33; margin: 1em 0; }
+  a { color: ${accentColor}; }
+  a.cite { font-weight: 600; text-decoration: none; font-size: 0.85em; }
+  .math { font-family: Menlo, monospace; font-size: 0.95em; }
+  .math-display { display: block; text-align: center; overflow-x: auto; overflow-y: hidden; padding: 2px 0; }
+  .katex { font-size: 1.05em; }
+</style>
+</head>
+<body>
+<div id="content">${bodyHtml}</div>
+<script>
+  function post(message) { window.ReactNativeWebView.postMessage(JSON.stringify(message)); }
+  function postHeight() { post({ type: 'height', height: document.getElementById('content').offsetHeight }); }
+  function renderMath() {
+    if (!window.katex) return;
+    document.querySelectorAll('.math').forEach(function (el) {
+      try {
+        katex.render(el.textContent, el, { displayMode: el.classList.contains('math-display'), throwOnError: false });
+        el.classList.remove('math');
+      } catch (e) {}
+    });
+  }
+  window.renderContent = function (html) {
+    document.getElementById('content').innerHTML = html;
+    renderMath();
+    postHeight();
+  };
+  document.addEventListener('click', function (event) {
+    var cite = event.target.closest('[data-cite]');
+    if (!cite) return;
+    event.preventDefault();
+    post({ type: 'cite', number: Number(cite.getAttribute('data-cite')) });
+  });
+  renderMath();
+  postHeight();
+  window.addEventListener('load', postHeight);
+  if (window.ResizeObserver) new ResizeObserver(postHeight).observe(document.getElementById('content'));
+</script>
+</body>
+</html>`;
+
+// Renders Markdown with LaTeX formulas. Used for everything the AI writes, so
+// answers, notes and chat look the same everywhere. Sizes itself to its
+// content; put it inside a ScrollView when the text can be long.
+export default function MathMarkdown({
+  content,
+  textColor,
+  accentColor = '#667eea',
+  fontSize = 16,
+  onCitationPress,
+  style,
+}: MathMarkdownProps) {
+  const webViewRef = useRef<WebView>(null);
+  const loadedRef = useRef(false);
+  const [height, setHeight] = useState(fontSize * 1.5);
+
+  const citations = !!onCitationPress;
+  const bodyHtml = useMemo(() => markdownToHtml(content, { citations }), [content, citations]);
+  const bodyHtmlRef = useRef(bodyHtml);
+  bodyHtmlRef.current = bodyHtml;
+
+  // The page is only rebuilt when its styling changes; content updates, such
+  // as streamed tokens, are pushed into the loaded page instead of reloading it
+  const page = useMemo(() => {
+    loadedRef.current = false;
+    return buildPage(bodyHtmlRef.current, textColor, accentColor, fontSize);
+  }, [textColor, accentColor, fontSize]);
+
+  useEffect(() => {
+    if (!loadedRef.current) return;
+    webViewRef.current?.injectJavaScript(`window.renderContent(${JSON.stringify(bodyHtml)}); true;`);
+  }, [bodyHtml]);
+
+  const handleLoadEnd = () => {
+    loadedRef.current = true;
+    // Content may have changed while the page was loading
+    webViewRef.current?.injectJavaScript(`window.renderContent(${JSON.stringify(bodyHtmlRef.current)}); true;`);
+  };
+
+  const handleMessage = (event: WebViewMessageEvent) => {
+    let message: PageMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'height' && message.height > 0) {
+      setHeight(Math.ceil(message.height));
+    } else if (message.type === 'cite') {
+      onCitationPress?.(message.number);
+    }
+  };
+
+  return (
+    <View style={[styles.container, style]}>
+      <View style={{ height }}>
+        <WebView
+          ref={webViewRef}
+          source={{ html: page }}
+          originWhitelist={['*']}
+          onLoadEnd={handleLoadEnd}
+          onMessage={handleMessage}
+          onShouldStartLoadWithRequest={request => {
+            // Links in answers open in the browser, not inside the answer
+            if (/^https?:/.test(request.url)) {
+              Linking.openURL(request.url);
+              return false;
+            }
+            return true;
+          }}
+          scrollEnabled={false}
+          showsVerticalScrollIndicator={false}
+          style={styles.webView}
+          containerStyle={styles.webView}
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  webView: {
+    backgroundColor: 'transparent',
+  },
+});
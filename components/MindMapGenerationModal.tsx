@@ -14,6 +14,7 @@ import {
     View
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { generateMindMapFromNotes } from '../services/geminiServices';
 import { addHistory, addMindMap } from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
@@ -73,7 +74,7 @@ export default function MindMapGenerationModal({
         try {
             setMindMapState(prev => ({ ...prev, isGenerating: true }));
 
-            const creditResult = await subscriptionService.spendCredits(2);
+            const creditResult = await subscriptionService.reserveCredits(2, 'mind-maps');
             if (!creditResult.success) {
                 Alert.alert(
                     "Out of Credits",
@@ -88,7 +89,7 @@ export default function MindMapGenerationModal({
 
             setMindMapState(prev => ({ ...prev, progress: 30 }));
 
-            const mindMap = await generateMindMapFromNotes(sourceContent);
+            const mindMap = await subscriptionService.runWithCredits(creditResult.reservation, credits => generateMindMapFromNotes(sourceContent, undefined, credits));
 
             setMindMapState(prev => ({ ...prev, progress: 80 }));
 
@@ -101,7 +102,7 @@ export default function MindMapGenerationModal({
 
         } catch (error) {
             console.error('Mind map generation error:', error);
-            Alert.alert('Error', 'Failed to generate mind map. Please try again.');
+            Alert.alert('Error', getAIErrorMessage(error, 'Failed to generate mind map. Please try again.'));
         } finally {
             setMindMapState(prev => ({ ...prev, isGenerating: false, progress: 0 }));
         }
@@ -0,0 +1,712 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { AIRequestCancelledError, getAIErrorMessage } from '../services/aiGateway';
+import { processImage } from '../services/geminiServices';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
+import { describePreprocessing, PreprocessedImage, PreprocessOptions } from '../utils/imagePreprocessing';
+import { joinScanPages, ScannedPage } from '../utils/scanPages';
+import { generateUUID } from '../utils/uuid';
+import ImagePreprocessor, { ImagePreprocessorHandle } from './ImagePreprocessor';
+import PageCropModal from './PageCropModal';
+import PreprocessPreview from './PreprocessPreview';
+
+const MAX_PAGES = 20;
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#667eea',
+  dangerColor: '#ff6b6b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+type PageStatus = 'pending' | 'reading' | 'done' | 'failed';
+
+interface ScanPage {
+  id: string;
+  // The photo as taken (or cropped), and the cleaned-up copy that is sent for OCR
+  originalUri: string;
+  uri: string;
+  processed: PreprocessedImage | null;
+  enhancing: boolean;
+  status: PageStatus;
+  text?: string;
+  error?: string;
+}
+
+interface MultiPageScanModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Receives the text of all pages joined with page separators, and the
+  // pages themselves so their photos can be kept with the note
+  onScanComplete: (text: string, pages: ScannedPage[]) => void | Promise<void>;
+  // Feature the page credits are charged to
+  creditFeature: string;
+  title?: string;
+  actionButtonText?: string;
+  accentColor?: string;
+}
+
+// A capture session for documents longer than one page. Pages are collected
+// first, can be reordered and cropped, and are then read one at a time with
+// one credit per page. A page that fails keeps its image so it can be retried
+// on its own without paying again for the pages that worked.
+export default function MultiPageScanModal({
+  visible,
+  onClose,
+  onScanComplete,
+  creditFeature,
+  title = 'Scan Pages',
+  actionButtonText = 'Create Note',
+  accentColor,
+}: MultiPageScanModalProps) {
+  const router = useRouter();
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  const finalAccentColor = accentColor || COLORS.accentColor;
+
+  const [pages, setPages] = useState<ScanPage[]>([]);
+  const [readingPageId, setReadingPageId] = useState<string | null>(null);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [cropPage, setCropPage] = useState<ScanPage | null>(null);
+  const [comparePageId, setComparePageId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const preprocessorRef = useRef<ImagePreprocessorHandle>(null);
+
+  const isReading = readingPageId !== null;
+  const unreadPages = pages.filter(page => page.status !== 'done');
+  const allRead = pages.length > 0 && unreadPages.length === 0;
+  const isEnhancing = pages.some(page => page.enhancing);
+
+  // Stop reading if the modal goes away mid-session
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const updatePage = (id: string, patch: Partial<ScanPage>) => {
+    setPages(current => current.map(page => (page.id === id ? { ...page, ...patch } : page)));
+  };
+
+  // Falls back to the original photo when preprocessing fails
+  const enhancePage = async (id: string, uri: string, options?: Partial<PreprocessOptions>) => {
+    const processed = (await preprocessorRef.current?.preprocess(uri, options)) ?? null;
+    updatePage(id, { uri: processed?.uri ?? uri, processed, enhancing: false });
+  };
+
+  const addPages = (uris: string[]) => {
+    const added: ScanPage[] = uris.slice(0, MAX_PAGES - pages.length).map(uri => ({
+      id: generateUUID(),
+      originalUri: uri,
+      uri,
+      processed: null,
+      enhancing: true,
+      status: 'pending',
+    }));
+    setPages(current => [...current, ...added]);
+    added.forEach(page => enhancePage(page.id, page.originalUri));
+  };
+
+  const handleCamera = async () => {
+    try {
+      const { status } = await ImagePicker.requestCameraPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Camera Permission Required', 'Please grant camera permission to scan documents.');
+        return;
+      }
+      const result = await ImagePicker.launchCameraAsync({ allowsEditing: true, quality: 0.9, mediaTypes: ['images'] });
+      if (!result.canceled && result.assets?.length) addPages([result.assets[0].uri]);
+    } catch (error) {
+      console.error('Camera error:', error);
+      Alert.alert('Error', 'Failed to capture image. Please try again.');
+    }
+  };
+
+  const handleGallery = async () => {
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        allowsMultipleSelection: true,
+        orderedSelection: true,
+        selectionLimit: MAX_PAGES - pages.length,
+        quality: 0.9,
+        mediaTypes: ['images'],
+      });
+      if (!result.canceled && result.assets?.length) addPages(result.assets.map(asset => asset.uri));
+    } catch (error) {
+      console.error('Gallery error:', error);
+      Alert.alert('Error', 'Failed to select images from gallery. Please try again.');
+    }
+  };
+
+  const movePage = (index: number, offset: -1 | 1) => {
+    setPages(current => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const next = [...current];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const removePage = (id: string) => {
+    setPages(current => current.filter(page => page.id !== id));
+  };
+
+  // A cropped page is a different image, so it has to be read again. The
+  // crop already sets the page outline, so only the tones are cleaned up.
+  const handleCropped = (uri: string) => {
+    if (cropPage) {
+      updatePage(cropPage.id, {
+        originalUri: uri,
+        uri,
+        processed: null,
+        enhancing: true,
+        status: 'pending',
+        text: undefined,
+        error: undefined,
+      });
+      enhancePage(cropPage.id, uri, { correctPerspective: false });
+    }
+    setCropPage(null);
+  };
+
+  // Reads the given pages in order. Stops at the first page that can't be
+  // paid for; pages that fail are marked and skipped.
+  const readPages = async (toRead: ScanPage[]) => {
+    if (toRead.length === 0 || isReading) return;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress({ completed: 0, total: toRead.length });
+
+    try {
+      for (const [index, page] of toRead.entries()) {
+        if (abortController.signal.aborted) break;
+        setReadingPageId(page.id);
+        updatePage(page.id, { status: 'reading', error: undefined });
+
+        const creditResult = await subscriptionService.reserveCredits(1, creditFeature);
+        if (!creditResult.success) {
+          updatePage(page.id, { status: 'pending' });
+          Alert.alert(
+            'Out of Credits',
+            `${creditResult.error || 'You need 1 credit per page.'} The pages read so far are kept.`,
+            [
+              { text: 'Cancel', style: 'cancel' },
+              { text: 'Get Credits', onPress: () => router.push('/paywall') },
+            ]
+          );
+          break;
+        }
+
+        try {
+          const text = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+            processImage(page.uri, { ...credits, signal: abortController.signal })
+          );
+          updatePage(page.id, { status: 'done', text: text.trim() });
+        } catch (error) {
+          if (error instanceof AIRequestCancelledError) {
+            updatePage(page.id, { status: 'pending' });
+            break;
+          }
+          console.error('Page OCR failed:', error);
+          updatePage(page.id, {
+            status: 'failed',
+            error:
+              error instanceof EmptyAIResponseError
+                ? 'No text found on this page'
+                : getAIErrorMessage(error, 'Failed to read this page'),
+          });
+        }
+        setProgress({ completed: index + 1, total: toRead.length });
+      }
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setReadingPageId(null);
+    }
+  };
+
+  const resetSession = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setPages([]);
+    setReadingPageId(null);
+    setProgress({ completed: 0, total: 0 });
+    setComparePageId(null);
+    setIsSaving(false);
+  };
+
+  const handleClose = () => {
+    const hasReadPages = pages.some(page => page.status === 'done');
+    if (!hasReadPages && !isReading) {
+      resetSession();
+      onClose();
+      return;
+    }
+    Alert.alert('Discard Scan?', 'The pages scanned so far will be lost. Credits already used are not refunded.', [
+      { text: 'Keep Scanning', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => {
+          resetSession();
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const handleFinish = async () => {
+    if (!allRead) return;
+    setIsSaving(true);
+    try {
+      await onScanComplete(
+        joinScanPages(pages.map(page => page.text ?? '')),
+        pages.map(page => ({ imageUri: page.originalUri, text: page.text ?? '' }))
+      );
+      resetSession();
+      onClose();
+    } catch (error) {
+      console.error('Failed to save scanned pages:', error);
+      Alert.alert('Error', 'Failed to save the scanned pages. Please try again.');
+      setIsSaving(false);
+    }
+  };
+
+  const renderStatus = (page: ScanPage) => {
+    switch (page.status) {
+      case 'reading':
+        return (
+          <View style={styles.statusRow}>
+            <ActivityIndicator size="small" color={finalAccentColor} />
+            <Text style={[styles.statusText, { color: finalAccentColor }]}>Reading...</Text>
+          </View>
+        );
+      case 'done':
+        return (
+          <View style={styles.statusRow}>
+            <Ionicons name="checkmark-circle" size={16} color={COLORS.successColor} />
+            <Text style={[styles.statusText, { color: COLORS.successColor }]}>Read</Text>
+          </View>
+        );
+      case 'failed':
+        return (
+          <View style={styles.statusRow}>
+            <Ionicons name="alert-circle" size={16} color={COLORS.dangerColor} />
+            <Text style={[styles.statusText, { color: COLORS.dangerColor }]} numberOfLines={2}>
+              {page.error}
+            </Text>
+          </View>
+        );
+      default:
+        return page.enhancing ? (
+          <View style={styles.statusRow}>
+            <ActivityIndicator size="small" color={COLORS.iconColor} />
+            <Text style={[styles.statusText, { color: COLORS.textColor.light }]}>Enhancing...</Text>
+          </View>
+        ) : (
+          <Text style={[styles.statusText, { color: COLORS.textColor.light }]}>Waiting to be read</Text>
+        );
+    }
+  };
+
+  const renderPage = (page: ScanPage, index: number) => {
+    const locked = isReading || page.enhancing;
+    const comparing = comparePageId === page.id && !page.enhancing;
+    return (
+      <View key={page.id} style={[styles.pageCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+        <View style={styles.pageRow}>
+          <TouchableOpacity
+            onPress={() => setComparePageId(comparing ? null : page.id)}
+            disabled={page.enhancing}
+            activeOpacity={0.8}
+          >
+            <Image source={{ uri: page.uri }} style={[styles.thumbnail, { backgroundColor: COLORS.backgroundColor }]} resizeMode="cover" />
+          </TouchableOpacity>
+          <View style={styles.pageInfo}>
+            <Text style={[styles.pageTitle, { color: COLORS.textColor.primary }]}>Page {index + 1}</Text>
+            {renderStatus(page)}
+            {page.status === 'done' && !!page.text && (
+              <Text style={[styles.pageText, { color: COLORS.textColor.secondary }]} numberOfLines={2}>
+                {page.text}
+              </Text>
+            )}
+            {page.status !== 'done' && page.processed && (
+              <Text style={[styles.pageText, { color: COLORS.textColor.light }]}>{describePreprocessing(page.processed)}</Text>
+            )}
+            <View style={styles.pageActions}>
+              <TouchableOpacity onPress={() => movePage(index, -1)} disabled={isReading || index === 0} style={styles.pageAction}>
+                <Ionicons name="arrow-up" size={18} color={isReading || index === 0 ? COLORS.textColor.light : COLORS.iconColor} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => movePage(index, 1)}
+                disabled={isReading || index === pages.length - 1}
+                style={styles.pageAction}
+              >
+                <Ionicons
+                  name="arrow-down"
+                  size={18}
+                  color={isReading || index === pages.length - 1 ? COLORS.textColor.light : COLORS.iconColor}
+                />
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setCropPage(page)} disabled={locked} style={styles.pageAction}>
+                <Ionicons name="crop" size={18} color={locked ? COLORS.textColor.light : COLORS.iconColor} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setComparePageId(comparing ? null : page.id)}
+                disabled={page.enhancing}
+                style={styles.pageAction}
+              >
+                <Ionicons
+                  name="git-compare-outline"
+                  size={18}
+                  color={page.enhancing ? COLORS.textColor.light : comparing ? finalAccentColor : COLORS.iconColor}
+                />
+              </TouchableOpacity>
+              {page.status === 'failed' && (
+                <TouchableOpacity onPress={() => readPages([page])} disabled={locked} style={styles.pageAction}>
+                  <Ionicons name="refresh" size={18} color={locked ? COLORS.textColor.light : finalAccentColor} />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity onPress={() => removePage(page.id)} disabled={isReading} style={styles.pageAction}>
+                <Ionicons name="trash-outline" size={18} color={isReading ? COLORS.textColor.light : COLORS.dangerColor} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+        {comparing && (
+          <View style={styles.compare}>
+            <PreprocessPreview
+              originalUri={page.originalUri}
+              processed={page.processed}
+              isProcessing={false}
+              accentColor={finalAccentColor}
+              height={200}
+            />
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const readingIndex = pages.findIndex(page => page.id === readingPageId);
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={handleClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+        <View style={[styles.header, { borderBottomColor: COLORS.borderColor }]}>
+          <View style={styles.headerRow}>
+            <View>
+              <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>{title}</Text>
+              <Text style={[styles.headerSubtitle, { color: COLORS.textColor.secondary }]}>
+                {pages.length === 0
+                  ? 'Add pages, then read them all at once'
+                  : `${pages.length} ${pages.length === 1 ? 'page' : 'pages'} · 1 credit per page`}
+              </Text>
+            </View>
+            <TouchableOpacity onPress={handleClose} style={[styles.closeButton, { backgroundColor: COLORS.cardColor }]}>
+              <Ionicons name="close" size={20} color={COLORS.textColor.secondary} />
+            </TouchableOpacity>
+          </View>
+          {isReading && (
+            <View style={styles.progressSection}>
+              <Text style={[styles.progressText, { color: COLORS.textColor.secondary }]}>
+                Reading page {readingIndex + 1} of {pages.length}
+              </Text>
+              <View style={[styles.progressTrack, { backgroundColor: COLORS.borderColor }]}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { backgroundColor: finalAccentColor, width: `${(progress.completed / Math.max(progress.total, 1)) * 100}%` },
+                  ]}
+                />
+              </View>
+            </View>
+          )}
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {pages.length === 0 && (
+            <View style={styles.emptyState}>
+              <View style={[styles.emptyIcon, { backgroundColor: finalAccentColor }]}>
+                <Ionicons name="documents-outline" size={40} color={COLORS.textColor.white} />
+              </View>
+              <Text style={[styles.emptyText, { color: COLORS.textColor.secondary }]}>
+                Photograph each page, or pick several from your gallery. You can reorder and crop them before reading.
+              </Text>
+            </View>
+          )}
+
+          {pages.map(renderPage)}
+
+          {pages.length < MAX_PAGES && !isReading && (
+            <View style={styles.addRow}>
+              <TouchableOpacity
+                style={[styles.addButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+                onPress={handleCamera}
+              >
+                <Ionicons name="camera-outline" size={22} color={finalAccentColor} />
+                <Text style={[styles.addButtonText, { color: COLORS.textColor.primary }]}>Camera</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.addButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+                onPress={handleGallery}
+              >
+                <Ionicons name="images-outline" size={22} color={finalAccentColor} />
+                <Text style={[styles.addButtonText, { color: COLORS.textColor.primary }]}>Gallery</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+
+        {pages.length > 0 && (
+          <View style={[styles.footer, { borderTopColor: COLORS.borderColor }]}>
+            {isReading ? (
+              <TouchableOpacity
+                style={[styles.secondaryButton, { borderColor: COLORS.dangerColor }]}
+                onPress={() => abortControllerRef.current?.abort()}
+              >
+                <Ionicons name="stop-circle-outline" size={20} color={COLORS.dangerColor} />
+                <Text style={[styles.secondaryButtonText, { color: COLORS.dangerColor }]}>Stop Reading</Text>
+              </TouchableOpacity>
+            ) : allRead ? (
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: finalAccentColor }, isSaving && styles.buttonDisabled]}
+                onPress={handleFinish}
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <ActivityIndicator size="small" color={COLORS.textColor.white} />
+                ) : (
+                  <>
+                    <Ionicons name="document-text-outline" size={20} color={COLORS.textColor.white} />
+                    <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>{actionButtonText}</Text>
+                  </>
+                )}
+              </TouchableOpacity>
+            ) : (
+              <TouchableOpacity
+                style={[styles.primaryButton, { backgroundColor: finalAccentColor }, isEnhancing && styles.buttonDisabled]}
+                onPress={() => readPages(unreadPages)}
+                disabled={isEnhancing}
+              >
+                <Ionicons name="scan-outline" size={20} color={COLORS.textColor.white} />
+                <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>
+                  Read {unreadPages.length} {unreadPages.length === 1 ? 'Page' : 'Pages'} ({unreadPages.length}{' '}
+                  {unreadPages.length === 1 ? 'Credit' : 'Credits'})
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </SafeAreaView>
+
+      <PageCropModal
+        visible={!!cropPage}
+        imageUri={cropPage?.originalUri ?? null}
+        onCancel={() => setCropPage(null)}
+        onCropped={handleCropped}
+        accentColor={finalAccentColor}
+      />
+      <ImagePreprocessor ref={preprocessorRef} />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    paddingTop: Platform.OS === 'ios' ? 12 : 28,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  headerSubtitle: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  progressSection: {
+    marginTop: 14,
+  },
+  progressText: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginBottom: 6,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 32,
+  },
+  emptyIcon: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    maxWidth: 300,
+  },
+  pageCard: {
+    borderRadius: 16,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 12,
+  },
+  pageRow: {
+    flexDirection: 'row',
+  },
+  compare: {
+    marginTop: 12,
+  },
+  thumbnail: {
+    width: 72,
+    height: 96,
+    borderRadius: 8,
+    marginRight: 12,
+  },
+  pageInfo: {
+    flex: 1,
+  },
+  pageTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 13,
+    fontWeight: '500',
+    flexShrink: 1,
+  },
+  pageText: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 6,
+  },
+  pageActions: {
+    flexDirection: 'row',
+    marginTop: 'auto',
+    paddingTop: 8,
+    gap: 4,
+  },
+  pageAction: {
+    padding: 6,
+  },
+  addRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  addButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+  },
+  addButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+});
@@ -1,6 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import React, { useEffect, useRef, useState } from 'react';
 import {
+  Alert,
   Animated,
   Dimensions,
   FlatList,
@@ -8,6 +9,7 @@ import {
   Modal,
   Platform,
   SafeAreaView,
+  Share,
   StyleSheet,
   Text,
   TextInput,
@@ -15,11 +17,34 @@ import {
   View
 } from 'react-native';
 import { useThemeContext } from '../providers/ThemeProvider';
-import { getAnswerFromGemini } from '../services/geminiServices';
-import subscriptionService from '../services/subscriptionService';
+import { AIRequestCancelledError, AIStreamStatus, getAIErrorMessage } from '../services/aiGateway';
+import { NoteChatPassage, NoteChatTurn, streamNoteChatAnswer } from '../services/geminiServices';
+import {
+  addNoteChat,
+  ChunkedNoteType,
+  deleteNoteChat,
+  ensureNoteChunksIndexed,
+  getNoteChats,
+  getNoteChunks,
+  NoteChat,
+  NoteChatMessage,
+  NoteChunkMatch,
+  searchNoteChunks,
+  updateNote,
+  updateNoteChatMessages,
+  updateScanNote,
+} from '../services/historyStorage';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
+import { appendPinnedAnswer, noteChatToMarkdown } from '../utils/noteChatMarkdown';
+import MathMarkdown from './MathMarkdown';
+import NoteReaderModal from './NoteReaderModal';
 
 const { width, height } = Dimensions.get('window');
 
+const MAX_PASSAGES = 4;
+const MAX_PASSAGE_CHARS = 3000;
+const MAX_HISTORY_TURNS = 6;
+
 // Dynamic color scheme based on theme
 const getColors = (isDark: boolean) => ({
   primary: '#667eea',
@@ -43,28 +68,101 @@ const getColors = (isDark: boolean) => ({
   },
 });
 
+// Where a numbered passage sits in the note, for citation taps
+interface PassageSource {
+  number: number;
+  start: number;
+  end: number;
+}
+
 interface ChatMessage {
   id: string;
   type: 'user' | 'ai';
   content: string;
   timestamp: Date;
   isLoading?: boolean;
+  isStreaming?: boolean;
+  // Set when the answer ended early; the partial text is kept
+  streamStatus?: Exclude<AIStreamStatus, 'complete'>;
+  sources?: PassageSource[];
+  // Local notices (errors, out of credits) that aren't part of the saved thread
+  isError?: boolean;
+  pinned?: boolean;
 }
 
+const toStoredMessage = (message: ChatMessage): NoteChatMessage => ({
+  id: message.id,
+  role: message.type === 'user' ? 'user' : 'assistant',
+  content: message.content,
+  createdAt: message.timestamp.toISOString(),
+  ...(message.sources ? { sources: message.sources } : {}),
+  ...(message.streamStatus ? { streamStatus: message.streamStatus } : {}),
+  ...(message.pinned ? { pinned: true } : {}),
+});
+
+const fromStoredMessage = (message: NoteChatMessage): ChatMessage => ({
+  id: message.id,
+  type: message.role === 'user' ? 'user' : 'ai',
+  content: message.content,
+  timestamp: new Date(message.createdAt),
+  sources: message.sources,
+  streamStatus: message.streamStatus,
+  pinned: message.pinned,
+});
+
+const isSavedMessage = (message: ChatMessage) =>
+  message.id !== 'welcome' && !message.isLoading && !message.isError && message.content.trim().length > 0;
+
+const threadTitle = (question: string) => (question.length > 60 ? `${question.slice(0, 57)}...` : question);
+
 interface NoteChatModalProps {
   visible: boolean;
   onClose: () => void;
+  noteId?: number;
+  noteType: ChunkedNoteType;
   noteTitle: string;
   noteContent: string;
+  noteCreatedAt?: string | Date;
   accentColor?: string;
+  // Called with the new content after an answer is pinned into the note
+  onNoteUpdated?: (content: string) => void;
 }
 
+// Picks the passages most relevant to the question, falling back to the start
+// of the note for questions with no keyword hits ("summarize this"). Passages
+// are numbered in reading order so citations follow the note.
+const retrievePassages = async (
+  noteType: ChunkedNoteType,
+  noteId: number,
+  noteContent: string,
+  question: string
+): Promise<NoteChunkMatch[]> => {
+  await ensureNoteChunksIndexed(noteType, noteId, noteContent);
+  let chunks = await searchNoteChunks(noteType, noteId, question, MAX_PASSAGES);
+  if (chunks.length === 0) {
+    chunks = (await getNoteChunks(noteType, noteId)).slice(0, MAX_PASSAGES);
+  }
+
+  const selected: NoteChunkMatch[] = [];
+  let totalChars = 0;
+  for (const chunk of chunks) {
+    if (selected.length > 0 && totalChars + chunk.text.length > MAX_PASSAGE_CHARS) break;
+    selected.push(chunk);
+    totalChars += chunk.text.length;
+  }
+  return selected.sort((a, b) => a.chunkIndex - b.chunkIndex);
+};
+
 const NoteChatModal: React.FC<NoteChatModalProps> = ({
   visible,
   onClose,
+  noteId,
+  noteType,
   noteTitle,
   noteContent,
+  noteCreatedAt,
   accentColor,
+  onNoteUpdated,
 }) => {
   const { resolvedTheme } = useThemeContext();
   const COLORS = getColors(resolvedTheme === 'dark');
@@ -73,6 +171,11 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [citedRange, setCitedRange] = useState<{ start: number; end: number } | null>(null);
+  const [chatId, setChatId] = useState<number | null>(null);
+  const [threads, setThreads] = useState<NoteChat[]>([]);
+  const [threadsVisible, setThreadsVisible] = useState(false);
 
   // Animation refs
   const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -105,16 +208,8 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
         }),
       ]).start();
 
-      // Add welcome message
-      if (messages.length === 0) {
-        const welcomeMessage: ChatMessage = {
-          id: 'welcome',
-          type: 'ai',
-          content: `Hi! I'm your AI study assistant. I've read your note "${noteTitle}" and I'm ready to help you understand it better. Ask me anything about the content!`,
-          timestamp: new Date(),
-        };
-        setMessages([welcomeMessage]);
-      }
+      // Pick up the note's most recent conversation, if there is one
+      openLatestThread();
     } else {
       fadeAnim.setValue(0);
       scaleAnim.setValue(0.8);
@@ -131,8 +226,66 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
     }
   }, [messages]);
 
+  // Stop any answer still streaming when the modal goes away
+  useEffect(() => {
+    if (!visible) abortControllerRef.current?.abort();
+  }, [visible]);
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const createWelcomeMessage = (): ChatMessage => ({
+    id: 'welcome',
+    type: 'ai',
+    content: `Hi! I'm your AI study assistant. I've read your note "${noteTitle}" and I'm ready to help you understand it better. Ask me anything about the content!`,
+    timestamp: new Date(),
+  });
+
+  const openThread = (thread: NoteChat | null) => {
+    setChatId(thread?.id ?? null);
+    setMessages([createWelcomeMessage(), ...(thread?.messages.map(fromStoredMessage) ?? [])]);
+    setThreadsVisible(false);
+  };
+
+  const openLatestThread = async () => {
+    setMessages([createWelcomeMessage()]);
+    setChatId(null);
+    if (noteId === undefined) return;
+    try {
+      const noteThreads = await getNoteChats(noteType, noteId);
+      setThreads(noteThreads);
+      openThread(noteThreads[0] ?? null);
+    } catch (error) {
+      console.error('Failed to load note chats:', error);
+    }
+  };
+
+  // Threads are saved once an exchange finishes, so a stopped or interrupted
+  // answer is kept along with its question
+  const saveThread = async (thread: ChatMessage[]) => {
+    const stored = thread.filter(isSavedMessage).map(toStoredMessage);
+    if (stored.length === 0 || noteId === undefined) return;
+    try {
+      if (chatId === null) {
+        setChatId(await addNoteChat(noteType, noteId, threadTitle(stored[0].content), stored));
+      } else {
+        await updateNoteChatMessages(chatId, stored);
+      }
+      setThreads(await getNoteChats(noteType, noteId));
+    } catch (error) {
+      console.error('Failed to save note chat:', error);
+    }
+  };
+
+  const updateMessage = (id: string, update: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map(msg => (msg.id === id ? { ...msg, ...update } : msg)));
+  };
+
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleSendMessage = async () => {
-    if (!inputText.trim() || isLoading) return;
+    if (!inputText.trim() || isLoading || noteId === undefined) return;
 
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -149,48 +302,82 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
       isLoading: true,
     };
 
+    const question = inputText.trim();
+    const history: NoteChatTurn[] = messages
+      .filter(isSavedMessage)
+      .slice(-MAX_HISTORY_TURNS)
+      .map(msg => ({ role: msg.type === 'user' ? 'user' : 'assistant', content: msg.content }));
     setMessages(prev => [...prev, userMessage, loadingMessage]);
     setInputText('');
     setIsLoading(true);
 
     try {
+      // Retrieve first: credits are only reserved once an AI request is
+      // certain, so a failed lookup never charges one
+      const chunks = await retrievePassages(noteType, noteId, noteContent, question);
+      const passages: NoteChatPassage[] = chunks.map((chunk, index) => ({ number: index + 1, text: chunk.text }));
+      const sources: PassageSource[] = chunks.map((chunk, index) => ({ number: index + 1, start: chunk.start, end: chunk.end }));
+
       // Check credits
-      const creditResult = await subscriptionService.spendCredits(1);
+      const creditResult = await subscriptionService.reserveCredits(1, 'note-chat');
       if (!creditResult.success) {
         const errorMessage: ChatMessage = {
           id: (Date.now() + 2).toString(),
           type: 'ai',
           content: creditResult.error || 'Sorry, you need at least 1 credit to ask questions. Please get more credits to continue.',
           timestamp: new Date(),
+          isError: true,
         };
         setMessages(prev => prev.filter(msg => !msg.isLoading).concat(errorMessage));
         setIsLoading(false);
         return;
       }
 
-      // Create context for AI
-      const context = `Based on this note titled "${noteTitle}" with the following content:\n\n${noteContent}\n\nPlease answer this question: ${inputText.trim()}`;
-      
-      const aiResponse = await getAnswerFromGemini(context, 'note-chat');
-      
-      const aiMessage: ChatMessage = {
-        id: (Date.now() + 2).toString(),
-        type: 'ai',
-        content: aiResponse,
+      updateMessage(loadingMessage.id, { sources });
+
+      const abortController = new AbortController();
+      abortControllerRef.current = abortController;
+
+      // The loading bubble turns into the answer as tokens arrive
+      const result = await subscriptionService.runWithCredits(
+        creditResult.reservation,
+        credits =>
+          streamNoteChatAnswer({ noteTitle, passages, history, question }, {
+            ...credits,
+            signal: abortController.signal,
+            onText: text => updateMessage(loadingMessage.id, { content: text, isLoading: false, isStreaming: true }),
+          }),
+        result => !result.text.trim()
+      );
+
+      const answer: ChatMessage = {
+        ...loadingMessage,
+        content: result.text,
+        isLoading: false,
+        isStreaming: false,
+        streamStatus: result.status === 'complete' ? undefined : result.status,
+        sources,
         timestamp: new Date(),
       };
-
-      setMessages(prev => prev.filter(msg => !msg.isLoading).concat(aiMessage));
+      updateMessage(loadingMessage.id, answer);
+      await saveThread([...messages, userMessage, answer]);
     } catch (error) {
+      // Stopped before any text arrived: nothing to keep, and runWithCredits has released the credit
+      if (error instanceof AIRequestCancelledError || error instanceof EmptyAIResponseError) {
+        setMessages(prev => prev.filter(msg => msg.id !== loadingMessage.id));
+        return;
+      }
       console.error('Chat error:', error);
       const errorMessage: ChatMessage = {
         id: (Date.now() + 2).toString(),
         type: 'ai',
-        content: 'Sorry, I encountered an error while processing your question. Please try again.',
+        content: getAIErrorMessage(error, 'Sorry, I encountered an error while processing your question. Please try again.'),
         timestamp: new Date(),
+        isError: true,
       };
-      setMessages(prev => prev.filter(msg => !msg.isLoading).concat(errorMessage));
+      setMessages(prev => prev.filter(msg => msg.id !== loadingMessage.id).concat(errorMessage));
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
@@ -199,6 +386,88 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  // Appends the answer (and the question it answered) to the end of the note,
+  // so existing citation offsets stay valid
+  const handlePinAnswer = async (message: ChatMessage) => {
+    if (noteId === undefined || message.pinned) return;
+    const index = messages.findIndex(msg => msg.id === message.id);
+    const question = messages.slice(0, index).reverse().find(msg => msg.type === 'user')?.content;
+    const content = appendPinnedAnswer(noteContent, question, message.content);
+    try {
+      if (noteType === 'note') {
+        await updateNote(noteId, noteTitle, content);
+      } else {
+        await updateScanNote(noteId, noteTitle, content);
+      }
+      const updated = messages.map(msg => (msg.id === message.id ? { ...msg, pinned: true } : msg));
+      setMessages(updated);
+      await saveThread(updated);
+      onNoteUpdated?.(content);
+      Alert.alert('Pinned', 'The answer was added to the end of your note.');
+    } catch (error) {
+      console.error('Failed to pin answer:', error);
+      Alert.alert('Error', 'Failed to add the answer to your note. Please try again.');
+    }
+  };
+
+  const handleExportThread = async () => {
+    const stored = messages.filter(isSavedMessage).map(toStoredMessage);
+    if (stored.length === 0) {
+      Alert.alert('Nothing to Export', 'Ask a question first, then export the conversation.');
+      return;
+    }
+    try {
+      await Share.share({ title: `Chat about ${noteTitle}`, message: noteChatToMarkdown(noteTitle, stored) });
+    } catch (error) {
+      console.error('Failed to export chat:', error);
+    }
+  };
+
+  const handleDeleteThread = (thread: NoteChat) => {
+    Alert.alert('Delete Conversation', `Delete "${thread.title}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await deleteNoteChat(thread.id);
+            setThreads(prev => prev.filter(t => t.id !== thread.id));
+            if (thread.id === chatId) openThread(null);
+          } catch (error) {
+            console.error('Failed to delete note chat:', error);
+          }
+        },
+      },
+    ]);
+  };
+
+  const openCitation = (source: PassageSource) => {
+    setCitedRange({ start: source.start, end: source.end });
+  };
+
+  // Answers are rendered as Markdown with formulas; citation markers like [2]
+  // become tappable links into the note
+  const renderAnswer = (item: ChatMessage) => {
+    const sources = item.sources ?? [];
+    return (
+      <MathMarkdown
+        content={`${item.content}${item.isStreaming ? ' ▍' : ''}`}
+        textColor={COLORS.textColor.primary}
+        accentColor={finalAccentColor}
+        onCitationPress={
+          sources.length > 0
+            ? number => {
+                const source = sources.find(s => s.number === number);
+                if (source) openCitation(source);
+              }
+            : undefined
+        }
+        style={styles.answerContent}
+      />
+    );
+  };
+
   const renderMessage = ({ item }: { item: ChatMessage }) => (
     <View style={[
       styles.messageContainer,
@@ -206,6 +475,7 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
     ]}>
       <View style={[
         styles.messageBubble,
+        item.type === 'ai' && !item.isLoading && !item.isError && styles.answerBubble,
         {
           backgroundColor: item.type === 'user' ? COLORS.chatColors.user : COLORS.chatColors.ai,
           alignSelf: item.type === 'user' ? 'flex-end' : 'flex-start',
@@ -219,6 +489,8 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
               <Animated.View style={[styles.loadingDot, { backgroundColor: COLORS.textColor.light }]} />
             </View>
           </View>
+        ) : item.type === 'ai' && !item.isError ? (
+          renderAnswer(item)
         ) : (
           <Text style={[
             styles.messageText,
@@ -227,21 +499,86 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
             {item.content}
           </Text>
         )}
-        <Text style={[
-          styles.messageTime,
-          { color: item.type === 'user' ? COLORS.textColor.white : COLORS.textColor.light }
-        ]}>
-          {formatTime(item.timestamp)}
-        </Text>
+        {item.streamStatus && (
+          <Text style={[styles.streamStatusText, { color: COLORS.textColor.light }]}>
+            {item.streamStatus === 'stopped' ? 'Stopped early' : 'Connection lost, answer may be incomplete'}
+          </Text>
+        )}
+        <View style={styles.messageFooter}>
+          <Text style={[
+            styles.messageTime,
+            { color: item.type === 'user' ? COLORS.textColor.white : COLORS.textColor.light }
+          ]}>
+            {formatTime(item.timestamp)}
+          </Text>
+          {item.type === 'ai' && isSavedMessage(item) && !item.isStreaming && (
+            <TouchableOpacity
+              style={styles.pinButton}
+              onPress={() => handlePinAnswer(item)}
+              disabled={item.pinned}
+            >
+              <Ionicons
+                name={item.pinned ? 'pin' : 'pin-outline'}
+                size={14}
+                color={item.pinned ? finalAccentColor : COLORS.textColor.light}
+              />
+              <Text style={[styles.pinButtonText, { color: item.pinned ? finalAccentColor : COLORS.textColor.light }]}>
+                {item.pinned ? 'Pinned' : 'Pin to note'}
+              </Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
     </View>
   );
 
   const resetChat = () => {
-    setMessages([]);
+    abortControllerRef.current?.abort();
+    openThread(null);
     setInputText('');
   };
 
+  const renderThreads = () => (
+    <View style={styles.threadsPanel}>
+      <TouchableOpacity
+        style={[styles.threadItem, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+        onPress={resetChat}
+      >
+        <Ionicons name="add-circle-outline" size={20} color={finalAccentColor} />
+        <Text style={[styles.threadTitle, { color: finalAccentColor }]}>New conversation</Text>
+      </TouchableOpacity>
+      <FlatList
+        data={threads}
+        keyExtractor={thread => thread.id.toString()}
+        contentContainerStyle={styles.threadsContent}
+        renderItem={({ item: thread }) => (
+          <TouchableOpacity
+            style={[
+              styles.threadItem,
+              { backgroundColor: COLORS.cardColor, borderColor: thread.id === chatId ? finalAccentColor : COLORS.borderColor },
+            ]}
+            onPress={() => openThread(thread)}
+          >
+            <View style={styles.threadInfo}>
+              <Text style={[styles.threadTitle, { color: COLORS.textColor.primary }]} numberOfLines={1}>
+                {thread.title}
+              </Text>
+              <Text style={[styles.threadMeta, { color: COLORS.textColor.light }]}>
+                {new Date(thread.updatedAt).toLocaleDateString()} · {thread.messages.length} messages
+              </Text>
+            </View>
+            <TouchableOpacity onPress={() => handleDeleteThread(thread)} style={styles.threadDelete}>
+              <Ionicons name="trash-outline" size={18} color={COLORS.dangerColor} />
+            </TouchableOpacity>
+          </TouchableOpacity>
+        )}
+        ListEmptyComponent={
+          <Text style={[styles.threadsEmpty, { color: COLORS.textColor.light }]}>No saved conversations yet</Text>
+        }
+      />
+    </View>
+  );
+
   return (
     <Modal
       visible={visible}
@@ -278,6 +615,23 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
                 </View>
               </View>
               <View style={styles.headerActions}>
+                <TouchableOpacity 
+                  style={[styles.headerButton, { backgroundColor: threadsVisible ? finalAccentColor : COLORS.cardColor }]}
+                  onPress={() => setThreadsVisible(prev => !prev)}
+                  disabled={isLoading}
+                >
+                  <Ionicons
+                    name="time-outline"
+                    size={20}
+                    color={threadsVisible ? COLORS.textColor.white : COLORS.textColor.secondary}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity 
+                  style={[styles.headerButton, { backgroundColor: COLORS.cardColor }]}
+                  onPress={handleExportThread}
+                >
+                  <Ionicons name="share-outline" size={20} color={COLORS.textColor.secondary} />
+                </TouchableOpacity>
                 <TouchableOpacity 
                   style={[styles.headerButton, { backgroundColor: COLORS.cardColor }]}
                   onPress={resetChat}
@@ -294,17 +648,19 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
             </View>
           </View>
 
-          {/* Chat Messages */}
-          <FlatList
-            ref={flatListRef}
-            data={messages}
-            keyExtractor={(item) => item.id}
-            renderItem={renderMessage}
-            style={styles.messagesList}
-            contentContainerStyle={styles.messagesContent}
-            showsVerticalScrollIndicator={false}
-            onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
-          />
+          {/* Saved conversations, or the current one */}
+          {threadsVisible ? renderThreads() : (
+            <FlatList
+              ref={flatListRef}
+              data={messages}
+              keyExtractor={(item) => item.id}
+              renderItem={renderMessage}
+              style={styles.messagesList}
+              contentContainerStyle={styles.messagesContent}
+              showsVerticalScrollIndicator={false}
+              onContentSizeChange={() => flatListRef.current?.scrollToEnd({ animated: true })}
+            />
+          )}
 
           {/* Input Section */}
           <KeyboardAvoidingView 
@@ -322,27 +678,50 @@ const NoteChatModal: React.FC<NoteChatModalProps> = ({
                 maxLength={500}
                 editable={!isLoading}
               />
-              <TouchableOpacity
-                style={[
-                  styles.sendButton,
-                  { 
-                    backgroundColor: inputText.trim() && !isLoading ? finalAccentColor : COLORS.borderColor,
-                    opacity: inputText.trim() && !isLoading ? 1 : 0.5
-                  }
-                ]}
-                onPress={handleSendMessage}
-                disabled={!inputText.trim() || isLoading}
-              >
-                <Ionicons 
-                  name="send" 
-                  size={20} 
-                  color={inputText.trim() && !isLoading ? COLORS.textColor.white : COLORS.textColor.light} 
-                />
-              </TouchableOpacity>
+              {isLoading ? (
+                <TouchableOpacity
+                  style={[styles.sendButton, { backgroundColor: COLORS.dangerColor }]}
+                  onPress={handleStopGenerating}
+                >
+                  <Ionicons name="stop" size={18} color={COLORS.textColor.white} />
+                </TouchableOpacity>
+              ) : (
+                <TouchableOpacity
+                  style={[
+                    styles.sendButton,
+                    { 
+                      backgroundColor: inputText.trim() ? finalAccentColor : COLORS.borderColor,
+                      opacity: inputText.trim() ? 1 : 0.5
+                    }
+                  ]}
+                  onPress={handleSendMessage}
+                  disabled={!inputText.trim()}
+                >
+                  <Ionicons 
+                    name="send" 
+                    size={20} 
+                    color={inputText.trim() ? COLORS.textColor.white : COLORS.textColor.light} 
+                  />
+                </TouchableOpacity>
+              )}
             </View>
           </KeyboardAvoidingView>
         </Animated.View>
       </SafeAreaView>
+
+      {/* Cited passage, opened over the chat */}
+      <NoteReaderModal
+        visible={citedRange !== null}
+        onClose={() => setCitedRange(null)}
+        note={noteId !== undefined ? {
+          id: noteId,
+          title: noteTitle,
+          content: noteContent,
+          createdAt: noteCreatedAt ?? new Date(),
+        } : null}
+        isScanNote={noteType === 'scan-note'}
+        highlightRange={citedRange ?? undefined}
+      />
     </Modal>
   );
 };
@@ -428,15 +807,79 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  // Rendered answers size to the bubble, so AI bubbles get a fixed width
+  answerBubble: {
+    width: '85%',
+    maxWidth: '85%',
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 22,
     marginBottom: 4,
   },
+  answerContent: {
+    marginBottom: 4,
+  },
   messageTime: {
     fontSize: 12,
     opacity: 0.7,
   },
+  messageFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  pinButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 4,
+  },
+  pinButtonText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  threadsPanel: {
+    flex: 1,
+    padding: 16,
+  },
+  threadsContent: {
+    paddingBottom: 24,
+  },
+  threadItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  threadInfo: {
+    flex: 1,
+  },
+  threadTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  threadMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  threadDelete: {
+    padding: 4,
+  },
+  threadsEmpty: {
+    textAlign: 'center',
+    marginTop: 24,
+    fontSize: 14,
+  },
+  streamStatusText: {
+    fontSize: 12,
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
   loadingContainer: {
     paddingVertical: 8,
   },
@@ -0,0 +1,123 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { Folder, getFolders, getTags, Tag } from '../services/historyStorage';
+import { flattenFolders } from '../utils/noteFolders';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  textColor: {
+    secondary: isDark ? '#cccccc' : '#666',
+    white: '#ffffff',
+  },
+});
+
+interface NoteFilterBarProps {
+    selectedFolderId?: number;
+    onSelectFolder: (folderId?: number) => void;
+    selectedTagId?: number;
+    onSelectTag: (tagId?: number) => void;
+    accentColor: string;
+    // Bump to reload folders and tags after they were edited
+    refreshKey?: number;
+}
+
+// Folder and tag chips above note lists. Renders nothing until the user has
+// created a folder or a tag.
+export default function NoteFilterBar({
+    selectedFolderId,
+    onSelectFolder,
+    selectedTagId,
+    onSelectTag,
+    accentColor,
+    refreshKey,
+}: NoteFilterBarProps) {
+    const [folders, setFolders] = useState<Folder[]>([]);
+    const [tags, setTags] = useState<Tag[]>([]);
+
+    const { resolvedTheme } = useThemeContext();
+    const COLORS = getColors(resolvedTheme === 'dark');
+
+    useEffect(() => {
+        (async () => {
+            const [folderList, tagList] = await Promise.all([getFolders(), getTags()]);
+            setFolders(folderList);
+            setTags(tagList.filter(tag => tag.noteCount > 0));
+        })();
+    }, [refreshKey]);
+
+    // Drop a selection whose folder or tag no longer exists
+    useEffect(() => {
+        if (selectedFolderId !== undefined && !folders.some(folder => folder.id === selectedFolderId)) onSelectFolder(undefined);
+        if (selectedTagId !== undefined && !tags.some(tag => tag.id === selectedTagId)) onSelectTag(undefined);
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [folders, tags]);
+
+    if (folders.length === 0 && tags.length === 0) return null;
+
+    const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, icon?: keyof typeof Ionicons.glyphMap) => (
+        <TouchableOpacity
+            key={key}
+            style={[
+                styles.chip,
+                {
+                    backgroundColor: selected ? accentColor : COLORS.cardColor,
+                    borderColor: selected ? accentColor : COLORS.borderColor,
+                },
+            ]}
+            onPress={onPress}
+        >
+            {icon && <Ionicons name={icon} size={14} color={selected ? COLORS.textColor.white : COLORS.textColor.secondary} />}
+            <Text style={[styles.chipText, { color: selected ? COLORS.textColor.white : COLORS.textColor.secondary }]}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <View style={styles.container}>
+            {folders.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+                    {renderChip('all-folders', 'All folders', selectedFolderId === undefined, () => onSelectFolder(undefined), 'folder-outline')}
+                    {flattenFolders(folders).map(({ folder, path }) =>
+                        renderChip(`folder-${folder.id}`, path, selectedFolderId === folder.id, () => onSelectFolder(folder.id), 'folder')
+                    )}
+                </ScrollView>
+            )}
+            {tags.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.row}>
+                    {renderChip('all-tags', 'All tags', selectedTagId === undefined, () => onSelectTag(undefined), 'pricetags-outline')}
+                    {tags.map(tag =>
+                        renderChip(`tag-${tag.id}`, `#${tag.name}`, selectedTagId === tag.id, () => onSelectTag(tag.id))
+                    )}
+                </ScrollView>
+            )}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        marginTop: 12,
+        gap: 8,
+    },
+    row: {
+        gap: 8,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+});
@@ -0,0 +1,422 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    Platform,
+    SafeAreaView,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TextInput,
+    TouchableOpacity,
+    View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import {
+    addFolder,
+    ChunkedNoteType,
+    deleteFolder,
+    Folder,
+    getFolders,
+    getNoteTagNames,
+    getTags,
+    moveNoteToFolder,
+    setNoteSubject,
+    setNoteTags,
+    Tag,
+} from '../services/historyStorage';
+import { getSubjects, Subject } from '../services/subjectRegistry';
+import { flattenFolders } from '../utils/noteFolders';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  dangerColor: '#ff6b6b',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  headerBackground: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+interface NoteOrganizeModalProps {
+    visible: boolean;
+    onClose: () => void;
+    noteType: ChunkedNoteType;
+    noteId?: number;
+    noteTitle: string;
+    subject?: string | null;
+    folderId?: number | null;
+    onSaved?: () => void;
+    accentColor?: string;
+}
+
+export default function NoteOrganizeModal({
+    visible,
+    onClose,
+    noteType,
+    noteId,
+    noteTitle,
+    subject,
+    folderId,
+    onSaved,
+    accentColor = '#667eea',
+}: NoteOrganizeModalProps) {
+    const [allTags, setAllTags] = useState<Tag[]>([]);
+    const [folders, setFolders] = useState<Folder[]>([]);
+    const [subjects, setSubjects] = useState<Subject[]>([]);
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
+    const [selectedFolderId, setSelectedFolderId] = useState<number | null>(null);
+    const [tagInput, setTagInput] = useState('');
+    const [folderInput, setFolderInput] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { resolvedTheme } = useThemeContext();
+    const COLORS = getColors(resolvedTheme === 'dark');
+
+    useEffect(() => {
+        if (!visible || noteId === undefined) return;
+        setSelectedSubject(subject ?? null);
+        setSelectedFolderId(folderId ?? null);
+        setTagInput('');
+        setFolderInput('');
+        (async () => {
+            const [tags, tagNames, folderList, subjectList] = await Promise.all([
+                getTags(),
+                getNoteTagNames(noteType),
+                getFolders(),
+                getSubjects(),
+            ]);
+            setAllTags(tags);
+            setSelectedTags(tagNames[noteId] ?? []);
+            setFolders(folderList);
+            setSubjects(subjectList);
+        })();
+    }, [visible, noteType, noteId, subject, folderId]);
+
+    const isTagSelected = (name: string) =>
+        selectedTags.some(tag => tag.toLowerCase() === name.toLowerCase());
+
+    const toggleTag = (name: string) => {
+        setSelectedTags(tags =>
+            isTagSelected(name) ? tags.filter(tag => tag.toLowerCase() !== name.toLowerCase()) : [...tags, name]
+        );
+    };
+
+    const addTagFromInput = () => {
+        const name = tagInput.trim().replace(/^#/, '');
+        if (name && !isTagSelected(name)) setSelectedTags(tags => [...tags, name]);
+        setTagInput('');
+    };
+
+    // New folders are created inside the selected one
+    const createFolder = async () => {
+        const name = folderInput.trim();
+        if (!name) return;
+        const id = await addFolder(name, selectedFolderId);
+        setFolders(await getFolders());
+        setSelectedFolderId(id);
+        setFolderInput('');
+    };
+
+    const confirmDeleteFolder = (folder: Folder) => {
+        Alert.alert(
+            'Delete Folder',
+            `Delete "${folder.name}"? Its notes and subfolders move up one level.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        await deleteFolder(folder.id);
+                        if (selectedFolderId === folder.id) setSelectedFolderId(folder.parent_id);
+                        setFolders(await getFolders());
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleSave = async () => {
+        if (noteId === undefined) return;
+        setIsSaving(true);
+        try {
+            await setNoteTags(noteType, noteId, selectedTags);
+            if (selectedSubject !== (subject ?? null)) {
+                await setNoteSubject(noteType, noteId, selectedSubject);
+            }
+            if (selectedFolderId !== (folderId ?? null)) {
+                await moveNoteToFolder(noteType, noteId, selectedFolderId);
+            }
+            onSaved?.();
+            onClose();
+        } catch (error) {
+            console.error('Failed to organize note:', error);
+            Alert.alert('Error', 'Could not save the note\'s tags and folder. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const renderChip = (label: string, selected: boolean, onPress: () => void, icon?: keyof typeof Ionicons.glyphMap) => (
+        <TouchableOpacity
+            key={label}
+            style={[
+                styles.chip,
+                {
+                    backgroundColor: selected ? accentColor : COLORS.cardColor,
+                    borderColor: selected ? accentColor : COLORS.borderColor,
+                },
+            ]}
+            onPress={onPress}
+        >
+            {icon && <Ionicons name={icon} size={14} color={selected ? COLORS.textColor.white : COLORS.textColor.secondary} />}
+            <Text style={[styles.chipText, { color: selected ? COLORS.textColor.white : COLORS.textColor.secondary }]}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const suggestedTags = allTags.filter(tag => !isTagSelected(tag.name));
+
+    return (
+        <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={onClose}>
+            <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+                <View style={[styles.header, { backgroundColor: COLORS.headerBackground, borderBottomColor: COLORS.borderColor }]}>
+                    <View style={styles.headerRow}>
+                        <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Organize Note</Text>
+                        <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+                            <Ionicons name="close" size={24} color={COLORS.iconColor} />
+                        </TouchableOpacity>
+                    </View>
+                    <Text style={[styles.noteTitle, { color: COLORS.iconColor }]} numberOfLines={1}>{noteTitle}</Text>
+                </View>
+
+                <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} keyboardShouldPersistTaps="handled">
+                    {/* Tags */}
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Tags</Text>
+                    <View style={styles.chipWrap}>
+                        {selectedTags.length === 0 ? (
+                            <Text style={[styles.hint, { color: COLORS.textColor.light }]}>No tags yet</Text>
+                        ) : (
+                            selectedTags.map(tag => renderChip(`#${tag}`, true, () => toggleTag(tag), 'close'))
+                        )}
+                    </View>
+                    <View style={[styles.inputRow, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+                        <TextInput
+                            style={[styles.input, { color: COLORS.textColor.primary }]}
+                            placeholder="Add a tag..."
+                            placeholderTextColor={COLORS.textColor.light}
+                            value={tagInput}
+                            onChangeText={setTagInput}
+                            onSubmitEditing={addTagFromInput}
+                            autoCapitalize="none"
+                            returnKeyType="done"
+                        />
+                        <TouchableOpacity onPress={addTagFromInput} disabled={!tagInput.trim()}>
+                            <Ionicons name="add-circle" size={24} color={tagInput.trim() ? accentColor : COLORS.textColor.light} />
+                        </TouchableOpacity>
+                    </View>
+                    {suggestedTags.length > 0 && (
+                        <View style={styles.chipWrap}>
+                            {suggestedTags.map(tag => renderChip(`#${tag.name}`, false, () => toggleTag(tag.name)))}
+                        </View>
+                    )}
+
+                    {/* Subject */}
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Subject</Text>
+                    <View style={styles.chipWrap}>
+                        {renderChip('None', selectedSubject === null, () => setSelectedSubject(null))}
+                        {subjects.map(option =>
+                            renderChip(option.name, selectedSubject === option.id, () => setSelectedSubject(option.id), option.icon)
+                        )}
+                    </View>
+
+                    {/* Folder */}
+                    <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Folder</Text>
+                    <View style={[styles.folderList, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+                        <TouchableOpacity style={styles.folderRow} onPress={() => setSelectedFolderId(null)}>
+                            <Ionicons
+                                name={selectedFolderId === null ? 'radio-button-on' : 'radio-button-off'}
+                                size={18}
+                                color={selectedFolderId === null ? accentColor : COLORS.iconColor}
+                            />
+                            <Text style={[styles.folderName, { color: COLORS.textColor.secondary }]}>No folder</Text>
+                        </TouchableOpacity>
+                        {flattenFolders(folders).map(({ folder, depth }) => (
+                            <TouchableOpacity
+                                key={folder.id}
+                                style={[styles.folderRow, { paddingLeft: 12 + depth * 20 }]}
+                                onPress={() => setSelectedFolderId(folder.id)}
+                            >
+                                <Ionicons
+                                    name={selectedFolderId === folder.id ? 'folder-open' : 'folder-outline'}
+                                    size={18}
+                                    color={selectedFolderId === folder.id ? accentColor : COLORS.iconColor}
+                                />
+                                <Text style={[styles.folderName, { color: COLORS.textColor.primary }]} numberOfLines={1}>
+                                    {folder.name}
+                                </Text>
+                                <TouchableOpacity onPress={() => confirmDeleteFolder(folder)} style={styles.folderDelete}>
+                                    <Ionicons name="trash-outline" size={16} color={COLORS.dangerColor} />
+                                </TouchableOpacity>
+                            </TouchableOpacity>
+                        ))}
+                    </View>
+                    <View style={[styles.inputRow, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+                        <TextInput
+                            style={[styles.input, { color: COLORS.textColor.primary }]}
+                            placeholder={selectedFolderId === null ? 'New folder...' : 'New subfolder...'}
+                            placeholderTextColor={COLORS.textColor.light}
+                            value={folderInput}
+                            onChangeText={setFolderInput}
+                            onSubmitEditing={createFolder}
+                            returnKeyType="done"
+                        />
+                        <TouchableOpacity onPress={createFolder} disabled={!folderInput.trim()}>
+                            <Ionicons name="folder-open-outline" size={22} color={folderInput.trim() ? accentColor : COLORS.textColor.light} />
+                        </TouchableOpacity>
+                    </View>
+                </ScrollView>
+
+                <View style={[styles.footer, { borderTopColor: COLORS.borderColor }]}>
+                    <TouchableOpacity
+                        style={[styles.saveButton, { backgroundColor: accentColor }, isSaving && styles.saveButtonDisabled]}
+                        onPress={handleSave}
+                        disabled={isSaving}
+                    >
+                        {isSaving ? (
+                            <ActivityIndicator size="small" color={COLORS.textColor.white} />
+                        ) : (
+                            <Text style={[styles.saveButtonText, { color: COLORS.textColor.white }]}>Save</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+            </SafeAreaView>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        flex: 1,
+    },
+    header: {
+        paddingTop: Platform.OS === 'ios' ? 12 : 28,
+        paddingHorizontal: 20,
+        paddingBottom: 16,
+        borderBottomWidth: 1,
+    },
+    headerRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 4,
+    },
+    headerTitle: {
+        fontSize: 20,
+        fontWeight: '700',
+    },
+    closeButton: {
+        padding: 4,
+    },
+    noteTitle: {
+        fontSize: 14,
+        fontStyle: 'italic',
+    },
+    content: {
+        flex: 1,
+    },
+    contentInner: {
+        padding: 20,
+        paddingBottom: 40,
+    },
+    sectionTitle: {
+        fontSize: 16,
+        fontWeight: '700',
+        marginTop: 8,
+        marginBottom: 12,
+    },
+    hint: {
+        fontSize: 14,
+    },
+    chipWrap: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 12,
+    },
+    chip: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 16,
+        borderWidth: 1,
+    },
+    chipText: {
+        fontSize: 13,
+        fontWeight: '600',
+    },
+    inputRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        borderRadius: 12,
+        borderWidth: 1,
+        paddingHorizontal: 12,
+        paddingVertical: Platform.OS === 'ios' ? 10 : 4,
+        marginBottom: 12,
+    },
+    input: {
+        flex: 1,
+        fontSize: 15,
+        marginRight: 8,
+    },
+    folderList: {
+        borderRadius: 12,
+        borderWidth: 1,
+        paddingVertical: 4,
+        marginBottom: 12,
+    },
+    folderRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        gap: 10,
+    },
+    folderName: {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '500',
+    },
+    folderDelete: {
+        padding: 4,
+    },
+    footer: {
+        padding: 20,
+        borderTopWidth: 1,
+    },
+    saveButton: {
+        borderRadius: 12,
+        paddingVertical: 14,
+        alignItems: 'center',
+    },
+    saveButtonDisabled: {
+        opacity: 0.6,
+    },
+    saveButtonText: {
+        fontSize: 16,
+        fontWeight: '700',
+    },
+});
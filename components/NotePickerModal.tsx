@@ -0,0 +1,228 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  ActivityIndicator,
+  FlatList,
+  Modal,
+  Platform,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { ChunkedNoteType, getAllNotes, getAllScanNotes } from '../services/historyStorage';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+export interface PickedNote {
+  id: number;
+  type: ChunkedNoteType;
+  title: string;
+  content: string;
+}
+
+interface NotePickerModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (note: PickedNote) => void;
+  title?: string;
+  // Which kinds of note to offer; both by default
+  noteTypes?: ChunkedNoteType[];
+  accentColor: string;
+}
+
+const ALL_NOTE_TYPES: ChunkedNoteType[] = ['note', 'scan-note'];
+
+// Lists My Notes and Study Notes together, newest first, for tools that take
+// an existing note as their input
+export default function NotePickerModal({
+  visible,
+  onClose,
+  onSelect,
+  title = 'Choose a Note',
+  noteTypes = ALL_NOTE_TYPES,
+  accentColor,
+}: NotePickerModalProps) {
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  const [notes, setNotes] = useState<(PickedNote & { createdAt: string })[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (!visible) return;
+    setQuery('');
+    setLoading(true);
+    Promise.all([
+      noteTypes.includes('note') ? getAllNotes() : Promise.resolve([]),
+      noteTypes.includes('scan-note') ? getAllScanNotes() : Promise.resolve([]),
+    ])
+      .then(([myNotes, scanNotes]) =>
+        setNotes(
+          [
+            ...myNotes.map(note => ({ ...note, type: 'note' as const })),
+            ...scanNotes.map(note => ({ ...note, type: 'scan-note' as const })),
+          ].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+        )
+      )
+      .catch(error => console.error('Failed to load notes for picker:', error))
+      .finally(() => setLoading(false));
+  }, [visible, noteTypes]);
+
+  const filteredNotes = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return notes;
+    return notes.filter(
+      note => note.title.toLowerCase().includes(needle) || note.content.toLowerCase().includes(needle)
+    );
+  }, [notes, query]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+        <View style={[styles.header, { borderBottomColor: COLORS.borderColor }]}>
+          <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>{title}</Text>
+          <TouchableOpacity onPress={onClose} style={[styles.closeButton, { backgroundColor: COLORS.cardColor }]}>
+            <Ionicons name="close" size={20} color={COLORS.textColor.secondary} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={[styles.searchBar, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <Ionicons name="search" size={18} color={COLORS.iconColor} />
+          <TextInput
+            style={[styles.searchInput, { color: COLORS.textColor.primary }]}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Search notes..."
+            placeholderTextColor={COLORS.textColor.light}
+          />
+        </View>
+
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" color={accentColor} />
+        ) : (
+          <FlatList
+            data={filteredNotes}
+            keyExtractor={item => `${item.type}-${item.id}`}
+            contentContainerStyle={styles.list}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={
+              <Text style={[styles.empty, { color: COLORS.textColor.secondary }]}>
+                {query ? 'No notes match your search.' : 'You have no notes yet.'}
+              </Text>
+            }
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[styles.noteRow, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+                onPress={() => onSelect({ id: item.id, type: item.type, title: item.title, content: item.content })}
+              >
+                <Ionicons
+                  name={item.type === 'scan-note' ? 'document-text-outline' : 'journal-outline'}
+                  size={22}
+                  color={accentColor}
+                />
+                <View style={styles.noteText}>
+                  <Text style={[styles.noteTitle, { color: COLORS.textColor.primary }]} numberOfLines={1}>
+                    {item.title}
+                  </Text>
+                  <Text style={[styles.noteExcerpt, { color: COLORS.textColor.secondary }]} numberOfLines={2}>
+                    {item.content}
+                  </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={18} color={COLORS.iconColor} />
+              </TouchableOpacity>
+            )}
+          />
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: Platform.OS === 'ios' ? 12 : 28,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    margin: 16,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 12,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  list: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+    gap: 10,
+  },
+  empty: {
+    textAlign: 'center',
+    fontSize: 15,
+    marginTop: 40,
+  },
+  noteRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 14,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  noteText: {
+    flex: 1,
+  },
+  noteTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  noteExcerpt: {
+    fontSize: 13,
+    marginTop: 2,
+    lineHeight: 18,
+  },
+});
@@ -1,8 +1,11 @@
 import { Ionicons } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
-import React from 'react';
+import React, { useMemo, useRef } from 'react';
 import { Modal, Platform, SafeAreaView, ScrollView, StatusBar, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { ChunkedNoteType } from '../services/historyStorage';
+import AttachmentGallery from './AttachmentGallery';
+import MathMarkdown from './MathMarkdown';
 
 interface NoteReaderModalProps {
   visible: boolean;
@@ -16,16 +19,39 @@ interface NoteReaderModalProps {
   } | null;
   isScanNote?: boolean;
   isQuiz?: boolean;
+  // Table the note's attachments belong to. The gallery is only shown when
+  // this is set, since quizzes and flash card sets open here too and their
+  // ids would pick up the attachments of an unrelated note.
+  attachmentNoteType?: ChunkedNoteType;
+  // Character range to highlight and scroll to, e.g. a passage cited in note
+  // chat. The note is then shown as plain lines so offsets map onto them.
+  highlightRange?: { start: number; end: number };
 }
 
+const HIGHLIGHT_COLOR = '#667eea';
+
+// The note split into lines with their offsets, so a character range can be
+// mapped to the line views it covers
+const splitLines = (content: string) => {
+  let offset = 0;
+  return content.split('\n').map(text => {
+    const line = { text, start: offset, end: offset + text.length };
+    offset += text.length + 1;
+    return line;
+  });
+};
+
 export default function NoteReaderModal({ 
   visible, 
   onClose, 
   note, 
   isScanNote = false,
-  isQuiz = false
+  isQuiz = false,
+  attachmentNoteType,
+  highlightRange
 }: NoteReaderModalProps) {
   const router = useRouter();
+  const scrollViewRef = useRef<ScrollView>(null);
   // Theme colors
   const backgroundColor = useThemeColor({}, 'background');
   const textColor = useThemeColor({}, 'text');
@@ -33,6 +59,17 @@ export default function NoteReaderModal({
   const iconColor = useThemeColor({}, 'icon');
   const cardColor = useThemeColor({}, 'background');
 
+  const lines = useMemo(() => (highlightRange && note ? splitLines(note.content) : []), [highlightRange, note]);
+  const firstHighlightedLine = highlightRange
+    ? lines.findIndex(line => line.end >= highlightRange.start && line.start <= highlightRange.end)
+    : -1;
+
+  const scrollToHighlight = (lineIndex: number, y: number) => {
+    if (lineIndex === firstHighlightedLine) {
+      scrollViewRef.current?.scrollTo({ y: Math.max(0, y - 40), animated: true });
+    }
+  };
+
   if (!note) return null;
 
   const wordCount = note.wordCount || note.content.split(/\s+/).filter(word => word.length > 0).length;
@@ -101,13 +138,34 @@ export default function NoteReaderModal({
         </View>
         
         <ScrollView 
+          ref={scrollViewRef}
           style={styles.content}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={styles.contentContainer}
         >
-          <Text style={[styles.noteText, { color: textColor }]}>
-            {note.content}
-          </Text>
+          {attachmentNoteType && !highlightRange && (
+            <AttachmentGallery noteType={attachmentNoteType} noteId={note.id} accentColor={HIGHLIGHT_COLOR} />
+          )}
+          {highlightRange ? (
+            lines.map((line, index) => {
+              const highlighted = line.end >= highlightRange.start && line.start <= highlightRange.end && line.text.length > 0;
+              return (
+                <Text
+                  key={index}
+                  onLayout={event => scrollToHighlight(index, event.nativeEvent.layout.y)}
+                  style={[
+                    styles.noteText,
+                    { color: textColor },
+                    highlighted && [styles.highlightedLine, { backgroundColor: `${HIGHLIGHT_COLOR}33`, borderLeftColor: HIGHLIGHT_COLOR }],
+                  ]}
+                >
+                  {line.text || ' '}
+                </Text>
+              );
+            })
+          ) : (
+            <MathMarkdown content={note.content} textColor={textColor} accentColor={HIGHLIGHT_COLOR} />
+          )}
         </ScrollView>
       </SafeAreaView>
     </Modal>
@@ -180,4 +238,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     lineHeight: 26,
   },
+  highlightedLine: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    borderRadius: 4,
+  },
 }); 
\ No newline at end of file
@@ -0,0 +1,302 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system';
+import React, { useEffect, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Modal, SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+
+interface PageCropModalProps {
+  visible: boolean;
+  imageUri: string | null;
+  onCancel: () => void;
+  onCropped: (uri: string) => void;
+  accentColor?: string;
+}
+
+type CropMessage = { type: 'ready' } | { type: 'cropped'; data: string } | { type: 'error'; message: string };
+
+// The crop box is drawn and dragged inside the page, and the crop itself is
+// done on a canvas, so no native image library is needed
+const buildCropPage = (imageBase64: string, accentColor: string) => `<!DOCTYPE html>
+<html>
+<head>
+<meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1, user-scalable=no">
+<style>
+  html, body { margin: 0; height: 100%; background: #000; overflow: hidden; touch-action: none; -webkit-user-select: none; }
+  #stage { position: absolute; inset: 0; display: flex; align-items: center; justify-content: center; padding: 24px; box-sizing: border-box; }
+  #img { max-width: 100%; max-height: 100%; display: block; }
+  #box { position: absolute; border: 2px solid ${accentColor}; box-shadow: 0 0 0 9999px rgba(0, 0, 0, 0.55); box-sizing: border-box; }
+  .handle { position: absolute; width: 28px; height: 28px; margin: -14px; border-radius: 14px; background: ${accentColor}; border: 3px solid #fff; box-sizing: border-box; }
+  .tl { left: 0; top: 0; } .tr { right: 0; top: 0; margin-right: -14px; margin-left: 0; }
+  .bl { left: 0; bottom: 0; margin-bottom: -14px; margin-top: 0; } .br { right: 0; bottom: 0; margin: 0 -14px -14px 0; }
+</style>
+</head>
+<body>
+<div id="stage"><img id="img" src="data:image/jpeg;base64,${imageBase64}"></div>
+<div id="box"><div class="handle tl" data-c="tl"></div><div class="handle tr" data-c="tr"></div><div class="handle bl" data-c="bl"></div><div class="handle br" data-c="br"></div></div>
+<script>
+  var MIN_SIZE = 40;
+  var img = document.getElementById('img');
+  var box = document.getElementById('box');
+  var bounds = null;
+  var rect = null;
+  var drag = null;
+
+  function post(message) { window.ReactNativeWebView.postMessage(JSON.stringify(message)); }
+  function clamp(value, min, max) { return Math.max(min, Math.min(max, value)); }
+
+  function draw() {
+    box.style.left = bounds.left + rect.x + 'px';
+    box.style.top = bounds.top + rect.y + 'px';
+    box.style.width = rect.w + 'px';
+    box.style.height = rect.h + 'px';
+  }
+
+  function layout() {
+    var previous = bounds;
+    bounds = img.getBoundingClientRect();
+    if (!rect || !previous) {
+      rect = { x: 0, y: 0, w: bounds.width, h: bounds.height };
+    } else {
+      var scale = bounds.width / previous.width;
+      rect = { x: rect.x * scale, y: rect.y * scale, w: rect.w * scale, h: rect.h * scale };
+    }
+    draw();
+  }
+
+  img.onload = function () { layout(); post({ type: 'ready' }); };
+  img.onerror = function () { post({ type: 'error', message: 'The image could not be opened.' }); };
+  window.addEventListener('resize', function () { if (bounds) layout(); });
+
+  document.addEventListener('touchstart', function (event) {
+    var target = event.target;
+    var corner = target.getAttribute && target.getAttribute('data-c');
+    if (!corner && target !== box) return;
+    var touch = event.touches[0];
+    drag = { corner: corner || 'move', x: touch.clientX, y: touch.clientY, start: Object.assign({}, rect) };
+    event.preventDefault();
+  }, { passive: false });
+
+  document.addEventListener('touchmove', function (event) {
+    if (!drag) return;
+    var touch = event.touches[0];
+    var dx = touch.clientX - drag.x;
+    var dy = touch.clientY - drag.y;
+    var r = Object.assign({}, drag.start);
+    var corner = drag.corner;
+    if (corner === 'move') {
+      r.x = clamp(r.x + dx, 0, bounds.width - r.w);
+      r.y = clamp(r.y + dy, 0, bounds.height - r.h);
+    } else {
+      if (corner.indexOf('l') !== -1) {
+        var left = clamp(r.x + dx, 0, r.x + r.w - MIN_SIZE);
+        r.w += r.x - left;
+        r.x = left;
+      } else {
+        r.w = clamp(r.w + dx, MIN_SIZE, bounds.width - r.x);
+      }
+      if (corner.indexOf('t') !== -1) {
+        var top = clamp(r.y + dy, 0, r.y + r.h - MIN_SIZE);
+        r.h += r.y - top;
+        r.y = top;
+      } else {
+        r.h = clamp(r.h + dy, MIN_SIZE, bounds.height - r.y);
+      }
+    }
+    rect = r;
+    draw();
+    event.preventDefault();
+  }, { passive: false });
+
+  document.addEventListener('touchend', function () { drag = null; });
+
+  window.resetCrop = function () {
+    rect = { x: 0, y: 0, w: bounds.width, h: bounds.height };
+    draw();
+  };
+
+  window.crop = function () {
+    try {
+      var scale = img.naturalWidth / bounds.width;
+      var canvas = document.createElement('canvas');
+      canvas.width = Math.round(rect.w * scale);
+      canvas.height = Math.round(rect.h * scale);
+      canvas.getContext('2d').drawImage(img, rect.x * scale, rect.y * scale, rect.w * scale, rect.h * scale, 0, 0, canvas.width, canvas.height);
+      post({ type: 'cropped', data: canvas.toDataURL('image/jpeg', 0.9).split(',')[1] });
+    } catch (e) {
+      post({ type: 'error', message: String(e) });
+    }
+  };
+</script>
+</body>
+</html>`;
+
+export default function PageCropModal({ visible, imageUri, onCancel, onCropped, accentColor = '#667eea' }: PageCropModalProps) {
+  const webViewRef = useRef<WebView>(null);
+  const [page, setPage] = useState<string | null>(null);
+  const [isReady, setIsReady] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!visible || !imageUri) return;
+    let cancelled = false;
+    setPage(null);
+    setIsReady(false);
+    setIsSaving(false);
+    FileSystem.readAsStringAsync(imageUri, { encoding: FileSystem.EncodingType.Base64 })
+      .then(base64 => {
+        if (!cancelled) setPage(buildCropPage(base64, accentColor));
+      })
+      .catch(error => {
+        console.error('Failed to open page for cropping:', error);
+        Alert.alert('Error', 'Failed to open the page for cropping.');
+        onCancel();
+      });
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible, imageUri, accentColor]);
+
+  const handleMessage = async (event: WebViewMessageEvent) => {
+    let message: CropMessage;
+    try {
+      message = JSON.parse(event.nativeEvent.data);
+    } catch {
+      return;
+    }
+    if (message.type === 'ready') {
+      setIsReady(true);
+    } else if (message.type === 'error') {
+      console.error('Page crop failed:', message.message);
+      setIsSaving(false);
+      Alert.alert('Error', 'Failed to crop the page. Please try again.');
+    } else if (message.type === 'cropped') {
+      try {
+        const uri = `${FileSystem.cacheDirectory}scan-page-${Date.now()}.jpg`;
+        await FileSystem.writeAsStringAsync(uri, message.data, { encoding: FileSystem.EncodingType.Base64 });
+        onCropped(uri);
+      } catch (error) {
+        console.error('Failed to save cropped page:', error);
+        Alert.alert('Error', 'Failed to save the cropped page. Please try again.');
+      } finally {
+        setIsSaving(false);
+      }
+    }
+  };
+
+  const handleDone = () => {
+    setIsSaving(true);
+    webViewRef.current?.injectJavaScript('window.crop(); true;');
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={onCancel}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onCancel} style={styles.headerButton}>
+            <Text style={styles.headerButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Crop Page</Text>
+          <TouchableOpacity
+            onPress={() => webViewRef.current?.injectJavaScript('window.resetCrop(); true;')}
+            style={styles.headerButton}
+            disabled={!isReady}
+          >
+            <Ionicons name="refresh" size={20} color="#ffffff" />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.stage}>
+          {page && (
+            <WebView
+              ref={webViewRef}
+              source={{ html: page }}
+              originWhitelist={['*']}
+              onMessage={handleMessage}
+              scrollEnabled={false}
+              style={styles.webView}
+            />
+          )}
+          {!isReady && (
+            <View style={styles.loading}>
+              <ActivityIndicator size="large" color="#ffffff" />
+            </View>
+          )}
+        </View>
+
+        <Text style={styles.hint}>Drag the corners to fit the page, or drag inside the box to move it.</Text>
+        <TouchableOpacity
+          style={[styles.doneButton, { backgroundColor: accentColor }, (!isReady || isSaving) && styles.doneButtonDisabled]}
+          onPress={handleDone}
+          disabled={!isReady || isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.doneButtonText}>Use Cropped Page</Text>
+          )}
+        </TouchableOpacity>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  headerButton: {
+    padding: 8,
+    minWidth: 60,
+  },
+  headerButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+  },
+  headerTitle: {
+    color: '#ffffff',
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  stage: {
+    flex: 1,
+  },
+  webView: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  loading: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  hint: {
+    color: '#cccccc',
+    fontSize: 13,
+    textAlign: 'center',
+    paddingHorizontal: 24,
+    paddingTop: 12,
+  },
+  doneButton: {
+    margin: 16,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  doneButtonDisabled: {
+    opacity: 0.6,
+  },
+  doneButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
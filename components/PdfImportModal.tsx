@@ -0,0 +1,706 @@
+import { Ionicons } from '@expo/vector-icons';
+import * as DocumentPicker from 'expo-document-picker';
+import { useRouter } from 'expo-router';
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { AIRequestCancelledError, getAIErrorMessage } from '../services/aiGateway';
+import { countSummaryRequests, ExtractedPdf, extractPdfText, summarizeDocument } from '../services/geminiServices';
+import { addHistory, addScanNote, NotePlacement } from '../services/historyStorage';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
+import {
+  buildPdfNotes,
+  detectChapters,
+  MAX_PDF_BYTES,
+  PdfImportMode,
+  pdfTitleFromFileName,
+} from '../utils/pdfImport';
+import FlashCardGenerationModal from './FlashCardGenerationModal';
+import MathMarkdown from './MathMarkdown';
+import QuizGenerationModal from './QuizGenerationModal';
+
+// Extraction is one request however long the document is
+const PDF_IMPORT_CREDITS = 2;
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#45b7d1',
+  dangerColor: '#ff6b6b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  iconColor: isDark ? '#9BA1A6' : '#888',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+type ImportStep = 'pick' | 'extracting' | 'review' | 'saving' | 'done';
+
+interface ImportedNote {
+  id: number;
+  title: string;
+  content: string;
+}
+
+interface PdfImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called after notes were saved, so the caller can refresh its list
+  onImported?: () => void;
+  // Subject or folder for the imported notes
+  placement?: NotePlacement;
+  accentColor?: string;
+}
+
+// Picks a PDF, extracts its text page by page and saves it as one note or one
+// note per chapter. Afterwards the imported notes can be summarized or turned
+// into a quiz or flash cards straight away.
+export default function PdfImportModal({ visible, onClose, onImported, placement, accentColor }: PdfImportModalProps) {
+  const router = useRouter();
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  const finalAccentColor = accentColor || COLORS.accentColor;
+
+  const [step, setStep] = useState<ImportStep>('pick');
+  const [fileName, setFileName] = useState('');
+  const [pdf, setPdf] = useState<ExtractedPdf | null>(null);
+  const [mode, setMode] = useState<PdfImportMode>('single');
+  const [importedNotes, setImportedNotes] = useState<ImportedNote[]>([]);
+  const [selectedNoteId, setSelectedNoteId] = useState<number | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [summaryProgress, setSummaryProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [summarySaved, setSummarySaved] = useState(false);
+  const [quizVisible, setQuizVisible] = useState(false);
+  const [flashCardsVisible, setFlashCardsVisible] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const documentTitle = pdfTitleFromFileName(fileName);
+  const sections = useMemo(
+    () => (pdf ? detectChapters(pdf.pages, pdf.outline, documentTitle) : []),
+    [pdf, documentTitle]
+  );
+  const drafts = useMemo(
+    () => (pdf ? buildPdfNotes(pdf.pages, sections, mode, documentTitle) : []),
+    [pdf, sections, mode, documentTitle]
+  );
+  const selectedNote = importedNotes.find(note => note.id === selectedNoteId) ?? null;
+
+  const showOutOfCredits = (message: string) => {
+    Alert.alert('Out of Credits', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Get Credits', onPress: () => router.push('/paywall') },
+    ]);
+  };
+
+  const resetState = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setStep('pick');
+    setFileName('');
+    setPdf(null);
+    setMode('single');
+    setImportedNotes([]);
+    setSelectedNoteId(null);
+    setSummary(null);
+    setSummaryProgress(null);
+    setSummarySaved(false);
+  };
+
+  const handleClose = () => {
+    if (step === 'extracting' || step === 'saving' || summaryProgress) {
+      Alert.alert('Stop Import?', 'The document is still being processed.', [
+        { text: 'Keep Going', style: 'cancel' },
+        {
+          text: 'Stop',
+          style: 'destructive',
+          onPress: () => {
+            resetState();
+            onClose();
+          },
+        },
+      ]);
+      return;
+    }
+    resetState();
+    onClose();
+  };
+
+  const pickPdf = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: 'application/pdf',
+        copyToCacheDirectory: true,
+        multiple: false,
+      });
+      if (result.canceled || !result.assets?.length) return;
+      const asset = result.assets[0];
+      if (asset.size && asset.size > MAX_PDF_BYTES) {
+        Alert.alert('PDF Too Large', `PDFs up to ${Math.round(MAX_PDF_BYTES / (1024 * 1024))} MB can be imported.`);
+        return;
+      }
+      await extract(asset.uri, asset.name || 'document.pdf');
+    } catch (error) {
+      console.error('PDF picker error:', error);
+      Alert.alert('Error', 'Failed to open the PDF. Please try again.');
+    }
+  };
+
+  const extract = async (uri: string, name: string) => {
+    const creditResult = await subscriptionService.reserveCredits(PDF_IMPORT_CREDITS, 'pdf-scanner');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || `You need ${PDF_IMPORT_CREDITS} credits to import a PDF.`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setFileName(name);
+    setStep('extracting');
+    try {
+      const extracted = await subscriptionService.runWithCredits(
+        creditResult.reservation,
+        credits => extractPdfText(uri, { ...credits, signal: abortController.signal }),
+        result => !result.pages.some(page => page.trim())
+      );
+      setPdf(extracted);
+      setMode('single');
+      setStep('review');
+    } catch (error) {
+      setStep('pick');
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('PDF extraction failed:', error);
+      Alert.alert(
+        'Import Failed',
+        error instanceof EmptyAIResponseError
+          ? 'No text could be found in this PDF.'
+          : getAIErrorMessage(error, 'Failed to read the PDF. Please try again.')
+      );
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+    }
+  };
+
+  const saveNotes = async () => {
+    if (drafts.length === 0) return;
+    setStep('saving');
+    try {
+      const saved: ImportedNote[] = [];
+      for (const draft of drafts) {
+        const id = await addScanNote(draft.title, draft.content, placement);
+        saved.push({ id, ...draft });
+      }
+      await addHistory('', 'pdf-scanner', documentTitle, `Imported ${pdf?.pages.length ?? 0} pages into ${saved.length} ${saved.length === 1 ? 'note' : 'notes'}`);
+      setImportedNotes(saved);
+      setSelectedNoteId(saved[0].id);
+      setStep('done');
+      onImported?.();
+    } catch (error) {
+      console.error('Failed to save imported PDF:', error);
+      Alert.alert('Error', 'Failed to save the notes. Please try again.');
+      setStep('review');
+    }
+  };
+
+  const summarize = async () => {
+    if (!selectedNote) return;
+    const requests = countSummaryRequests(selectedNote.content);
+    const creditResult = await subscriptionService.reserveCredits(requests, 'pdf-scanner', requests);
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || `You need ${requests} ${requests === 1 ? 'credit' : 'credits'} to summarize this note.`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setSummary(null);
+    setSummarySaved(false);
+    setSummaryProgress({ completed: 0, total: requests });
+    try {
+      const result = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        summarizeDocument(selectedNote.content, {
+          ...credits,
+          signal: abortController.signal,
+          onProgress: (completed, total) => setSummaryProgress({ completed, total }),
+        })
+      );
+      setSummary(result.trim());
+    } catch (error) {
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('PDF summary failed:', error);
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to summarize the document. Please try again.'));
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setSummaryProgress(null);
+    }
+  };
+
+  const saveSummary = async () => {
+    if (!summary || !selectedNote) return;
+    try {
+      await addScanNote(`Summary: ${selectedNote.title}`, summary, placement);
+      await addHistory('', 'pdf-scanner', selectedNote.title, summary);
+      setSummarySaved(true);
+      onImported?.();
+    } catch (error) {
+      console.error('Failed to save summary:', error);
+      Alert.alert('Error', 'Failed to save the summary. Please try again.');
+    }
+  };
+
+  const renderPick = () => (
+    <View style={styles.centered}>
+      <View style={[styles.bigIcon, { backgroundColor: finalAccentColor }]}>
+        <Ionicons name="document-outline" size={40} color={COLORS.textColor.white} />
+      </View>
+      <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Import a PDF</Text>
+      <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+        The text of every page is extracted and saved as study notes. Importing costs {PDF_IMPORT_CREDITS} credits.
+      </Text>
+      <TouchableOpacity style={[styles.primaryButton, { backgroundColor: finalAccentColor }]} onPress={pickPdf}>
+        <Ionicons name="folder-open-outline" size={20} color={COLORS.textColor.white} />
+        <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>Choose PDF</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderExtracting = () => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color={finalAccentColor} />
+      <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Reading {documentTitle}</Text>
+      <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+        Extracting the text page by page. Long or scanned documents can take a minute.
+      </Text>
+      <TouchableOpacity
+        style={[styles.secondaryButton, { borderColor: COLORS.dangerColor }]}
+        onPress={() => abortControllerRef.current?.abort()}
+      >
+        <Text style={[styles.secondaryButtonText, { color: COLORS.dangerColor }]}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderModeOption = (value: PdfImportMode, icon: string, title: string, description: string) => {
+    const selected = mode === value;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.option,
+          { backgroundColor: COLORS.cardColor, borderColor: selected ? finalAccentColor : COLORS.borderColor },
+        ]}
+        onPress={() => setMode(value)}
+      >
+        <Ionicons name={icon as any} size={22} color={selected ? finalAccentColor : COLORS.iconColor} />
+        <View style={styles.optionText}>
+          <Text style={[styles.optionTitle, { color: COLORS.textColor.primary }]}>{title}</Text>
+          <Text style={[styles.optionDescription, { color: COLORS.textColor.secondary }]}>{description}</Text>
+        </View>
+        <Ionicons
+          name={selected ? 'radio-button-on' : 'radio-button-off'}
+          size={20}
+          color={selected ? finalAccentColor : COLORS.iconColor}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderReview = () => (
+    <>
+      <View style={[styles.fileCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+        <Ionicons name="document-text" size={28} color={finalAccentColor} />
+        <View style={styles.optionText}>
+          <Text style={[styles.optionTitle, { color: COLORS.textColor.primary }]} numberOfLines={2}>
+            {documentTitle}
+          </Text>
+          <Text style={[styles.optionDescription, { color: COLORS.textColor.secondary }]}>
+            {pdf?.pages.length} pages · {sections.length > 1 ? `${sections.length} chapters found` : 'no chapters found'}
+          </Text>
+        </View>
+      </View>
+
+      <Text style={[styles.label, { color: COLORS.textColor.secondary }]}>Save as</Text>
+      {renderModeOption('single', 'document-outline', 'One note', 'The whole document in a single note')}
+      {sections.length > 1 &&
+        renderModeOption('chapters', 'documents-outline', 'One note per chapter', `${sections.length} separate notes`)}
+
+      <Text style={[styles.label, { color: COLORS.textColor.secondary }]}>
+        {drafts.length === 1 ? 'Note to create' : `${drafts.length} notes to create`}
+      </Text>
+      {drafts.map((draft, index) => (
+        <View key={index} style={[styles.draftRow, { borderBottomColor: COLORS.borderColor }]}>
+          <Text style={[styles.draftTitle, { color: COLORS.textColor.primary }]} numberOfLines={1}>
+            {draft.title}
+          </Text>
+          <Text style={[styles.draftMeta, { color: COLORS.textColor.light }]}>
+            {draft.content.split(/\s+/).filter(Boolean).length} words
+          </Text>
+        </View>
+      ))}
+    </>
+  );
+
+  const renderDone = () => (
+    <>
+      <View style={styles.doneHeader}>
+        <Ionicons name="checkmark-circle" size={28} color={COLORS.successColor} />
+        <Text style={[styles.doneTitle, { color: COLORS.textColor.primary }]}>
+          {importedNotes.length === 1 ? 'Note created' : `${importedNotes.length} notes created`}
+        </Text>
+      </View>
+
+      {importedNotes.length > 1 && (
+        <>
+          <Text style={[styles.label, { color: COLORS.textColor.secondary }]}>Continue with</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+            {importedNotes.map(note => {
+              const selected = note.id === selectedNoteId;
+              return (
+                <TouchableOpacity
+                  key={note.id}
+                  style={[
+                    styles.chip,
+                    { borderColor: selected ? finalAccentColor : COLORS.borderColor },
+                    selected && { backgroundColor: finalAccentColor },
+                  ]}
+                  onPress={() => {
+                    setSelectedNoteId(note.id);
+                    setSummary(null);
+                  }}
+                  disabled={!!summaryProgress}
+                >
+                  <Text
+                    style={[styles.chipText, { color: selected ? COLORS.textColor.white : COLORS.textColor.primary }]}
+                    numberOfLines={1}
+                  >
+                    {note.title}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={summarize}
+          disabled={!!summaryProgress}
+        >
+          <Ionicons name="reader-outline" size={24} color={finalAccentColor} />
+          <Text style={[styles.actionText, { color: COLORS.textColor.primary }]}>Summarize</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={() => setQuizVisible(true)}
+          disabled={!!summaryProgress}
+        >
+          <Ionicons name="help-circle-outline" size={24} color="#f093fb" />
+          <Text style={[styles.actionText, { color: COLORS.textColor.primary }]}>Quiz</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={() => setFlashCardsVisible(true)}
+          disabled={!!summaryProgress}
+        >
+          <Ionicons name="albums-outline" size={24} color="#43e97b" />
+          <Text style={[styles.actionText, { color: COLORS.textColor.primary }]}>Flash Cards</Text>
+        </TouchableOpacity>
+      </View>
+
+      {summaryProgress && (
+        <View style={styles.summaryLoading}>
+          <ActivityIndicator size="small" color={finalAccentColor} />
+          <Text style={[styles.optionDescription, { color: COLORS.textColor.secondary }]}>
+            {summaryProgress.total > 1
+              ? `Summarizing part ${Math.min(summaryProgress.completed + 1, summaryProgress.total)} of ${summaryProgress.total}...`
+              : 'Summarizing...'}
+          </Text>
+        </View>
+      )}
+
+      {summary && (
+        <View style={[styles.summaryCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <MathMarkdown content={summary} textColor={COLORS.textColor.primary} accentColor={finalAccentColor} fontSize={15} />
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: finalAccentColor }, summarySaved && styles.disabled]}
+            onPress={saveSummary}
+            disabled={summarySaved}
+          >
+            <Ionicons name={summarySaved ? 'checkmark' : 'save-outline'} size={18} color={finalAccentColor} />
+            <Text style={[styles.secondaryButtonText, { color: finalAccentColor }]}>
+              {summarySaved ? 'Summary Saved' : 'Save Summary as Note'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={handleClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+        <View style={[styles.header, { borderBottomColor: COLORS.borderColor }]}>
+          <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Import PDF</Text>
+          <TouchableOpacity onPress={handleClose} style={[styles.closeButton, { backgroundColor: COLORS.cardColor }]}>
+            <Ionicons name="close" size={20} color={COLORS.textColor.secondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner}>
+          {step === 'pick' && renderPick()}
+          {step === 'extracting' && renderExtracting()}
+          {(step === 'review' || step === 'saving') && renderReview()}
+          {step === 'done' && renderDone()}
+        </ScrollView>
+
+        {(step === 'review' || step === 'saving') && (
+          <View style={[styles.footer, { borderTopColor: COLORS.borderColor }]}>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: finalAccentColor }, step === 'saving' && styles.disabled]}
+              onPress={saveNotes}
+              disabled={step === 'saving' || drafts.length === 0}
+            >
+              {step === 'saving' ? (
+                <ActivityIndicator size="small" color={COLORS.textColor.white} />
+              ) : (
+                <>
+                  <Ionicons name="download-outline" size={20} color={COLORS.textColor.white} />
+                  <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>
+                    {drafts.length === 1 ? 'Save Note' : `Save ${drafts.length} Notes`}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+
+      <QuizGenerationModal
+        visible={quizVisible}
+        onClose={() => setQuizVisible(false)}
+        sourceContent={selectedNote?.content || ''}
+        sourceTitle={selectedNote?.title || ''}
+        sourceId={selectedNote?.id}
+        sourceType="scan-note"
+      />
+      <FlashCardGenerationModal
+        visible={flashCardsVisible}
+        onClose={() => setFlashCardsVisible(false)}
+        sourceContent={selectedNote?.content || ''}
+        sourceTitle={selectedNote?.title || ''}
+        sourceId={selectedNote?.id}
+        sourceType="scan-note"
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: Platform.OS === 'ios' ? 12 : 28,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  centered: {
+    alignItems: 'center',
+    paddingTop: 32,
+    gap: 16,
+  },
+  bigIcon: {
+    width: 90,
+    height: 90,
+    borderRadius: 45,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  sectionSubtitle: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    paddingHorizontal: 28,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fileCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 24,
+    marginBottom: 10,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    borderRadius: 14,
+    borderWidth: 2,
+    marginBottom: 10,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  optionDescription: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  draftRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    gap: 12,
+  },
+  draftTitle: {
+    flex: 1,
+    fontSize: 15,
+  },
+  draftMeta: {
+    fontSize: 13,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+  doneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  doneTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    maxWidth: 220,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 18,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 24,
+  },
+  actionCard: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 18,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryLoading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 20,
+  },
+  summaryCard: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
@@ -7,22 +7,26 @@ import {
     StatusBar,
     StyleSheet,
     Text,
+    TextInput,
     TouchableOpacity,
     View
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
-
-interface PracticeQuestion {
-  question: string;
-  options: string[];
-  correctAnswer: number;
-  questionType: 'multiple-choice' | 'true-false';
-}
+import achievementService from '../services/achievementService';
+import {
+    hasAnswerKey,
+    isAnswered,
+    isCorrectAnswer,
+    NO_ANSWER_KEY,
+    parseQuizDocument,
+    QuizAnswer,
+    QuizQuestion
+} from '../utils/quizFormat';
 
 interface PracticeState {
-  questions: PracticeQuestion[];
+  questions: QuizQuestion[];
   currentQuestionIndex: number;
-  userAnswers: number[];
+  userAnswers: QuizAnswer[];
   showAnswers: boolean;
   score: number;
   isComplete: boolean;
@@ -45,6 +49,12 @@ interface PracticeQuizModalProps {
   } | null;
 }
 
+const emptyAnswers = (questions: QuizQuestion[]): QuizAnswer[] =>
+  questions.map(q => (q.type === 'fill-blank' ? '' : -1));
+
+const countCorrect = (questions: QuizQuestion[], answers: QuizAnswer[]) =>
+  answers.reduce<number>((total, answer, index) => total + (isCorrectAnswer(questions[index], answer) ? 1 : 0), 0);
+
 export default function PracticeQuizModal({
   visible,
   onClose,
@@ -96,60 +106,13 @@ export default function PracticeQuizModal({
     setReviewMode(false);
   };
 
-  const parseQuizContent = (content: string): PracticeQuestion[] => {
-    const questions: PracticeQuestion[] = [];
-    const lines = content.split('\n');
-    let currentQuestion: PracticeQuestion | null = null;
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      // Stop parsing if we reach the ANSWERS section
-      if (/^ANSWERS:?$/i.test(trimmedLine)) {
-        break;
-      }
-      // Check if it's a question (starts with number and dot)
-      if (/^\d+\./.test(trimmedLine)) {
-        if (currentQuestion) {
-          questions.push(currentQuestion);
-        }
-        const questionText = trimmedLine.replace(/^\d+\.\s*/, '');
-        currentQuestion = {
-          question: questionText,
-          options: [],
-          correctAnswer: 0,
-          questionType: 'multiple-choice'
-        };
-      }
-      // Check if it's an option (starts with letter and parenthesis)
-      else if (currentQuestion && /^[A-D]\)/.test(trimmedLine)) {
-        const optionText = trimmedLine.replace(/^[A-D]\)\s*/, '');
-        const optionIndex = trimmedLine.charCodeAt(0) - 65; // A=0, B=1, etc.
-        currentQuestion.options[optionIndex] = optionText;
-        // Check if it's marked as correct (has ✓)
-        if (optionText.includes('✓')) {
-          currentQuestion.correctAnswer = optionIndex;
-          currentQuestion.options[optionIndex] = optionText.replace(' ✓', '');
-        }
-        // Determine if it's true/false based on options
-        if (currentQuestion.options.length >= 2 && 
-            currentQuestion.options[0] === 'True' && 
-            currentQuestion.options[1] === 'False') {
-          currentQuestion.questionType = 'true-false';
-        }
-      }
-    }
-    if (currentQuestion) {
-      questions.push(currentQuestion);
-    }
-    return questions;
-  };
-
-  const startPractice = (questionsOverride?: PracticeQuestion[]) => {
+  const startPractice = (questionsOverride?: QuizQuestion[]) => {
     if (!quiz) return;
-    const questions = questionsOverride || parseQuizContent(quiz.content);
+    const questions = questionsOverride || parseQuizDocument(quiz.content).questions;
     setPracticeState({
       questions,
       currentQuestionIndex: 0,
-      userAnswers: new Array(questions.length).fill(-1),
+      userAnswers: emptyAnswers(questions),
       showAnswers: false,
       score: 0,
       isComplete: false,
@@ -181,14 +144,14 @@ export default function PracticeQuizModal({
       showAnswers: false,
       isComplete: false,
       currentQuestionIndex: 0,
-      userAnswers: new Array(prev.questions.length).fill(-1),
+      userAnswers: emptyAnswers(prev.questions),
     }));
     setPracticeStartTime(null);
     setPracticeEndTime(null);
     setReviewMode(false);
   };
 
-  const selectAnswer = (answerIndex: number) => {
+  const selectAnswer = (answerIndex: QuizAnswer) => {
     setPracticeState(prev => ({
       ...prev,
       userAnswers: prev.userAnswers.map((answer, index) => 
@@ -216,9 +179,7 @@ export default function PracticeQuizModal({
           };
         } else {
           // Calculate final score for practice modes
-          const score = prev.userAnswers.reduce((total, answer, index) => {
-            return total + (answer === prev.questions[index].correctAnswer ? 1 : 0);
-          }, 0);
+          const score = countCorrect(prev.questions, prev.userAnswers);
           setPracticeEndTime(Date.now());
           return {
             ...prev,
@@ -243,9 +204,7 @@ export default function PracticeQuizModal({
       showAnswers: true,
       checked: true,
       // For exam mode, calculate score now
-      score: prev.mode === 'exam' ? prev.userAnswers.reduce((total, answer, index) => {
-        return total + (answer === prev.questions[index].correctAnswer ? 1 : 0);
-      }, 0) : prev.score
+      score: prev.mode === 'exam' ? countCorrect(prev.questions, prev.userAnswers) : prev.score
     }));
   };
 
@@ -263,7 +222,7 @@ export default function PracticeQuizModal({
 
   const retakeIncorrectOnly = () => {
     if (!quiz) return;
-    const incorrectQuestions = practiceState.questions.filter((q, i) => practiceState.userAnswers[i] !== q.correctAnswer);
+    const incorrectQuestions = practiceState.questions.filter((q, i) => !isCorrectAnswer(q, practiceState.userAnswers[i]));
     if (incorrectQuestions.length === 0) return;
     setReviewMode(false);
     startPractice(incorrectQuestions);
@@ -272,11 +231,11 @@ export default function PracticeQuizModal({
   // Initialize practice when modal opens
   React.useEffect(() => {
     if (visible && quiz && practiceState.questions.length === 0) {
-      const questions = parseQuizContent(quiz.content);
+      const questions = parseQuizDocument(quiz.content).questions;
       setPracticeState({
         questions,
         currentQuestionIndex: 0,
-        userAnswers: new Array(questions.length).fill(-1),
+        userAnswers: emptyAnswers(questions),
         showAnswers: false,
         score: 0,
         isComplete: false,
@@ -287,6 +246,16 @@ export default function PracticeQuizModal({
     }
   }, [visible, quiz]);
 
+  // Count each finished run (not previews) towards quiz achievements
+  const { isComplete, mode, score, questions } = practiceState;
+  React.useEffect(() => {
+    if (isComplete && mode !== 'preview' && questions.length > 0) {
+      achievementService.record({ type: 'quiz-completed', scorePercent: Math.round((score / questions.length) * 100) });
+    }
+    // Only when a run completes, not when its score is read afterwards
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isComplete]);
+
   if (!quiz) return null;
 
   return (
@@ -419,7 +388,7 @@ export default function PracticeQuizModal({
                   <Text style={[styles.reviewTitle, { color: textColor }]}>Review Answers</Text>
                   {practiceState.questions.map((q, i) => {
                     const userAnswer = practiceState.userAnswers[i];
-                    const isCorrect = userAnswer === q.correctAnswer;
+                    const isCorrect = isCorrectAnswer(q, userAnswer);
                     return (
                       <View key={i} style={[
                         styles.reviewQuestion,
@@ -448,8 +417,23 @@ export default function PracticeQuizModal({
                           styles.reviewAnswer,
                           { color: isCorrect ? '#10b981' : '#ef4444' }
                         ]}>
-                          Your answer: {userAnswer !== -1 ? String.fromCharCode(65+userAnswer) : 'None'} ({isCorrect ? 'Correct' : 'Incorrect'})
+                          Your answer: {!isAnswered(userAnswer) ? 'None' : typeof userAnswer === 'number' ? String.fromCharCode(65+userAnswer) : userAnswer} ({isCorrect ? 'Correct' : 'Incorrect'})
                         </Text>
+                        {q.type === 'fill-blank' && q.answerText && (
+                          <Text style={[styles.reviewAnswer, { color: '#10b981' }]}>
+                            Correct answer: {q.answerText}
+                          </Text>
+                        )}
+                        {!hasAnswerKey(q) && (
+                          <Text style={[styles.reviewAnswer, { color: '#6b7280' }]}>
+                            Correct answer: {NO_ANSWER_KEY}
+                          </Text>
+                        )}
+                        {q.explanation && (
+                          <Text style={[styles.explanationText, { color: textColor }]}>
+                            {q.explanation}
+                          </Text>
+                        )}
                       </View>
                     );
                   })}
@@ -489,7 +473,7 @@ export default function PracticeQuizModal({
                           Incorrect: {practiceState.questions.length - practiceState.score}
                         </Text>
                         <Text style={[styles.resultsPercentage, { color: iconColor }]}>
-                          Skipped: {practiceState.userAnswers.filter(a => a === -1).length}
+                          Skipped: {practiceState.userAnswers.filter(a => !isAnswered(a)).length}
                         </Text>
                       </>
                     )}
@@ -535,7 +519,7 @@ export default function PracticeQuizModal({
                       <TouchableOpacity
                         style={[styles.restartButton, {backgroundColor: '#ef4444', marginTop: 12}]}
                         onPress={retakeIncorrectOnly}
-                        disabled={practiceState.questions.filter((q, i) => practiceState.userAnswers[i] !== q.correctAnswer).length === 0}
+                        disabled={practiceState.questions.filter((q, i) => !isCorrectAnswer(q, practiceState.userAnswers[i])).length === 0}
                       >
                         <Ionicons name="repeat-outline" size={20} color="white" />
                         <Text style={styles.restartButtonText}>Retake Incorrect Only</Text>
@@ -622,6 +606,47 @@ export default function PracticeQuizModal({
                       </TouchableOpacity>
                     );
                   })}
+                  {practiceState.questions[practiceState.currentQuestionIndex]?.type === 'fill-blank' && (() => {
+                    const question = practiceState.questions[practiceState.currentQuestionIndex];
+                    const answer = practiceState.userAnswers[practiceState.currentQuestionIndex];
+                    const isCorrect = isCorrectAnswer(question, answer);
+                    return (
+                      <View>
+                        <TextInput
+                          style={[
+                            styles.fillBlankInput,
+                            { color: textColor, backgroundColor: cardBackground, borderColor },
+                            practiceState.showAnswers && { borderColor: isCorrect ? '#10b981' : '#ef4444' }
+                          ]}
+                          value={typeof answer === 'string' ? answer : ''}
+                          onChangeText={selectAnswer}
+                          editable={!practiceState.showAnswers}
+                          placeholder="Type your answer"
+                          placeholderTextColor={iconColor}
+                          autoCapitalize="none"
+                        />
+                        {practiceState.showAnswers && question.answerText && (
+                          <Text style={[styles.reviewAnswer, { color: '#10b981' }]}>
+                            Correct answer: {question.answerText}
+                          </Text>
+                        )}
+                      </View>
+                    );
+                  })()}
+                  {practiceState.showAnswers && practiceState.questions[practiceState.currentQuestionIndex] &&
+                    !hasAnswerKey(practiceState.questions[practiceState.currentQuestionIndex]) && (
+                    <Text style={[styles.reviewAnswer, { color: iconColor }]}>
+                      {NO_ANSWER_KEY} for this question
+                    </Text>
+                  )}
+                  {practiceState.showAnswers && practiceState.questions[practiceState.currentQuestionIndex]?.explanation && (
+                    <View style={[styles.explanationBox, { backgroundColor: softBackground }]}>
+                      <Ionicons name="bulb-outline" size={18} color="#f093fb" />
+                      <Text style={[styles.explanationText, { color: textColor }]}>
+                        {practiceState.questions[practiceState.currentQuestionIndex]?.explanation}
+                      </Text>
+                    </View>
+                  )}
                 </View>
 
                 {/* Action Buttons */}
@@ -631,10 +656,10 @@ export default function PracticeQuizModal({
                     <TouchableOpacity
                       style={[
                         styles.actionButton,
-                        practiceState.userAnswers[practiceState.currentQuestionIndex] === -1 && styles.actionButtonDisabled
+                        !isAnswered(practiceState.userAnswers[practiceState.currentQuestionIndex]) && styles.actionButtonDisabled
                       ]}
                       onPress={showAnswer}
-                      disabled={practiceState.userAnswers[practiceState.currentQuestionIndex] === -1}
+                      disabled={!isAnswered(practiceState.userAnswers[practiceState.currentQuestionIndex])}
                     >
                       <Ionicons name="eye-outline" size={20} color="white" />
                       <Text style={styles.actionButtonText}>Show Answer</Text>
@@ -663,10 +688,10 @@ export default function PracticeQuizModal({
                         // In preview mode, always allow navigation
                         // In exam mode, require answer selection
                         practiceState.mode === 'preview' ? {} : 
-                        practiceState.mode === 'exam' && practiceState.userAnswers[practiceState.currentQuestionIndex] === -1 ? styles.navButtonDisabled : {}
+                        practiceState.mode === 'exam' && !isAnswered(practiceState.userAnswers[practiceState.currentQuestionIndex]) ? styles.navButtonDisabled : {}
                       ]}
                       onPress={nextQuestion}
-                      disabled={practiceState.mode === 'exam' && practiceState.userAnswers[practiceState.currentQuestionIndex] === -1}
+                      disabled={practiceState.mode === 'exam' && !isAnswered(practiceState.userAnswers[practiceState.currentQuestionIndex])}
                     >
                       <Text style={[styles.navButtonText, { color: '#6b7280' }]}>
                         {practiceState.currentQuestionIndex === practiceState.questions.length - 1 ? 'Finish' : 'Next'}
@@ -939,6 +964,26 @@ const styles = StyleSheet.create({
     marginTop: 4,
     fontWeight: '500',
   },
+  fillBlankInput: {
+    borderWidth: 2,
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+  },
+  explanationBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    padding: 12,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  explanationText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 4,
+  },
   modeIndicator: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -0,0 +1,114 @@
+import { Ionicons } from '@expo/vector-icons';
+import React from 'react';
+import { ActivityIndicator, Image, StyleSheet, Text, View } from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { describePreprocessing, PreprocessedImage } from '../utils/imagePreprocessing';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  textColor: {
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+interface PreprocessPreviewProps {
+  originalUri: string;
+  // null while the image is still being prepared, or when preprocessing failed
+  processed: PreprocessedImage | null;
+  isProcessing: boolean;
+  accentColor: string;
+  height?: number;
+}
+
+// Side-by-side view of a scan as taken and as it will be sent for OCR
+export default function PreprocessPreview({
+  originalUri,
+  processed,
+  isProcessing,
+  accentColor,
+  height = 240,
+}: PreprocessPreviewProps) {
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+
+  return (
+    <View>
+      <View style={[styles.panes, { height }]}>
+        <View style={[styles.pane, { backgroundColor: COLORS.cardColor }]}>
+          <Image source={{ uri: originalUri }} style={styles.image} resizeMode="contain" />
+          <View style={styles.label}>
+            <Text style={[styles.labelText, { color: COLORS.textColor.white }]}>Before</Text>
+          </View>
+        </View>
+        <View style={[styles.pane, { backgroundColor: COLORS.cardColor }]}>
+          {processed ? (
+            <Image source={{ uri: processed.uri }} style={styles.image} resizeMode="contain" />
+          ) : isProcessing ? (
+            <View style={styles.placeholder}>
+              <ActivityIndicator size="small" color={accentColor} />
+              <Text style={[styles.placeholderText, { color: COLORS.textColor.secondary }]}>Enhancing...</Text>
+            </View>
+          ) : (
+            <View style={styles.placeholder}>
+              <Ionicons name="image-outline" size={24} color={COLORS.textColor.light} />
+              <Text style={[styles.placeholderText, { color: COLORS.textColor.secondary }]}>Using original</Text>
+            </View>
+          )}
+          <View style={[styles.label, { backgroundColor: accentColor }]}>
+            <Text style={[styles.labelText, { color: COLORS.textColor.white }]}>After</Text>
+          </View>
+        </View>
+      </View>
+      {processed && (
+        <Text style={[styles.caption, { color: COLORS.textColor.secondary }]}>{describePreprocessing(processed)}</Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  panes: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  pane: {
+    flex: 1,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+  label: {
+    position: 'absolute',
+    top: 8,
+    left: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 8,
+    backgroundColor: 'rgba(0,0,0,0.6)',
+  },
+  labelText: {
+    fontSize: 11,
+    fontWeight: '700',
+  },
+  placeholder: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+  },
+  placeholderText: {
+    fontSize: 12,
+  },
+  caption: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
@@ -14,9 +14,11 @@ import {
     View
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { generateQuizFromNotes } from '../services/geminiServices';
 import { addHistory, addQuiz } from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
+import { QuizDocument, quizToText, serializeQuizDocument } from '../utils/quizFormat';
 
 type QuizType = 'multiple-choice' | 'true-false' | 'fill-blank';
 
@@ -45,7 +47,7 @@ export default function QuizGenerationModal({
     onQuizSaved
 }: QuizGenerationModalProps) {
     const router = useRouter();
-    const [generatedQuiz, setGeneratedQuiz] = useState<string>('');
+    const [generatedQuiz, setGeneratedQuiz] = useState<QuizDocument | null>(null);
     const [selectedQuizType, setSelectedQuizType] = useState<QuizType>('multiple-choice');
     const [quizState, setQuizState] = useState<QuizState>({
         isGenerating: false,
@@ -68,7 +70,7 @@ export default function QuizGenerationModal({
             return;
         }
         onClose();
-        setGeneratedQuiz('');
+        setGeneratedQuiz(null);
         setQuizState({ isGenerating: false, progress: 0 });
     };
 
@@ -76,7 +78,7 @@ export default function QuizGenerationModal({
         try {
             setQuizState(prev => ({ ...prev, isGenerating: true }));
 
-            const creditResult = await subscriptionService.spendCredits(2);
+            const creditResult = await subscriptionService.reserveCredits(2, 'quiz-maker');
             if (!creditResult.success) {
                 Alert.alert(
                     "Out of Credits",
@@ -91,9 +93,8 @@ export default function QuizGenerationModal({
 
             setQuizState(prev => ({ ...prev, progress: 30 }));
 
-            const quiz = await generateQuizFromNotes(
-                sourceContent,
-                selectedQuizType
+            const quiz = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+                generateQuizFromNotes(sourceContent, selectedQuizType, credits)
             );
 
             setQuizState(prev => ({ ...prev, progress: 80 }));
@@ -102,11 +103,11 @@ export default function QuizGenerationModal({
             setQuizState(prev => ({ ...prev, progress: 100 }));
 
             // Add to history
-            await addHistory('', 'quiz-maker', sourceTitle, quiz);
+            await addHistory('', 'quiz-maker', sourceTitle, quizToText(quiz));
 
         } catch (error) {
             console.error('Quiz generation error:', error);
-            Alert.alert('Error', 'Failed to generate quiz. Please try again.');
+            Alert.alert('Error', getAIErrorMessage(error, 'Failed to generate quiz. Please try again.'));
         } finally {
             setQuizState(prev => ({ ...prev, isGenerating: false, progress: 0 }));
         }
@@ -120,9 +121,9 @@ export default function QuizGenerationModal({
             
             await addQuiz(
                 quizTitle,
-                generatedQuiz,
+                serializeQuizDocument(generatedQuiz),
                 selectedQuizType,
-                0, // We'll calculate the actual number when parsing
+                generatedQuiz.questions.length,
                 sourceId,
                 sourceType
             );
@@ -256,7 +257,7 @@ export default function QuizGenerationModal({
                             <View style={styles.quizSection}>
                                 <Text style={[styles.sectionTitle, { color: textColor }]}>Generated Quiz</Text>
                                 <View style={[styles.quizContent, { backgroundColor: '#f9fafb', borderColor: '#e5e7eb' }]}>
-                                    <Text style={[styles.quizText, { color: '#374151' }]}>{generatedQuiz}</Text>
+                                    <Text style={[styles.quizText, { color: '#374151' }]}>{quizToText(generatedQuiz)}</Text>
                                 </View>
                                 <TouchableOpacity
                                     style={styles.saveButton}
@@ -1,12 +1,11 @@
 import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   ActivityIndicator,
   Alert,
   Dimensions,
-  Image,
   Modal,
   Platform,
   SafeAreaView,
@@ -17,9 +16,14 @@ import {
   View
 } from 'react-native';
 import { useThemeColor } from '../hooks/useThemeColor';
+import { getAIErrorMessage } from '../services/aiGateway';
 import { generateQuizFromNotes, processImage } from '../services/geminiServices';
 import { addHistory, addQuiz } from '../services/historyStorage';
 import subscriptionService from '../services/subscriptionService';
+import { PreprocessedImage } from '../utils/imagePreprocessing';
+import { QuizDocument, quizToText, serializeQuizDocument } from '../utils/quizFormat';
+import ImagePreprocessor, { ImagePreprocessorHandle } from './ImagePreprocessor';
+import PreprocessPreview from './PreprocessPreview';
 
 const { width, height } = Dimensions.get('window');
 
@@ -43,9 +47,12 @@ export default function ScanQuizModal({
 }: ScanQuizModalProps) {
   const router = useRouter();
   const [imageUri, setImageUri] = useState<string | null>(null);
+  const [processedImage, setProcessedImage] = useState<PreprocessedImage | null>(null);
+  const [isPreprocessing, setIsPreprocessing] = useState(false);
+  const preprocessorRef = useRef<ImagePreprocessorHandle>(null);
   const [extractedText, setExtractedText] = useState<string>('');
   const [isScanning, setIsScanning] = useState(false);
-  const [generatedQuiz, setGeneratedQuiz] = useState<string>('');
+  const [generatedQuiz, setGeneratedQuiz] = useState<QuizDocument | null>(null);
   const [selectedQuizType, setSelectedQuizType] = useState<QuizType>('multiple-choice');
   const [quizState, setQuizState] = useState<QuizState>({
     isGenerating: false,
@@ -69,8 +76,9 @@ export default function ScanQuizModal({
     }
     onClose();
     setImageUri(null);
+    setProcessedImage(null);
     setExtractedText('');
-    setGeneratedQuiz('');
+    setGeneratedQuiz(null);
     setQuizState({ isGenerating: false, progress: 0 });
   };
 
@@ -92,9 +100,7 @@ export default function ScanQuizModal({
       });
 
       if (!result.canceled && result.assets && result.assets.length > 0) {
-        const asset = result.assets[0];
-        setImageUri(asset.uri);
-        await processScannedImage(asset.uri);
+        await prepareImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Camera error:', error);
@@ -116,9 +122,7 @@ export default function ScanQuizModal({
       });
 
       if (!result.canceled && result.assets && result.assets.length > 0) {
-        const asset = result.assets[0];
-        setImageUri(asset.uri);
-        await processScannedImage(asset.uri);
+        await prepareImage(result.assets[0].uri);
       }
     } catch (error) {
       console.error('Gallery error:', error);
@@ -128,9 +132,20 @@ export default function ScanQuizModal({
     }
   };
 
+  // Cleans the photo up before OCR and falls back to the original if that fails
+  const prepareImage = async (uri: string) => {
+    setImageUri(uri);
+    setProcessedImage(null);
+    setIsPreprocessing(true);
+    const processed = (await preprocessorRef.current?.preprocess(uri)) ?? null;
+    setProcessedImage(processed);
+    setIsPreprocessing(false);
+    await processScannedImage(processed?.uri ?? uri);
+  };
+
   const processScannedImage = async (uri: string) => {
     try {
-      const creditResult = await subscriptionService.spendCredits(1);
+      const creditResult = await subscriptionService.reserveCredits(1, 'quiz-maker');
       if (!creditResult.success) {
         Alert.alert(
           "Out of Credits",
@@ -143,7 +158,7 @@ export default function ScanQuizModal({
         return;
       }
 
-      const text = await processImage(uri);
+      const text = await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
       if (!text || text.trim().length === 0) {
         Alert.alert('No Text Detected', 'No text could be detected in the image. Please try with a clearer image.');
         return;
@@ -152,7 +167,7 @@ export default function ScanQuizModal({
       setExtractedText(text.trim());
     } catch (error) {
       console.error('Image processing error:', error);
-      Alert.alert('Error', 'Failed to process the image. Please try again with a clearer image.');
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to process the image. Please try again with a clearer image.'));
     }
   };
 
@@ -162,7 +177,7 @@ export default function ScanQuizModal({
     try {
       setQuizState(prev => ({ ...prev, isGenerating: true }));
 
-      const creditResult = await subscriptionService.spendCredits(2);
+      const creditResult = await subscriptionService.reserveCredits(2, 'quiz-maker');
       if (!creditResult.success) {
         Alert.alert(
           "Out of Credits",
@@ -177,9 +192,8 @@ export default function ScanQuizModal({
 
       setQuizState(prev => ({ ...prev, progress: 30 }));
 
-      const quiz = await generateQuizFromNotes(
-        extractedText,
-        selectedQuizType
+      const quiz = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        generateQuizFromNotes(extractedText, selectedQuizType, credits)
       );
 
       setQuizState(prev => ({ ...prev, progress: 80 }));
@@ -188,11 +202,11 @@ export default function ScanQuizModal({
       setQuizState(prev => ({ ...prev, progress: 100 }));
 
       // Add to history
-      await addHistory(imageUri || '', 'quiz-maker', 'Scanned Document', quiz);
+      await addHistory(imageUri || '', 'quiz-maker', 'Scanned Document', quizToText(quiz));
 
     } catch (error) {
       console.error('Quiz generation error:', error);
-      Alert.alert('Error', 'Failed to generate quiz. Please try again.');
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to generate quiz. Please try again.'));
     } finally {
       setQuizState(prev => ({ ...prev, isGenerating: false, progress: 0 }));
     }
@@ -206,9 +220,9 @@ export default function ScanQuizModal({
       
       await addQuiz(
         quizTitle,
-        generatedQuiz,
+        serializeQuizDocument(generatedQuiz),
         selectedQuizType,
-        0 // We'll calculate the actual number when parsing
+        generatedQuiz.questions.length
       );
 
       Alert.alert(
@@ -317,17 +331,19 @@ export default function ScanQuizModal({
               <View style={styles.imageSection}>
                 <Text style={[styles.sectionTitle, { color: textColor }]}>Document Preview</Text>
                 <View style={styles.imageContainer}>
-                  <Image
-                    source={{ uri: imageUri }}
-                    style={styles.previewImage}
-                    resizeMode="contain"
+                  <PreprocessPreview
+                    originalUri={imageUri}
+                    processed={processedImage}
+                    isProcessing={isPreprocessing}
+                    accentColor="#f093fb"
                   />
                   <TouchableOpacity
                     style={styles.removeImageButton}
                     onPress={() => {
                       setImageUri(null);
+                      setProcessedImage(null);
                       setExtractedText('');
-                      setGeneratedQuiz('');
+                      setGeneratedQuiz(null);
                     }}
                   >
                     <Ionicons name="close" size={16} color="#fff" />
@@ -383,7 +399,7 @@ export default function ScanQuizModal({
               <View style={styles.quizSection}>
                 <Text style={[styles.sectionTitle, { color: textColor }]}>Generated Quiz</Text>
                 <View style={[styles.quizContent, { backgroundColor: '#f9fafb', borderColor: '#e5e7eb' }]}>
-                  <Text style={[styles.quizText, { color: '#374151' }]}>{generatedQuiz}</Text>
+                  <Text style={[styles.quizText, { color: '#374151' }]}>{quizToText(generatedQuiz)}</Text>
                 </View>
                 <TouchableOpacity
                   style={styles.saveButton}
@@ -425,6 +441,7 @@ export default function ScanQuizModal({
           )}
         </View>
       </SafeAreaView>
+      <ImagePreprocessor ref={preprocessorRef} />
     </Modal>
   );
 }
@@ -512,10 +529,6 @@ const styles = StyleSheet.create({
     backgroundColor: '#f3f4f6',
     minHeight: 180,
   },
-  previewImage: {
-    width: '100%',
-    height: 240,
-  },
   removeImageButton: {
     position: 'absolute',
     top: 12,
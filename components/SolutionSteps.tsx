@@ -0,0 +1,188 @@
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { ParsedSolution } from '../utils/solutionSteps';
+import MathMarkdown from './MathMarkdown';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    white: '#ffffff',
+  },
+});
+
+interface SolutionStepsProps {
+  solution: ParsedSolution;
+  accentColor: string;
+}
+
+// A worked solution revealed one step at a time, so students can try the
+// next step themselves before looking. Revealed steps can be collapsed again.
+export default function SolutionSteps({ solution, accentColor }: SolutionStepsProps) {
+  const [revealedCount, setRevealedCount] = useState(1);
+  const [expandedSteps, setExpandedSteps] = useState<Set<number>>(new Set([0]));
+
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+
+  const { intro, steps, finalAnswer } = solution;
+  const allRevealed = revealedCount >= steps.length;
+
+  useEffect(() => {
+    setRevealedCount(1);
+    setExpandedSteps(new Set([0]));
+  }, [steps.length]);
+
+  const toggleStep = (index: number) => {
+    setExpandedSteps(current => {
+      const next = new Set(current);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const revealNext = () => {
+    setExpandedSteps(current => new Set(current).add(revealedCount));
+    setRevealedCount(count => count + 1);
+  };
+
+  const revealAll = () => {
+    setExpandedSteps(new Set(steps.map((_, index) => index)));
+    setRevealedCount(steps.length);
+  };
+
+  return (
+    <View>
+      {!!intro && (
+        <MathMarkdown content={intro} textColor={COLORS.textColor.primary} accentColor={accentColor} style={styles.intro} />
+      )}
+
+      {steps.slice(0, revealedCount).map((step, index) => {
+        const expanded = expandedSteps.has(index);
+        return (
+          <View key={index} style={[styles.step, { borderColor: COLORS.borderColor, backgroundColor: COLORS.backgroundColor }]}>
+            <TouchableOpacity style={styles.stepHeader} onPress={() => toggleStep(index)} activeOpacity={0.7}>
+              <View style={[styles.stepNumber, { backgroundColor: accentColor }]}>
+                <Text style={[styles.stepNumberText, { color: COLORS.textColor.white }]}>{index + 1}</Text>
+              </View>
+              <Text style={[styles.stepTitle, { color: COLORS.textColor.primary }]}>{step.title}</Text>
+              <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={18} color={COLORS.textColor.secondary} />
+            </TouchableOpacity>
+            {expanded && !!step.body && (
+              <MathMarkdown
+                content={step.body}
+                textColor={COLORS.textColor.primary}
+                accentColor={accentColor}
+                fontSize={15}
+                style={styles.stepBody}
+              />
+            )}
+          </View>
+        );
+      })}
+
+      {allRevealed ? (
+        !!finalAnswer && (
+          <View style={[styles.finalAnswer, { borderColor: accentColor, backgroundColor: `${accentColor}14` }]}>
+            <Text style={[styles.finalAnswerLabel, { color: accentColor }]}>Final Answer</Text>
+            <MathMarkdown content={finalAnswer} textColor={COLORS.textColor.primary} accentColor={accentColor} />
+          </View>
+        )
+      ) : (
+        <View style={styles.revealRow}>
+          <TouchableOpacity style={[styles.revealButton, { backgroundColor: accentColor }]} onPress={revealNext}>
+            <Ionicons name="footsteps-outline" size={16} color={COLORS.textColor.white} />
+            <Text style={[styles.revealButtonText, { color: COLORS.textColor.white }]}>
+              Show step {revealedCount + 1} of {steps.length}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.revealAllButton} onPress={revealAll}>
+            <Text style={[styles.revealAllText, { color: accentColor }]}>Show all</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  intro: {
+    marginBottom: 12,
+  },
+  step: {
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+    overflow: 'hidden',
+  },
+  stepHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    gap: 10,
+  },
+  stepNumber: {
+    width: 26,
+    height: 26,
+    borderRadius: 13,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepNumberText: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  stepTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  stepBody: {
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+  },
+  finalAnswer: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginTop: 4,
+  },
+  finalAnswerLabel: {
+    fontSize: 13,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginBottom: 6,
+  },
+  revealRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  revealButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 20,
+  },
+  revealButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  revealAllButton: {
+    padding: 8,
+  },
+  revealAllText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
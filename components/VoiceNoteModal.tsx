@@ -0,0 +1,774 @@
+import { Ionicons } from '@expo/vector-icons';
+import {
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+  useAudioRecorderState,
+} from 'expo-audio';
+import * as FileSystem from 'expo-file-system';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View
+} from 'react-native';
+import { useThemeContext } from '../providers/ThemeProvider';
+import { AIRequestCancelledError, getAIErrorMessage } from '../services/aiGateway';
+import { countSummaryRequests, summarizeDocument, transcribeAudio } from '../services/geminiServices';
+import { addHistory, addNoteAttachments, addScanNote, NotePlacement, updateScanNote } from '../services/historyStorage';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
+import {
+  formatDuration,
+  MAX_RECORDING_MILLIS,
+  MINUTES_PER_TRANSCRIPTION_CREDIT,
+  transcriptionCost,
+  VOICE_NOTE_RECORDING,
+  voiceNoteTitle,
+} from '../utils/voiceRecording';
+import AudioPlayerBar from './AudioPlayerBar';
+import EnhanceNotesModal from './EnhanceNotesModal';
+import MathMarkdown from './MathMarkdown';
+import QuizGenerationModal from './QuizGenerationModal';
+
+// Dynamic color scheme based on theme
+const getColors = (isDark: boolean) => ({
+  accentColor: '#4ecdc4',
+  dangerColor: '#ff6b6b',
+  successColor: '#10b981',
+  backgroundColor: isDark ? '#0f0f0f' : '#f8f9fa',
+  cardColor: isDark ? '#1a1a1a' : '#ffffff',
+  borderColor: isDark ? '#333333' : '#f0f0f0',
+  textColor: {
+    primary: isDark ? '#ffffff' : '#1a1a1a',
+    secondary: isDark ? '#cccccc' : '#666',
+    light: isDark ? '#999999' : '#aaa',
+    white: '#ffffff',
+  },
+});
+
+type VoiceNoteStep = 'record' | 'transcribing' | 'review' | 'saving' | 'done';
+type RecorderStatus = 'idle' | 'recording' | 'paused' | 'stopped';
+
+interface SavedVoiceNote {
+  id: number;
+  title: string;
+  content: string;
+}
+
+interface VoiceNoteModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Called whenever the saved note changes, so the caller can refresh its list
+  onSaved?: () => void;
+  placement?: NotePlacement;
+  accentColor?: string;
+}
+
+// Metering is in dBFS; anything quieter than this shows as silence
+const METER_FLOOR_DB = -60;
+
+// Records a voice note with pause and resume, transcribes it and saves the
+// transcript as a study note with the recording attached. The saved note can
+// then be summarized, enhanced or turned into a quiz.
+export default function VoiceNoteModal({ visible, onClose, onSaved, placement, accentColor }: VoiceNoteModalProps) {
+  const router = useRouter();
+  const { resolvedTheme } = useThemeContext();
+  const COLORS = getColors(resolvedTheme === 'dark');
+  const finalAccentColor = accentColor || COLORS.accentColor;
+
+  const recorder = useAudioRecorder(VOICE_NOTE_RECORDING);
+  const recorderState = useAudioRecorderState(recorder, 200);
+
+  const [step, setStep] = useState<VoiceNoteStep>('record');
+  const [recorderStatus, setRecorderStatus] = useState<RecorderStatus>('idle');
+  const [recordingUri, setRecordingUri] = useState<string | null>(null);
+  const [durationMillis, setDurationMillis] = useState(0);
+  const [title, setTitle] = useState('');
+  const [transcript, setTranscript] = useState('');
+  const [savedNote, setSavedNote] = useState<SavedVoiceNote | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const [summaryProgress, setSummaryProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [summaryAdded, setSummaryAdded] = useState(false);
+  const [enhanceVisible, setEnhanceVisible] = useState(false);
+  const [quizVisible, setQuizVisible] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const showOutOfCredits = (message: string) => {
+    Alert.alert('Out of Credits', message, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Get Credits', onPress: () => router.push('/paywall') },
+    ]);
+  };
+
+  const discardRecordingFile = (uri: string | null) => {
+    if (!uri) return;
+    FileSystem.deleteAsync(uri, { idempotent: true }).catch(error =>
+      console.warn('Could not delete voice recording:', error)
+    );
+  };
+
+  const startRecording = async () => {
+    try {
+      const permission = await requestRecordingPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Microphone Access Needed', 'Allow microphone access in Settings to record voice notes.');
+        return;
+      }
+      await setAudioModeAsync({ allowsRecording: true, playsInSilentMode: true });
+      await recorder.prepareToRecordAsync();
+      recorder.record();
+      setRecorderStatus('recording');
+    } catch (error) {
+      console.error('Failed to start recording:', error);
+      Alert.alert('Error', 'Failed to start recording. Please try again.');
+    }
+  };
+
+  const pauseRecording = () => {
+    recorder.pause();
+    setRecorderStatus('paused');
+  };
+
+  const resumeRecording = () => {
+    recorder.record();
+    setRecorderStatus('recording');
+  };
+
+  const stopRecording = useCallback(async () => {
+    try {
+      const recordedMillis = recorder.getStatus().durationMillis;
+      await recorder.stop();
+      await setAudioModeAsync({ allowsRecording: false });
+      setDurationMillis(recordedMillis);
+      setRecordingUri(recorder.uri);
+      setRecorderStatus('stopped');
+      if (!title) setTitle(voiceNoteTitle());
+    } catch (error) {
+      console.error('Failed to stop recording:', error);
+      Alert.alert('Error', 'The recording could not be saved. Please try again.');
+      setRecorderStatus('idle');
+    }
+  }, [recorder, title]);
+
+  // Longer recordings would not fit in one transcription request
+  useEffect(() => {
+    if (recorderStatus === 'recording' && recorderState.durationMillis >= MAX_RECORDING_MILLIS) {
+      stopRecording();
+      Alert.alert('Recording Stopped', `Voice notes can be up to ${formatDuration(MAX_RECORDING_MILLIS)} long.`);
+    }
+  }, [recorderStatus, recorderState.durationMillis, stopRecording]);
+
+  const recordAgain = () => {
+    discardRecordingFile(recordingUri);
+    setRecordingUri(null);
+    setDurationMillis(0);
+    setRecorderStatus('idle');
+  };
+
+  const resetState = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    if (recorderStatus === 'recording' || recorderStatus === 'paused') {
+      recorder.stop().catch(error => console.warn('Failed to stop recorder:', error));
+      setAudioModeAsync({ allowsRecording: false }).catch(() => {});
+    }
+    // Once saved, the recording lives on as a copy in attachment storage
+    discardRecordingFile(recordingUri);
+    setStep('record');
+    setRecorderStatus('idle');
+    setRecordingUri(null);
+    setDurationMillis(0);
+    setTitle('');
+    setTranscript('');
+    setSavedNote(null);
+    setSummary(null);
+    setSummaryProgress(null);
+    setSummaryAdded(false);
+  };
+
+  const handleClose = () => {
+    const hasUnsavedWork = recorderStatus !== 'idle' && step !== 'done';
+    if (hasUnsavedWork || summaryProgress) {
+      const message = hasUnsavedWork ? 'The recording has not been saved yet.' : 'The summary is still being written.';
+      Alert.alert(hasUnsavedWork ? 'Discard Voice Note?' : 'Stop Summary?', message, [
+        { text: 'Keep Working', style: 'cancel' },
+        {
+          text: hasUnsavedWork ? 'Discard' : 'Stop',
+          style: 'destructive',
+          onPress: () => {
+            resetState();
+            onClose();
+          },
+        },
+      ]);
+      return;
+    }
+    resetState();
+    onClose();
+  };
+
+  const transcribe = async () => {
+    if (!recordingUri) return;
+    const cost = transcriptionCost(durationMillis);
+    const creditResult = await subscriptionService.reserveCredits(cost, 'voice-notes');
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || `You need ${cost} ${cost === 1 ? 'credit' : 'credits'} to transcribe this recording.`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setStep('transcribing');
+    try {
+      const text = await subscriptionService.runWithCredits(
+        creditResult.reservation,
+        credits => transcribeAudio(recordingUri, { ...credits, signal: abortController.signal }),
+        result => !result.trim()
+      );
+      setTranscript(text.trim());
+      setStep('review');
+    } catch (error) {
+      setStep('record');
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('Transcription failed:', error);
+      Alert.alert(
+        'Transcription Failed',
+        error instanceof EmptyAIResponseError
+          ? 'No speech could be heard in this recording.'
+          : getAIErrorMessage(error, 'Failed to transcribe the recording. Please try again.')
+      );
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+    }
+  };
+
+  const saveNote = async () => {
+    const noteTitle = title.trim() || voiceNoteTitle();
+    const content = transcript.trim();
+    if (!content || !recordingUri) return;
+    setStep('saving');
+    try {
+      const id = await addScanNote(noteTitle, content, placement);
+      await addNoteAttachments('scan-note', id, [{ uri: recordingUri, text: content, mediaType: 'audio' }]);
+      await addHistory('', 'voice-notes', noteTitle, content);
+      setSavedNote({ id, title: noteTitle, content });
+      setStep('done');
+      onSaved?.();
+    } catch (error) {
+      console.error('Failed to save voice note:', error);
+      Alert.alert('Error', 'Failed to save the note. Please try again.');
+      setStep('review');
+    }
+  };
+
+  const updateSavedContent = async (content: string) => {
+    if (!savedNote) return;
+    await updateScanNote(savedNote.id, savedNote.title, content);
+    setSavedNote({ ...savedNote, content });
+    onSaved?.();
+  };
+
+  const summarize = async () => {
+    if (!savedNote) return;
+    const requests = countSummaryRequests(savedNote.content);
+    const creditResult = await subscriptionService.reserveCredits(requests, 'voice-notes', requests);
+    if (!creditResult.success) {
+      showOutOfCredits(creditResult.error || `You need ${requests} ${requests === 1 ? 'credit' : 'credits'} to summarize this note.`);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setSummary(null);
+    setSummaryAdded(false);
+    setSummaryProgress({ completed: 0, total: requests });
+    try {
+      const result = await subscriptionService.runWithCredits(creditResult.reservation, credits =>
+        summarizeDocument(savedNote.content, {
+          ...credits,
+          source: 'voice-notes',
+          signal: abortController.signal,
+          onProgress: (completed, total) => setSummaryProgress({ completed, total }),
+        })
+      );
+      setSummary(result.trim());
+    } catch (error) {
+      if (error instanceof AIRequestCancelledError) return;
+      console.error('Voice note summary failed:', error);
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to summarize the note. Please try again.'));
+    } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setSummaryProgress(null);
+    }
+  };
+
+  const addSummaryToNote = async () => {
+    if (!summary || !savedNote) return;
+    try {
+      await updateSavedContent(`## Summary\n\n${summary}\n\n## Transcript\n\n${savedNote.content}`);
+      setSummaryAdded(true);
+    } catch (error) {
+      console.error('Failed to add summary to note:', error);
+      Alert.alert('Error', 'Failed to update the note. Please try again.');
+    }
+  };
+
+  const handleNoteEnhanced = async (enhancedContent: string) => {
+    try {
+      await updateSavedContent(enhancedContent);
+      setSummary(null);
+    } catch (error) {
+      console.error('Failed to save enhanced note:', error);
+      Alert.alert('Error', 'Failed to update the note. Please try again.');
+    }
+    setEnhanceVisible(false);
+  };
+
+  const liveMillis = recorderStatus === 'stopped' ? durationMillis : recorderState.durationMillis;
+  const meterLevel =
+    recorderStatus === 'recording' && recorderState.metering !== undefined
+      ? Math.max(0, Math.min(1, (recorderState.metering - METER_FLOOR_DB) / -METER_FLOOR_DB))
+      : 0;
+
+  const renderRecord = () => (
+    <View style={styles.centered}>
+      <View
+        style={[
+          styles.micHalo,
+          { backgroundColor: `${finalAccentColor}22`, transform: [{ scale: 1 + meterLevel * 0.35 }] },
+        ]}
+      >
+        <View style={[styles.micCircle, { backgroundColor: recorderStatus === 'recording' ? COLORS.dangerColor : finalAccentColor }]}>
+          <Ionicons name={recorderStatus === 'stopped' ? 'checkmark' : 'mic'} size={40} color={COLORS.textColor.white} />
+        </View>
+      </View>
+
+      <Text style={[styles.timer, { color: COLORS.textColor.primary }]}>{formatDuration(liveMillis)}</Text>
+      <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+        {recorderStatus === 'idle' && `Record a lecture, an explanation or your own thoughts, up to ${formatDuration(MAX_RECORDING_MILLIS)}.`}
+        {recorderStatus === 'recording' && 'Recording...'}
+        {recorderStatus === 'paused' && 'Paused'}
+        {recorderStatus === 'stopped' && 'Listen back, then transcribe it into a note.'}
+      </Text>
+
+      {recorderStatus === 'idle' && (
+        <TouchableOpacity style={[styles.primaryButton, { backgroundColor: finalAccentColor }]} onPress={startRecording}>
+          <Ionicons name="mic-outline" size={20} color={COLORS.textColor.white} />
+          <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>Start Recording</Text>
+        </TouchableOpacity>
+      )}
+
+      {(recorderStatus === 'recording' || recorderStatus === 'paused') && (
+        <View style={styles.controls}>
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+            onPress={recorderStatus === 'recording' ? pauseRecording : resumeRecording}
+          >
+            <Ionicons name={recorderStatus === 'recording' ? 'pause' : 'play'} size={24} color={finalAccentColor} />
+            <Text style={[styles.controlText, { color: COLORS.textColor.primary }]}>
+              {recorderStatus === 'recording' ? 'Pause' : 'Resume'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.controlButton, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+            onPress={stopRecording}
+          >
+            <Ionicons name="stop" size={24} color={COLORS.dangerColor} />
+            <Text style={[styles.controlText, { color: COLORS.textColor.primary }]}>Stop</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {recorderStatus === 'stopped' && recordingUri && (
+        <View style={styles.fullWidth}>
+          <AudioPlayerBar uri={recordingUri} accentColor={finalAccentColor} />
+          <TouchableOpacity style={[styles.primaryButton, styles.spaced, { backgroundColor: finalAccentColor }]} onPress={transcribe}>
+            <Ionicons name="text-outline" size={20} color={COLORS.textColor.white} />
+            <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>
+              Transcribe ({transcriptionCost(durationMillis)} {transcriptionCost(durationMillis) === 1 ? 'Credit' : 'Credits'})
+            </Text>
+          </TouchableOpacity>
+          <Text style={[styles.hint, { color: COLORS.textColor.light }]}>
+            1 credit per {MINUTES_PER_TRANSCRIPTION_CREDIT} minutes of audio
+          </Text>
+          <TouchableOpacity style={[styles.secondaryButton, { borderColor: COLORS.borderColor }]} onPress={recordAgain}>
+            <Ionicons name="refresh" size={18} color={COLORS.textColor.secondary} />
+            <Text style={[styles.secondaryButtonText, { color: COLORS.textColor.secondary }]}>Record Again</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+
+  const renderTranscribing = () => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color={finalAccentColor} />
+      <Text style={[styles.sectionTitle, { color: COLORS.textColor.primary }]}>Transcribing</Text>
+      <Text style={[styles.sectionSubtitle, { color: COLORS.textColor.secondary }]}>
+        Turning {formatDuration(durationMillis)} of audio into text. Longer recordings can take a minute.
+      </Text>
+      <TouchableOpacity
+        style={[styles.secondaryButton, { borderColor: COLORS.dangerColor }]}
+        onPress={() => abortControllerRef.current?.abort()}
+      >
+        <Text style={[styles.secondaryButtonText, { color: COLORS.dangerColor }]}>Cancel</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderReview = () => (
+    <>
+      <Text style={[styles.label, { color: COLORS.textColor.secondary }]}>Title</Text>
+      <TextInput
+        style={[styles.input, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor, color: COLORS.textColor.primary }]}
+        value={title}
+        onChangeText={setTitle}
+        placeholder="Voice note title"
+        placeholderTextColor={COLORS.textColor.light}
+        editable={step === 'review'}
+      />
+      <Text style={[styles.label, { color: COLORS.textColor.secondary }]}>Transcript</Text>
+      <TextInput
+        style={[
+          styles.input,
+          styles.transcriptInput,
+          { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor, color: COLORS.textColor.primary },
+        ]}
+        value={transcript}
+        onChangeText={setTranscript}
+        multiline
+        textAlignVertical="top"
+        editable={step === 'review'}
+      />
+      <Text style={[styles.hint, { color: COLORS.textColor.light }]}>Fix any misheard words before saving.</Text>
+    </>
+  );
+
+  const renderDone = () => (
+    <>
+      <View style={styles.doneHeader}>
+        <Ionicons name="checkmark-circle" size={28} color={COLORS.successColor} />
+        <Text style={[styles.doneTitle, { color: COLORS.textColor.primary }]} numberOfLines={2}>
+          Saved “{savedNote?.title}”
+        </Text>
+      </View>
+      <Text style={[styles.sectionSubtitle, styles.leftAligned, { color: COLORS.textColor.secondary }]}>
+        The recording is attached to the note. Keep going with:
+      </Text>
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.actionCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={summarize}
+          disabled={!!summaryProgress}
+        >
+          <Ionicons name="reader-outline" size={24} color={finalAccentColor} />
+          <Text style={[styles.actionText, { color: COLORS.textColor.primary }]}>Summarize</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={() => setEnhanceVisible(true)}
+          disabled={!!summaryProgress}
+        >
+          <Ionicons name="sparkles-outline" size={24} color="#feca57" />
+          <Text style={[styles.actionText, { color: COLORS.textColor.primary }]}>Enhance</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.actionCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}
+          onPress={() => setQuizVisible(true)}
+          disabled={!!summaryProgress}
+        >
+          <Ionicons name="help-circle-outline" size={24} color="#f093fb" />
+          <Text style={[styles.actionText, { color: COLORS.textColor.primary }]}>Quiz</Text>
+        </TouchableOpacity>
+      </View>
+
+      {summaryProgress && (
+        <View style={styles.summaryLoading}>
+          <ActivityIndicator size="small" color={finalAccentColor} />
+          <Text style={[styles.hint, { color: COLORS.textColor.secondary }]}>
+            {summaryProgress.total > 1
+              ? `Summarizing part ${Math.min(summaryProgress.completed + 1, summaryProgress.total)} of ${summaryProgress.total}...`
+              : 'Summarizing...'}
+          </Text>
+        </View>
+      )}
+
+      {summary && (
+        <View style={[styles.summaryCard, { backgroundColor: COLORS.cardColor, borderColor: COLORS.borderColor }]}>
+          <MathMarkdown content={summary} textColor={COLORS.textColor.primary} accentColor={finalAccentColor} fontSize={15} />
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: finalAccentColor }, summaryAdded && styles.disabled]}
+            onPress={addSummaryToNote}
+            disabled={summaryAdded}
+          >
+            <Ionicons name={summaryAdded ? 'checkmark' : 'add'} size={18} color={finalAccentColor} />
+            <Text style={[styles.secondaryButtonText, { color: finalAccentColor }]}>
+              {summaryAdded ? 'Added to Note' : 'Add Summary to Note'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent={false} onRequestClose={handleClose}>
+      <SafeAreaView style={[styles.container, { backgroundColor: COLORS.backgroundColor }]}>
+        <View style={[styles.header, { borderBottomColor: COLORS.borderColor }]}>
+          <Text style={[styles.headerTitle, { color: COLORS.textColor.primary }]}>Voice Note</Text>
+          <TouchableOpacity onPress={handleClose} style={[styles.closeButton, { backgroundColor: COLORS.cardColor }]}>
+            <Ionicons name="close" size={20} color={COLORS.textColor.secondary} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentInner} keyboardShouldPersistTaps="handled">
+          {step === 'record' && renderRecord()}
+          {step === 'transcribing' && renderTranscribing()}
+          {(step === 'review' || step === 'saving') && renderReview()}
+          {step === 'done' && renderDone()}
+        </ScrollView>
+
+        {(step === 'review' || step === 'saving') && (
+          <View style={[styles.footer, { borderTopColor: COLORS.borderColor }]}>
+            <TouchableOpacity
+              style={[styles.primaryButton, { backgroundColor: finalAccentColor }, step === 'saving' && styles.disabled]}
+              onPress={saveNote}
+              disabled={step === 'saving' || !transcript.trim()}
+            >
+              {step === 'saving' ? (
+                <ActivityIndicator size="small" color={COLORS.textColor.white} />
+              ) : (
+                <>
+                  <Ionicons name="save-outline" size={20} color={COLORS.textColor.white} />
+                  <Text style={[styles.primaryButtonText, { color: COLORS.textColor.white }]}>Save Note</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+
+      <EnhanceNotesModal
+        visible={enhanceVisible}
+        onClose={() => setEnhanceVisible(false)}
+        sourceContent={savedNote?.content || ''}
+        sourceTitle={savedNote?.title || ''}
+        sourceId={savedNote?.id}
+        onNoteEnhanced={handleNoteEnhanced}
+      />
+      <QuizGenerationModal
+        visible={quizVisible}
+        onClose={() => setQuizVisible(false)}
+        sourceContent={savedNote?.content || ''}
+        sourceTitle={savedNote?.title || ''}
+        sourceId={savedNote?.id}
+        sourceType="scan-note"
+      />
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingTop: Platform.OS === 'ios' ? 12 : 28,
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+  },
+  closeButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  content: {
+    flex: 1,
+  },
+  contentInner: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  centered: {
+    alignItems: 'center',
+    paddingTop: 24,
+    gap: 16,
+  },
+  fullWidth: {
+    alignSelf: 'stretch',
+    alignItems: 'stretch',
+  },
+  micHalo: {
+    width: 150,
+    height: 150,
+    borderRadius: 75,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  micCircle: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  timer: {
+    fontSize: 44,
+    fontWeight: '300',
+    fontVariant: ['tabular-nums'],
+  },
+  sectionTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  sectionSubtitle: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    maxWidth: 320,
+  },
+  leftAligned: {
+    textAlign: 'left',
+    maxWidth: undefined,
+    marginTop: 8,
+  },
+  controls: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  controlButton: {
+    alignItems: 'center',
+    gap: 6,
+    width: 110,
+    paddingVertical: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  controlText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 16,
+    paddingHorizontal: 28,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  spaced: {
+    marginTop: 16,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginTop: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 13,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+  },
+  transcriptInput: {
+    minHeight: 260,
+    lineHeight: 22,
+  },
+  footer: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+  doneHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  doneTitle: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 24,
+  },
+  actionCard: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 18,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryLoading: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 10,
+    marginTop: 20,
+  },
+  summaryCard: {
+    marginTop: 20,
+    padding: 16,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+});
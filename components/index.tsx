@@ -1,7 +1,7 @@
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   Alert,
   Platform,
@@ -12,9 +12,10 @@ import {
   View
 } from 'react-native';
 import { useThemeContext } from '../providers/ThemeProvider';
-import { getAnswerFromGemini, processImage } from '../services/geminiServices';
+import { AIRequestCancelledError, AIStreamStatus, getAIErrorMessage, isAIGatewayError } from '../services/aiGateway';
+import { processImage, streamAnswerFromGemini } from '../services/geminiServices';
 import { addHistory } from '../services/historyStorage';
-import subscriptionService from '../services/subscriptionService';
+import subscriptionService, { EmptyAIResponseError } from '../services/subscriptionService';
 import AIAnswerModal from './AIAnswerModal';
 import ImageScanModal from './ImageScanModal';
 
@@ -45,6 +46,9 @@ const Index = () => {
   const [historyId, setHistoryId] = useState<number | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [showGetAnswerButton, setShowGetAnswerButton] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamStatus, setStreamStatus] = useState<AIStreamStatus | undefined>();
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const handleImageProcessed = async (text: string) => {
     setExtractedText(text);
@@ -59,12 +63,13 @@ const Index = () => {
       return;
     }
 
+    const abortController = new AbortController();
     try {
-      const hasEnoughCredits = await subscriptionService.spendCredits(1);
-      if (!hasEnoughCredits) {
+      const creditResult = await subscriptionService.reserveCredits(1, 'ai-scan');
+      if (!creditResult.success) {
         Alert.alert(
           "Out of Credits",
-          "You need at least 1 credit to get an AI answer.",
+          creditResult.error || "You need at least 1 credit to get an AI answer.",
           [
             { text: "Cancel", style: "cancel" },
             { text: "Get Credits", onPress: () => router.push('/paywall') }
@@ -74,29 +79,57 @@ const Index = () => {
       }
       
       setIsProcessing(true);
-      const answer = await getAnswerFromGemini(extractedText, 'ai-scan');
-      setAiAnswer(answer);
-      
-      const newHistoryId = await addHistory('', 'ai-scan', extractedText, answer);
+      setStreamStatus(undefined);
+      abortControllerRef.current = abortController;
+
+      const result = await subscriptionService.runWithCredits(
+        creditResult.reservation,
+        credits =>
+          streamAnswerFromGemini(extractedText, 'ai-scan', {
+            ...credits,
+            signal: abortController.signal,
+            onText: text => {
+              if (abortControllerRef.current !== abortController) return;
+              setIsStreaming(true);
+              setAiAnswer(text);
+            },
+          }),
+        result => !result.text.trim()
+      );
+
+      // Stopped or interrupted answers are saved as far as they got, even
+      // when the modal was closed mid-answer
+      const newHistoryId = await addHistory('', 'ai-scan', extractedText, result.text);
+      if (abortControllerRef.current !== abortController) return;
+      setAiAnswer(result.text);
+      setStreamStatus(result.status);
       setHistoryId(newHistoryId);
       setShowGetAnswerButton(false);
     } catch (error) {
+      // Stopped before any text arrived; runWithCredits has released the credit
+      if (error instanceof AIRequestCancelledError || error instanceof EmptyAIResponseError) return;
       console.error('Error getting AI answer:', error);
-      Alert.alert('Error', 'Failed to get AI answer. Please try again.');
+      Alert.alert('Error', getAIErrorMessage(error, 'Failed to get AI answer. Please try again.'));
     } finally {
+      if (abortControllerRef.current === abortController) abortControllerRef.current = null;
+      setIsStreaming(false);
       setIsProcessing(false);
     }
   };
 
+  const handleStopStreaming = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleProcessImage = async (uri: string): Promise<string> => {
     try {
-      const hasEnoughCredits = await subscriptionService.spendCredits(1);
-      if (!hasEnoughCredits) {
+      const creditResult = await subscriptionService.reserveCredits(1, 'ai-scan');
+      if (!creditResult.success) {
         throw new Error('You need at least 1 credit to scan an image. Please get more credits to continue.');
       }
-      return await processImage(uri);
+      return await subscriptionService.runWithCredits(creditResult.reservation, credits => processImage(uri, credits));
     } catch (error: any) {
-      if (error.message.includes('credits')) {
+      if (isAIGatewayError(error) || error.message.includes('credits')) {
         throw error;
       }
       throw new Error('Failed to process image. Please try again.');
@@ -108,11 +141,14 @@ const Index = () => {
   };
 
   const handleCloseAIAnswer = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
     setAiAnswerVisible(false);
     setExtractedText('');
     setAiAnswer('');
     setHistoryId(null);
     setShowGetAnswerButton(false);
+    setStreamStatus(undefined);
   };
 
   const handleViewHistory = () => {
@@ -191,9 +227,12 @@ const Index = () => {
         onViewHistory={handleViewHistory}
         title="Extracted Text"
         question={extractedText}
-        answer={isProcessing ? "Getting AI answer..." : aiAnswer}
+        answer={isProcessing && !aiAnswer ? "Getting AI answer..." : aiAnswer}
         feature="ai-scan"
         accentColor={COLORS.primary}
+        isStreaming={isStreaming}
+        onStopStreaming={handleStopStreaming}
+        streamStatus={streamStatus}
         customActionButton={
           showGetAnswerButton && !isProcessing ? (
             <TouchableOpacity
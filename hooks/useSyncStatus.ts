@@ -0,0 +1,15 @@
+import { useCallback, useEffect, useState } from 'react';
+import syncService, { SyncStatus } from '../services/syncService';
+
+export const useSyncStatus = () => {
+  const [status, setStatus] = useState<SyncStatus>(syncService.getStatus());
+
+  useEffect(() => syncService.subscribe(setStatus), []);
+
+  const syncNow = useCallback(() => syncService.syncNow(), []);
+
+  return {
+    ...status,
+    syncNow,
+  };
+};
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { Platform } from 'react-native';
 import Purchases, { CustomerInfo, PurchasesOffering, PurchasesPackage } from 'react-native-purchases';
-import { addExpiringCreditsOnline } from '../services/onlineStorage';
+import { verifyPurchaseOnline } from '../services/onlineStorage';
 
 interface PurchasesContextType {
   user: {
@@ -79,21 +79,9 @@ const PurchasesProvider = ({ children }: { children: React.ReactNode }) => {
       const { customerInfo } = await Purchases.purchasePackage(pack);
       if (customerInfo.entitlements.active.pro) {
         setIsPro(true);
-        const expirationDate = customerInfo.entitlements.all.pro?.expirationDate;
-        console.log('PURCHASED:', pack.product.identifier, 'Expiration:', expirationDate);
-        if (expirationDate) {
-          if (pack.product.identifier.includes('week')) {
-            console.log('Adding 100 expiring credits for week plan');
-            await addExpiringCreditsOnline(100, expirationDate);
-          } else if (pack.product.identifier.includes('year')) {
-            console.log('Adding 1000 expiring credits for year plan');
-            await addExpiringCreditsOnline(1000, expirationDate);
-          } else {
-            console.log('No matching plan for credits');
-          }
-        } else {
-          console.log('No expiration date found');
-        }
+        console.log('PURCHASED:', pack.product.identifier);
+        // The server checks the receipt and grants the plan's credits
+        await verifyPurchaseOnline(pack.product.identifier);
       }
     } catch (e: any) {
       if (!e.userCancelled) {
@@ -0,0 +1,266 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { openMemoryDatabase } from '../../test-utils/memoryDatabase';
+import { LATEST_SCHEMA_VERSION, MIGRATIONS, getSchemaVersion, runMigrations } from '../databaseMigrations';
+
+// Replays the migrations on databases in the shapes older app versions left
+// behind (see fixtures/) and checks they all end up with the same schema and
+// with their data carried over.
+
+const openDatabase = (fixture?: string) =>
+  openMemoryDatabase(fixture && readFileSync(join(__dirname, 'fixtures', `${fixture}.sql`), 'utf8'));
+
+// Tables, indexes and triggers with each table's columns. Columns are sorted
+// because addColumnIfMissing appends them, so upgraded tables list them in a
+// different order than freshly created ones.
+const describeSchema = async (db: SQLiteDatabase) => {
+  const objects = await db.getAllAsync(
+    "SELECT type, name FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name;"
+  ) as { type: string; name: string }[];
+  const schema: Record<string, string[]> = {};
+  for (const object of objects) {
+    if (object.type !== 'table') {
+      schema[`${object.type}:${object.name}`] = [];
+      continue;
+    }
+    const columns = await db.getAllAsync(`PRAGMA table_info(${object.name});`) as { name: string; type: string }[];
+    schema[`table:${object.name}`] = columns.map(column => `${column.name} ${column.type}`).sort();
+  }
+  return schema;
+};
+
+// Rows of every table, compared as sorted JSON. FTS5 tables are read through
+// the virtual table: their shadow tables hold index segments, which a rebuild
+// rewrites even when the indexed rows are the same.
+const dumpTables = async (db: SQLiteDatabase) => {
+  const tables = await db.getAllAsync(
+    "SELECT name, type FROM pragma_table_list WHERE schema = 'main' AND type IN ('table', 'virtual') AND name NOT LIKE 'sqlite_%' ORDER BY name;"
+  ) as { name: string; type: string }[];
+  const dump: Record<string, string[]> = {};
+  for (const { name, type } of tables) {
+    const rows = await db.getAllAsync(type === 'virtual' ? `SELECT rowid, * FROM ${name};` : `SELECT * FROM ${name};`);
+    dump[name] = rows.map(row => JSON.stringify(row)).sort();
+  }
+  return dump;
+};
+
+const SYNCED_TABLES = ['notes', 'scan_notes', 'quiz_maker', 'flash_card_sets', 'mind_maps', 'history'];
+
+let freshSchema: Record<string, string[]>;
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  const fresh = openDatabase();
+  await runMigrations(fresh);
+  freshSchema = await describeSchema(fresh);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('runMigrations', () => {
+  it('brings a new database to the latest version', async () => {
+    const db = openDatabase();
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+  });
+
+  it.each(['baseline', 'early-build'])('upgrades the %s fixture to the same schema as a new database', async fixture => {
+    const db = openDatabase(fixture);
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await describeSchema(db)).toEqual(freshSchema);
+  });
+
+  it('upgrades a database that stopped part way through the migrations', async () => {
+    const db = openDatabase('baseline');
+    expect(await runMigrations(db, MIGRATIONS.filter(migration => migration.version <= 5))).toBe(5);
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await describeSchema(db)).toEqual(freshSchema);
+  });
+
+  it('converts text quizzes to quiz documents and keeps unreadable ones as text', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db);
+
+    const quizzes = await db.getAllAsync("SELECT title, content FROM quiz_maker ORDER BY id;") as { title: string; content: string }[];
+    const [marked, answerKey, unreadable] = quizzes;
+
+    expect(JSON.parse(marked.content)).toEqual({
+      version: 1,
+      questions: [
+        {
+          id: 'q1',
+          type: 'multiple-choice',
+          question: 'What is the capital of France?',
+          options: ['Berlin', 'Paris', 'Rome'],
+          correctAnswer: 1,
+          explanation: 'Paris has been the capital since 987.',
+        },
+        {
+          id: 'q2',
+          type: 'true-false',
+          question: 'The sun is a star.',
+          options: ['True', 'False'],
+          correctAnswer: 0,
+        },
+      ],
+    });
+    expect(JSON.parse(answerKey.content).questions.map((q: { correctAnswer: number }) => q.correctAnswer)).toEqual([1, 1]);
+    expect(unreadable.content).toBe('Make a quiz about volcanoes later');
+  });
+
+  // Step 4 has its own copy of the quiz parser; this pins what it writes so
+  // changes to utils/quizFormat can't alter how old quizzes are converted
+  it('writes the quiz documents the released step 4 wrote', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db, MIGRATIONS.filter(migration => migration.version <= 4));
+
+    const quiz = await db.getFirstAsync("SELECT content FROM quiz_maker WHERE title = 'Answer key quiz';") as { content: string };
+    expect(quiz.content).toBe(
+      '{"version":1,"questions":[' +
+        '{"id":"q1","type":"multiple-choice","question":"Which gas do plants absorb?","options":["Oxygen","Carbon dioxide","Nitrogen"],"correctAnswer":1},' +
+        '{"id":"q2","type":"multiple-choice","question":"What is 3 x 3?","options":["6","9","12"],"correctAnswer":1}' +
+        ']}'
+    );
+  });
+
+  // Quizzes without an answer line were converted with option A as the
+  // answer; later parser changes must not rewrite or re-convert them
+  it('converts quizzes without an answer line the way the released step did', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db);
+
+    const quiz = await db.getFirstAsync("SELECT content FROM quiz_maker WHERE title = 'Unanswered quiz';") as { content: string };
+    expect(JSON.parse(quiz.content)).toEqual({
+      version: 1,
+      questions: [
+        {
+          id: 'q1',
+          type: 'multiple-choice',
+          question: 'Which planet is the largest?',
+          options: ['Mars', 'Jupiter', 'Venus'],
+          correctAnswer: 0,
+        },
+        {
+          id: 'q2',
+          type: 'fill-blank',
+          question: 'Water boils at ___ degrees Celsius.',
+          options: [],
+          correctAnswer: -1,
+        },
+      ],
+    });
+  });
+
+  it('fills in quiz columns missing from early builds', async () => {
+    const db = openDatabase('early-build');
+    await runMigrations(db);
+
+    const quizzes = await db.getAllAsync("SELECT title, content, quiz_type, createdAt FROM quiz_maker ORDER BY id;") as {
+      title: string;
+      content: string;
+      quiz_type: string;
+      createdAt: string | null;
+    }[];
+    expect(quizzes.map(quiz => quiz.quiz_type)).toEqual(['multiple-choice', 'multiple-choice']);
+    expect(quizzes.every(quiz => !!quiz.createdAt)).toBe(true);
+    expect(JSON.parse(quizzes[0].content).questions[0].correctAnswer).toBe(1);
+    expect(quizzes[1].content).toBe('Quiz with no content');
+  });
+
+  it('gives every existing row a uuid and queues it for sync', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db);
+
+    const outbox = await db.getAllAsync("SELECT table_name, record_uuid, operation FROM sync_outbox;") as {
+      table_name: string;
+      record_uuid: string;
+      operation: string;
+    }[];
+    const uuids = new Set<string>();
+    for (const table of SYNCED_TABLES) {
+      const rows = await db.getAllAsync(`SELECT uuid, createdAt, updatedAt FROM ${table};`) as {
+        uuid: string | null;
+        createdAt: string;
+        updatedAt: string | null;
+      }[];
+      expect(rows.length).toBeGreaterThan(0);
+      for (const row of rows) {
+        expect(row.uuid).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+        expect(row.updatedAt).toBe(row.createdAt);
+        uuids.add(row.uuid!);
+        expect(outbox).toContainEqual({ table_name: table, record_uuid: row.uuid, operation: 'upsert' });
+      }
+    }
+    expect(outbox).toHaveLength(uuids.size);
+  });
+
+  it('seeds achievement counters from existing data', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db);
+
+    const counters = await db.getAllAsync("SELECT key, value FROM achievement_counters;") as { key: string; value: number }[];
+    const values = Object.fromEntries(counters.map(counter => [counter.key, counter.value]));
+    expect(values['notes-created']).toBe(3);
+    expect(values['flash-card-sets']).toBe(1);
+    expect(values.scans).toBe(2);
+  });
+
+  it('seeds study time and streaks from logged study sessions', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db, MIGRATIONS.filter(migration => migration.version <= 13));
+    for (const [day, seconds] of [['2024-03-01', 600], ['2024-03-03', 1500], ['2024-03-04', 900], ['2024-03-04', 300], ['2024-03-05', 60]] as const) {
+      await db.runAsync(
+        "INSERT INTO study_sessions (day, startedAt, endedAt, duration_seconds, completed) VALUES (?, ?, ?, ?, 1);",
+        [day, `${day}T09:00:00.000Z`, `${day}T10:00:00.000Z`, seconds]
+      );
+    }
+    await runMigrations(db, MIGRATIONS.filter(migration => migration.version <= 14));
+
+    const counters = await db.getAllAsync("SELECT key, value FROM achievement_counters;") as { key: string; value: number }[];
+    const values = Object.fromEntries(counters.map(counter => [counter.key, counter.value]));
+    expect(values['study-seconds']).toBe(3360);
+    expect(values['days-active']).toBe(4);
+    expect(values['streak-current']).toBe(3);
+    expect(values['streak-longest']).toBe(3);
+  });
+
+  it('moves study days and the current streak into the active days', async () => {
+    const db = openDatabase('baseline');
+    await runMigrations(db, MIGRATIONS.filter(migration => migration.version <= 14));
+    await db.runAsync(
+      "INSERT INTO study_sessions (day, startedAt, endedAt, duration_seconds, completed) VALUES ('2024-03-01', '2024-03-01T09:00:00.000Z', '2024-03-01T10:00:00.000Z', 3600, 1);"
+    );
+    // A three day streak ending 2024-03-10 (day 19792), kept up with quizzes
+    await db.runAsync("UPDATE achievement_counters SET value = 3 WHERE key = 'streak-current';");
+    await db.runAsync("UPDATE achievement_counters SET value = 19792 WHERE key = 'streak-last-day';");
+    await runMigrations(db);
+
+    const days = await db.getAllAsync("SELECT day FROM achievement_days ORDER BY day;") as { day: string }[];
+    expect(days.map(row => row.day)).toEqual(['2024-03-01', '2024-03-08', '2024-03-09', '2024-03-10']);
+    const keys = await db.getAllAsync("SELECT key FROM achievement_counters ORDER BY key;") as { key: string }[];
+    expect(keys.map(row => row.key)).not.toContain('streak-current');
+  });
+
+  it.each(['baseline', 'early-build'])('changes nothing when run again on the %s fixture', async fixture => {
+    const db = openDatabase(fixture);
+    await runMigrations(db);
+    const schema = await describeSchema(db);
+    const data = await dumpTables(db);
+
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await describeSchema(db)).toEqual(schema);
+    expect(await dumpTables(db)).toEqual(data);
+
+    // Every step must also be safe to replay over its own result, for
+    // databases whose ad-hoc init code already did part of the work
+    await db.execAsync('PRAGMA user_version = 0;');
+    expect(await runMigrations(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(await describeSchema(db)).toEqual(schema);
+    expect(await dumpTables(db)).toEqual(data);
+  });
+});
@@ -0,0 +1,72 @@
+-- Database as left by the first release: tables created by the init functions
+-- in historyStorage, no uuids, quizzes stored in the text format.
+CREATE TABLE history (id INTEGER PRIMARY KEY AUTOINCREMENT, imageUri TEXT, feature TEXT, extractedText TEXT, aiAnswer TEXT, createdAt TEXT);
+CREATE TABLE notes (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, createdAt TEXT);
+CREATE TABLE scan_notes (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, createdAt TEXT);
+CREATE TABLE quiz_maker (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT,
+  content TEXT,
+  quiz_type TEXT,
+  source_note_id INTEGER,
+  source_note_type TEXT,
+  createdAt TEXT
+);
+CREATE TABLE flash_card_sets (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, card_type TEXT, source_note_id INTEGER, source_note_type TEXT, createdAt TEXT);
+CREATE TABLE mind_maps (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT,
+  content TEXT,
+  source_note_id INTEGER,
+  source_note_type TEXT,
+  createdAt TEXT
+);
+
+INSERT INTO history (imageUri, feature, extractedText, aiAnswer, createdAt) VALUES
+  ('file:///scan-1.jpg', 'ai-scan', 'What is 2 + 2?', '4', '2024-03-01T10:00:00.000Z'),
+  ('file:///scan-2.jpg', 'ai-scan', 'Name the capital of France', 'Paris', '2024-03-02T10:00:00.000Z'),
+  (NULL, 'homework-help', 'Explain photosynthesis', 'Plants turn light into sugar.', '2024-03-03T10:00:00.000Z');
+
+INSERT INTO notes (title, content, createdAt) VALUES
+  ('Biology', 'Cells are the basic unit of life.', '2024-03-01T09:00:00.000Z'),
+  ('History', 'The Roman Empire fell in 476.', '2024-03-04T09:00:00.000Z');
+
+INSERT INTO scan_notes (title, content, createdAt) VALUES
+  ('Chemistry scan', 'Water is H2O.', '2024-03-05T09:00:00.000Z');
+
+INSERT INTO quiz_maker (title, content, quiz_type, source_note_id, source_note_type, createdAt) VALUES
+  ('Marked quiz', '1. What is the capital of France?
+   A) Berlin
+   B) Paris ✓
+   C) Rome
+   Explanation: Paris has been the capital since 987.
+
+2. The sun is a star.
+   A) True ✓
+   B) False', 'multiple-choice', 1, 'note', '2024-03-06T09:00:00.000Z'),
+  ('Answer key quiz', '1. Which gas do plants absorb?
+A) Oxygen
+B) Carbon dioxide
+C) Nitrogen
+
+2. What is 3 x 3?
+A) 6
+B) 9
+C) 12
+
+ANSWERS:
+1. B
+2. B', 'multiple-choice', NULL, NULL, '2024-03-07T09:00:00.000Z'),
+  ('Unreadable quiz', 'Make a quiz about volcanoes later', 'multiple-choice', NULL, NULL, '2024-03-08T09:00:00.000Z'),
+  ('Unanswered quiz', '1. Which planet is the largest?
+A) Mars
+B) Jupiter
+C) Venus
+
+2. Water boils at ___ degrees Celsius.', 'multiple-choice', NULL, NULL, '2024-03-08T12:00:00.000Z');
+
+INSERT INTO flash_card_sets (title, content, card_type, source_note_id, source_note_type, createdAt) VALUES
+  ('Biology cards', '[{"front":"Cell","back":"Basic unit of life"}]', 'basic', 1, 'note', '2024-03-09T09:00:00.000Z');
+
+INSERT INTO mind_maps (title, content, source_note_id, source_note_type, createdAt) VALUES
+  ('Rome', '{"id":"root","label":"Rome","children":[]}', 2, 'note', '2024-03-10T09:00:00.000Z');
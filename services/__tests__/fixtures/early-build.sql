@@ -0,0 +1,18 @@
+-- Database from a build before quiz types existed: quiz_maker lacks quiz_type
+-- and createdAt, some rows have no content, and not every table was created yet.
+CREATE TABLE history (id INTEGER PRIMARY KEY AUTOINCREMENT, imageUri TEXT, feature TEXT, extractedText TEXT, aiAnswer TEXT, createdAt TEXT);
+CREATE TABLE notes (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, createdAt TEXT);
+CREATE TABLE quiz_maker (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT);
+
+INSERT INTO history (imageUri, feature, extractedText, aiAnswer, createdAt) VALUES
+  ('file:///scan-1.jpg', 'ai-scan', 'What is 5 x 5?', '25', '2023-11-01T10:00:00.000Z');
+
+INSERT INTO notes (title, content, createdAt) VALUES
+  ('Physics', 'Force equals mass times acceleration.', NULL);
+
+INSERT INTO quiz_maker (title, content) VALUES
+  ('Physics quiz', '1. What is the unit of force?
+A) Joule
+B) Newton ✓
+C) Watt'),
+  ('Quiz with no content', NULL);
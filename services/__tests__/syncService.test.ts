@@ -0,0 +1,93 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { runMigrations } from '../databaseMigrations';
+import { addNote, getSyncOutboxCount, getSyncState, setSyncState, updateNote } from '../historyStorage';
+import { getSyncChangesOnline, upsertSyncRecordOnline } from '../onlineStorage';
+import syncService from '../syncService';
+import { openMemoryDatabase } from '../../test-utils/memoryDatabase';
+import { supabase } from '../../utils/supabase';
+
+// Runs the sync service against the real local storage (on an in-memory
+// database) with Supabase mocked out, and checks what it pushes for whom.
+
+let mockDatabase: SQLiteDatabase;
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: async () => mockDatabase,
+}));
+
+jest.mock('../../utils/supabase', () => ({
+  supabase: { auth: { getSession: jest.fn() } },
+}));
+
+jest.mock('../onlineStorage', () => ({
+  getSyncChangesOnline: jest.fn(async () => []),
+  markSyncRecordDeletedOnline: jest.fn(async () => {}),
+  upsertSyncRecordOnline: jest.fn(async () => {}),
+}));
+
+const signIn = (userId: string) => {
+  jest.mocked(supabase.auth.getSession).mockResolvedValue({ data: { session: { user: { id: userId } } } } as any);
+};
+
+const pushedTitles = () => jest.mocked(upsertSyncRecordOnline).mock.calls.map(([, record]) => record.title);
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  mockDatabase = openMemoryDatabase();
+  await runMigrations(mockDatabase);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+beforeEach(() => {
+  jest.mocked(upsertSyncRecordOnline).mockClear();
+  jest.mocked(getSyncChangesOnline).mockClear();
+});
+
+// The sync runs right after each sign-in, as it does on SIGNED_IN in the app.
+// The steps build on each other.
+describe('syncService account changes', () => {
+  let noteOfA: number;
+
+  it('keeps the previous account\'s rows and unsynced changes away from a new account', async () => {
+    signIn('user-a');
+    await syncService.syncNow();
+    noteOfA = await addNote('Synced for A', 'A');
+    await syncService.syncNow();
+    expect(pushedTitles()).toEqual(['Synced for A']);
+    await setSyncState('cursor:notes', '2024-03-01T09:00:00.000Z');
+
+    // A's change that never reached the server, then B signs in
+    await addNote('Unsynced for A', 'A');
+    signIn('user-b');
+    jest.mocked(upsertSyncRecordOnline).mockClear();
+    await syncService.syncNow();
+
+    expect(pushedTitles()).toEqual([]);
+    expect(await getSyncOutboxCount()).toBe(0);
+    expect(jest.mocked(getSyncChangesOnline)).toHaveBeenCalledWith('notes', null, expect.any(Number));
+  });
+
+  it('pushes only the signed-in account\'s rows', async () => {
+    // B's edit to A's note stays on the device
+    await updateNote(noteOfA, 'Edited by B', 'B');
+    await addNote('Made by B', 'B');
+    await syncService.syncNow();
+    expect(pushedTitles()).toEqual(['Made by B']);
+    expect(await getSyncOutboxCount()).toBe(0);
+  });
+
+  it('pushes the rows of an account that signs back in', async () => {
+    signIn('user-a');
+    await syncService.syncNow();
+    expect(await getSyncState('userId')).toBe('user-a');
+
+    await updateNote(noteOfA, 'Back to A', 'A');
+    await syncService.syncNow();
+    expect(pushedTitles()).toEqual(['Back to A']);
+  });
+});
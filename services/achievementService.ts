@@ -0,0 +1,157 @@
+import {
+  ACHIEVEMENTS,
+  AchievementEvent,
+  AchievementRule,
+  activeDayFor,
+  applyEvent,
+  Counters,
+  EMPTY_COUNTERS,
+  reachedAchievements,
+  STORED_COUNTERS,
+  streakStats,
+  StreakStats,
+} from '../utils/achievements';
+import { localDay } from '../utils/studyTimer';
+import {
+  addActiveDay,
+  addEarnedAchievements,
+  CreatedItem,
+  getAchievementCounters,
+  getActiveDays,
+  getEarnedAchievements,
+  onItemCreated,
+  setAchievementCounters,
+} from './historyStorage';
+
+export interface AchievementProgress extends AchievementRule {
+  progress: number;
+  earnedAt: string | null;
+}
+
+export interface AchievementStatus {
+  achievements: AchievementProgress[];
+  currentStreak: number;
+  longestStreak: number;
+  daysActive: number;
+  studySeconds: number;
+}
+
+const eventForItem = (item: CreatedItem): AchievementEvent | null => {
+  switch (item.kind) {
+    case 'note':
+    case 'scan-note':
+      return { type: 'note-created' };
+    case 'flash-card-set':
+      return { type: 'flash-card-set-created' };
+    case 'history':
+      return item.feature === 'ai-scan' ? { type: 'scan' } : null;
+    case 'study-session':
+      return { type: 'study-session', day: item.day, seconds: item.seconds };
+  }
+};
+
+// Applies achievement events to the stored counters as they happen and
+// announces newly unlocked achievements. Work is queued so two events never
+// read and write the counters at the same time.
+class AchievementService {
+  private static instance: AchievementService;
+  private isStarted = false;
+  private listeners = new Set<(unlocked: AchievementRule[]) => void>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  static getInstance(): AchievementService {
+    if (!AchievementService.instance) {
+      AchievementService.instance = new AchievementService();
+    }
+    return AchievementService.instance;
+  }
+
+  start() {
+    if (this.isStarted) return;
+    this.isStarted = true;
+    onItemCreated(item => {
+      const event = eventForItem(item);
+      if (event) this.record(event);
+    });
+    console.log('AchievementService: Started');
+  }
+
+  // Listeners get the achievements each event unlocked
+  subscribe(listener: (unlocked: AchievementRule[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Resolves with the achievements this event unlocked
+  record(event: AchievementEvent): Promise<AchievementRule[]> {
+    return this.enqueue(async () => {
+      try {
+        const { counters } = await this.loadCounters();
+        const next = applyEvent(counters, event);
+        const changed = Object.fromEntries(
+          STORED_COUNTERS.filter(key => next[key] !== counters[key]).map(key => [key, next[key]])
+        );
+        if (Object.keys(changed).length > 0) await setAchievementCounters(changed);
+        const day = activeDayFor(event, localDay());
+        if (day) await addActiveDay(day);
+
+        const unlocked = await this.markReached((await this.loadCounters()).counters);
+        if (unlocked.length > 0) this.listeners.forEach(listener => listener(unlocked));
+        return unlocked;
+      } catch (error) {
+        console.error('AchievementService: Failed to record event:', event.type, error);
+        return [];
+      }
+    });
+  }
+
+  getStatus(): Promise<AchievementStatus> {
+    return this.enqueue(async () => {
+      const { counters, streak } = await this.loadCounters();
+      // Counters seeded from existing data can already be past a target;
+      // those are earned quietly rather than announced
+      await this.markReached(counters);
+      const earned = new Map((await getEarnedAchievements()).map(row => [row.id, row.earnedAt]));
+      return {
+        achievements: ACHIEVEMENTS.map(rule => ({
+          ...rule,
+          progress: Math.min(counters[rule.counter], rule.target),
+          earnedAt: earned.get(rule.id) ?? null,
+        })),
+        currentStreak: streak.currentStreak,
+        longestStreak: streak.longestStreak,
+        daysActive: streak.daysActive,
+        studySeconds: counters['study-seconds'],
+      };
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  // Stored counters, with the streak counters measured from the active days
+  private async loadCounters(): Promise<{ counters: Counters; streak: StreakStats }> {
+    const stored = await getAchievementCounters();
+    const streak = streakStats(await getActiveDays(), localDay());
+    const counters = { ...EMPTY_COUNTERS };
+    for (const key of STORED_COUNTERS) counters[key] = stored[key] ?? 0;
+    counters['days-active'] = streak.daysActive;
+    counters['streak-longest'] = streak.longestStreak;
+    return { counters, streak };
+  }
+
+  // Stores reached achievements that weren't earned yet and returns them
+  private async markReached(counters: Counters): Promise<AchievementRule[]> {
+    const earned = new Set((await getEarnedAchievements()).map(row => row.id));
+    const reached = reachedAchievements(counters).filter(rule => !earned.has(rule.id));
+    if (reached.length > 0) await addEarnedAchievements(reached.map(rule => rule.id));
+    return reached;
+  }
+}
+
+export default AchievementService.getInstance();
@@ -0,0 +1,597 @@
+import axios from 'axios';
+import { PdfOutlineEntry } from '../utils/pdfImport';
+import { QuizDocument, toQuizDocument } from '../utils/quizFormat';
+import { TranslationResult } from '../utils/translation';
+import { generateUUID } from '../utils/uuid';
+
+// Typed client for the Supabase Edge Functions that front Gemini. Every route
+// has a contract (request/response shape, timeout, retry budget, validation),
+// and every failure surfaces as one of the AIGatewayError subclasses below so
+// callers can tell a dropped connection from an exhausted quota.
+
+const SUPABASE_BASE_URL = process.env.EXPO_PUBLIC_SUPABASE_URL_FUNCTIONS;
+const SUPABASE_BEARER_TOKEN = process.env.EXPO_PUBLIC_SUPABASE_BEARER_TOKEN;
+
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 8000;
+
+// --- Errors ---
+
+export type AIGatewayErrorKind = 'network' | 'auth' | 'quota' | 'invalid-response' | 'service' | 'cancelled';
+
+export class AIGatewayError extends Error {
+  readonly kind: AIGatewayErrorKind;
+  readonly route: AIRoute;
+  readonly requestId: string;
+  readonly status?: number;
+  readonly retryable: boolean;
+
+  constructor(
+    kind: AIGatewayErrorKind,
+    message: string,
+    details: { route: AIRoute; requestId: string; status?: number; retryable?: boolean }
+  ) {
+    super(message);
+    this.name = 'AIGatewayError';
+    this.kind = kind;
+    this.route = details.route;
+    this.requestId = details.requestId;
+    this.status = details.status;
+    this.retryable = details.retryable ?? false;
+  }
+}
+
+type ErrorDetails = ConstructorParameters<typeof AIGatewayError>[2];
+
+// No response at all: offline, DNS, TLS or the request timed out
+export class AINetworkError extends AIGatewayError {
+  constructor(details: ErrorDetails, readonly timedOut = false) {
+    super(
+      'network',
+      timedOut
+        ? 'The AI service took too long to respond. Please try again.'
+        : 'Network error: Please check your internet connection and try again.',
+      { ...details, retryable: true }
+    );
+    this.name = 'AINetworkError';
+  }
+}
+
+export class AIAuthError extends AIGatewayError {
+  constructor(details: ErrorDetails) {
+    super('auth', 'Authentication error: Please sign in again and retry.', details);
+    this.name = 'AIAuthError';
+  }
+}
+
+// Rate limits and exhausted model quota (HTTP 402/429)
+export class AIQuotaError extends AIGatewayError {
+  constructor(details: ErrorDetails) {
+    super('quota', 'The AI service is busy right now. Please wait a moment and try again.', details);
+    this.name = 'AIQuotaError';
+  }
+}
+
+// The function answered, but not with something the contract accepts
+export class AIInvalidResponseError extends AIGatewayError {
+  constructor(details: ErrorDetails) {
+    super('invalid-response', 'The AI returned an unexpected response. Please try again.', details);
+    this.name = 'AIInvalidResponseError';
+  }
+}
+
+// Any other HTTP failure; 5xx responses are worth retrying, 4xx are not
+export class AIServiceError extends AIGatewayError {
+  constructor(details: ErrorDetails) {
+    super(
+      'service',
+      details.status === 404
+        ? 'Service not found: Edge function may not be deployed.'
+        : 'The AI service is unavailable. Please try again later.',
+      { ...details, retryable: (details.status ?? 0) >= 500 }
+    );
+    this.name = 'AIServiceError';
+  }
+}
+
+export class AIRequestCancelledError extends AIGatewayError {
+  constructor(details: ErrorDetails) {
+    super('cancelled', 'The request was cancelled.', details);
+    this.name = 'AIRequestCancelledError';
+  }
+}
+
+export const isAIGatewayError = (error: unknown): error is AIGatewayError => error instanceof AIGatewayError;
+
+// User-facing text for a failed AI call; anything that isn't a gateway error
+// gets the caller's fallback so raw exceptions never reach an Alert.
+export const getAIErrorMessage = (error: unknown, fallback: string): string =>
+  isAIGatewayError(error) && error.kind !== 'invalid-response' && error.kind !== 'service'
+    ? error.message
+    : fallback;
+
+// --- Contracts ---
+
+export type QuizType = 'multiple-choice' | 'true-false' | 'fill-blank';
+export type FlashCardType = 'term-definition' | 'question-answer';
+export type MindMapMode = 'topic' | 'notes';
+
+export interface AIEndpoints {
+  'process-image': {
+    request: { imageBase64: string };
+    response: { text: string };
+  };
+  'get-image-answer': {
+    request: { imageBase64: string; feature: string };
+    response: { text: string; answer: string };
+  };
+  // Text of each page in order (scanned pages are OCRed), plus the bookmarks
+  'extract-pdf': {
+    request: { pdfBase64: string };
+    response: { pages: string[]; outline: PdfOutlineEntry[] };
+  };
+  // Speech to text for a recorded voice note
+  'transcribe-audio': {
+    request: { audioBase64: string; mimeType: string };
+    response: { transcript: string };
+  };
+  // sourceLanguage is null to have it detected
+  'translate-text': {
+    request: { text: string; sourceLanguage: string | null; targetLanguage: string };
+    response: TranslationResult;
+  };
+  getAnswerFromGemini: {
+    request: { extractedText: string; feature: string };
+    response: { answer: string };
+  };
+  genrateQuizFromNotes: {
+    request: { notesContent: string; quizType: QuizType };
+    response: { quiz: QuizDocument };
+  };
+  genrateFlashCardFromNotes: {
+    request: { notesContent: string; cardType: FlashCardType };
+    response: { flashcards: string };
+  };
+  enhancenotes: {
+    request: { notesContent: string };
+    response: { enhancedNotes: string };
+  };
+  generateMindMapFromNotes: {
+    request: { notesContent: string; mode: MindMapMode };
+    // A JSON object, a JSON string or a plain-text outline
+    response: { mindmap: unknown };
+  };
+}
+
+export type AIRoute = keyof AIEndpoints;
+export type AIRequest<R extends AIRoute> = AIEndpoints[R]['request'];
+export type AIResponse<R extends AIRoute> = AIEndpoints[R]['response'];
+
+interface EndpointContract<R extends AIRoute> {
+  timeoutMs: number;
+  retries: number;
+  // Returns the typed response, or null when the payload breaks the contract
+  parse: (data: any) => AIResponse<R> | null;
+}
+
+const nonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const ENDPOINTS: { [R in AIRoute]: EndpointContract<R> } = {
+  'process-image': {
+    timeoutMs: 60000,
+    retries: 2,
+    parse: data => (nonEmptyString(data?.text) ? { text: data.text } : null),
+  },
+  'get-image-answer': {
+    timeoutMs: 60000,
+    retries: 2,
+    parse: data =>
+      nonEmptyString(data?.text) && nonEmptyString(data?.answer) ? { text: data.text, answer: data.answer } : null,
+  },
+  'extract-pdf': {
+    timeoutMs: 180000,
+    retries: 1,
+    parse: data => {
+      if (!Array.isArray(data?.pages) || !data.pages.some(nonEmptyString)) return null;
+      const outline = Array.isArray(data.outline)
+        ? data.outline.filter((entry: any) => nonEmptyString(entry?.title) && Number.isInteger(entry?.page))
+        : [];
+      return { pages: data.pages.map((page: unknown) => (typeof page === 'string' ? page : '')), outline };
+    },
+  },
+  'transcribe-audio': {
+    timeoutMs: 180000,
+    retries: 1,
+    // Silence transcribes to an empty string, which the caller reports itself
+    parse: data => (typeof data?.transcript === 'string' ? { transcript: data.transcript } : null),
+  },
+  'translate-text': {
+    timeoutMs: 60000,
+    retries: 2,
+    parse: data => {
+      if (!Array.isArray(data?.segments)) return null;
+      const segments = data.segments.filter(
+        (segment: any) => nonEmptyString(segment?.source) && nonEmptyString(segment?.translation)
+      );
+      if (segments.length === 0) return null;
+      const vocabulary = Array.isArray(data.vocabulary)
+        ? data.vocabulary
+            .filter((item: any) => nonEmptyString(item?.term) && nonEmptyString(item?.translation))
+            .map((item: any) => ({
+              term: item.term,
+              translation: item.translation,
+              explanation: typeof item.explanation === 'string' ? item.explanation : '',
+            }))
+        : [];
+      return {
+        sourceLanguage: nonEmptyString(data.sourceLanguage) ? data.sourceLanguage : 'Original',
+        segments: segments.map((segment: any) => ({ source: segment.source, translation: segment.translation })),
+        vocabulary,
+      };
+    },
+  },
+  getAnswerFromGemini: {
+    timeoutMs: 30000,
+    retries: 2,
+    parse: data => (nonEmptyString(data?.answer) ? { answer: data.answer } : null),
+  },
+  genrateQuizFromNotes: {
+    timeoutMs: 60000,
+    retries: 1,
+    // The function may answer with a quiz document or the older text format
+    parse: data => {
+      const quiz = data?.quiz ? toQuizDocument(data.quiz) : null;
+      return quiz && quiz.questions.length > 0 ? { quiz } : null;
+    },
+  },
+  genrateFlashCardFromNotes: {
+    timeoutMs: 60000,
+    retries: 1,
+    parse: data => (nonEmptyString(data?.flashcards) ? { flashcards: data.flashcards } : null),
+  },
+  enhancenotes: {
+    timeoutMs: 60000,
+    retries: 1,
+    parse: data => (nonEmptyString(data?.enhancedNotes) ? { enhancedNotes: data.enhancedNotes } : null),
+  },
+  generateMindMapFromNotes: {
+    timeoutMs: 30000,
+    retries: 1,
+    parse: data => (data?.mindmap ? { mindmap: data.mindmap } : null),
+  },
+};
+
+// --- Client ---
+
+// One billable gateway request under a credit reservation. The reference is
+// the reservation id and the request's number, sent as X-Credit-Reservation
+// so the gateway can tell separate requests from retries of the same one.
+export interface CreditRequest {
+  reference: string;
+  // Called once the request has a usable answer
+  complete: () => void;
+}
+
+// Credit reservation paying for the call; see subscriptionService.runWithCredits.
+// Requests that never complete are given back when the call ends.
+export interface CreditCharge {
+  startRequest: () => CreditRequest;
+}
+
+export interface AIRequestOptions {
+  signal?: AbortSignal;
+  credits?: CreditCharge;
+  // Overrides for the route's contract
+  timeoutMs?: number;
+  retries?: number;
+}
+
+const errorForStatus = (status: number, route: AIRoute, requestId: string): AIGatewayError => {
+  if (status === 401 || status === 403) return new AIAuthError({ route, requestId, status });
+  if (status === 402 || status === 429) return new AIQuotaError({ route, requestId, status });
+  if (status === 408) return new AINetworkError({ route, requestId, status }, true);
+  return new AIServiceError({ route, requestId, status });
+};
+
+const toGatewayError = (error: unknown, route: AIRoute, requestId: string, signal?: AbortSignal): AIGatewayError => {
+  if (error instanceof AIGatewayError) return error;
+  if (signal?.aborted || axios.isCancel(error)) {
+    return new AIRequestCancelledError({ route, requestId });
+  }
+  if (axios.isAxiosError(error)) {
+    const status = error.response?.status;
+    if (status === undefined) {
+      const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT';
+      return new AINetworkError({ route, requestId }, timedOut);
+    }
+    return errorForStatus(status, route, requestId);
+  }
+  return new AIServiceError({ route, requestId });
+};
+
+// Full jitter: a random delay up to the exponential cap, so clients that
+// failed together don't retry together.
+const backoffDelay = (attempt: number) =>
+  Math.random() * Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new axios.CanceledError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new axios.CanceledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Sends one logical request, retrying transient failures with the same
+// request ID and credit reference so server logs can tie the attempts together
+// and retries aren't billed twice. Payloads are never logged; they carry whole
+// images and the user's notes.
+export const callAIGateway = async <R extends AIRoute>(
+  route: R,
+  body: AIRequest<R>,
+  options: AIRequestOptions = {}
+): Promise<AIResponse<R>> => {
+  const contract = ENDPOINTS[route] as EndpointContract<R>;
+  const retries = options.retries ?? contract.retries;
+  const requestId = generateUUID();
+  const creditRequest = options.credits?.startRequest();
+
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      const response = await axios.post(`${SUPABASE_BASE_URL}/${route}`, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${SUPABASE_BEARER_TOKEN}`,
+          'X-Request-Id': requestId,
+          ...(creditRequest ? { 'X-Credit-Reservation': creditRequest.reference } : {}),
+        },
+        timeout: options.timeoutMs ?? contract.timeoutMs,
+        signal: options.signal,
+      });
+
+      const parsed = contract.parse(response.data);
+      if (!parsed) {
+        throw new AIInvalidResponseError({ route, requestId, status: response.status });
+      }
+      creditRequest?.complete();
+      console.log(`AI_GATEWAY: ${route} [${requestId}] ${response.status} in ${Date.now() - startedAt}ms`);
+      return parsed;
+    } catch (error) {
+      const gatewayError = toGatewayError(error, route, requestId, options.signal);
+      console.warn(
+        `AI_GATEWAY: ${route} [${requestId}] attempt ${attempt + 1} failed (${gatewayError.kind}` +
+          `${gatewayError.status ? ` ${gatewayError.status}` : ''}) after ${Date.now() - startedAt}ms`
+      );
+      if (!gatewayError.retryable || attempt >= retries) throw gatewayError;
+
+      try {
+        await wait(backoffDelay(attempt), options.signal);
+      } catch {
+        throw new AIRequestCancelledError({ route, requestId });
+      }
+    }
+  }
+};
+
+// --- Streaming ---
+
+// Routes that can answer as a server-sent event stream when the request has
+// `stream: true`. Each event is `data: {"delta": "..."}` and the stream ends
+// with `data: [DONE]`; a function that doesn't stream yet answers with the
+// usual JSON body, which is delivered as a single delta.
+const STREAM_ROUTES = {
+  getAnswerFromGemini: (response: AIResponse<'getAnswerFromGemini'>) => response.answer,
+};
+
+export type AIStreamRoute = keyof typeof STREAM_ROUTES;
+
+// complete: the server finished the answer
+// stopped: the caller aborted after text had arrived
+// interrupted: the connection failed after text had arrived
+export type AIStreamStatus = 'complete' | 'stopped' | 'interrupted';
+
+export interface AIStreamResult {
+  text: string;
+  status: AIStreamStatus;
+  requestId: string;
+  error?: AIGatewayError;
+}
+
+export interface AIStreamOptions extends AIRequestOptions {
+  onText: (text: string) => void;
+}
+
+type StreamEvent = { delta?: string; error?: string };
+
+// Splits SSE chunks into `data:` payloads; chunks may end mid-line
+const createEventParser = (onData: (data: string) => void) => {
+  let buffer = '';
+  return (chunk: string) => {
+    buffer += chunk;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.startsWith('data:')) onData(line.slice(5).trim());
+    }
+  };
+};
+
+// One streaming attempt over XMLHttpRequest, since React Native's fetch can't
+// read a response body incrementally. The timeout is an idle timeout: it only
+// fires when no bytes arrive for that long, so long answers aren't cut off.
+const openStream = (
+  route: AIStreamRoute,
+  body: object,
+  requestId: string,
+  timeoutMs: number,
+  onDelta: (delta: string) => void,
+  signal?: AbortSignal,
+  creditReference?: string
+) =>
+  new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let received = 0;
+    let done = false;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (error?: AIGatewayError) => {
+      if (done) return;
+      done = true;
+      clearTimeout(idleTimer);
+      signal?.removeEventListener('abort', onAbort);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onAbort = () => {
+      xhr.abort();
+      finish(new AIRequestCancelledError({ route, requestId }));
+    };
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        xhr.abort();
+        finish(new AINetworkError({ route, requestId }, true));
+      }, timeoutMs);
+    };
+
+    const isEventStream = () => (xhr.getResponseHeader('Content-Type') ?? '').includes('text/event-stream');
+    const parse = createEventParser(data => {
+      if (data === '[DONE]') return;
+      let event: StreamEvent;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        return;
+      }
+      if (event.error) {
+        xhr.abort();
+        finish(new AIServiceError({ route, requestId, status: 500 }));
+      } else if (event.delta) {
+        onDelta(event.delta);
+      }
+    });
+    const readNewText = () => {
+      const chunk = xhr.responseText.slice(received);
+      received = xhr.responseText.length;
+      if (chunk) parse(chunk);
+    };
+
+    xhr.onprogress = () => {
+      resetIdleTimer();
+      if (xhr.status >= 200 && xhr.status < 300 && isEventStream()) readNewText();
+    };
+    xhr.onload = () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        finish(errorForStatus(xhr.status, route, requestId));
+        return;
+      }
+      if (isEventStream()) {
+        readNewText();
+        parse('\n');
+        finish();
+        return;
+      }
+      let data: unknown;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        data = null;
+      }
+      const parsed = ENDPOINTS[route].parse(data);
+      if (!parsed) {
+        finish(new AIInvalidResponseError({ route, requestId, status: xhr.status }));
+        return;
+      }
+      onDelta(STREAM_ROUTES[route](parsed));
+      finish();
+    };
+    xhr.onerror = () => finish(new AINetworkError({ route, requestId }));
+
+    if (signal?.aborted) {
+      finish(new AIRequestCancelledError({ route, requestId }));
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    xhr.open('POST', `${SUPABASE_BASE_URL}/${route}`);
+    xhr.setRequestHeader('Content-Type', 'application/json');
+    xhr.setRequestHeader('Accept', 'text/event-stream');
+    xhr.setRequestHeader('Authorization', `Bearer ${SUPABASE_BEARER_TOKEN}`);
+    xhr.setRequestHeader('X-Request-Id', requestId);
+    if (creditReference) xhr.setRequestHeader('X-Credit-Reservation', creditReference);
+    resetIdleTimer();
+    xhr.send(JSON.stringify({ ...body, stream: true }));
+  });
+
+// Streams an answer, calling onText with the text so far as it grows.
+// Failures before the first token are retried like callAIGateway and thrown
+// as typed errors. Once text has arrived nothing is retried or thrown: the
+// partial answer comes back with status 'stopped' or 'interrupted' so the
+// caller can keep it.
+export const streamAIGateway = async <R extends AIStreamRoute>(
+  route: R,
+  body: AIRequest<R>,
+  options: AIStreamOptions
+): Promise<AIStreamResult> => {
+  const contract = ENDPOINTS[route];
+  const retries = options.retries ?? contract.retries;
+  const requestId = generateUUID();
+  const creditRequest = options.credits?.startRequest();
+  let text = '';
+
+  for (let attempt = 0; ; attempt++) {
+    const startedAt = Date.now();
+    try {
+      await openStream(
+        route,
+        body,
+        requestId,
+        options.timeoutMs ?? contract.timeoutMs,
+        delta => {
+          text += delta;
+          options.onText(text);
+        },
+        options.signal,
+        creditRequest?.reference
+      );
+      if (!text.trim()) {
+        throw new AIInvalidResponseError({ route, requestId });
+      }
+      creditRequest?.complete();
+      console.log(`AI_GATEWAY: ${route} [${requestId}] streamed ${text.length} chars in ${Date.now() - startedAt}ms`);
+      return { text, status: 'complete', requestId };
+    } catch (error) {
+      const gatewayError = toGatewayError(error, route, requestId, options.signal);
+      console.warn(
+        `AI_GATEWAY: ${route} [${requestId}] stream attempt ${attempt + 1} failed (${gatewayError.kind}` +
+          `${gatewayError.status ? ` ${gatewayError.status}` : ''}) after ${text.length} chars`
+      );
+      if (text.trim()) {
+        creditRequest?.complete();
+        return {
+          text,
+          status: gatewayError.kind === 'cancelled' ? 'stopped' : 'interrupted',
+          requestId,
+          error: gatewayError,
+        };
+      }
+      if (!gatewayError.retryable || attempt >= retries) throw gatewayError;
+
+      try {
+        await wait(backoffDelay(attempt), options.signal);
+      } catch {
+        throw new AIRequestCancelledError({ route, requestId });
+      }
+    }
+  }
+};
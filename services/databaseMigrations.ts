@@ -0,0 +1,701 @@
+import type { SQLiteDatabase } from 'expo-sqlite';
+import { generateUUID } from '../utils/uuid';
+
+// Numbered schema migrations for the local database. The last applied version
+// is stored in `PRAGMA user_version` and each step runs in its own transaction,
+// so a failing step rolls back on its own and leaves every table in place.
+//
+// Databases from older app versions were built by ad-hoc init code and may be
+// anywhere between these steps, so every step must be safe to re-run
+// (IF NOT EXISTS, addColumnIfMissing, ...). Released steps are never edited;
+// schema changes get a new step at the end of the list.
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: SQLiteDatabase) => Promise<void>;
+}
+
+// Columns of the tables as the first released versions created them
+const BASE_TABLES: Record<string, { name: string; type: string }[]> = {
+  history: [
+    { name: 'imageUri', type: 'TEXT' },
+    { name: 'feature', type: 'TEXT' },
+    { name: 'extractedText', type: 'TEXT' },
+    { name: 'aiAnswer', type: 'TEXT' },
+    { name: 'createdAt', type: 'TEXT' },
+  ],
+  notes: [
+    { name: 'title', type: 'TEXT' },
+    { name: 'content', type: 'TEXT' },
+    { name: 'createdAt', type: 'TEXT' },
+  ],
+  scan_notes: [
+    { name: 'title', type: 'TEXT' },
+    { name: 'content', type: 'TEXT' },
+    { name: 'createdAt', type: 'TEXT' },
+  ],
+  quiz_maker: [
+    { name: 'title', type: 'TEXT' },
+    { name: 'content', type: 'TEXT' },
+    { name: 'quiz_type', type: 'TEXT' },
+    { name: 'source_note_id', type: 'INTEGER' },
+    { name: 'source_note_type', type: 'TEXT' },
+    { name: 'createdAt', type: 'TEXT' },
+  ],
+  flash_card_sets: [
+    { name: 'title', type: 'TEXT' },
+    { name: 'content', type: 'TEXT' },
+    { name: 'card_type', type: 'TEXT' },
+    { name: 'source_note_id', type: 'INTEGER' },
+    { name: 'source_note_type', type: 'TEXT' },
+    { name: 'createdAt', type: 'TEXT' },
+  ],
+  mind_maps: [
+    { name: 'title', type: 'TEXT' },
+    { name: 'content', type: 'TEXT' },
+    { name: 'source_note_id', type: 'INTEGER' },
+    { name: 'source_note_type', type: 'TEXT' },
+    { name: 'createdAt', type: 'TEXT' },
+  ],
+};
+
+const SYNCED_TABLES = ['notes', 'scan_notes', 'quiz_maker', 'flash_card_sets', 'mind_maps', 'history'];
+
+// Plain text of a JSON document (quizzes, mind maps): its string values minus ids and type tags
+const jsonText = (column: string) =>
+  `CASE WHEN json_valid(${column}) THEN (SELECT group_concat(atom, ' ') FROM json_tree(${column}) ` +
+  `WHERE type = 'text' AND key NOT IN ('id', 'type')) ELSE ${column} END`;
+
+// What the global search index covers for each table. Index rowids are
+// `id * 8 + typeIndex`, so the triggers can replace a row's entry directly.
+const SEARCH_SOURCES: {
+  table: string;
+  type: string;
+  typeIndex: number;
+  title: (column: (name: string) => string) => string;
+  body: (column: (name: string) => string) => string;
+}[] = [
+  { table: 'notes', type: 'note', typeIndex: 1, title: c => c('title'), body: c => c('content') },
+  { table: 'scan_notes', type: 'scan-note', typeIndex: 2, title: c => c('title'), body: c => c('content') },
+  { table: 'quiz_maker', type: 'quiz', typeIndex: 3, title: c => c('title'), body: c => jsonText(c('content')) },
+  {
+    table: 'flash_card_sets',
+    type: 'flash-cards',
+    typeIndex: 4,
+    title: c => c('title'),
+    body: c => `replace(replace(replace(${c('content')}, 'FRONT:', ''), 'BACK:', ''), '---', '')`,
+  },
+  { table: 'mind_maps', type: 'mind-map', typeIndex: 5, title: c => c('title'), body: c => jsonText(c('content')) },
+  {
+    table: 'history',
+    type: 'history',
+    typeIndex: 6,
+    title: c => `COALESCE(NULLIF(substr(${c('extractedText')}, 1, 80), ''), ${c('feature')})`,
+    body: c => `COALESCE(${c('extractedText')}, '') || char(10) || COALESCE(${c('aiAnswer')}, '')`,
+  },
+];
+
+// The quiz text parser of utils/quizFormat as it was when step 4 shipped,
+// written out here so later parser changes don't change what the step writes.
+// Only the text path is kept: rows that are already documents are skipped.
+interface V4QuizQuestion {
+  id: string;
+  type: 'multiple-choice' | 'true-false' | 'fill-blank';
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  answerText?: string;
+  explanation?: string;
+}
+
+const V4_QUESTION_RE = /^(?:Q(?:uestion)?\s*)?(\d+)\s*[.):]\s*(.+)$/i;
+const V4_OPTION_RE = /^\(?([A-F]|[a-f](?=\)))\s*[).:]\s*(.+)$/;
+const V4_ANSWERS_HEADER_RE = /^\**\s*(?:answers?|answer key)\s*:?\s*\**$/i;
+const V4_CORRECT_LINE_RE = /^\(?\s*(?:correct\s+)?answer\s*:\s*(.+?)\)?$/i;
+const V4_EXPLANATION_RE = /^\(?\s*explanation\s*:\s*(.+?)\)?$/i;
+const V4_CORRECT_MARK_RE = /\s*(?:✓|✔|\(correct\))\s*$/i;
+
+const isV4QuizDocument = (content: string): boolean => {
+  if (!content.trim().startsWith('{')) return false;
+  try {
+    const parsed = JSON.parse(content);
+    return typeof parsed?.version === 'number' && Array.isArray(parsed?.questions);
+  } catch {
+    return false;
+  }
+};
+
+const inferV4QuestionType = (options: string[]): V4QuizQuestion['type'] => {
+  if (options.length === 0) return 'fill-blank';
+  if (options.length === 2 && options[0].trim().toLowerCase() === 'true' && options[1].trim().toLowerCase() === 'false') {
+    return 'true-false';
+  }
+  return 'multiple-choice';
+};
+
+const applyV4Answer = (question: V4QuizQuestion, value: string) => {
+  const answer = value.replace(V4_CORRECT_MARK_RE, '').trim();
+  if (!answer) return;
+
+  const letterMatch = answer.match(/^\(?([A-Fa-f])(?:\s*[).:]\s*(.*)|\s*)$/);
+  if (letterMatch && question.options.length > 0) {
+    const index = letterMatch[1].toUpperCase().charCodeAt(0) - 65;
+    if (index < question.options.length) {
+      question.correctAnswer = index;
+      return;
+    }
+  }
+
+  const optionIndex = question.options.findIndex(o => o.trim().toLowerCase() === answer.toLowerCase());
+  if (optionIndex !== -1) {
+    question.correctAnswer = optionIndex;
+    return;
+  }
+
+  if (question.options.length === 0) {
+    question.answerText = answer;
+  }
+};
+
+// Questions without an answer line or mark were stored with option A correct
+const parseV4QuizText = (content: string): V4QuizQuestion[] => {
+  const questions: V4QuizQuestion[] = [];
+  const answerKey = new Map<number, string>();
+  let current: V4QuizQuestion | null = null;
+  let inAnswerKey = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.replace(/\*\*/g, '').trim();
+    if (!trimmed) continue;
+
+    if (V4_ANSWERS_HEADER_RE.test(trimmed)) {
+      inAnswerKey = true;
+      continue;
+    }
+
+    if (inAnswerKey) {
+      const keyMatch = trimmed.match(/^(?:Q(?:uestion)?\s*)?(\d+)\s*[.):-]\s*(.+)$/i);
+      if (keyMatch) answerKey.set(Number(keyMatch[1]), keyMatch[2]);
+      continue;
+    }
+
+    const questionMatch = trimmed.match(V4_QUESTION_RE);
+    if (questionMatch) {
+      current = {
+        id: `q${questions.length + 1}`,
+        type: 'multiple-choice',
+        question: questionMatch[2].trim(),
+        options: [],
+        correctAnswer: 0,
+      };
+      questions.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const correctMatch = trimmed.match(V4_CORRECT_LINE_RE);
+    if (correctMatch) {
+      applyV4Answer(current, correctMatch[1]);
+      continue;
+    }
+
+    const explanationMatch = trimmed.match(V4_EXPLANATION_RE);
+    if (explanationMatch) {
+      current.explanation = explanationMatch[1].trim();
+      continue;
+    }
+
+    const optionMatch = trimmed.match(V4_OPTION_RE);
+    if (optionMatch) {
+      const index = optionMatch[1].toUpperCase().charCodeAt(0) - 65;
+      let optionText = optionMatch[2].trim();
+      if (V4_CORRECT_MARK_RE.test(optionText)) {
+        optionText = optionText.replace(V4_CORRECT_MARK_RE, '');
+        current.correctAnswer = index;
+      }
+      current.options[index] = optionText;
+      continue;
+    }
+
+    // Wrapped question text before any options
+    if (current.options.length === 0) {
+      current.question = `${current.question} ${trimmed}`;
+    }
+  }
+
+  questions.forEach((question, index) => {
+    question.options = Array.from(question.options, o => o ?? '');
+    const key = answerKey.get(index + 1);
+    if (key) applyV4Answer(question, key);
+    question.type = inferV4QuestionType(question.options);
+    if (question.type === 'fill-blank') question.correctAnswer = -1;
+  });
+
+  return questions;
+};
+
+const getColumnNames = async (db: SQLiteDatabase, table: string): Promise<string[]> => {
+  const tableInfo = await db.getAllAsync(`PRAGMA table_info(${table});`);
+  return tableInfo.map((column: any) => column.name);
+};
+
+const addColumnIfMissing = async (db: SQLiteDatabase, table: string, column: string, type: string) => {
+  const existingColumns = await getColumnNames(db, table);
+  if (!existingColumns.includes(column)) {
+    console.log(`DATABASE: Adding missing column ${table}.${column}`);
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${type};`);
+  }
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create base tables',
+    up: async db => {
+      for (const [table, columns] of Object.entries(BASE_TABLES)) {
+        const columnSql = columns.map(column => `${column.name} ${column.type}`).join(', ');
+        await db.execAsync(
+          `CREATE TABLE IF NOT EXISTS ${table} (id INTEGER PRIMARY KEY AUTOINCREMENT, ${columnSql});`
+        );
+      }
+    },
+  },
+  {
+    version: 2,
+    name: 'Add columns missing from early builds',
+    up: async db => {
+      for (const [table, columns] of Object.entries(BASE_TABLES)) {
+        for (const column of columns) {
+          await addColumnIfMissing(db, table, column.name, column.type);
+        }
+      }
+      // quiz_maker rows from before quiz types existed
+      await db.runAsync("UPDATE quiz_maker SET content = COALESCE(title, '') WHERE content IS NULL OR content = '';");
+      await db.runAsync("UPDATE quiz_maker SET quiz_type = 'multiple-choice' WHERE quiz_type IS NULL OR quiz_type = '';");
+      await db.runAsync("UPDATE quiz_maker SET createdAt = ? WHERE createdAt IS NULL OR createdAt = '';", [
+        new Date().toISOString(),
+      ]);
+    },
+  },
+  {
+    version: 3,
+    name: 'Flash card review tables',
+    up: async db => {
+      // Cards are identified by their position in the set; `front` lets us notice
+      // when a set was edited and the stored schedule no longer matches the card.
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS flash_card_reviews (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          set_id INTEGER NOT NULL,
+          card_index INTEGER NOT NULL,
+          front TEXT,
+          ease REAL NOT NULL,
+          interval INTEGER NOT NULL,
+          repetitions INTEGER NOT NULL,
+          lapses INTEGER NOT NULL,
+          due TEXT NOT NULL,
+          lastReviewedAt TEXT,
+          UNIQUE(set_id, card_index)
+        );`
+      );
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS flash_card_review_log (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          set_id INTEGER NOT NULL,
+          card_index INTEGER NOT NULL,
+          grade TEXT NOT NULL,
+          ease REAL,
+          interval INTEGER,
+          due TEXT,
+          reviewedAt TEXT
+        );`
+      );
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_flash_card_reviews_due ON flash_card_reviews(due);");
+    },
+  },
+  {
+    version: 4,
+    name: 'Convert text quizzes to quiz documents',
+    up: async db => {
+      // Rows that can't be parsed are left as text so no quiz is ever lost
+      const quizzes = await db.getAllAsync("SELECT id, content FROM quiz_maker;") as { id: number; content: string | null }[];
+      let converted = 0;
+      for (const quiz of quizzes) {
+        if (!quiz.content || isV4QuizDocument(quiz.content)) continue;
+        const questions = parseV4QuizText(quiz.content);
+        if (questions.length === 0) {
+          console.warn(`DATABASE: Could not read questions from quiz ${quiz.id}, leaving it as text`);
+          continue;
+        }
+        await db.runAsync("UPDATE quiz_maker SET content = ? WHERE id = ?;", [JSON.stringify({ version: 1, questions }), quiz.id]);
+        converted++;
+      }
+      if (converted > 0) {
+        console.log(`DATABASE: Converted ${converted} quizzes to the structured format.`);
+      }
+    },
+  },
+  {
+    version: 5,
+    name: 'Sync identities and outbox',
+    up: async db => {
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS sync_outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          table_name TEXT NOT NULL,
+          record_uuid TEXT NOT NULL,
+          operation TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          lastError TEXT,
+          UNIQUE(table_name, record_uuid)
+        );`
+      );
+      await db.execAsync("CREATE TABLE IF NOT EXISTS sync_state (key TEXT PRIMARY KEY, value TEXT);");
+
+      const now = new Date().toISOString();
+      for (const table of SYNCED_TABLES) {
+        await addColumnIfMissing(db, table, 'uuid', 'TEXT');
+        await addColumnIfMissing(db, table, 'updatedAt', 'TEXT');
+        await db.execAsync(`CREATE UNIQUE INDEX IF NOT EXISTS idx_${table}_uuid ON ${table}(uuid);`);
+
+        // Existing rows get an identity and are queued for their first upload
+        const unsynced = await db.getAllAsync(`SELECT id FROM ${table} WHERE uuid IS NULL;`) as { id: number }[];
+        for (const row of unsynced) {
+          const uuid = generateUUID();
+          await db.runAsync(
+            `UPDATE ${table} SET uuid = ?, updatedAt = COALESCE(updatedAt, createdAt, ?) WHERE id = ?;`,
+            [uuid, now, row.id]
+          );
+          await db.runAsync(
+            "INSERT OR IGNORE INTO sync_outbox (table_name, record_uuid, operation, createdAt) VALUES (?, ?, 'upsert', ?);",
+            [table, uuid, now]
+          );
+        }
+        if (unsynced.length > 0) {
+          console.log(`DATABASE: Queued ${unsynced.length} existing ${table} rows for sync.`);
+        }
+      }
+    },
+  },
+  {
+    version: 6,
+    name: 'Note chunk search index',
+    up: async db => {
+      // Passages of notes and scan notes for note chat retrieval, ranked with bm25().
+      // note_chunk_index remembers which content each note was indexed from.
+      await db.execAsync(
+        `CREATE VIRTUAL TABLE IF NOT EXISTS note_chunks USING fts5(
+          text,
+          note_type UNINDEXED,
+          note_id UNINDEXED,
+          chunk_index UNINDEXED,
+          start_offset UNINDEXED,
+          end_offset UNINDEXED,
+          tokenize = 'porter unicode61'
+        );`
+      );
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS note_chunk_index (
+          note_type TEXT NOT NULL,
+          note_id INTEGER NOT NULL,
+          content_hash TEXT NOT NULL,
+          indexedAt TEXT NOT NULL,
+          PRIMARY KEY (note_type, note_id)
+        );`
+      );
+    },
+  },
+  {
+    version: 7,
+    name: 'Note chat threads',
+    up: async db => {
+      // One row per conversation; messages are a JSON array, see NoteChatMessage
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS note_chats (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          note_type TEXT NOT NULL,
+          note_id INTEGER NOT NULL,
+          title TEXT NOT NULL,
+          messages TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        );`
+      );
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_note_chats_note ON note_chats(note_type, note_id);");
+    },
+  },
+  {
+    version: 8,
+    name: 'Global search index',
+    up: async db => {
+      await db.execAsync(
+        `CREATE VIRTUAL TABLE IF NOT EXISTS search_index USING fts5(
+          title,
+          body,
+          item_type UNINDEXED,
+          item_id UNINDEXED,
+          createdAt UNINDEXED,
+          tokenize = 'porter unicode61'
+        );`
+      );
+
+      for (const source of SEARCH_SOURCES) {
+        const fromNew = (name: string) => `new.${name}`;
+        const insertNew =
+          `INSERT INTO search_index (rowid, title, body, item_type, item_id, createdAt) VALUES ` +
+          `(new.id * 8 + ${source.typeIndex}, ${source.title(fromNew)}, ${source.body(fromNew)}, '${source.type}', new.id, new.createdAt);`;
+        const deleteOld = `DELETE FROM search_index WHERE rowid = old.id * 8 + ${source.typeIndex};`;
+
+        await db.execAsync(`DROP TRIGGER IF EXISTS search_${source.table}_insert;`);
+        await db.execAsync(`DROP TRIGGER IF EXISTS search_${source.table}_update;`);
+        await db.execAsync(`DROP TRIGGER IF EXISTS search_${source.table}_delete;`);
+        await db.execAsync(`CREATE TRIGGER search_${source.table}_insert AFTER INSERT ON ${source.table} BEGIN ${insertNew} END;`);
+        await db.execAsync(`CREATE TRIGGER search_${source.table}_update AFTER UPDATE ON ${source.table} BEGIN ${deleteOld} ${insertNew} END;`);
+        await db.execAsync(`CREATE TRIGGER search_${source.table}_delete AFTER DELETE ON ${source.table} BEGIN ${deleteOld} END;`);
+
+        // Index what's already there
+        const column = (name: string) => name;
+        await db.runAsync(`DELETE FROM search_index WHERE item_type = ?;`, [source.type]);
+        await db.execAsync(
+          `INSERT INTO search_index (rowid, title, body, item_type, item_id, createdAt)
+           SELECT id * 8 + ${source.typeIndex}, ${source.title(column)}, ${source.body(column)}, '${source.type}', id, createdAt
+           FROM ${source.table};`
+        );
+      }
+    },
+  },
+  {
+    version: 9,
+    name: 'Subjects, folders and tags',
+    up: async db => {
+      // Folders nest through parent_id; a NULL parent is a top-level folder
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS folders (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          parent_id INTEGER,
+          createdAt TEXT NOT NULL
+        );`
+      );
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS tags (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+          createdAt TEXT NOT NULL
+        );`
+      );
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS note_tags (
+          note_type TEXT NOT NULL,
+          note_id INTEGER NOT NULL,
+          tag_id INTEGER NOT NULL,
+          PRIMARY KEY (note_type, note_id, tag_id)
+        );`
+      );
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_note_tags_tag ON note_tags(tag_id);");
+
+      for (const table of ['notes', 'scan_notes']) {
+        await addColumnIfMissing(db, table, 'subject', 'TEXT');
+        await addColumnIfMissing(db, table, 'folder_id', 'INTEGER');
+        await db.execAsync(`CREATE INDEX IF NOT EXISTS idx_${table}_subject ON ${table}(subject);`);
+      }
+    },
+  },
+  {
+    version: 10,
+    name: 'Custom subjects',
+    up: async db => {
+      // Subjects the user added next to the built-in ones; tools is a JSON array
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS custom_subjects (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          color TEXT NOT NULL,
+          icon TEXT NOT NULL,
+          persona TEXT NOT NULL,
+          tools TEXT NOT NULL,
+          createdAt TEXT NOT NULL
+        );`
+      );
+    },
+  },
+  {
+    version: 11,
+    name: 'Note attachments',
+    up: async db => {
+      // Scanned pages kept with their note; file_uri points into the app's
+      // document directory, see utils/attachmentFiles
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS note_attachments (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          note_type TEXT NOT NULL,
+          note_id INTEGER NOT NULL,
+          file_uri TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          extracted_text TEXT,
+          createdAt TEXT NOT NULL
+        );`
+      );
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_note_attachments_note ON note_attachments(note_type, note_id);");
+    },
+  },
+  {
+    version: 12,
+    name: 'Attachment media types',
+    up: async db => {
+      // Voice recordings are attached the same way as scanned pages
+      await addColumnIfMissing(db, 'note_attachments', 'media_type', "TEXT NOT NULL DEFAULT 'image'");
+    },
+  },
+  {
+    version: 13,
+    name: 'Study sessions',
+    up: async db => {
+      // Focus sessions from the study timer. day is the local calendar date
+      // the session started on, so streaks don't shift with the time zone.
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS study_sessions (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          day TEXT NOT NULL,
+          startedAt TEXT NOT NULL,
+          endedAt TEXT NOT NULL,
+          duration_seconds INTEGER NOT NULL,
+          completed INTEGER NOT NULL DEFAULT 0,
+          subject TEXT,
+          note_type TEXT,
+          note_id INTEGER
+        );`
+      );
+      await db.execAsync("CREATE INDEX IF NOT EXISTS idx_study_sessions_day ON study_sessions(day);");
+    },
+  },
+  {
+    version: 14,
+    name: 'Achievements',
+    up: async db => {
+      // Counter values by utils/achievements CounterKey
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS achievement_counters (
+          key TEXT PRIMARY KEY,
+          value INTEGER NOT NULL
+        );`
+      );
+      await db.execAsync(
+        `CREATE TABLE IF NOT EXISTS achievements_earned (
+          id TEXT PRIMARY KEY,
+          earnedAt TEXT NOT NULL
+        );`
+      );
+
+      // Start the counters from what's already on the device. Completed
+      // quizzes were never recorded, so those start at zero. The counter keys
+      // and streak rules are written out as utils/achievements had them when
+      // this step shipped, so later rule changes don't change what it seeds.
+      const count = async (sql: string) =>
+        ((await db.getFirstAsync(sql)) as { total: number | null } | null)?.total ?? 0;
+      const sessions = await db.getAllAsync(
+        "SELECT day, SUM(duration_seconds) AS seconds FROM study_sessions GROUP BY day ORDER BY day;"
+      ) as { day: string; seconds: number }[];
+
+      // Streak days are counted in days since 1970-01-01 (utils/achievements dayNumber)
+      let streakCurrent = 0;
+      let streakLongest = 0;
+      let lastDay = 0;
+      for (const session of sessions) {
+        const [year, month, date] = session.day.split('-').map(Number);
+        const day = Math.round(Date.UTC(year, month - 1, date) / 86400000);
+        streakCurrent = lastDay && day === lastDay + 1 ? streakCurrent + 1 : 1;
+        streakLongest = Math.max(streakLongest, streakCurrent);
+        lastDay = day;
+      }
+
+      const counters: Record<string, number> = {
+        'quizzes-completed': 0,
+        'quizzes-80': 0,
+        'notes-created': (await count("SELECT COUNT(*) AS total FROM notes;")) + (await count("SELECT COUNT(*) AS total FROM scan_notes;")),
+        'flash-card-sets': await count("SELECT COUNT(*) AS total FROM flash_card_sets;"),
+        scans: await count("SELECT COUNT(*) AS total FROM history WHERE feature = 'ai-scan';"),
+        'study-seconds': sessions.reduce((total, session) => total + session.seconds, 0),
+        'days-active': sessions.length,
+        'streak-current': streakCurrent,
+        'streak-longest': streakLongest,
+        'streak-last-day': lastDay,
+      };
+      for (const [key, value] of Object.entries(counters)) {
+        await db.runAsync("INSERT OR IGNORE INTO achievement_counters (key, value) VALUES (?, ?);", [key, value]);
+      }
+    },
+  },
+  {
+    version: 15,
+    name: 'Achievement active days',
+    up: async db => {
+      // Streaks are measured from this set of days instead of running
+      // counters, so a day logged late still counts
+      await db.execAsync("CREATE TABLE IF NOT EXISTS achievement_days (day TEXT PRIMARY KEY);");
+      await db.execAsync("INSERT OR IGNORE INTO achievement_days (day) SELECT DISTINCT day FROM study_sessions;");
+
+      // Quiz days were only kept in the streak counters. The current streak
+      // is every day up to streak-last-day (a day number), so those can be
+      // recovered; older quiz-only days are gone.
+      const counter = async (key: string) =>
+        ((await db.getFirstAsync("SELECT value FROM achievement_counters WHERE key = ?;", [key])) as { value: number } | null)?.value ?? 0;
+      const lastDay = await counter('streak-last-day');
+      const streak = await counter('streak-current');
+      for (let day = lastDay - streak + 1; lastDay > 0 && day <= lastDay; day++) {
+        await db.runAsync("INSERT OR IGNORE INTO achievement_days (day) VALUES (?);", [
+          new Date(day * 86400000).toISOString().slice(0, 10),
+        ]);
+      }
+      await db.runAsync(
+        "DELETE FROM achievement_counters WHERE key IN ('days-active', 'streak-current', 'streak-longest', 'streak-last-day');"
+      );
+    },
+  },
+  {
+    version: 16,
+    name: 'Sync owners',
+    up: async db => {
+      // The account a row was synced for, set when another account signs in
+      // on the device. NULL rows belong to whoever is signed in.
+      for (const table of SYNCED_TABLES) {
+        await addColumnIfMissing(db, table, 'owner_id', 'TEXT');
+      }
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const getSchemaVersion = async (db: SQLiteDatabase): Promise<number> => {
+  const row = await db.getFirstAsync("PRAGMA user_version;") as { user_version: number } | null;
+  return row?.user_version ?? 0;
+};
+
+// Applies every migration newer than the database's user_version, in order.
+// Stops at the first failure: that step is rolled back and the database stays
+// at the last version that succeeded, so the next launch retries from there.
+export const runMigrations = async (db: SQLiteDatabase, migrations: Migration[] = MIGRATIONS): Promise<number> => {
+  let version = await getSchemaVersion(db);
+  console.log(`DATABASE: Schema version ${version}, latest is ${LATEST_SCHEMA_VERSION}`);
+
+  for (const migration of migrations) {
+    if (migration.version <= version) continue;
+    console.log(`DATABASE: Running migration ${migration.version} (${migration.name})...`);
+    try {
+      await db.withTransactionAsync(async () => {
+        await migration.up(db);
+        // user_version lives in the database header, so it commits or rolls back with the step
+        await db.execAsync(`PRAGMA user_version = ${migration.version};`);
+      });
+    } catch (error) {
+      console.error(`DATABASE: Migration ${migration.version} (${migration.name}) failed, staying at version ${version}.`, error);
+      throw error;
+    }
+    version = migration.version;
+  }
+
+  return version;
+};
@@ -1,4 +1,15 @@
 import * as SQLite from 'expo-sqlite';
+import {
+  CardSchedule,
+  isDue,
+  parseFlashCards,
+  ReviewGrade,
+  scheduleReview,
+} from '../utils/spacedRepetition';
+import { deleteAttachmentFile, deleteUnreferencedAttachmentFiles, storeAttachmentFile } from '../utils/attachmentFiles';
+import { chunkNote, hashNoteContent } from '../utils/noteChunks';
+import { generateUUID } from '../utils/uuid';
+import { runMigrations } from './databaseMigrations';
 
 let db: SQLite.SQLiteDatabase | null = null;
 
@@ -12,24 +23,13 @@ async function getDb(): Promise<SQLite.SQLiteDatabase> {
 
 export const initDatabase = async () => {
     console.log("DATABASE: Initializing all tables...");
-    await initHistoryTable();
-    await initNotesTable();
-    await initScanNotesTable();
-    await initQuizTable();
-    await initFlashCardSetTable();
-    await initMindMapTable(); // Added for mind maps
-    await migrateDatabase();
+    const localDb = await getDb();
+    await runMigrations(localDb);
+    await cleanUpAttachmentFiles();
     console.log("DATABASE: All tables initialized.");
 };
 
 // --- History ---
-export const initHistoryTable = async () => {
-  const localDb = await getDb();
-  await localDb.execAsync(
-    'CREATE TABLE IF NOT EXISTS history (id INTEGER PRIMARY KEY AUTOINCREMENT, imageUri TEXT, feature TEXT, extractedText TEXT, aiAnswer TEXT, createdAt TEXT);'
-  );
-};
-
 export const addHistory = async (
   imageUri: string,
   feature: string,
@@ -42,10 +42,14 @@ export const addHistory = async (
   });
   const localDb = await getDb();
   try {
+    const uuid = generateUUID();
+    const now = new Date().toISOString();
     const result = await localDb.runAsync(
-      "INSERT INTO history (imageUri, feature, extractedText, aiAnswer, createdAt) VALUES (?, ?, ?, ?, ?);",
-      [imageUri, feature, extractedText, aiAnswer, new Date().toISOString()]
+      "INSERT INTO history (imageUri, feature, extractedText, aiAnswer, createdAt, uuid, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?);",
+      [imageUri, feature, extractedText, aiAnswer, now, uuid, now]
     );
+    await enqueueSyncChange('history', uuid, 'upsert');
+    notifyItemCreated({ kind: 'history', feature });
     console.log(
       "HISTORY_SERVICE: Successfully added history item with ID:",
       result.lastInsertRowId
@@ -75,10 +79,12 @@ export const getAllHistory = async (): Promise<any[]> => {
 export const updateHistoryAnswer = async (id: number, aiAnswer: string) => {
   const localDb = await getDb();
   try {
-    await localDb.runAsync("UPDATE history SET aiAnswer = ? WHERE id = ?;", [
+    await localDb.runAsync("UPDATE history SET aiAnswer = ?, updatedAt = ? WHERE id = ?;", [
       aiAnswer,
+      new Date().toISOString(),
       id,
     ]);
+    await enqueueSyncChangeForId('history', id, 'upsert');
     console.log(`HISTORY_SERVICE: Updated history item ${id} with an AI answer.`);
   } catch (error) {
     console.error(`HISTORY_SERVICE: Failed to update history item ${id}.`, error);
@@ -128,29 +134,29 @@ export interface Note {
     title: string;
     content: string;
     createdAt: string;
+    subject?: string | null;
+    folder_id?: number | null;
 }
 
-export const initNotesTable = async () => {
-    const localDb = await getDb();
-    await localDb.execAsync(
-      "CREATE TABLE IF NOT EXISTS notes (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, createdAt TEXT);"
-    );
-};
-
-export const addNote = async (title: string, content: string): Promise<number> => {
+export const addNote = async (title: string, content: string, placement: NotePlacement = {}): Promise<number> => {
     const localDb = await getDb();
     console.log("NOTE_SERVICE: Adding note:", { title });
+    const uuid = generateUUID();
+    const now = new Date().toISOString();
     const result = await localDb.runAsync(
-      "INSERT INTO notes (title, content, createdAt) VALUES (?, ?, ?);",
-      [title, content, new Date().toISOString()]
+      "INSERT INTO notes (title, content, createdAt, uuid, updatedAt, subject, folder_id) VALUES (?, ?, ?, ?, ?, ?, ?);",
+      [title, content, now, uuid, now, placement.subject ?? null, placement.folderId ?? null]
     );
+    await enqueueSyncChange('notes', uuid, 'upsert');
+    notifyItemCreated({ kind: 'note' });
     return result.lastInsertRowId;
 };
 
-export const getAllNotes = async (): Promise<Note[]> => {
+export const getAllNotes = async (filters: NoteFilters = {}): Promise<Note[]> => {
     const localDb = await getDb();
     try {
-      const result = await localDb.getAllAsync("SELECT * FROM notes ORDER BY createdAt DESC;");
+      const { where, params } = noteFilterSql('note', filters);
+      const result = await localDb.getAllAsync(`SELECT * FROM notes ${where} ORDER BY createdAt DESC;`, params);
       return (result as Note[]) ?? [];
     } catch (error) {
       console.warn("Could not get notes.", error);
@@ -167,14 +173,20 @@ export const getNoteById = async (id: number): Promise<Note | null> => {
 export const updateNote = async (id: number, title: string, content: string) => {
     const localDb = await getDb();
     await localDb.runAsync(
-      "UPDATE notes SET title = ?, content = ? WHERE id = ?;",
-      [title, content, id]
+      "UPDATE notes SET title = ?, content = ?, updatedAt = ? WHERE id = ?;",
+      [title, content, new Date().toISOString(), id]
     );
+    await enqueueSyncChangeForId('notes', id, 'upsert');
 };
 
 export const deleteNote = async (id: number) => {
     const localDb = await getDb();
+    await enqueueSyncChangeForId('notes', id, 'delete');
     await localDb.runAsync("DELETE FROM notes WHERE id = ?;", [id]);
+    await removeNoteChunks('note', id);
+    await removeNoteChats('note', id);
+    await removeNoteTags('note', id);
+    await removeNoteAttachments('note', id);
 };
 
 // --- Scan Notes ---
@@ -183,23 +195,22 @@ export interface ScanNote {
     title: string;
     content: string;
     createdAt: string;
+    subject?: string | null;
+    folder_id?: number | null;
 }
 
-export const initScanNotesTable = async () => {
-    const localDb = await getDb();
-    await localDb.execAsync(
-      "CREATE TABLE IF NOT EXISTS scan_notes (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, createdAt TEXT);"
-    );
-};
-
-export const addScanNote = async (title: string, content: string): Promise<number> => {
+export const addScanNote = async (title: string, content: string, placement: NotePlacement = {}): Promise<number> => {
     const localDb = await getDb();
     console.log("SCAN_NOTE_SERVICE: Adding scan note:", { title, contentLength: content.length });
     try {
+        const uuid = generateUUID();
+        const now = new Date().toISOString();
         const result = await localDb.runAsync(
-          "INSERT INTO scan_notes (title, content, createdAt) VALUES (?, ?, ?);",
-          [title, content, new Date().toISOString()]
+          "INSERT INTO scan_notes (title, content, createdAt, uuid, updatedAt, subject, folder_id) VALUES (?, ?, ?, ?, ?, ?, ?);",
+          [title, content, now, uuid, now, placement.subject ?? null, placement.folderId ?? null]
         );
+        await enqueueSyncChange('scan_notes', uuid, 'upsert');
+        notifyItemCreated({ kind: 'scan-note' });
         console.log("SCAN_NOTE_SERVICE: Successfully added scan note with ID:", result.lastInsertRowId);
         return result.lastInsertRowId;
     } catch (error) {
@@ -208,11 +219,12 @@ export const addScanNote = async (title: string, content: string): Promise<numbe
     }
 };
 
-export const getAllScanNotes = async (): Promise<ScanNote[]> => {
+export const getAllScanNotes = async (filters: NoteFilters = {}): Promise<ScanNote[]> => {
     const localDb = await getDb();
     try {
-      console.log("SCAN_NOTE_SERVICE: Attempting to get all scan notes...");
-      const result = await localDb.getAllAsync("SELECT * FROM scan_notes ORDER BY createdAt DESC;");
+      console.log("SCAN_NOTE_SERVICE: Attempting to get all scan notes...", filters);
+      const { where, params } = noteFilterSql('scan-note', filters);
+      const result = await localDb.getAllAsync(`SELECT * FROM scan_notes ${where} ORDER BY createdAt DESC;`, params);
       console.log("SCAN_NOTE_SERVICE: Retrieved scan notes:", result?.length ?? 0);
       return (result as ScanNote[]) ?? [];
     } catch (error) {
@@ -230,42 +242,33 @@ export const getScanNoteById = async (id: number): Promise<ScanNote | null> => {
 export const updateScanNote = async (id: number, title: string, content: string) => {
     const localDb = await getDb();
     await localDb.runAsync(
-      "UPDATE scan_notes SET title = ?, content = ? WHERE id = ?;",
-      [title, content, id]
+      "UPDATE scan_notes SET title = ?, content = ?, updatedAt = ? WHERE id = ?;",
+      [title, content, new Date().toISOString(), id]
     );
+    await enqueueSyncChangeForId('scan_notes', id, 'upsert');
 };
 
 export const deleteScanNote = async (id: number) => {
     const localDb = await getDb();
+    await enqueueSyncChangeForId('scan_notes', id, 'delete');
     await localDb.runAsync("DELETE FROM scan_notes WHERE id = ?;", [id]);
+    await removeNoteChunks('scan-note', id);
+    await removeNoteChats('scan-note', id);
+    await removeNoteTags('scan-note', id);
+    await removeNoteAttachments('scan-note', id);
 };
 
 // --- Quiz Maker ---
 export interface Quiz {
   id: number;
   title: string;
-  content: string;
+  content: string; // serialized QuizDocument, see utils/quizFormat
   quiz_type: string;
   source_note_id?: number;
   source_note_type?: string;
   createdAt: string;
 }
 
-export const initQuizTable = async () => {
-    const localDb = await getDb();
-    await localDb.execAsync(
-      `CREATE TABLE IF NOT EXISTS quiz_maker (
-        id INTEGER PRIMARY KEY AUTOINCREMENT, 
-        title TEXT, 
-        content TEXT,
-        quiz_type TEXT,
-        source_note_id INTEGER,
-        source_note_type TEXT,
-        createdAt TEXT
-      );`
-    );
-};
-
 export const addQuiz = async (
   title: string, 
   content: string,
@@ -275,10 +278,13 @@ export const addQuiz = async (
   sourceNoteType?: 'note' | 'scan-note'
 ): Promise<number> => {
     const localDb = await getDb();
+    const uuid = generateUUID();
+    const now = new Date().toISOString();
     const result = await localDb.runAsync(
-      "INSERT INTO quiz_maker (title, content, quiz_type, source_note_id, source_note_type, createdAt) VALUES (?, ?, ?, ?, ?, ?);",
-      [title, content, quizType, sourceNoteId || null, sourceNoteType || null, new Date().toISOString()]
+      "INSERT INTO quiz_maker (title, content, quiz_type, source_note_id, source_note_type, createdAt, uuid, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
+      [title, content, quizType, sourceNoteId || null, sourceNoteType || null, now, uuid, now]
     );
+    await enqueueSyncChange('quiz_maker', uuid, 'upsert');
     return result.lastInsertRowId;
 };
 
@@ -301,11 +307,16 @@ export const getQuizById = async (id: number): Promise<Quiz | null> => {
 
 export const updateQuiz = async (id: number, title: string, content: string) => {
     const localDb = await getDb();
-    await localDb.runAsync("UPDATE quiz_maker SET title = ?, content = ? WHERE id = ?;", [title, content, id]);
+    await localDb.runAsync(
+      "UPDATE quiz_maker SET title = ?, content = ?, updatedAt = ? WHERE id = ?;",
+      [title, content, new Date().toISOString(), id]
+    );
+    await enqueueSyncChangeForId('quiz_maker', id, 'upsert');
 };
 
 export const deleteQuiz = async (id: number) => {
     const localDb = await getDb();
+    await enqueueSyncChangeForId('quiz_maker', id, 'delete');
     await localDb.runAsync("DELETE FROM quiz_maker WHERE id = ?;", [id]);
 };
 
@@ -320,13 +331,6 @@ export interface FlashCardSet {
     createdAt: string;
 }
 
-export const initFlashCardSetTable = async () => {
-    const localDb = await getDb();
-    await localDb.execAsync(
-      "CREATE TABLE IF NOT EXISTS flash_card_sets (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT, content TEXT, card_type TEXT, source_note_id INTEGER, source_note_type TEXT, createdAt TEXT);"
-    );
-};
-
 export const addFlashCardSet = async (
   title: string, 
   content: string,
@@ -335,10 +339,14 @@ export const addFlashCardSet = async (
   sourceNoteType?: 'note' | 'scan-note'
 ): Promise<number> => {
     const localDb = await getDb();
+    const uuid = generateUUID();
+    const now = new Date().toISOString();
     const result = await localDb.runAsync(
-      "INSERT INTO flash_card_sets (title, content, card_type, source_note_id, source_note_type, createdAt) VALUES (?, ?, ?, ?, ?, ?);",
-      [title, content, cardType, sourceNoteId ?? null, sourceNoteType ?? null, new Date().toISOString()]
+      "INSERT INTO flash_card_sets (title, content, card_type, source_note_id, source_note_type, createdAt, uuid, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
+      [title, content, cardType, sourceNoteId ?? null, sourceNoteType ?? null, now, uuid, now]
     );
+    await enqueueSyncChange('flash_card_sets', uuid, 'upsert');
+    notifyItemCreated({ kind: 'flash-card-set' });
     return result.lastInsertRowId;
 };
 
@@ -361,12 +369,117 @@ export const getFlashCardSetById = async (id: number): Promise<FlashCardSet | nu
 
 export const updateFlashCardSet = async (id: number, title: string, content: string) => {
     const localDb = await getDb();
-    await localDb.runAsync("UPDATE flash_card_sets SET title = ?, content = ? WHERE id = ?;", [title, content, id]);
+    await localDb.runAsync(
+      "UPDATE flash_card_sets SET title = ?, content = ?, updatedAt = ? WHERE id = ?;",
+      [title, content, new Date().toISOString(), id]
+    );
+    await enqueueSyncChangeForId('flash_card_sets', id, 'upsert');
 };
 
 export const deleteFlashCardSet = async (id: number) => {
     const localDb = await getDb();
+    await enqueueSyncChangeForId('flash_card_sets', id, 'delete');
     await localDb.runAsync("DELETE FROM flash_card_sets WHERE id = ?;", [id]);
+    await localDb.runAsync("DELETE FROM flash_card_reviews WHERE set_id = ?;", [id]);
+    await localDb.runAsync("DELETE FROM flash_card_review_log WHERE set_id = ?;", [id]);
+};
+
+// --- Flash Card Reviews (spaced repetition) ---
+export interface FlashCardReview extends CardSchedule {
+    id: number;
+    set_id: number;
+    card_index: number;
+    front: string;
+    lastReviewedAt: string | null;
+}
+
+export interface DueFlashCard {
+    setId: number;
+    setTitle: string;
+    cardIndex: number;
+    front: string;
+    back: string;
+    schedule: CardSchedule | null;
+}
+
+export const getFlashCardReviews = async (setId: number): Promise<FlashCardReview[]> => {
+    const localDb = await getDb();
+    try {
+      const result = await localDb.getAllAsync(
+        "SELECT * FROM flash_card_reviews WHERE set_id = ? ORDER BY card_index ASC;",
+        [setId]
+      );
+      return (result as FlashCardReview[]) ?? [];
+    } catch (error) {
+      console.warn("Could not get flash card reviews.", error);
+      return [];
+    }
+};
+
+export const reviewFlashCard = async (
+  setId: number,
+  cardIndex: number,
+  front: string,
+  grade: ReviewGrade
+): Promise<CardSchedule> => {
+    const localDb = await getDb();
+    const existing = await localDb.getFirstAsync(
+      "SELECT * FROM flash_card_reviews WHERE set_id = ? AND card_index = ?;",
+      [setId, cardIndex]
+    ) as FlashCardReview | null;
+
+    const previous = existing && existing.front === front ? existing : null;
+    const next = scheduleReview(previous, grade);
+    const reviewedAt = new Date().toISOString();
+
+    await localDb.withTransactionAsync(async () => {
+      await localDb.runAsync(
+        `INSERT INTO flash_card_reviews (set_id, card_index, front, ease, interval, repetitions, lapses, due, lastReviewedAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(set_id, card_index) DO UPDATE SET
+           front = excluded.front, ease = excluded.ease, interval = excluded.interval,
+           repetitions = excluded.repetitions, lapses = excluded.lapses,
+           due = excluded.due, lastReviewedAt = excluded.lastReviewedAt;`,
+        [setId, cardIndex, front, next.ease, next.interval, next.repetitions, next.lapses, next.due, reviewedAt]
+      );
+      await localDb.runAsync(
+        "INSERT INTO flash_card_review_log (set_id, card_index, grade, ease, interval, due, reviewedAt) VALUES (?, ?, ?, ?, ?, ?, ?);",
+        [setId, cardIndex, grade, next.ease, next.interval, next.due, reviewedAt]
+      );
+    });
+    return next;
+};
+
+// Builds the "due today" queue across every set. Cards that were never
+// reviewed (or whose front changed since) are treated as new and due.
+export const getDueFlashCards = async (now: Date = new Date()): Promise<DueFlashCard[]> => {
+    const localDb = await getDb();
+    try {
+      const sets = await getAllFlashCardSets();
+      const reviews = (await localDb.getAllAsync("SELECT * FROM flash_card_reviews;")) as FlashCardReview[];
+      const reviewsByKey = new Map(reviews.map(r => [`${r.set_id}:${r.card_index}`, r]));
+
+      const due: DueFlashCard[] = [];
+      for (const set of sets) {
+        parseFlashCards(set.content ?? '').forEach((card, cardIndex) => {
+          const review = reviewsByKey.get(`${set.id}:${cardIndex}`);
+          const schedule = review && review.front === card.front ? review : null;
+          if (isDue(schedule, now)) {
+            due.push({ setId: set.id, setTitle: set.title, cardIndex, front: card.front, back: card.back, schedule });
+          }
+        });
+      }
+
+      // Overdue cards first, new cards last
+      return due.sort((a, b) => {
+        if (!a.schedule) return b.schedule ? 1 : 0;
+        if (!b.schedule) return -1;
+        return a.schedule.due.localeCompare(b.schedule.due);
+      });
+    } catch (error) {
+      console.warn("Could not get due flash cards.", error);
+      return [];
+    }
 };
 
 // --- Mind Maps ---
@@ -379,20 +492,6 @@ export interface MindMap {
     createdAt: string;
 }
 
-export const initMindMapTable = async () => {
-    const localDb = await getDb();
-    await localDb.execAsync(
-      `CREATE TABLE IF NOT EXISTS mind_maps (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        title TEXT,
-        content TEXT,
-        source_note_id INTEGER,
-        source_note_type TEXT,
-        createdAt TEXT
-      );`
-    );
-};
-
 export const addMindMap = async (
   title: string,
   content: string,
@@ -400,10 +499,13 @@ export const addMindMap = async (
   sourceNoteType?: 'note' | 'scan-note'
 ): Promise<number> => {
     const localDb = await getDb();
+    const uuid = generateUUID();
+    const now = new Date().toISOString();
     const result = await localDb.runAsync(
-      "INSERT INTO mind_maps (title, content, source_note_id, source_note_type, createdAt) VALUES (?, ?, ?, ?, ?);",
-      [title, content, sourceNoteId ?? null, sourceNoteType ?? null, new Date().toISOString()]
+      "INSERT INTO mind_maps (title, content, source_note_id, source_note_type, createdAt, uuid, updatedAt) VALUES (?, ?, ?, ?, ?, ?, ?);",
+      [title, content, sourceNoteId ?? null, sourceNoteType ?? null, now, uuid, now]
     );
+    await enqueueSyncChange('mind_maps', uuid, 'upsert');
     return result.lastInsertRowId;
 };
 
@@ -426,14 +528,724 @@ export const getMindMapById = async (id: number): Promise<MindMap | null> => {
 
 export const updateMindMap = async (id: number, title: string, content: string) => {
     const localDb = await getDb();
-    await localDb.runAsync("UPDATE mind_maps SET title = ?, content = ? WHERE id = ?;", [title, content, id]);
+    await localDb.runAsync(
+      "UPDATE mind_maps SET title = ?, content = ?, updatedAt = ? WHERE id = ?;",
+      [title, content, new Date().toISOString(), id]
+    );
+    await enqueueSyncChangeForId('mind_maps', id, 'upsert');
 };
 
 export const deleteMindMap = async (id: number) => {
     const localDb = await getDb();
+    await enqueueSyncChangeForId('mind_maps', id, 'delete');
     await localDb.runAsync("DELETE FROM mind_maps WHERE id = ?;", [id]);
 };
 
+// --- Note Chunks (note chat retrieval) ---
+export type ChunkedNoteType = 'note' | 'scan-note';
+
+export interface NoteChunkMatch {
+    chunkIndex: number;
+    text: string;
+    start: number;
+    end: number;
+    rank: number; // bm25 score, lower is more relevant
+}
+
+const SEARCH_STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'in',
+    'is', 'it', 'me', 'my', 'of', 'on', 'or', 'the', 'this', 'that', 'to', 'was', 'what', 'when', 'where',
+    'which', 'who', 'why', 'with', 'you',
+]);
+
+// Turns free text into an FTS5 query that matches any of its words, or all
+// of them with `matchAll`. Every term is quoted so punctuation and FTS
+// operators in the input are inert; `prefix` also matches words that start
+// with a term, for search-as-you-type.
+export const toFtsQuery = (
+    text: string,
+    options: { matchAll?: boolean; prefix?: boolean } = {}
+): string | null => {
+    const terms = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+      .filter(term => term.length > 1 && !SEARCH_STOPWORDS.has(term));
+    if (terms.length === 0) return null;
+    return [...new Set(terms)]
+      .map(term => `"${term}"${options.prefix ? '*' : ''}`)
+      .join(options.matchAll ? ' AND ' : ' OR ');
+};
+
+const removeNoteChunks = async (noteType: ChunkedNoteType, noteId: number) => {
+    const localDb = await getDb();
+    await localDb.runAsync("DELETE FROM note_chunks WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+    await localDb.runAsync("DELETE FROM note_chunk_index WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+};
+
+// Re-chunks a note when its content changed since it was last indexed
+export const ensureNoteChunksIndexed = async (noteType: ChunkedNoteType, noteId: number, content: string) => {
+    const localDb = await getDb();
+    const contentHash = hashNoteContent(content);
+    const indexed = await localDb.getFirstAsync(
+      "SELECT content_hash FROM note_chunk_index WHERE note_type = ? AND note_id = ?;",
+      [noteType, noteId]
+    ) as { content_hash: string } | null;
+    if (indexed?.content_hash === contentHash) return;
+
+    const chunks = chunkNote(content);
+    await localDb.withTransactionAsync(async () => {
+      await localDb.runAsync("DELETE FROM note_chunks WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+      for (const chunk of chunks) {
+        await localDb.runAsync(
+          "INSERT INTO note_chunks (text, note_type, note_id, chunk_index, start_offset, end_offset) VALUES (?, ?, ?, ?, ?, ?);",
+          [chunk.text, noteType, noteId, chunk.index, chunk.start, chunk.end]
+        );
+      }
+      await localDb.runAsync(
+        "INSERT OR REPLACE INTO note_chunk_index (note_type, note_id, content_hash, indexedAt) VALUES (?, ?, ?, ?);",
+        [noteType, noteId, contentHash, new Date().toISOString()]
+      );
+    });
+    console.log(`DATABASE: Indexed ${chunks.length} chunks for ${noteType} ${noteId}`);
+};
+
+const CHUNK_COLUMNS = "chunk_index AS chunkIndex, text, start_offset AS start, end_offset AS end";
+
+export const getNoteChunks = async (noteType: ChunkedNoteType, noteId: number): Promise<NoteChunkMatch[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      `SELECT ${CHUNK_COLUMNS}, 0 AS rank FROM note_chunks WHERE note_type = ? AND note_id = ? ORDER BY chunk_index;`,
+      [noteType, noteId]
+    );
+    return rows as NoteChunkMatch[];
+};
+
+export const searchNoteChunks = async (
+    noteType: ChunkedNoteType,
+    noteId: number,
+    query: string,
+    limit: number = 4
+): Promise<NoteChunkMatch[]> => {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return [];
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      `SELECT ${CHUNK_COLUMNS}, bm25(note_chunks) AS rank FROM note_chunks
+       WHERE note_chunks MATCH ? AND note_type = ? AND note_id = ?
+       ORDER BY rank LIMIT ?;`,
+      [ftsQuery, noteType, noteId, limit]
+    );
+    return rows as NoteChunkMatch[];
+};
+
+// --- Note Chats ---
+export interface NoteChatMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    content: string;
+    createdAt: string;
+    // Note passages the answer was grounded in, by citation number
+    sources?: { number: number; start: number; end: number }[];
+    streamStatus?: 'stopped' | 'interrupted';
+    // Set once the answer has been pinned into its note
+    pinned?: boolean;
+}
+
+export interface NoteChat {
+    id: number;
+    note_type: ChunkedNoteType;
+    note_id: number;
+    title: string;
+    messages: NoteChatMessage[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+const parseNoteChat = (row: any): NoteChat => {
+    let messages: NoteChatMessage[] = [];
+    try {
+      messages = JSON.parse(row.messages);
+    } catch {
+      console.warn(`DATABASE: Could not read messages of note chat ${row.id}`);
+    }
+    return { ...row, messages: Array.isArray(messages) ? messages : [] };
+};
+
+export const addNoteChat = async (
+    noteType: ChunkedNoteType,
+    noteId: number,
+    title: string,
+    messages: NoteChatMessage[]
+): Promise<number> => {
+    const localDb = await getDb();
+    const now = new Date().toISOString();
+    const result = await localDb.runAsync(
+      "INSERT INTO note_chats (note_type, note_id, title, messages, createdAt, updatedAt) VALUES (?, ?, ?, ?, ?, ?);",
+      [noteType, noteId, title, JSON.stringify(messages), now, now]
+    );
+    return result.lastInsertRowId;
+};
+
+// Most recently active thread first
+export const getNoteChats = async (noteType: ChunkedNoteType, noteId: number): Promise<NoteChat[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      "SELECT * FROM note_chats WHERE note_type = ? AND note_id = ? ORDER BY updatedAt DESC;",
+      [noteType, noteId]
+    );
+    return rows.map(parseNoteChat);
+};
+
+export const getNoteChatById = async (id: number): Promise<NoteChat | null> => {
+    const localDb = await getDb();
+    const row = await localDb.getFirstAsync("SELECT * FROM note_chats WHERE id = ?;", [id]);
+    return row ? parseNoteChat(row) : null;
+};
+
+export const updateNoteChatMessages = async (id: number, messages: NoteChatMessage[]) => {
+    const localDb = await getDb();
+    await localDb.runAsync(
+      "UPDATE note_chats SET messages = ?, updatedAt = ? WHERE id = ?;",
+      [JSON.stringify(messages), new Date().toISOString(), id]
+    );
+};
+
+export const deleteNoteChat = async (id: number) => {
+    const localDb = await getDb();
+    await localDb.runAsync("DELETE FROM note_chats WHERE id = ?;", [id]);
+};
+
+const removeNoteChats = async (noteType: ChunkedNoteType, noteId: number) => {
+    const localDb = await getDb();
+    await localDb.runAsync("DELETE FROM note_chats WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+};
+
+// --- Note Attachments ---
+// Source images of scanned notes and recordings of voice notes. Like folders
+// and tags they stay on this device; the files themselves live in
+// utils/attachmentFiles storage.
+export type AttachmentMediaType = 'image' | 'audio';
+
+export interface NoteAttachment {
+    id: number;
+    note_type: ChunkedNoteType;
+    note_id: number;
+    file_uri: string;
+    position: number;
+    // Text read from this file: OCR for an image, the transcript for audio
+    extracted_text: string | null;
+    media_type: AttachmentMediaType;
+    createdAt: string;
+}
+
+export interface NoteAttachmentSummary {
+    count: number; // images
+    firstUri?: string;
+    audioCount: number;
+}
+
+// Copies the files into attachment storage and appends them after the
+// note's existing attachments. A file that can't be copied is skipped so
+// the note itself is never lost over it.
+export const addNoteAttachments = async (
+    noteType: ChunkedNoteType,
+    noteId: number,
+    files: { uri: string; text?: string; mediaType?: AttachmentMediaType }[]
+): Promise<number> => {
+    const localDb = await getDb();
+    const row = await localDb.getFirstAsync(
+      "SELECT MAX(position) AS last FROM note_attachments WHERE note_type = ? AND note_id = ?;",
+      [noteType, noteId]
+    ) as { last: number | null } | null;
+    let position = (row?.last ?? -1) + 1;
+    let added = 0;
+    for (const file of files) {
+      try {
+        const fileUri = await storeAttachmentFile(file.uri);
+        await localDb.runAsync(
+          "INSERT INTO note_attachments (note_type, note_id, file_uri, position, extracted_text, media_type, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?);",
+          [noteType, noteId, fileUri, position++, file.text ?? null, file.mediaType ?? 'image', new Date().toISOString()]
+        );
+        added++;
+      } catch (error) {
+        console.error(`DATABASE: Could not attach ${file.mediaType ?? 'image'} to ${noteType} ${noteId}`, error);
+      }
+    }
+    return added;
+};
+
+export const getNoteAttachments = async (noteType: ChunkedNoteType, noteId: number): Promise<NoteAttachment[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      "SELECT * FROM note_attachments WHERE note_type = ? AND note_id = ? ORDER BY position;",
+      [noteType, noteId]
+    );
+    return rows as NoteAttachment[];
+};
+
+// Image and recording counts and the first image per note, for note lists
+export const getNoteAttachmentSummaries = async (noteType: ChunkedNoteType): Promise<Record<number, NoteAttachmentSummary>> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      "SELECT note_id, file_uri, media_type FROM note_attachments WHERE note_type = ? ORDER BY note_id, position;",
+      [noteType]
+    ) as { note_id: number; file_uri: string; media_type: AttachmentMediaType }[];
+    const summaries: Record<number, NoteAttachmentSummary> = {};
+    for (const row of rows) {
+      const summary = (summaries[row.note_id] ??= { count: 0, audioCount: 0 });
+      if (row.media_type === 'audio') {
+        summary.audioCount++;
+      } else {
+        summary.firstUri ??= row.file_uri;
+        summary.count++;
+      }
+    }
+    return summaries;
+};
+
+export const updateNoteAttachmentText = async (id: number, text: string) => {
+    const localDb = await getDb();
+    await localDb.runAsync("UPDATE note_attachments SET extracted_text = ? WHERE id = ?;", [text, id]);
+};
+
+export const deleteNoteAttachment = async (id: number) => {
+    const localDb = await getDb();
+    const row = await localDb.getFirstAsync("SELECT file_uri FROM note_attachments WHERE id = ?;", [id]) as { file_uri: string } | null;
+    await localDb.runAsync("DELETE FROM note_attachments WHERE id = ?;", [id]);
+    if (row) await deleteAttachmentFile(row.file_uri);
+};
+
+const removeNoteAttachments = async (noteType: ChunkedNoteType, noteId: number) => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      "SELECT file_uri FROM note_attachments WHERE note_type = ? AND note_id = ?;",
+      [noteType, noteId]
+    ) as { file_uri: string }[];
+    await localDb.runAsync("DELETE FROM note_attachments WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+    for (const row of rows) {
+      try {
+        await deleteAttachmentFile(row.file_uri);
+      } catch (error) {
+        // Left for cleanUpAttachmentFiles on the next launch
+        console.warn("DATABASE: Could not delete attachment file", row.file_uri, error);
+      }
+    }
+};
+
+// Deletes attachment files that no longer belong to a note
+export const cleanUpAttachmentFiles = async () => {
+    try {
+      const localDb = await getDb();
+      const rows = await localDb.getAllAsync("SELECT file_uri FROM note_attachments;") as { file_uri: string }[];
+      const removed = await deleteUnreferencedAttachmentFiles(new Set(rows.map(row => row.file_uri)));
+      if (removed > 0) console.log(`DATABASE: Removed ${removed} unused attachment files.`);
+    } catch (error) {
+      console.warn("DATABASE: Attachment cleanup failed.", error);
+    }
+};
+
+// --- Subjects, Folders and Tags ---
+// Subjects sync with the note; folders and tags are kept on this device only.
+export interface NotePlacement {
+    subject?: string | null;
+    folderId?: number | null;
+}
+
+export interface NoteFilters {
+    subject?: string;
+    folderId?: number; // includes notes in its subfolders
+    tagId?: number;
+}
+
+export interface Folder {
+    id: number;
+    name: string;
+    parent_id: number | null;
+    createdAt: string;
+}
+
+export interface Tag {
+    id: number;
+    name: string;
+    createdAt: string;
+    noteCount: number;
+}
+
+const noteFilterSql = (noteType: ChunkedNoteType, filters: NoteFilters) => {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filters.subject) {
+      conditions.push("subject = ?");
+      params.push(filters.subject);
+    }
+    if (filters.folderId !== undefined) {
+      conditions.push(
+        `folder_id IN (WITH RECURSIVE tree(id) AS (
+           SELECT ? UNION ALL SELECT folders.id FROM folders JOIN tree ON folders.parent_id = tree.id
+         ) SELECT id FROM tree)`
+      );
+      params.push(filters.folderId);
+    }
+    if (filters.tagId !== undefined) {
+      conditions.push("id IN (SELECT note_id FROM note_tags WHERE note_type = ? AND tag_id = ?)");
+      params.push(noteType, filters.tagId);
+    }
+    return { where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '', params };
+};
+
+export const setNoteSubject = async (noteType: ChunkedNoteType, noteId: number, subject: string | null) => {
+    const localDb = await getDb();
+    const table = SOURCE_NOTE_TABLES[noteType];
+    await localDb.runAsync(
+      `UPDATE ${table} SET subject = ?, updatedAt = ? WHERE id = ?;`,
+      [subject, new Date().toISOString(), noteId]
+    );
+    await enqueueSyncChangeForId(table, noteId, 'upsert');
+};
+
+export const moveNoteToFolder = async (noteType: ChunkedNoteType, noteId: number, folderId: number | null) => {
+    const localDb = await getDb();
+    await localDb.runAsync(`UPDATE ${SOURCE_NOTE_TABLES[noteType]} SET folder_id = ? WHERE id = ?;`, [folderId, noteId]);
+};
+
+export const addFolder = async (name: string, parentId: number | null = null): Promise<number> => {
+    const localDb = await getDb();
+    const result = await localDb.runAsync(
+      "INSERT INTO folders (name, parent_id, createdAt) VALUES (?, ?, ?);",
+      [name.trim(), parentId, new Date().toISOString()]
+    );
+    return result.lastInsertRowId;
+};
+
+export const getFolders = async (): Promise<Folder[]> => {
+    const localDb = await getDb();
+    try {
+      const result = await localDb.getAllAsync("SELECT * FROM folders ORDER BY name COLLATE NOCASE;");
+      return (result as Folder[]) ?? [];
+    } catch (error) {
+      console.warn("Could not get folders.", error);
+      return [];
+    }
+};
+
+// Subfolders and notes of a deleted folder move up to its parent
+export const deleteFolder = async (id: number) => {
+    const localDb = await getDb();
+    await localDb.withTransactionAsync(async () => {
+      const folder = await localDb.getFirstAsync("SELECT parent_id FROM folders WHERE id = ?;", [id]) as { parent_id: number | null } | null;
+      if (!folder) return;
+      await localDb.runAsync("UPDATE folders SET parent_id = ? WHERE parent_id = ?;", [folder.parent_id, id]);
+      await localDb.runAsync("UPDATE notes SET folder_id = ? WHERE folder_id = ?;", [folder.parent_id, id]);
+      await localDb.runAsync("UPDATE scan_notes SET folder_id = ? WHERE folder_id = ?;", [folder.parent_id, id]);
+      await localDb.runAsync("DELETE FROM folders WHERE id = ?;", [id]);
+    });
+};
+
+// Tags with the number of notes and scan notes carrying them
+export const getTags = async (): Promise<Tag[]> => {
+    const localDb = await getDb();
+    try {
+      const result = await localDb.getAllAsync(
+        `SELECT tags.*, COUNT(note_tags.tag_id) AS noteCount
+         FROM tags LEFT JOIN note_tags ON note_tags.tag_id = tags.id
+         GROUP BY tags.id ORDER BY tags.name COLLATE NOCASE;`
+      );
+      return (result as Tag[]) ?? [];
+    } catch (error) {
+      console.warn("Could not get tags.", error);
+      return [];
+    }
+};
+
+// Tag names per note id, for showing tags in note lists
+export const getNoteTagNames = async (noteType: ChunkedNoteType): Promise<Record<number, string[]>> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      `SELECT note_tags.note_id, tags.name FROM note_tags JOIN tags ON tags.id = note_tags.tag_id
+       WHERE note_tags.note_type = ? ORDER BY tags.name COLLATE NOCASE;`,
+      [noteType]
+    ) as { note_id: number; name: string }[];
+    const tagsByNote: Record<number, string[]> = {};
+    for (const row of rows) {
+      (tagsByNote[row.note_id] ??= []).push(row.name);
+    }
+    return tagsByNote;
+};
+
+// Replaces a note's tags, creating tags that don't exist yet. Names match
+// case-insensitively, so "Exam" reuses an existing "exam" tag.
+export const setNoteTags = async (noteType: ChunkedNoteType, noteId: number, names: string[]) => {
+    const localDb = await getDb();
+    const uniqueNames = [...new Map(
+      names.map(name => name.trim()).filter(Boolean).map(name => [name.toLowerCase(), name])
+    ).values()];
+    const now = new Date().toISOString();
+
+    await localDb.withTransactionAsync(async () => {
+      await localDb.runAsync("DELETE FROM note_tags WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+      for (const name of uniqueNames) {
+        await localDb.runAsync("INSERT OR IGNORE INTO tags (name, createdAt) VALUES (?, ?);", [name, now]);
+        await localDb.runAsync(
+          "INSERT OR IGNORE INTO note_tags (note_type, note_id, tag_id) SELECT ?, ?, id FROM tags WHERE name = ?;",
+          [noteType, noteId, name]
+        );
+      }
+    });
+};
+
+export const deleteTag = async (id: number) => {
+    const localDb = await getDb();
+    await localDb.runAsync("DELETE FROM note_tags WHERE tag_id = ?;", [id]);
+    await localDb.runAsync("DELETE FROM tags WHERE id = ?;", [id]);
+};
+
+const removeNoteTags = async (noteType: ChunkedNoteType, noteId: number) => {
+    const localDb = await getDb();
+    await localDb.runAsync("DELETE FROM note_tags WHERE note_type = ? AND note_id = ?;", [noteType, noteId]);
+};
+
+// --- Custom Subjects ---
+// Built-in subjects live in subjectRegistry; only user-added ones are stored.
+export interface CustomSubjectRow {
+    id: string;
+    name: string;
+    color: string;
+    icon: string;
+    persona: string;
+    tools: string; // JSON array of SubjectTool
+    createdAt: string;
+}
+
+export const addCustomSubject = async (subject: Omit<CustomSubjectRow, 'createdAt'>) => {
+    const localDb = await getDb();
+    await localDb.runAsync(
+      "INSERT INTO custom_subjects (id, name, color, icon, persona, tools, createdAt) VALUES (?, ?, ?, ?, ?, ?, ?);",
+      [subject.id, subject.name, subject.color, subject.icon, subject.persona, subject.tools, new Date().toISOString()]
+    );
+};
+
+export const getCustomSubjects = async (): Promise<CustomSubjectRow[]> => {
+    const localDb = await getDb();
+    try {
+      const result = await localDb.getAllAsync("SELECT * FROM custom_subjects ORDER BY createdAt ASC;");
+      return (result as CustomSubjectRow[]) ?? [];
+    } catch (error) {
+      console.warn("Could not get custom subjects.", error);
+      return [];
+    }
+};
+
+// Notes filed under the subject are kept, just without a subject
+export const deleteCustomSubject = async (id: string) => {
+    const localDb = await getDb();
+    for (const noteType of ['note', 'scan-note'] as ChunkedNoteType[]) {
+      const rows = await localDb.getAllAsync(
+        `SELECT id FROM ${SOURCE_NOTE_TABLES[noteType]} WHERE subject = ?;`,
+        [id]
+      ) as { id: number }[];
+      for (const row of rows) {
+        await setNoteSubject(noteType, row.id, null);
+      }
+    }
+    await localDb.runAsync("DELETE FROM custom_subjects WHERE id = ?;", [id]);
+};
+
+// --- Study Sessions ---
+// Focus sessions logged by the study timer. Local to this device, like
+// custom subjects.
+export interface StudySession {
+    id: number;
+    day: string; // local YYYY-MM-DD the session started on
+    startedAt: string;
+    endedAt: string;
+    duration_seconds: number;
+    // 1 when the full focus period ran out, 0 when it was stopped early
+    completed: number;
+    subject: string | null;
+    note_type: ChunkedNoteType | null;
+    note_id: number | null;
+}
+
+export interface StudyDay {
+    day: string;
+    seconds: number;
+    sessions: number;
+}
+
+export const addStudySession = async (session: Omit<StudySession, 'id'>): Promise<number> => {
+    const localDb = await getDb();
+    const result = await localDb.runAsync(
+      "INSERT INTO study_sessions (day, startedAt, endedAt, duration_seconds, completed, subject, note_type, note_id) VALUES (?, ?, ?, ?, ?, ?, ?, ?);",
+      [
+        session.day,
+        session.startedAt,
+        session.endedAt,
+        session.duration_seconds,
+        session.completed,
+        session.subject,
+        session.note_type,
+        session.note_id,
+      ]
+    );
+    notifyItemCreated({ kind: 'study-session', day: session.day, seconds: session.duration_seconds });
+    return result.lastInsertRowId;
+};
+
+export const getRecentStudySessions = async (limit = 20): Promise<StudySession[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      "SELECT * FROM study_sessions ORDER BY startedAt DESC LIMIT ?;",
+      [limit]
+    );
+    return rows as StudySession[];
+};
+
+// Study time per day, oldest first; only days with at least one session
+export const getStudyDays = async (): Promise<StudyDay[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync(
+      "SELECT day, SUM(duration_seconds) AS seconds, COUNT(*) AS sessions FROM study_sessions GROUP BY day ORDER BY day;"
+    );
+    return rows as StudyDay[];
+};
+
+// --- Achievements ---
+// Counters and earned achievements for services/achievementService; the
+// rules themselves are in utils/achievements.
+
+// Items created on this device (not ones pulled in by sync), for the
+// achievement counters
+export type CreatedItem =
+    | { kind: 'note' | 'scan-note' | 'flash-card-set' }
+    | { kind: 'history'; feature: string }
+    | { kind: 'study-session'; day: string; seconds: number };
+
+const itemCreatedListeners = new Set<(item: CreatedItem) => void>();
+
+export const onItemCreated = (listener: (item: CreatedItem) => void) => {
+    itemCreatedListeners.add(listener);
+    return () => {
+      itemCreatedListeners.delete(listener);
+    };
+};
+
+const notifyItemCreated = (item: CreatedItem) => {
+    itemCreatedListeners.forEach(listener => listener(item));
+};
+
+export interface EarnedAchievement {
+    id: string;
+    earnedAt: string;
+}
+
+export const getAchievementCounters = async (): Promise<Record<string, number>> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync("SELECT key, value FROM achievement_counters;") as { key: string; value: number }[];
+    return Object.fromEntries(rows.map(row => [row.key, row.value]));
+};
+
+export const setAchievementCounters = async (values: Record<string, number>) => {
+    const localDb = await getDb();
+    await localDb.withTransactionAsync(async () => {
+      for (const [key, value] of Object.entries(values)) {
+        await localDb.runAsync(
+          "INSERT INTO achievement_counters (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value;",
+          [key, value]
+        );
+      }
+    });
+};
+
+export const getEarnedAchievements = async (): Promise<EarnedAchievement[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync("SELECT id, earnedAt FROM achievements_earned ORDER BY earnedAt DESC;");
+    return rows as EarnedAchievement[];
+};
+
+export const addEarnedAchievements = async (ids: string[]) => {
+    const localDb = await getDb();
+    const now = new Date().toISOString();
+    for (const id of ids) {
+      await localDb.runAsync("INSERT OR IGNORE INTO achievements_earned (id, earnedAt) VALUES (?, ?);", [id, now]);
+    }
+};
+
+// Distinct local days with a study session or a completed quiz, oldest first
+export const getActiveDays = async (): Promise<string[]> => {
+    const localDb = await getDb();
+    const rows = await localDb.getAllAsync("SELECT day FROM achievement_days ORDER BY day;") as { day: string }[];
+    return rows.map(row => row.day);
+};
+
+export const addActiveDay = async (day: string) => {
+    const localDb = await getDb();
+    await localDb.runAsync("INSERT OR IGNORE INTO achievement_days (day) VALUES (?);", [day]);
+};
+
+// --- Global Search ---
+// search_index is kept current by triggers on every searchable table, see
+// the "Global search index" migration.
+export type SearchItemType = 'note' | 'scan-note' | 'quiz' | 'flash-cards' | 'mind-map' | 'history';
+
+// Wrap matched words in titles and snippets; private-use characters so they
+// can't clash with anything a user typed
+export const SEARCH_HIGHLIGHT_START = '\uE000';
+export const SEARCH_HIGHLIGHT_END = '\uE001';
+
+export interface SearchResult {
+    type: SearchItemType;
+    id: number;
+    title: string;
+    snippet: string;
+    createdAt: string;
+    rank: number; // bm25 score, lower is more relevant
+}
+
+export interface SearchFilters {
+    types?: SearchItemType[];
+    since?: Date;
+    until?: Date;
+    limit?: number;
+}
+
+export const searchEverything = async (query: string, filters: SearchFilters = {}): Promise<SearchResult[]> => {
+    const ftsQuery = toFtsQuery(query, { matchAll: true, prefix: true });
+    if (!ftsQuery) return [];
+
+    const conditions = ['search_index MATCH ?'];
+    const params: (string | number)[] = [ftsQuery];
+    if (filters.types && filters.types.length > 0) {
+      conditions.push(`item_type IN (${filters.types.map(() => '?').join(', ')})`);
+      params.push(...filters.types);
+    }
+    if (filters.since) {
+      conditions.push('createdAt >= ?');
+      params.push(filters.since.toISOString());
+    }
+    if (filters.until) {
+      conditions.push('createdAt < ?');
+      params.push(filters.until.toISOString());
+    }
+    params.push(filters.limit ?? 50);
+
+    const localDb = await getDb();
+    try {
+      // Title matches weigh four times as much as body matches
+      const rows = await localDb.getAllAsync(
+        `SELECT item_type AS type, item_id AS id,
+           highlight(search_index, 0, '${SEARCH_HIGHLIGHT_START}', '${SEARCH_HIGHLIGHT_END}') AS title,
+           snippet(search_index, 1, '${SEARCH_HIGHLIGHT_START}', '${SEARCH_HIGHLIGHT_END}', '…', 16) AS snippet,
+           createdAt, bm25(search_index, 4.0, 1.0) AS rank
+         FROM search_index
+         WHERE ${conditions.join(' AND ')}
+         ORDER BY rank LIMIT ?;`,
+        params
+      );
+      return rows as SearchResult[];
+    } catch (error) {
+      console.error("DATABASE: Search failed:", error);
+      return [];
+    }
+};
+
 export const resetDatabase = async () => {
   const localDb = await getDb();
   try {
@@ -443,9 +1255,27 @@ export const resetDatabase = async () => {
     await localDb.execAsync("DROP TABLE IF EXISTS scan_notes;");
     await localDb.execAsync("DROP TABLE IF EXISTS quiz_maker;");
     await localDb.execAsync("DROP TABLE IF EXISTS flash_card_sets;"); // Added this line
+    await localDb.execAsync("DROP TABLE IF EXISTS flash_card_reviews;");
+    await localDb.execAsync("DROP TABLE IF EXISTS flash_card_review_log;");
     await localDb.execAsync("DROP TABLE IF EXISTS mind_maps;"); // Added this line
+    await localDb.execAsync("DROP TABLE IF EXISTS sync_outbox;");
+    await localDb.execAsync("DROP TABLE IF EXISTS sync_state;");
+    await localDb.execAsync("DROP TABLE IF EXISTS note_chunks;");
+    await localDb.execAsync("DROP TABLE IF EXISTS note_chunk_index;");
+    await localDb.execAsync("DROP TABLE IF EXISTS note_chats;");
+    await localDb.execAsync("DROP TABLE IF EXISTS search_index;");
+    await localDb.execAsync("DROP TABLE IF EXISTS folders;");
+    await localDb.execAsync("DROP TABLE IF EXISTS tags;");
+    await localDb.execAsync("DROP TABLE IF EXISTS note_tags;");
+    await localDb.execAsync("DROP TABLE IF EXISTS custom_subjects;");
+    await localDb.execAsync("DROP TABLE IF EXISTS note_attachments;");
+    await localDb.execAsync("DROP TABLE IF EXISTS study_sessions;");
+    await localDb.execAsync("DROP TABLE IF EXISTS achievement_counters;");
+    await localDb.execAsync("DROP TABLE IF EXISTS achievements_earned;");
+    await localDb.execAsync("DROP TABLE IF EXISTS achievement_days;");
     
     // Reinitialize all tables
+    await localDb.execAsync("PRAGMA user_version = 0;");
     await initDatabase();
     console.log("DATABASE: Reset completed successfully.");
   } catch (error) {
@@ -453,102 +1283,224 @@ export const resetDatabase = async () => {
   }
 };
 
-export const resetQuizTable = async () => {
-  const localDb = await getDb();
-  console.log("DATABASE: Resetting quiz table...");
-  await localDb.execAsync('DROP TABLE IF EXISTS quiz_maker;');
-  await initQuizTable();
-  console.log("DATABASE: Quiz table reset.");
+// --- Sync ---
+// Synced rows carry a client-generated `uuid` (the `client_id` in Supabase) and
+// an `updatedAt` used for last-writer-wins conflict resolution. Local writes are
+// queued in `sync_outbox`, one entry per record, until the sync service pushes them.
+export type SyncTable = 'notes' | 'scan_notes' | 'quiz_maker' | 'flash_card_sets' | 'mind_maps' | 'history';
+export type SyncOperation = 'upsert' | 'delete';
+
+// Notes come first so quizzes, flash cards and mind maps can resolve their source note
+export const SYNC_TABLES: SyncTable[] = ['notes', 'scan_notes', 'quiz_maker', 'flash_card_sets', 'mind_maps', 'history'];
+
+const SYNC_COLUMNS: Record<SyncTable, string[]> = {
+    notes: ['title', 'content', 'subject', 'createdAt'],
+    scan_notes: ['title', 'content', 'subject', 'createdAt'],
+    quiz_maker: ['title', 'content', 'quiz_type', 'source_note_type', 'createdAt'],
+    flash_card_sets: ['title', 'content', 'card_type', 'source_note_type', 'createdAt'],
+    mind_maps: ['title', 'content', 'source_note_type', 'createdAt'],
+    history: ['imageUri', 'feature', 'extractedText', 'aiAnswer', 'createdAt'],
+};
+
+const SOURCE_NOTE_TABLES: Record<string, SyncTable> = { note: 'notes', 'scan-note': 'scan_notes' };
+
+export interface SyncOutboxEntry {
+    id: number;
+    table_name: SyncTable;
+    record_uuid: string;
+    operation: SyncOperation;
+    createdAt: string;
+    attempts: number;
+    lastError: string | null;
+}
+
+// Row shape exchanged with Supabase. Local ids never leave the device, so the
+// source note is referenced by its uuid instead of source_note_id.
+export interface SyncRecord {
+    client_id: string;
+    updatedAt: string;
+    deletedAt?: string | null;
+    source_note_client_id?: string | null;
+    [column: string]: any;
+}
+
+const syncOutboxListeners = new Set<() => void>();
+
+export const onSyncOutboxChange = (listener: () => void) => {
+    syncOutboxListeners.add(listener);
+    return () => {
+      syncOutboxListeners.delete(listener);
+    };
+};
+
+// A newer change to the same record replaces the queued one, so the outbox
+// never holds more than one entry per record.
+const enqueueSyncChange = async (table: SyncTable, uuid: string, operation: SyncOperation) => {
+    const localDb = await getDb();
+    await localDb.runAsync(
+      `INSERT INTO sync_outbox (table_name, record_uuid, operation, createdAt, attempts, lastError)
+       VALUES (?, ?, ?, ?, 0, NULL)
+       ON CONFLICT(table_name, record_uuid) DO UPDATE SET
+         operation = excluded.operation, createdAt = excluded.createdAt, attempts = 0, lastError = NULL;`,
+      [table, uuid, operation, new Date().toISOString()]
+    );
+    syncOutboxListeners.forEach(listener => listener());
 };
 
-export const resetFlashCardSetTable = async () => {
+const enqueueSyncChangeForId = async (table: SyncTable, id: number, operation: SyncOperation) => {
     const localDb = await getDb();
-    console.log("DATABASE: Resetting flash card sets table...");
-    await localDb.execAsync('DROP TABLE IF EXISTS flash_card_sets;');
-    await initFlashCardSetTable();
-    console.log("DATABASE: Flash card sets table reset.");
+    const row = await localDb.getFirstAsync(`SELECT uuid FROM ${table} WHERE id = ?;`, [id]) as { uuid: string | null } | null;
+    if (row?.uuid) {
+      await enqueueSyncChange(table, row.uuid, operation);
+    }
 };
 
-export const migrateDatabase = async () => {
-    console.log("DATABASE: Checking for migrations...");
+const toIsoString = (value: string | null | undefined) =>
+    value ? new Date(value).toISOString() : new Date().toISOString();
+export const getSyncState = async (key: string): Promise<string | null> => {
     const localDb = await getDb();
-    try {
-      // Check if quiz_maker table exists
-      const tables = await localDb.getAllAsync("SELECT name FROM sqlite_master WHERE type='table' AND name='quiz_maker';");
-      
-      if (tables.length === 0) {
-        console.log("DATABASE: quiz_maker table doesn't exist, creating it...");
-        await initQuizTable();
-        return;
-      }
-      
-      // Check table schema and add missing columns
-      const tableInfo = await localDb.getAllAsync("PRAGMA table_info(quiz_maker);");
-      const existingColumns = tableInfo.map((column: any) => column.name);
-      
-      console.log("DATABASE: Existing columns in quiz_maker:", existingColumns);
-      
-      // Define required columns
-      const requiredColumns = [
-        { name: 'id', type: 'INTEGER PRIMARY KEY AUTOINCREMENT' },
-        { name: 'title', type: 'TEXT' },
-        { name: 'content', type: 'TEXT' },
-        { name: 'quiz_type', type: 'TEXT' },
-        
-        { name: 'source_note_id', type: 'INTEGER' },
-        { name: 'source_note_type', type: 'TEXT' },
-        { name: 'createdAt', type: 'TEXT' }
-      ];
-      
-      // Add missing columns
-      for (const requiredColumn of requiredColumns) {
-        if (!existingColumns.includes(requiredColumn.name)) {
-          console.log(`DATABASE: Adding missing column: ${requiredColumn.name}`);
-          try {
-            await localDb.execAsync(`ALTER TABLE quiz_maker ADD COLUMN ${requiredColumn.name} ${requiredColumn.type};`);
-          } catch (alterError) {
-            console.log(`DATABASE: Could not add column ${requiredColumn.name}, it might already exist or be a primary key`);
-          }
-        }
-      }
-      
-      // Update existing records with default values for new columns
-      const existingQuizzes = await localDb.getAllAsync("SELECT * FROM quiz_maker;");
-      for (const quiz of existingQuizzes as any[]) {
-        const updates = [];
-        const values = [];
-        
-        if (!quiz.content) {
-          updates.push("content = ?");
-          values.push(quiz.title || '');
-        }
-        
-        if (!quiz.quiz_type) {
-          updates.push("quiz_type = ?");
-          values.push('multiple-choice');
-        }
-        
-        if (!quiz.createdAt) {
-          updates.push("createdAt = ?");
-          values.push(new Date().toISOString());
-        }
-        
-        if (updates.length > 0) {
-          values.push(quiz.id);
-          await localDb.runAsync(`UPDATE quiz_maker SET ${updates.join(', ')} WHERE id = ?;`, values);
-        }
+    const row = await localDb.getFirstAsync("SELECT value FROM sync_state WHERE key = ?;", [key]) as { value: string | null } | null;
+    return row?.value ?? null;
+};
+
+export const setSyncState = async (key: string, value: string | null) => {
+    const localDb = await getDb();
+    if (value === null) {
+      await localDb.runAsync("DELETE FROM sync_state WHERE key = ?;", [key]);
+      return;
+    }
+    await localDb.runAsync(
+      "INSERT INTO sync_state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value;",
+      [key, value]
+    );
+};
+
+// Called when another account signs in: rows already on the device stay
+// there but are marked as the previous account's, and its unsynced changes are
+// dropped so none of them are pushed to the new account.
+export const assignSyncRowsToPreviousAccount = async (previousUserId: string) => {
+    const localDb = await getDb();
+    await localDb.withTransactionAsync(async () => {
+      for (const table of SYNC_TABLES) {
+        await localDb.runAsync(`UPDATE ${table} SET owner_id = ? WHERE owner_id IS NULL;`, [previousUserId]);
       }
-      
-      console.log("DATABASE: Migration completed successfully.");
+      await localDb.runAsync("DELETE FROM sync_outbox;");
+    });
+    syncOutboxListeners.forEach(listener => listener());
+};
+
+// The account a synced row belongs to, or null when it belongs to whoever is signed in
+export const getSyncRecordOwner = async (table: SyncTable, uuid: string): Promise<string | null> => {
+    const localDb = await getDb();
+    const row = await localDb.getFirstAsync(`SELECT owner_id FROM ${table} WHERE uuid = ?;`, [uuid]) as { owner_id: string | null } | null;
+    return row?.owner_id ?? null;
+};
+
+export const getSyncOutbox = async (): Promise<SyncOutboxEntry[]> => {
+    const localDb = await getDb();
+    const result = await localDb.getAllAsync("SELECT * FROM sync_outbox ORDER BY id ASC;");
+    return (result as SyncOutboxEntry[]) ?? [];
+};
+
+export const getSyncOutboxCount = async (): Promise<number> => {
+    const localDb = await getDb();
+    try {
+      const row = await localDb.getFirstAsync("SELECT COUNT(*) AS count FROM sync_outbox;") as { count: number } | null;
+      return row?.count ?? 0;
     } catch (error) {
-      console.error("DATABASE: Migration error:", error);
-      // If migration fails, try to recreate the table
-      try {
-        console.log("DATABASE: Attempting to recreate quiz_maker table...");
-        await localDb.execAsync("DROP TABLE IF EXISTS quiz_maker;");
-        await initQuizTable();
-      } catch (recreateError) {
-        console.error("DATABASE: Failed to recreate quiz_maker table:", recreateError);
+      console.warn("Could not count pending sync changes.", error);
+      return 0;
+    }
+};
+
+export const getSyncOutboxEntry = async (table: SyncTable, uuid: string): Promise<SyncOutboxEntry | null> => {
+    const localDb = await getDb();
+    const result = await localDb.getFirstAsync(
+      "SELECT * FROM sync_outbox WHERE table_name = ? AND record_uuid = ?;",
+      [table, uuid]
+    );
+    return result as SyncOutboxEntry | null;
+};
+
+// Matching on createdAt keeps an entry that was re-queued while it was being pushed
+export const removeSyncOutboxEntry = async (entry: SyncOutboxEntry) => {
+    const localDb = await getDb();
+    await localDb.runAsync("DELETE FROM sync_outbox WHERE id = ? AND createdAt = ?;", [entry.id, entry.createdAt]);
+};
+
+export const markSyncOutboxEntryFailed = async (id: number, error: string) => {
+    const localDb = await getDb();
+    await localDb.runAsync(
+      "UPDATE sync_outbox SET attempts = attempts + 1, lastError = ? WHERE id = ?;",
+      [error, id]
+    );
+};
+
+export const getSyncRecord = async (table: SyncTable, uuid: string): Promise<SyncRecord | null> => {
+    const localDb = await getDb();
+    const row = await localDb.getFirstAsync(`SELECT * FROM ${table} WHERE uuid = ?;`, [uuid]) as any;
+    if (!row) return null;
+
+    const record: SyncRecord = { client_id: row.uuid, updatedAt: row.updatedAt ?? row.createdAt };
+    for (const column of SYNC_COLUMNS[table]) {
+      record[column] = row[column] ?? null;
+    }
+    if (SYNC_COLUMNS[table].includes('source_note_type')) {
+      const sourceTable = SOURCE_NOTE_TABLES[row.source_note_type];
+      const source = row.source_note_id && sourceTable
+        ? await localDb.getFirstAsync(`SELECT uuid FROM ${sourceTable} WHERE id = ?;`, [row.source_note_id]) as { uuid: string | null } | null
+        : null;
+      record.source_note_client_id = source?.uuid ?? null;
+    }
+    return record;
+};
+
+// Writes a record pulled from Supabase. Unlike the regular CRUD functions this
+// does not queue anything, otherwise every pull would be pushed straight back.
+export const applyRemoteSyncRecord = async (table: SyncTable, record: SyncRecord) => {
+    const localDb = await getDb();
+    const existing = await localDb.getFirstAsync(`SELECT id FROM ${table} WHERE uuid = ?;`, [record.client_id]) as { id: number } | null;
+
+    if (record.deletedAt) {
+      if (!existing) return;
+      await localDb.runAsync(`DELETE FROM ${table} WHERE id = ?;`, [existing.id]);
+      if (table === 'notes' || table === 'scan_notes') {
+        await removeNoteChunks(table === 'notes' ? 'note' : 'scan-note', existing.id);
+        await removeNoteChats(table === 'notes' ? 'note' : 'scan-note', existing.id);
+        await removeNoteTags(table === 'notes' ? 'note' : 'scan-note', existing.id);
+        await removeNoteAttachments(table === 'notes' ? 'note' : 'scan-note', existing.id);
+      }
+      if (table === 'flash_card_sets') {
+        await localDb.runAsync("DELETE FROM flash_card_reviews WHERE set_id = ?;", [existing.id]);
+        await localDb.runAsync("DELETE FROM flash_card_review_log WHERE set_id = ?;", [existing.id]);
       }
+      return;
+    }
+
+    const columns = [...SYNC_COLUMNS[table], 'updatedAt'];
+    const values: (string | number | null)[] = SYNC_COLUMNS[table].map(column =>
+      column === 'createdAt' ? toIsoString(record.createdAt) : record[column] ?? null
+    );
+    values.push(toIsoString(record.updatedAt));
+
+    if (SYNC_COLUMNS[table].includes('source_note_type')) {
+      const sourceTable = SOURCE_NOTE_TABLES[record.source_note_type];
+      const source = record.source_note_client_id && sourceTable
+        ? await localDb.getFirstAsync(`SELECT id FROM ${sourceTable} WHERE uuid = ?;`, [record.source_note_client_id]) as { id: number } | null
+        : null;
+      columns.push('source_note_id');
+      values.push(source?.id ?? null);
     }
-  };
\ No newline at end of file
+
+    if (existing) {
+      await localDb.runAsync(
+        `UPDATE ${table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE id = ?;`,
+        [...values, existing.id]
+      );
+    } else {
+      await localDb.runAsync(
+        `INSERT INTO ${table} (uuid, ${columns.join(', ')}) VALUES (?, ${columns.map(() => '?').join(', ')});`,
+        [record.client_id, ...values]
+      );
+    }
+};
@@ -316,242 +316,235 @@ export const deleteFlashCardSetOnline = async (id: number) => {
   if (error) throw error;
 };
 
-// --- Online Credits System (Supabase) ---
+// --- Online Sync (Supabase) ---
+// Rows written by the sync service are keyed by the device-generated client_id.
+// Deletes are soft (deletedAt) so other devices can pull them; syncedAt is set
+// by a trigger on every write and serves as the pull cursor. It is stamped
+// before the write commits, so the sync service pulls from a little before its
+// cursor and skips the rows it already has.
+
 /**
- * Get total credits (permanent + expiring, minus expired) for the current user
+ * Insert or update a synced record by its client_id
  */
-export const getCreditsOnline = async (): Promise<number> => {
+export const upsertSyncRecordOnline = async (table: string, record: Record<string, any>) => {
   const userId = await checkAuth();
 
-  try {
-    // Clean up expired credits
-    await cleanupExpiredCreditsOnline();
+  const { error } = await supabase
+    .from(table)
+    .upsert({ ...record, user_id: userId, deletedAt: null }, { onConflict: 'client_id' });
+  if (error) throw error;
+};
 
-    // Permanent credits
-    const { data: creditsData, error: creditsError } = await supabase
-      .from('credits')
-      .select('balance')
-      .eq('user_id', userId)
-      .single();
-    
-    if (creditsError && creditsError.code !== 'PGRST116') {
-      console.error('Error getting permanent credits:', creditsError);
-      throw creditsError;
-    }
-    const permanentCredits = creditsData?.balance ?? 0;
+/**
+ * Mark a synced record as deleted
+ */
+export const markSyncRecordDeletedOnline = async (table: string, clientId: string, deletedAt: string) => {
+  const userId = await checkAuth();
 
-    // Expiring credits
-    const { data: expiringData, error: expiringError } = await supabase
-      .from('expiring_credits')
-      .select('amount')
-      .eq('user_id', userId);
-    
-    if (expiringError) {
-      console.error('Error getting expiring credits:', expiringError);
-      throw expiringError;
-    }
-    
-    const expiringCredits = expiringData?.reduce((sum, row) => sum + (row.amount ?? 0), 0) ?? 0;
+  const { error } = await supabase
+    .from(table)
+    .update({ deletedAt, updatedAt: deletedAt })
+    .eq('client_id', clientId)
+    .eq('user_id', userId);
+  if (error) throw error;
+};
 
-    const total = permanentCredits + expiringCredits;
-    console.log(`Online credits - Permanent: ${permanentCredits}, Expiring: ${expiringCredits}, Total: ${total}`);
-    
-    return total;
-  } catch (error) {
-    console.error('Error in getCreditsOnline:', error);
-    throw error;
+/**
+ * Get records with a syncedAt after `since`, oldest first
+ */
+export const getSyncChangesOnline = async (table: string, since: string | null, limit: number): Promise<any[]> => {
+  const userId = await checkAuth();
+
+  let query = supabase
+    .from(table)
+    .select('*')
+    .eq('user_id', userId)
+    .not('client_id', 'is', null)
+    .order('syncedAt', { ascending: true })
+    .limit(limit);
+  if (since) {
+    query = query.gt('syncedAt', since);
   }
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
 };
 
+// --- Online Credits System (Supabase) ---
+// Balances live in `credits` (permanent) and `expiring_credits`, but the client
+// never writes them directly: every change goes through the get_credit_balance,
+// spend_credits, release_credits and grant_credits RPCs, which run in a single
+// transaction and record each change in `credit_ledger`. Expired credits are
+// removed server-side. Grants are server-only: the app asks the verify-purchase
+// edge function to check a store receipt and never grants credits itself.
+
+export type CreditLedgerEntryType = 'grant' | 'spend' | 'expire' | 'refund';
+
+export interface CreditLedgerEntry {
+  id: number;
+  entry_type: CreditLedgerEntryType;
+  amount: number;
+  balance_after: number;
+  reason: string | null;
+  feature: string | null;
+  reference: string | null;
+  createdAt: string;
+}
+
+export interface CreditChangeResult {
+  success: boolean;
+  balance: number;
+  ledger_id?: number;
+  error?: string;
+}
+
 /**
- * Add permanent credits for the current user (upsert row)
+ * Get total credits (permanent + expiring, minus expired) for the current user
  */
-export const addCreditsOnline = async (amount: number) => {
-  const userId = await checkAuth();
-  const userEmail = await getUserEmail();
+export const getCreditsOnline = async (): Promise<number> => {
+  await checkAuth();
 
   try {
-    // Try to update, if not exists, insert
-    const { data, error } = await supabase
-      .from('credits')
-      .select('balance')
-      .eq('user_id', userId)
-      .single();
-    
-    if (error && error.code !== 'PGRST116') {
-      console.error('Error checking existing credits:', error);
+    const { data, error } = await supabase.rpc('get_credit_balance');
+    if (error) {
+      console.error('Error getting credit balance:', error);
       throw error;
     }
 
-    if (data) {
-      // Update existing
-      const { error: updateErr } = await supabase
-        .from('credits')
-        .update({ balance: data.balance + amount })
-        .eq('user_id', userId);
-      
-      if (updateErr) {
-        console.error('Error updating credits:', updateErr);
-        throw updateErr;
-      }
-      
-      console.log(`Updated permanent credits: ${data.balance} + ${amount} = ${data.balance + amount}`);
-    } else {
-      // Insert new
-      const { error: insertErr } = await supabase
-        .from('credits')
-        .insert([{ user_id: userId, user_email: userEmail, balance: amount }]);
-      
-      if (insertErr) {
-        console.error('Error inserting credits:', insertErr);
-        throw insertErr;
-      }
-      
-      console.log(`Inserted new permanent credits: ${amount}`);
-    }
+    console.log(`Online credits - Total: ${data}`);
+    return data ?? 0;
   } catch (error) {
-    console.error('Error in addCreditsOnline:', error);
+    console.error('Error in getCreditsOnline:', error);
     throw error;
   }
 };
 
+export interface PurchaseVerificationResult {
+  success: boolean;
+  // Credits granted by this call; 0 when the purchase was already credited
+  granted: number;
+  balance: number;
+  error?: string;
+}
+
 /**
- * Add expiring credits for the current user
+ * Ask the verify-purchase edge function to credit a store purchase. The
+ * function checks the receipt with RevenueCat and grants the plan's credits
+ * through grant_credits, keyed by the store transaction id so a purchase is
+ * only ever credited once. Without a transaction id (subscriptions) it uses
+ * the latest transaction of the product.
  */
-export const addExpiringCreditsOnline = async (amount: number, expires_at: string) => {
-  const userId = await checkAuth();
-  const userEmail = await getUserEmail();
+export const verifyPurchaseOnline = async (
+  productId: string,
+  transactionId?: string
+): Promise<PurchaseVerificationResult> => {
+  await checkAuth();
 
   try {
-    const { error } = await supabase
-      .from('expiring_credits')
-      .insert([{ user_id: userId, user_email: userEmail, amount, expires_at }]);
-    
+    const { data, error } = await supabase.functions.invoke('verify-purchase', {
+      body: { productId, transactionId: transactionId ?? null },
+    });
     if (error) {
-      console.error('Error adding expiring credits:', error);
+      console.error('Error verifying purchase:', error);
       throw error;
     }
-    
-    console.log(`Added expiring credits: ${amount} expiring at ${expires_at}`);
+
+    const result = data as PurchaseVerificationResult;
+    console.log(`Purchase ${transactionId ?? productId}: ${result.success ? `granted ${result.granted}` : result.error}, balance: ${result.balance}`);
+    return result;
   } catch (error) {
-    console.error('Error in addExpiringCreditsOnline:', error);
+    console.error('Error in verifyPurchaseOnline:', error);
     throw error;
   }
 };
 
 /**
- * Remove expired credits for the current user
+ * Spend credits (expiring first, then permanent) for the current user.
+ * Fails without charging anything if the balance is too low. A reference (the
+ * reservation id of an AI call) lets releaseCreditsOnline give the spend back
+ * if the call fails.
  */
-export const cleanupExpiredCreditsOnline = async () => {
-  const userId = await checkAuth();
+export const spendCreditsOnline = async (
+  amount: number,
+  feature?: string,
+  reason?: string,
+  reference?: string
+): Promise<CreditChangeResult> => {
+  await checkAuth();
 
   try {
-    const now = new Date().toISOString();
-    const { error } = await supabase
-      .from('expiring_credits')
-      .delete()
-      .lt('expires_at', now)
-      .eq('user_id', userId);
-    
+    const { data, error } = await supabase.rpc('spend_credits', {
+      p_amount: amount,
+      p_feature: feature ?? null,
+      p_reason: reason ?? null,
+      p_reference: reference ?? null,
+    });
     if (error) {
-      console.error('Error cleaning up expired credits:', error);
+      console.error('Error spending credits:', error);
       throw error;
     }
+
+    const result = data as CreditChangeResult;
+    if (result.success) {
+      console.log(`Successfully spent ${amount} credits online, balance: ${result.balance}`);
+    } else {
+      console.log(`Insufficient credits: need ${amount}, have ${result.balance}`);
+    }
+    return result;
   } catch (error) {
-    console.error('Error in cleanupExpiredCreditsOnline:', error);
+    console.error('Error in spendCreditsOnline:', error);
     throw error;
   }
 };
 
 /**
- * Spend credits (expiring first, then permanent) for the current user
- * Returns true if successful, false if insufficient credits
+ * Give back credits spent under a reservation whose AI call failed. Each
+ * reservation can be released once, within 24 hours, for at most what was
+ * spent; a release the server refuses comes back with success false.
  */
-export const spendCreditsOnline = async (amount: number): Promise<boolean> => {
-  const userId = await checkAuth();
+export const releaseCreditsOnline = async (
+  reservationId: string,
+  amount: number,
+  reason: string
+): Promise<CreditChangeResult> => {
+  await checkAuth();
 
   try {
-    await cleanupExpiredCreditsOnline();
-
-    // Get all expiring credits, sorted by soonest expiry
-    const { data: expiring, error: expErr } = await supabase
-      .from('expiring_credits')
-      .select('id, amount')
-      .eq('user_id', userId)
-      .order('expires_at', { ascending: true });
-    
-    if (expErr) {
-      console.error('Error getting expiring credits for spending:', expErr);
-      throw expErr;
-    }
-
-    let amountToDeduct = amount;
-    for (const credit of expiring ?? []) {
-      if (amountToDeduct === 0) break;
-      const deduct = Math.min(amountToDeduct, credit.amount);
-      const newAmount = credit.amount - deduct;
-      amountToDeduct -= deduct;
-
-      if (newAmount === 0) {
-        const { error: deleteErr } = await supabase
-          .from('expiring_credits')
-          .delete()
-          .eq('id', credit.id);
-        
-        if (deleteErr) {
-          console.error('Error deleting expired credit:', deleteErr);
-          throw deleteErr;
-        }
-      } else {
-        const { error: updateErr } = await supabase
-          .from('expiring_credits')
-          .update({ amount: newAmount })
-          .eq('id', credit.id);
-        
-        if (updateErr) {
-          console.error('Error updating expiring credit:', updateErr);
-          throw updateErr;
-        }
-      }
-    }
-
-    if (amountToDeduct > 0) {
-      // Deduct from permanent credits
-      const { data, error } = await supabase
-        .from('credits')
-        .select('balance')
-        .eq('user_id', userId)
-        .single();
-      
-      if (error) {
-        console.error('Error getting permanent credits for spending:', error);
-        throw error;
-      }
-      
-      if ((data?.balance ?? 0) < amountToDeduct) {
-        console.log(`Insufficient credits: need ${amountToDeduct}, have ${data?.balance ?? 0}`);
-        return false;
-      }
-
-      const { error: updateErr } = await supabase
-        .from('credits')
-        .update({ balance: data.balance - amountToDeduct })
-        .eq('user_id', userId);
-      
-      if (updateErr) {
-        console.error('Error updating permanent credits:', updateErr);
-        throw updateErr;
-      }
+    const { data, error } = await supabase.rpc('release_credits', {
+      p_reservation_id: reservationId,
+      p_amount: amount,
+      p_reason: reason,
+    });
+    if (error) {
+      console.error('Error releasing credits:', error);
+      throw error;
     }
 
-    console.log(`Successfully spent ${amount} credits online`);
-    return true;
+    const result = data as CreditChangeResult;
+    console.log(`Release for reservation ${reservationId}: ${result.success ? 'applied' : result.error}, balance: ${result.balance}`);
+    return result;
   } catch (error) {
-    console.error('Error in spendCreditsOnline:', error);
+    console.error('Error in releaseCreditsOnline:', error);
     throw error;
   }
 };
 
+/**
+ * Get the current user's credit history, newest first
+ */
+export const getCreditHistoryOnline = async (limit = 50): Promise<CreditLedgerEntry[]> => {
+  const userId = await checkAuth();
+
+  const { data, error } = await supabase
+    .from('credit_ledger')
+    .select('id, entry_type, amount, balance_after, reason, feature, reference, createdAt')
+    .eq('user_id', userId)
+    .order('createdAt', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as CreditLedgerEntry[]) ?? [];
+};
+
 // --- Online Purchase Tracking (Supabase) ---
 /**
  * Track a purchase in the database
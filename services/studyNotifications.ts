@@ -0,0 +1,68 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+// Local notifications for the study timer. Each one is scheduled for the end
+// of the running phase when the timer starts or resumes, so it arrives even
+// if the app is in the background, and cancelled on pause or reset.
+
+const CHANNEL_ID = 'study-timer';
+
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: true,
+    shouldSetBadge: false,
+  }),
+});
+
+let channelReady: Promise<void> | null = null;
+
+const ensureChannel = () => {
+  if (Platform.OS !== 'android') return Promise.resolve();
+  if (!channelReady) {
+    channelReady = Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: 'Study timer',
+      importance: Notifications.AndroidImportance.HIGH,
+      sound: 'default',
+    }).then(() => undefined);
+  }
+  return channelReady;
+};
+
+// Asks once; later calls return the stored answer
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+// Returns the notification id, or null when notifications aren't allowed
+export const scheduleTimerNotification = async (title: string, body: string, at: Date): Promise<string | null> => {
+  try {
+    if (!(await ensureNotificationPermission())) return null;
+    await ensureChannel();
+    return await Notifications.scheduleNotificationAsync({
+      content: { title, body, sound: 'default' },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: at,
+        channelId: CHANNEL_ID,
+      },
+    });
+  } catch (error) {
+    console.warn('Failed to schedule timer notification:', error);
+    return null;
+  }
+};
+
+export const cancelTimerNotification = async (id: string | null) => {
+  if (!id) return;
+  try {
+    await Notifications.cancelScheduledNotificationAsync(id);
+  } catch (error) {
+    console.warn('Failed to cancel timer notification:', error);
+  }
+};
@@ -0,0 +1,188 @@
+import type { Ionicons } from '@expo/vector-icons';
+import {
+  addCustomSubject,
+  CustomSubjectRow,
+  deleteCustomSubject,
+  getCustomSubjects,
+} from './historyStorage';
+
+// Every subject screen is rendered by app/subject/[id].tsx from one of these
+// entries. The id is what notes store in their `subject` column and what
+// history rows store as their feature, so built-in ids must never change.
+
+export type SubjectTool = 'ask' | 'scan-note' | 'chat' | 'quiz' | 'flash-cards' | 'mind-map';
+
+export type SubjectIcon = keyof typeof Ionicons.glyphMap;
+
+export interface Subject {
+  id: string;
+  name: string;
+  color: string;
+  icon: SubjectIcon;
+  // Who the AI should be when answering questions in this subject
+  persona: string;
+  tools: SubjectTool[];
+  isCustom: boolean;
+}
+
+export const DEFAULT_SUBJECT_TOOLS: SubjectTool[] = ['ask', 'scan-note', 'chat', 'quiz', 'flash-cards', 'mind-map'];
+
+export const BUILT_IN_SUBJECTS: Subject[] = [
+  {
+    id: 'mathematics',
+    name: 'Mathematics',
+    color: '#667eea',
+    icon: 'calculator-outline',
+    persona: 'a patient mathematics tutor who explains every step of a solution',
+    tools: ['ask', 'scan-note', 'chat', 'quiz', 'flash-cards'],
+    isCustom: false,
+  },
+  {
+    id: 'physics',
+    name: 'Physics',
+    color: '#764ba2',
+    icon: 'magnet-outline',
+    persona: 'a physics teacher who connects formulas to the physical situation they describe',
+    tools: DEFAULT_SUBJECT_TOOLS,
+    isCustom: false,
+  },
+  {
+    id: 'chemistry',
+    name: 'Chemistry',
+    color: '#f093fb',
+    icon: 'flask-outline',
+    persona: 'a chemistry teacher who is careful with equations, units and lab safety',
+    tools: DEFAULT_SUBJECT_TOOLS,
+    isCustom: false,
+  },
+  {
+    id: 'biology',
+    name: 'Biology',
+    color: '#43e97b',
+    icon: 'leaf-outline',
+    persona: 'a biology teacher who explains processes in order and uses correct terminology',
+    tools: DEFAULT_SUBJECT_TOOLS,
+    isCustom: false,
+  },
+  {
+    id: 'history',
+    name: 'History',
+    color: '#ff6b6b',
+    icon: 'time-outline',
+    persona: 'a history teacher who places events in context and weighs causes and consequences',
+    tools: DEFAULT_SUBJECT_TOOLS,
+    isCustom: false,
+  },
+  {
+    id: 'geography',
+    name: 'Geography',
+    color: '#4ecdc4',
+    icon: 'earth-outline',
+    persona: 'a geography teacher who links places, physical processes and human activity',
+    tools: DEFAULT_SUBJECT_TOOLS,
+    isCustom: false,
+  },
+];
+
+// Choices offered when adding a subject
+export const SUBJECT_COLORS = ['#667eea', '#764ba2', '#f093fb', '#43e97b', '#ff6b6b', '#4ecdc4', '#feca57', '#45b7d1', '#fa709a', '#96ceb4'];
+
+export const SUBJECT_ICONS: SubjectIcon[] = [
+  'book-outline',
+  'library-outline',
+  'language-outline',
+  'laptop-outline',
+  'trending-up-outline',
+  'bulb-outline',
+  'musical-notes-outline',
+  'color-palette-outline',
+  'globe-outline',
+  'code-slash-outline',
+  'people-outline',
+  'fitness-outline',
+];
+
+const fromRow = (row: CustomSubjectRow): Subject => {
+  let tools: SubjectTool[] = DEFAULT_SUBJECT_TOOLS;
+  try {
+    const parsed = JSON.parse(row.tools);
+    if (Array.isArray(parsed) && parsed.length > 0) tools = parsed;
+  } catch {
+    console.warn(`SUBJECTS: Invalid tools for custom subject ${row.id}, using defaults`);
+  }
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    icon: row.icon as SubjectIcon,
+    persona: row.persona,
+    tools,
+    isCustom: true,
+  };
+};
+
+export const getBuiltInSubject = (id: string): Subject | undefined =>
+  BUILT_IN_SUBJECTS.find(subject => subject.id === id);
+
+export const getSubjects = async (): Promise<Subject[]> => {
+  const custom = await getCustomSubjects();
+  return [...BUILT_IN_SUBJECTS, ...custom.map(fromRow)];
+};
+
+export const getSubject = async (id: string): Promise<Subject | null> => {
+  const builtIn = getBuiltInSubject(id);
+  if (builtIn) return builtIn;
+  const custom = await getCustomSubjects();
+  const row = custom.find(subject => subject.id === id);
+  return row ? fromRow(row) : null;
+};
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'subject';
+
+// Ids are readable slugs of the name ("world-literature"), numbered when the
+// slug is already taken
+export const createCustomSubject = async (input: {
+  name: string;
+  color: string;
+  icon: SubjectIcon;
+  persona?: string;
+  tools?: SubjectTool[];
+}): Promise<Subject> => {
+  const name = input.name.trim();
+  if (!name) throw new Error('Subject name is required');
+
+  const taken = new Set((await getSubjects()).map(subject => subject.id));
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+
+  const subject: Subject = {
+    id,
+    name,
+    color: input.color,
+    icon: input.icon,
+    persona: input.persona?.trim() || `a knowledgeable ${name} teacher`,
+    tools: input.tools ?? DEFAULT_SUBJECT_TOOLS,
+    isCustom: true,
+  };
+  await addCustomSubject({
+    id: subject.id,
+    name: subject.name,
+    color: subject.color,
+    icon: subject.icon,
+    persona: subject.persona,
+    tools: JSON.stringify(subject.tools),
+  });
+  return subject;
+};
+
+export const removeCustomSubject = async (id: string) => {
+  if (getBuiltInSubject(id)) throw new Error('Built-in subjects cannot be removed');
+  await deleteCustomSubject(id);
+};
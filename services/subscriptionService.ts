@@ -1,20 +1,28 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { Platform } from 'react-native';
 import Purchases, { CustomerInfo, PurchasesOffering, PurchasesPackage } from 'react-native-purchases';
+import { generateUUID } from '../utils/uuid';
+import { AIRequestOptions, CreditCharge } from './aiGateway';
 import {
-  addExpiringCreditsOnline,
   checkAuth,
+  CreditLedgerEntry,
+  getCreditHistoryOnline,
   getCreditsOnline,
   getRestorationStatsOnline,
   isPurchaseProcessedOnline,
   isTransactionRestoredOnline,
   markPurchaseAsProcessedOnline,
   markPurchaseAsRestored,
+  releaseCreditsOnline,
   spendCreditsOnline,
   trackCreditRestorationOnline,
-  trackPurchaseOnline
+  trackPurchaseOnline,
+  verifyPurchaseOnline
 } from './onlineStorage';
 
-// Credit mapping for different subscription plans
+// Credit mapping for different subscription plans. Only used to show what a
+// plan is worth; the verify-purchase edge function decides what is granted,
+// so keep this in step with PLANS in supabase/functions/verify-purchase.
 const PLAN_CREDITS: Record<string, number> = {
   weekly: 100,
   monthly: 400,
@@ -22,13 +30,46 @@ const PLAN_CREDITS: Record<string, number> = {
   year: 1000, // Handle both 'yearly' and 'year' identifiers
 };
 
-// Credit expiration mapping
-const PLAN_DURATION: Record<string, number> = {
-  weekly: 7, // days
-  monthly: 30, // days
-  yearly: 365, // days
-  year: 365, // days
-};
+const PENDING_RELEASES_KEY = '@pending_credit_releases';
+
+// Credits charged for one AI call, which may take several gateway requests
+// (one per chunk of a long document). They are spent up front (so the balance
+// can't be used twice) under a reservation id that every request made for the
+// call carries, and either used when the call succeeds or released, which
+// gives them back, when it fails or comes back empty. The amount is split
+// evenly over the requests, and the share of requests that were never
+// answered is released.
+export interface CreditReservation {
+  id: string;
+  ledgerId: number;
+  amount: number;
+  requests: number;
+  feature: string;
+  status: 'reserved' | 'used' | 'released';
+}
+
+interface PendingRelease {
+  reservationId: string;
+  amount: number;
+  reason: string;
+}
+
+export type CreditReservationResult =
+  | { success: true; reservation: CreditReservation; remainingCredits: number }
+  | { success: false; error: string };
+
+export class EmptyAIResponseError extends Error {
+  constructor() {
+    super('The AI returned an empty response. Please try again.');
+    this.name = 'EmptyAIResponseError';
+  }
+}
+
+const isEmptyAIResponse = (result: unknown): boolean =>
+  result === null ||
+  result === undefined ||
+  (typeof result === 'string' && result.trim().length === 0) ||
+  (Array.isArray(result) && result.length === 0);
 
 class SubscriptionService {
   private static instance: SubscriptionService;
@@ -87,7 +128,6 @@ class SubscriptionService {
       const productId = pack.product.identifier.toLowerCase();
       console.log('SubscriptionService: Product ID:', productId);
       const creditsToAdd = PLAN_CREDITS[productId] || 0;
-      const durationDays = PLAN_DURATION[productId] || 30;
       if (creditsToAdd <= 0) {
         console.log('SubscriptionService: No credits to add for this plan');
         return { success: true };
@@ -101,24 +141,19 @@ class SubscriptionService {
           purchaseDate: t.purchaseDate
         }))
       );
-      // Process all unprocessed nonSubscriptionTransactions for this product
+      // Process all unprocessed nonSubscriptionTransactions for this product.
+      // Credits are granted server-side once the receipt checks out.
       const transactions = allTxns.filter(t => t.productIdentifier.toLowerCase() === productId);
       if (transactions.length === 0) {
-        // Fallback: try to process the latest transaction as before
-        const fallbackTransactionId = `purchase_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-        const alreadyProcessed = await isPurchaseProcessedOnline(fallbackTransactionId);
-        if (!alreadyProcessed) {
-          const expirationDate = new Date();
-          expirationDate.setDate(expirationDate.getDate() + durationDays);
-          await addExpiringCreditsOnline(creditsToAdd, expirationDate.toISOString());
-          await markPurchaseAsProcessedOnline(fallbackTransactionId);
-          await trackCreditRestorationOnline(productId, fallbackTransactionId, creditsToAdd, creditsToAdd, 'initial_purchase', 'success');
-          console.log('Credited fallback transaction:', fallbackTransactionId);
-          return { success: true, credits: creditsToAdd };
-        } else {
-          console.log('Fallback transaction already processed:', fallbackTransactionId);
-          return { success: true, credits: 0, error: 'Credits already added for this purchase' };
+        // Subscriptions have no one-time transactions; the server credits the
+        // latest transaction of the product
+        const result = await verifyPurchaseOnline(pack.product.identifier);
+        if (!result.success) {
+          return { success: true, credits: 0, error: result.error || 'Credits could not be verified for this purchase' };
         }
+        return result.granted > 0
+          ? { success: true, credits: result.granted }
+          : { success: true, credits: 0, error: 'Credits already added for this purchase' };
       }
       let totalCreditsAdded = 0;
       let errors: string[] = [];
@@ -145,20 +180,21 @@ class SubscriptionService {
           } catch (trackError) {
             console.error('Failed to track purchase for transaction:', transactionId, trackError);
           }
-          const expirationDate = new Date();
-          expirationDate.setDate(expirationDate.getDate() + durationDays);
-          await addExpiringCreditsOnline(creditsToAdd, expirationDate.toISOString());
+          const result = await verifyPurchaseOnline(txn.productIdentifier, transactionId);
+          if (!result.success) {
+            throw new Error(result.error || 'Purchase could not be verified');
+          }
           await markPurchaseAsProcessedOnline(transactionId);
           await trackCreditRestorationOnline(
             productId,
             transactionId,
             creditsToAdd,
-            creditsToAdd,
+            result.granted,
             'initial_purchase',
             'success'
           );
-          totalCreditsAdded += creditsToAdd;
-          console.log(`Successfully added ${creditsToAdd} credits for transaction ${transactionId}`);
+          totalCreditsAdded += result.granted;
+          console.log(`Successfully added ${result.granted} credits for transaction ${transactionId}`);
         } catch (creditError: any) {
           console.error('Failed to add credits for transaction', transactionId, creditError);
           errors.push(transactionId);
@@ -214,6 +250,8 @@ class SubscriptionService {
 
   async getCurrentCredits(): Promise<{ online: number; total: number }> {
     try {
+      await this.retryPendingReleases();
+
       // Get online credits only
       let onlineCredits = 0;
       try {
@@ -236,16 +274,16 @@ class SubscriptionService {
     }
   }
 
-  async spendCredits(amount: number): Promise<{ success: boolean; remainingCredits?: number; error?: string }> {
+  async spendCredits(amount: number, feature?: string): Promise<{ success: boolean; remainingCredits?: number; error?: string }> {
     try {
       console.log(`SubscriptionService: Attempting to spend ${amount} credits`);
       
       // Try online credits only
       try {
-        const onlineSuccess = await spendCreditsOnline(amount);
-        if (onlineSuccess) {
-          const remaining = await this.getCurrentCredits();
-          return { success: true, remainingCredits: remaining.total };
+        // spend_credits checks the balance and deducts in one server-side transaction
+        const result = await spendCreditsOnline(amount, feature);
+        if (result.success) {
+          return { success: true, remainingCredits: result.balance };
         }
       } catch (onlineError: any) {
         if (onlineError.message === 'Not authenticated') {
@@ -264,6 +302,159 @@ class SubscriptionService {
     }
   }
 
+  async reserveCredits(amount: number, feature: string, requests = 1): Promise<CreditReservationResult> {
+    await this.retryPendingReleases();
+    try {
+      console.log(`SubscriptionService: Reserving ${amount} credits for ${feature}`);
+      const reservationId = generateUUID();
+      const result = await spendCreditsOnline(amount, feature, 'AI request', reservationId);
+      if (!result.success || result.ledger_id === undefined) {
+        return { success: false, error: 'Insufficient credits' };
+      }
+      return {
+        success: true,
+        reservation: { id: reservationId, ledgerId: result.ledger_id, amount, requests, feature, status: 'reserved' },
+        remainingCredits: result.balance,
+      };
+    } catch (error: any) {
+      if (error.message === 'Not authenticated') {
+        return { success: false, error: 'Please sign in to use credits' };
+      }
+      console.error('SubscriptionService: Failed to reserve credits:', error);
+      return { success: false, error: 'Failed to process credit transaction' };
+    }
+  }
+
+  // Gives back a reservation's credits, or `amount` of them. If the release
+  // can't reach the server (usually the same outage that broke the AI call) it
+  // is queued and retried the next time credits are read or reserved.
+  async releaseCredits(reservation: CreditReservation, reason: string, amount = reservation.amount) {
+    if (reservation.status !== 'reserved') return;
+    reservation.status = 'released';
+    if (amount <= 0) return;
+    const release = { reservationId: reservation.id, amount, reason };
+    try {
+      await releaseCreditsOnline(release.reservationId, release.amount, release.reason);
+    } catch (error: any) {
+      if (error?.code) {
+        console.error('SubscriptionService: Release was rejected:', error);
+        return;
+      }
+      console.warn('SubscriptionService: Release failed, queueing it for retry:', error);
+      await this.queuePendingRelease(release);
+    }
+  }
+
+  // Runs an AI call against a reservation. The task gets the request options
+  // that number its gateway requests under the reservation and must pass them
+  // on. When the call throws (failures, timeouts, cancellations, unreadable
+  // responses) the share of the requests that weren't answered is released;
+  // an empty result releases everything, and a usable one releases what was
+  // reserved for requests that were never made.
+  async runWithCredits<T>(
+    reservation: CreditReservation,
+    task: (credits: AIRequestOptions) => Promise<T>,
+    isEmpty: (result: T) => boolean = isEmptyAIResponse
+  ): Promise<T> {
+    let started = 0;
+    let answered = 0;
+    const charge: CreditCharge = {
+      startRequest: () => {
+        started++;
+        let complete = false;
+        return {
+          reference: `${reservation.id}:${started}`,
+          complete: () => {
+            if (complete) return;
+            complete = true;
+            answered++;
+          },
+        };
+      },
+    };
+    const unanswered = () => Math.max(reservation.requests - answered, 0);
+    const unusedCredits = () => Math.floor((reservation.amount * unanswered()) / reservation.requests);
+
+    let result: T;
+    try {
+      result = await task({ credits: charge });
+    } catch (error: any) {
+      await this.releaseCredits(
+        reservation,
+        `AI request failed after ${answered} of ${reservation.requests} requests: ${error?.message ?? 'unknown error'}`,
+        unusedCredits()
+      );
+      throw error;
+    }
+    if (isEmpty(result)) {
+      await this.releaseCredits(reservation, 'AI returned an empty response');
+      throw new EmptyAIResponseError();
+    }
+    // A task that never reported its requests (or didn't need the gateway)
+    // keeps the whole charge
+    if (answered > 0 && unanswered() > 0) {
+      await this.releaseCredits(
+        reservation,
+        `AI call needed ${answered} of ${reservation.requests} requests`,
+        unusedCredits()
+      );
+    }
+    reservation.status = 'used';
+    console.log(`SubscriptionService: Used credits for ${answered} of ${reservation.requests} requests for ${reservation.feature}`);
+    return result;
+  }
+
+  private async queuePendingRelease(release: PendingRelease) {
+    try {
+      const stored = await AsyncStorage.getItem(PENDING_RELEASES_KEY);
+      const pending: PendingRelease[] = stored ? JSON.parse(stored) : [];
+      if (!pending.some(queued => queued.reservationId === release.reservationId)) {
+        pending.push(release);
+      }
+      await AsyncStorage.setItem(PENDING_RELEASES_KEY, JSON.stringify(pending));
+    } catch (error) {
+      console.error('SubscriptionService: Failed to queue release:', error);
+    }
+  }
+
+  async retryPendingReleases() {
+    try {
+      const stored = await AsyncStorage.getItem(PENDING_RELEASES_KEY);
+      const pending: PendingRelease[] = stored ? JSON.parse(stored) : [];
+      if (pending.length === 0) return;
+
+      const remaining: PendingRelease[] = [];
+      for (const release of pending) {
+        try {
+          // Already released or outside the release window also count as done
+          await releaseCreditsOnline(release.reservationId, release.amount, release.reason);
+        } catch (error: any) {
+          // A Postgres error code means the server rejected it; retrying won't help
+          if (error?.code) {
+            console.error(`SubscriptionService: Release for ${release.reservationId} was rejected:`, error);
+            continue;
+          }
+          console.warn(`SubscriptionService: Release for ${release.reservationId} still failing:`, error);
+          remaining.push(release);
+        }
+      }
+      await AsyncStorage.setItem(PENDING_RELEASES_KEY, JSON.stringify(remaining));
+    } catch (error) {
+      console.error('SubscriptionService: Failed to retry pending releases:', error);
+    }
+  }
+
+  async getCreditHistory(limit = 20): Promise<CreditLedgerEntry[]> {
+    try {
+      return await getCreditHistoryOnline(limit);
+    } catch (error: any) {
+      if (error.message !== 'Not authenticated') {
+        console.error('SubscriptionService: Failed to get credit history:', error);
+      }
+      return [];
+    }
+  }
+
   async restorePurchases(): Promise<CustomerInfo> {
     try {
       const customerInfo = await Purchases.restorePurchases();
@@ -306,13 +497,13 @@ class SubscriptionService {
       }
       const productId = data.product_id.toLowerCase();
       const creditsToAdd = PLAN_CREDITS[productId] || 0;
-      const durationDays = PLAN_DURATION[productId] || 30;
       if (creditsToAdd <= 0) {
         return { success: false, error: 'No credits to add for this plan' };
       }
-      const expirationDate = new Date();
-      expirationDate.setDate(expirationDate.getDate() + durationDays);
-      await addExpiringCreditsOnline(creditsToAdd, expirationDate.toISOString());
+      const result = await verifyPurchaseOnline(data.product_id, transactionId);
+      if (!result.success) {
+        return { success: false, error: result.error || 'Purchase could not be verified' };
+      }
       await markPurchaseAsRestored(transactionId);
       return { success: true };
     } catch (err: any) {
@@ -425,7 +616,6 @@ class SubscriptionService {
     try {
       const productIdLower = productId.toLowerCase();
       const expectedCredits = PLAN_CREDITS[productIdLower] || 0;
-      const durationDays = PLAN_DURATION[productIdLower] || 30;
 
       if (expectedCredits === 0) {
         return { success: true, credits: 0, error: 'No credits expected for this product' };
@@ -446,9 +636,10 @@ class SubscriptionService {
         return { success: true, credits: 0, error: 'Purchase too old for verification' };
       }
 
-      // Get transaction ID for this purchase
-      const transactionId = customerInfo.nonSubscriptionTransactions?.find(t => t.productIdentifier === productId)?.transactionIdentifier ||
-                           `purchase_${purchaseTime}_${productId}`;
+      // Subscriptions have no one-time transaction; the server then checks the
+      // product's latest transaction
+      const storeTransactionId = customerInfo.nonSubscriptionTransactions?.find(t => t.productIdentifier === productId)?.transactionIdentifier;
+      const transactionId = storeTransactionId || `purchase_${purchaseTime}_${productId}`;
 
       // Check if this transaction has already been restored
       const alreadyRestored = await isTransactionRestoredOnline(transactionId);
@@ -457,16 +648,12 @@ class SubscriptionService {
         return { success: true, credits: 0, error: 'Credits already restored for this transaction' };
       }
 
-      // Check if credits already exist for this purchase
-      const currentCredits = await this.getCurrentCredits();
-      
-      // For now, we'll add credits if they don't exist
-      // In a more sophisticated system, you might want to track which purchases have been processed
       try {
-        const expirationDate = new Date();
-        expirationDate.setDate(expirationDate.getDate() + durationDays);
-        
-        await addExpiringCreditsOnline(expectedCredits, expirationDate.toISOString());
+        // The verify-purchase function checks the receipt and grants at most once per transaction
+        const result = await verifyPurchaseOnline(productId, storeTransactionId);
+        if (!result.success) {
+          throw new Error(result.error || 'Purchase could not be verified');
+        }
         
         // Track the successful restoration
         try {
@@ -474,7 +661,7 @@ class SubscriptionService {
             productId,
             transactionId,
             expectedCredits,
-            expectedCredits,
+            result.granted,
             'verification',
             'success'
           );
@@ -482,9 +669,9 @@ class SubscriptionService {
           console.error('SubscriptionService: Failed to track restoration:', trackError);
         }
         
-        console.log(`SubscriptionService: Verified and added ${expectedCredits} credits for product ${productId}`);
+        console.log(`SubscriptionService: Verified and added ${result.granted} credits for product ${productId}`);
         
-        return { success: true, credits: expectedCredits };
+        return { success: true, credits: result.granted };
       } catch (creditError: any) {
         console.error(`SubscriptionService: Failed to add credits for ${productId}:`, creditError);
         
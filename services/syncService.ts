@@ -0,0 +1,252 @@
+import { AppState } from 'react-native';
+import { supabase } from '../utils/supabase';
+import {
+  applyRemoteSyncRecord,
+  assignSyncRowsToPreviousAccount,
+  getSyncOutbox,
+  getSyncOutboxCount,
+  getSyncOutboxEntry,
+  getSyncRecord,
+  getSyncRecordOwner,
+  getSyncState,
+  markSyncOutboxEntryFailed,
+  onSyncOutboxChange,
+  removeSyncOutboxEntry,
+  setSyncState,
+  SYNC_TABLES,
+  SyncOutboxEntry,
+  SyncRecord,
+  SyncTable,
+} from './historyStorage';
+import { getSyncChangesOnline, markSyncRecordDeletedOnline, upsertSyncRecordOnline } from './onlineStorage';
+
+export type SyncState = 'idle' | 'syncing' | 'offline' | 'error' | 'signed-out';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  lastSyncedAt: string | null;
+  error?: string;
+}
+
+const SYNC_INTERVAL_MS = 5 * 60 * 1000;
+const PUSH_DEBOUNCE_MS = 3000;
+const PULL_PAGE_SIZE = 200;
+// syncedAt is stamped when a row is written but the row only becomes visible
+// when its transaction commits, so a slow write can land behind a cursor that
+// has already moved past it. Each pull re-reads this much before the cursor.
+const PULL_OVERLAP_MS = 5 * 60 * 1000;
+
+const isNetworkError = (error: any) =>
+  /network|fetch|timed? ?out|offline/i.test(error?.message ?? String(error));
+
+// Offline-first sync between the local SQLite tables and Supabase.
+// Every run pulls remote changes first (so conflicts are resolved against the
+// latest server state) and then pushes the local outbox.
+class SyncService {
+  private static instance: SyncService;
+  private isStarted = false;
+  private status: SyncStatus = { state: 'idle', pendingCount: 0, lastSyncedAt: null };
+  private listeners = new Set<(status: SyncStatus) => void>();
+  private running: Promise<void> | null = null;
+  private rerunRequested = false;
+  private pushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static getInstance(): SyncService {
+    if (!SyncService.instance) {
+      SyncService.instance = new SyncService();
+    }
+    return SyncService.instance;
+  }
+
+  async start() {
+    if (this.isStarted) return;
+    this.isStarted = true;
+
+    this.setStatus({
+      lastSyncedAt: await getSyncState('lastSyncedAt'),
+      pendingCount: await getSyncOutboxCount(),
+    });
+
+    onSyncOutboxChange(() => this.schedulePush());
+    AppState.addEventListener('change', state => {
+      if (state === 'active') this.syncNow();
+    });
+    supabase.auth.onAuthStateChange(event => {
+      if (event === 'SIGNED_IN') this.syncNow();
+      if (event === 'SIGNED_OUT') this.setStatus({ state: 'signed-out', error: undefined });
+    });
+    setInterval(() => this.syncNow(), SYNC_INTERVAL_MS);
+
+    console.log('SyncService: Started');
+    await this.syncNow();
+  }
+
+  getStatus(): SyncStatus {
+    return this.status;
+  }
+
+  subscribe(listener: (status: SyncStatus) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Concurrent callers share the running sync; a request that arrives mid-run
+  // triggers one more pass so changes made during the run aren't left waiting.
+  syncNow(): Promise<void> {
+    if (this.running) {
+      this.rerunRequested = true;
+      return this.running;
+    }
+    this.running = this.runSync().finally(() => {
+      this.running = null;
+      if (this.rerunRequested) {
+        this.rerunRequested = false;
+        this.syncNow();
+      }
+    });
+    return this.running;
+  }
+
+  private schedulePush() {
+    getSyncOutboxCount().then(pendingCount => this.setStatus({ pendingCount }));
+    if (this.pushTimer) clearTimeout(this.pushTimer);
+    this.pushTimer = setTimeout(() => {
+      this.pushTimer = null;
+      this.syncNow();
+    }, PUSH_DEBOUNCE_MS);
+  }
+
+  private setStatus(update: Partial<SyncStatus>) {
+    this.status = { ...this.status, ...update };
+    this.listeners.forEach(listener => listener(this.status));
+  }
+
+  private async runSync() {
+    const { data } = await supabase.auth.getSession();
+    const userId = data.session?.user?.id;
+    if (!userId) {
+      this.setStatus({ state: 'signed-out', pendingCount: await getSyncOutboxCount(), error: undefined });
+      return;
+    }
+
+    this.setStatus({ state: 'syncing', error: undefined });
+    try {
+      await this.handleAccountChange(userId);
+      for (const table of SYNC_TABLES) {
+        await this.pullTable(table);
+      }
+      await this.pushOutbox(userId);
+
+      const lastSyncedAt = new Date().toISOString();
+      await setSyncState('lastSyncedAt', lastSyncedAt);
+      this.setStatus({ state: 'idle', lastSyncedAt, pendingCount: await getSyncOutboxCount() });
+      console.log('SyncService: Sync completed');
+    } catch (error: any) {
+      console.warn('SyncService: Sync failed:', error);
+      this.setStatus({
+        state: isNetworkError(error) ? 'offline' : 'error',
+        error: error?.message ?? 'Sync failed',
+        pendingCount: await getSyncOutboxCount(),
+      });
+    }
+  }
+
+  // Cursors belong to the account they were pulled for, and what is on the
+  // device belongs to the account that was signed in before. After switching
+  // accounts everything has to be pulled again, and the previous account's
+  // rows and unsynced changes must not be pushed to the new one. The first
+  // account to sign in on a device takes over what was made signed out.
+  private async handleAccountChange(userId: string) {
+    const previousUserId = await getSyncState('userId');
+    if (previousUserId === userId) return;
+    if (previousUserId) {
+      console.log('SyncService: Account changed, resetting sync cursors and outbox');
+      await assignSyncRowsToPreviousAccount(previousUserId);
+      for (const table of SYNC_TABLES) {
+        await setSyncState(`cursor:${table}`, null);
+      }
+    }
+    await setSyncState('userId', userId);
+  }
+
+  private async pullTable(table: SyncTable) {
+    const cursorKey = `cursor:${table}`;
+    let cursor = await getSyncState(cursorKey);
+    let since = cursor ? new Date(Date.parse(cursor) - PULL_OVERLAP_MS).toISOString() : null;
+
+    while (true) {
+      const rows = await getSyncChangesOnline(table, since, PULL_PAGE_SIZE);
+      for (const row of rows) {
+        await this.mergeRemoteRecord(table, row);
+      }
+      if (rows.length > 0) {
+        since = rows[rows.length - 1].syncedAt as string;
+        if (!cursor || Date.parse(since) > Date.parse(cursor)) {
+          cursor = since;
+          await setSyncState(cursorKey, cursor);
+        }
+      }
+      if (rows.length < PULL_PAGE_SIZE) break;
+    }
+  }
+
+  // Last writer wins: a pending local change survives only if it is at least as
+  // new as the remote version; otherwise the remote row replaces it.
+  private async mergeRemoteRecord(table: SyncTable, remote: SyncRecord) {
+    const pending = await getSyncOutboxEntry(table, remote.client_id);
+    if (pending) {
+      const local = pending.operation === 'upsert' ? await getSyncRecord(table, remote.client_id) : null;
+      const localTime = Date.parse(local?.updatedAt ?? pending.createdAt);
+      if (localTime >= Date.parse(remote.updatedAt)) return;
+      await applyRemoteSyncRecord(table, remote);
+      await removeSyncOutboxEntry(pending);
+      return;
+    }
+    // Rows re-read from the overlap window have usually been applied already
+    const local = await getSyncRecord(table, remote.client_id);
+    if (local && !remote.deletedAt && Date.parse(local.updatedAt) === Date.parse(remote.updatedAt)) return;
+    await applyRemoteSyncRecord(table, remote);
+  }
+
+  private async pushOutbox(userId: string) {
+    const entries = await getSyncOutbox();
+    let failed = 0;
+
+    for (const entry of entries) {
+      try {
+        await this.pushEntry(entry, userId);
+        await removeSyncOutboxEntry(entry);
+      } catch (error: any) {
+        if (isNetworkError(error)) throw error;
+        console.warn(`SyncService: Failed to push ${entry.table_name} ${entry.record_uuid}:`, error);
+        await markSyncOutboxEntryFailed(entry.id, error?.message ?? String(error));
+        failed++;
+      }
+      this.setStatus({ pendingCount: await getSyncOutboxCount() });
+    }
+
+    if (failed > 0) {
+      throw new Error(`${failed} change${failed === 1 ? '' : 's'} could not be synced`);
+    }
+  }
+
+  private async pushEntry(entry: SyncOutboxEntry, userId: string) {
+    if (entry.operation === 'delete') {
+      await markSyncRecordDeletedOnline(entry.table_name, entry.record_uuid, entry.createdAt);
+      return;
+    }
+    // Edits to another account's rows stay on this device
+    const owner = await getSyncRecordOwner(entry.table_name, entry.record_uuid);
+    if (owner && owner !== userId) return;
+    // The row may have been deleted locally after the upsert was queued
+    const record = await getSyncRecord(entry.table_name, entry.record_uuid);
+    if (record) {
+      await upsertSyncRecordOnline(entry.table_name, record);
+    }
+  }
+}
+
+export default SyncService.getInstance();
@@ -7,8 +7,10 @@ ALTER TABLE IF EXISTS notes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS scan_notes ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS quiz_maker ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS flash_card_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS mind_maps ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS credits ENABLE ROW LEVEL SECURITY;
 ALTER TABLE IF EXISTS expiring_credits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE IF EXISTS credit_ledger ENABLE ROW LEVEL SECURITY;
 
 -- History table
 CREATE TABLE IF NOT EXISTS history (
@@ -63,6 +65,58 @@ CREATE TABLE IF NOT EXISTS flash_card_sets (
   createdAt TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Mind Maps table
+CREATE TABLE IF NOT EXISTS mind_maps (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  content TEXT,
+  source_note_id BIGINT,
+  source_note_type TEXT,
+  createdAt TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Offline sync columns. client_id is the uuid generated on the device,
+-- updatedAt is the client edit time used for last-writer-wins, deletedAt marks
+-- soft deletes and syncedAt (set by trigger) is the incremental pull cursor.
+-- source_note_client_id references the source note by its client_id.
+ALTER TABLE history ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE history ADD COLUMN IF NOT EXISTS updatedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE history ADD COLUMN IF NOT EXISTS deletedAt TIMESTAMP WITH TIME ZONE;
+ALTER TABLE history ADD COLUMN IF NOT EXISTS syncedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS updatedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS deletedAt TIMESTAMP WITH TIME ZONE;
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS syncedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE scan_notes ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE scan_notes ADD COLUMN IF NOT EXISTS updatedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE scan_notes ADD COLUMN IF NOT EXISTS deletedAt TIMESTAMP WITH TIME ZONE;
+ALTER TABLE scan_notes ADD COLUMN IF NOT EXISTS syncedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+ALTER TABLE quiz_maker ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE quiz_maker ADD COLUMN IF NOT EXISTS updatedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE quiz_maker ADD COLUMN IF NOT EXISTS deletedAt TIMESTAMP WITH TIME ZONE;
+ALTER TABLE quiz_maker ADD COLUMN IF NOT EXISTS syncedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE quiz_maker ADD COLUMN IF NOT EXISTS source_note_client_id UUID;
+
+ALTER TABLE flash_card_sets ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE flash_card_sets ADD COLUMN IF NOT EXISTS updatedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE flash_card_sets ADD COLUMN IF NOT EXISTS deletedAt TIMESTAMP WITH TIME ZONE;
+ALTER TABLE flash_card_sets ADD COLUMN IF NOT EXISTS syncedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE flash_card_sets ADD COLUMN IF NOT EXISTS source_note_client_id UUID;
+
+ALTER TABLE mind_maps ADD COLUMN IF NOT EXISTS client_id UUID;
+ALTER TABLE mind_maps ADD COLUMN IF NOT EXISTS updatedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE mind_maps ADD COLUMN IF NOT EXISTS deletedAt TIMESTAMP WITH TIME ZONE;
+ALTER TABLE mind_maps ADD COLUMN IF NOT EXISTS syncedAt TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+ALTER TABLE mind_maps ADD COLUMN IF NOT EXISTS source_note_client_id UUID;
+
+-- Subject a note belongs to (biology, chemistry, ...). Folders and tags stay on the device.
+ALTER TABLE notes ADD COLUMN IF NOT EXISTS subject TEXT;
+ALTER TABLE scan_notes ADD COLUMN IF NOT EXISTS subject TEXT;
+
 -- Credits table (permanent credits)
 CREATE TABLE IF NOT EXISTS credits (
   id BIGSERIAL PRIMARY KEY,
@@ -81,6 +135,21 @@ CREATE TABLE IF NOT EXISTS expiring_credits (
   createdAt TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Credit ledger: one row per balance change, written only by the credit
+-- functions below. Amounts are signed (grants and refunds are positive, spends
+-- and expiries negative) and balance_after is the total after the entry.
+CREATE TABLE IF NOT EXISTS credit_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('grant', 'spend', 'expire', 'refund')),
+  amount INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reason TEXT,
+  feature TEXT,
+  reference TEXT,
+  createdAt TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Table for tracking user purchases
 CREATE TABLE IF NOT EXISTS purchases (
     id BIGSERIAL PRIMARY KEY,
@@ -124,9 +193,33 @@ CREATE INDEX IF NOT EXISTS idx_quiz_maker_user_id ON quiz_maker(user_id);
 CREATE INDEX IF NOT EXISTS idx_quiz_maker_created_at ON quiz_maker(createdAt DESC);
 CREATE INDEX IF NOT EXISTS idx_flash_card_sets_user_id ON flash_card_sets(user_id);
 CREATE INDEX IF NOT EXISTS idx_flash_card_sets_created_at ON flash_card_sets(createdAt DESC);
+CREATE INDEX IF NOT EXISTS idx_mind_maps_user_id ON mind_maps(user_id);
+CREATE INDEX IF NOT EXISTS idx_mind_maps_created_at ON mind_maps(createdAt DESC);
 CREATE INDEX IF NOT EXISTS idx_credits_user_id ON credits(user_id);
 CREATE INDEX IF NOT EXISTS idx_expiring_credits_user_id ON expiring_credits(user_id);
 CREATE INDEX IF NOT EXISTS idx_expiring_credits_expires_at ON expiring_credits(expires_at);
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_id ON credit_ledger(user_id, createdAt DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_grant_reference ON credit_ledger(user_id, reference)
+  WHERE entry_type = 'grant' AND reference IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_refund_reference ON credit_ledger(user_id, reference)
+  WHERE entry_type = 'refund';
+-- A spend's reference is the reservation id of its AI call, which refunds look up
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_spend_reference ON credit_ledger(reference)
+  WHERE entry_type = 'spend' AND reference IS NOT NULL;
+
+-- Sync indexes: upserts conflict on client_id, pulls scan by syncedAt
+CREATE UNIQUE INDEX IF NOT EXISTS idx_history_client_id ON history(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notes_client_id ON notes(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scan_notes_client_id ON scan_notes(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_maker_client_id ON quiz_maker(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_flash_card_sets_client_id ON flash_card_sets(client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mind_maps_client_id ON mind_maps(client_id);
+CREATE INDEX IF NOT EXISTS idx_history_synced_at ON history(user_id, syncedAt);
+CREATE INDEX IF NOT EXISTS idx_notes_synced_at ON notes(user_id, syncedAt);
+CREATE INDEX IF NOT EXISTS idx_scan_notes_synced_at ON scan_notes(user_id, syncedAt);
+CREATE INDEX IF NOT EXISTS idx_quiz_maker_synced_at ON quiz_maker(user_id, syncedAt);
+CREATE INDEX IF NOT EXISTS idx_flash_card_sets_synced_at ON flash_card_sets(user_id, syncedAt);
+CREATE INDEX IF NOT EXISTS idx_mind_maps_synced_at ON mind_maps(user_id, syncedAt);
 
 -- Indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_purchases_user_id ON purchases(user_id);
@@ -206,28 +299,38 @@ CREATE POLICY "Users can update their own flash card sets" ON flash_card_sets
 CREATE POLICY "Users can delete their own flash card sets" ON flash_card_sets
   FOR DELETE USING (auth.uid() = user_id);
 
--- Credits policies
-CREATE POLICY "Users can view their own credits" ON credits
+-- Mind Maps policies
+CREATE POLICY "Users can view their own mind maps" ON mind_maps
   FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can insert their own credits" ON credits
+CREATE POLICY "Users can insert their own mind maps" ON mind_maps
   FOR INSERT WITH CHECK (auth.uid() = user_id);
 
-CREATE POLICY "Users can update their own credits" ON credits
+CREATE POLICY "Users can update their own mind maps" ON mind_maps
   FOR UPDATE USING (auth.uid() = user_id);
 
+CREATE POLICY "Users can delete their own mind maps" ON mind_maps
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Credits policies
+-- Balances are read-only for clients; they change only through spend_credits
+-- and grant_credits. The DROPs remove the write policies older versions created.
+DROP POLICY IF EXISTS "Users can insert their own credits" ON credits;
+DROP POLICY IF EXISTS "Users can update their own credits" ON credits;
+DROP POLICY IF EXISTS "Users can insert their own expiring credits" ON expiring_credits;
+DROP POLICY IF EXISTS "Users can update their own expiring credits" ON expiring_credits;
+DROP POLICY IF EXISTS "Users can delete their own expiring credits" ON expiring_credits;
+
+CREATE POLICY "Users can view their own credits" ON credits
+  FOR SELECT USING (auth.uid() = user_id);
+
 -- Expiring Credits policies
 CREATE POLICY "Users can view their own expiring credits" ON expiring_credits
   FOR SELECT USING (auth.uid() = user_id);
 
-CREATE POLICY "Users can insert their own expiring credits" ON expiring_credits
-  FOR INSERT WITH CHECK (auth.uid() = user_id);
-
-CREATE POLICY "Users can update their own expiring credits" ON expiring_credits
-  FOR UPDATE USING (auth.uid() = user_id);
-
-CREATE POLICY "Users can delete their own expiring credits" ON expiring_credits
-  FOR DELETE USING (auth.uid() = user_id);
+-- Credit ledger policies
+CREATE POLICY "Users can view their own credit ledger" ON credit_ledger
+  FOR SELECT USING (auth.uid() = user_id);
 
 -- RLS policies for purchases table
 CREATE POLICY "Users can view their own purchases" ON purchases
@@ -261,17 +364,298 @@ CREATE TRIGGER update_credits_updated_at
     FOR EACH ROW 
     EXECUTE FUNCTION update_updated_at_column();
 
+-- Function to stamp synced rows with the server time of every write.
+-- clock_timestamp() keeps rows written in one batch distinct for the pull cursor.
+CREATE OR REPLACE FUNCTION set_synced_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.syncedAt = clock_timestamp();
+    RETURN NEW;
+END;
+$$ language 'plpgsql';
+
+CREATE TRIGGER set_history_synced_at BEFORE INSERT OR UPDATE ON history
+    FOR EACH ROW EXECUTE FUNCTION set_synced_at_column();
+CREATE TRIGGER set_notes_synced_at BEFORE INSERT OR UPDATE ON notes
+    FOR EACH ROW EXECUTE FUNCTION set_synced_at_column();
+CREATE TRIGGER set_scan_notes_synced_at BEFORE INSERT OR UPDATE ON scan_notes
+    FOR EACH ROW EXECUTE FUNCTION set_synced_at_column();
+CREATE TRIGGER set_quiz_maker_synced_at BEFORE INSERT OR UPDATE ON quiz_maker
+    FOR EACH ROW EXECUTE FUNCTION set_synced_at_column();
+CREATE TRIGGER set_flash_card_sets_synced_at BEFORE INSERT OR UPDATE ON flash_card_sets
+    FOR EACH ROW EXECUTE FUNCTION set_synced_at_column();
+CREATE TRIGGER set_mind_maps_synced_at BEFORE INSERT OR UPDATE ON mind_maps
+    FOR EACH ROW EXECUTE FUNCTION set_synced_at_column();
+
+-- Credit ledger functions. All balance changes go through these so each one
+-- runs in a single transaction and leaves a ledger entry behind. A per-user
+-- advisory lock serialises concurrent calls, so two AI actions started at the
+-- same time can't both spend the same credits.
+
+-- Permanent balance plus unexpired expiring credits (internal)
+CREATE OR REPLACE FUNCTION credit_balance_for(p_user_id UUID)
+RETURNS INTEGER AS $$
+    SELECT (
+        COALESCE((SELECT balance FROM credits WHERE user_id = p_user_id), 0)
+        + COALESCE((SELECT SUM(amount) FROM expiring_credits WHERE user_id = p_user_id AND expires_at >= NOW()), 0)
+    )::INTEGER;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION lock_credits_for(p_user_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('credits:' || p_user_id::TEXT));
+END;
+$$ LANGUAGE plpgsql;
+
+-- Removes a user's expired credits and records them in the ledger (internal)
+CREATE OR REPLACE FUNCTION expire_credits_for(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_expired INTEGER;
+BEGIN
+    WITH expired AS (
+        DELETE FROM expiring_credits
+        WHERE user_id = p_user_id AND expires_at < NOW()
+        RETURNING amount
+    )
+    SELECT COALESCE(SUM(amount), 0) INTO v_expired FROM expired;
+
+    IF v_expired > 0 THEN
+        INSERT INTO credit_ledger (user_id, entry_type, amount, balance_after, reason)
+        VALUES (p_user_id, 'expire', -v_expired, credit_balance_for(p_user_id), 'Credits expired');
+    END IF;
+    RETURN v_expired;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Current balance for the signed-in user
+CREATE OR REPLACE FUNCTION get_credit_balance()
+RETURNS INTEGER AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM lock_credits_for(v_user_id);
+    PERFORM expire_credits_for(v_user_id);
+    RETURN credit_balance_for(v_user_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Spends credits, expiring ones first (soonest expiry first), then permanent.
+-- Returns {success, balance, ledger_id}; success is false when the balance is too low.
+-- p_reference is the reservation id of the AI call the spend pays for, which
+-- release_credits looks the spend up by if the call fails.
+DROP FUNCTION IF EXISTS spend_credits(INTEGER, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION spend_credits(
+    p_amount INTEGER,
+    p_feature TEXT DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_remaining INTEGER := p_amount;
+    v_deduct INTEGER;
+    v_credit RECORD;
+    v_balance INTEGER;
+    v_entry_id BIGINT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'Amount must be positive';
+    END IF;
+
+    PERFORM lock_credits_for(v_user_id);
+    PERFORM expire_credits_for(v_user_id);
+
+    v_balance := credit_balance_for(v_user_id);
+    IF v_balance < p_amount THEN
+        RETURN jsonb_build_object('success', FALSE, 'balance', v_balance);
+    END IF;
+
+    FOR v_credit IN
+        SELECT id, amount FROM expiring_credits
+        WHERE user_id = v_user_id
+        ORDER BY expires_at ASC
+    LOOP
+        EXIT WHEN v_remaining = 0;
+        v_deduct := LEAST(v_remaining, v_credit.amount);
+        IF v_deduct = v_credit.amount THEN
+            DELETE FROM expiring_credits WHERE id = v_credit.id;
+        ELSE
+            UPDATE expiring_credits SET amount = amount - v_deduct WHERE id = v_credit.id;
+        END IF;
+        v_remaining := v_remaining - v_deduct;
+    END LOOP;
+
+    IF v_remaining > 0 THEN
+        UPDATE credits SET balance = balance - v_remaining WHERE user_id = v_user_id;
+    END IF;
+
+    v_balance := credit_balance_for(v_user_id);
+    INSERT INTO credit_ledger (user_id, entry_type, amount, balance_after, reason, feature, reference)
+    VALUES (v_user_id, 'spend', -p_amount, v_balance, p_reason, p_feature, p_reference)
+    RETURNING id INTO v_entry_id;
+
+    RETURN jsonb_build_object('success', TRUE, 'balance', v_balance, 'ledger_id', v_entry_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Grants permanent credits, or expiring ones when p_expires_at is given.
+-- A grant with a reference (the store transaction id) is applied at most once.
+-- Only the service role can call this: grants come from the verify-purchase
+-- edge function (supabase/functions/verify-purchase) after it has checked the
+-- purchase with RevenueCat, never from the app. The older signature without p_user_id was
+-- callable by any signed-in user, so it is dropped.
+DROP FUNCTION IF EXISTS grant_credits(INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION grant_credits(
+    p_user_id UUID,
+    p_amount INTEGER,
+    p_reason TEXT,
+    p_expires_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+    p_reference TEXT DEFAULT NULL,
+    p_feature TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := p_user_id;
+    v_balance INTEGER;
+    v_entry_id BIGINT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'User is required';
+    END IF;
+    -- No plan grants more than 1000 at once; anything larger is a bug upstream
+    IF p_amount IS NULL OR p_amount <= 0 OR p_amount > 1000 THEN
+        RAISE EXCEPTION 'Invalid credit amount';
+    END IF;
+    IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+        RAISE EXCEPTION 'Expiry must be in the future';
+    END IF;
+
+    PERFORM lock_credits_for(v_user_id);
+
+    IF p_reference IS NOT NULL AND EXISTS (
+        SELECT 1 FROM credit_ledger
+        WHERE user_id = v_user_id AND entry_type = 'grant' AND reference = p_reference
+    ) THEN
+        RETURN jsonb_build_object('success', FALSE, 'balance', credit_balance_for(v_user_id), 'error', 'already_granted');
+    END IF;
+
+    PERFORM expire_credits_for(v_user_id);
+
+    IF p_expires_at IS NULL THEN
+        INSERT INTO credits (user_id, balance) VALUES (v_user_id, p_amount)
+        ON CONFLICT (user_id) DO UPDATE SET balance = credits.balance + EXCLUDED.balance;
+    ELSE
+        INSERT INTO expiring_credits (user_id, amount, expires_at) VALUES (v_user_id, p_amount, p_expires_at);
+    END IF;
+
+    v_balance := credit_balance_for(v_user_id);
+    INSERT INTO credit_ledger (user_id, entry_type, amount, balance_after, reason, feature, reference)
+    VALUES (v_user_id, 'grant', p_amount, v_balance, p_reason, p_feature, p_reference)
+    RETURNING id INTO v_entry_id;
+
+    RETURN jsonb_build_object('success', TRUE, 'balance', v_balance, 'ledger_id', v_entry_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Gives back credits the app spent on an AI call that produced nothing usable
+-- (the request failed, timed out, was cancelled or came back empty), found by
+-- the reservation id of the spend. Only the signed-in owner of the spend can
+-- release it, only once, only within 24 hours, and never more than was spent,
+-- so a release can't be used to mint credits or claw back old charges.
+-- p_amount releases part of a spend; NULL releases all of it. Released
+-- credits go to the permanent balance. This replaces refund_credits, which
+-- only the service role could call and which nothing in the app called.
+DROP FUNCTION IF EXISTS refund_credits(BIGINT, TEXT);
+DROP FUNCTION IF EXISTS refund_credits(TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION release_credits(
+    p_reservation_id TEXT,
+    p_amount INTEGER DEFAULT NULL,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_spend credit_ledger%ROWTYPE;
+    v_amount INTEGER;
+    v_balance INTEGER;
+    v_entry_id BIGINT;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    PERFORM lock_credits_for(v_user_id);
+
+    SELECT * INTO v_spend FROM credit_ledger
+    WHERE reference = p_reservation_id AND entry_type = 'spend' AND user_id = v_user_id;
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('success', FALSE, 'balance', credit_balance_for(v_user_id), 'error', 'not_found');
+    END IF;
+    IF v_spend.createdAt < NOW() - INTERVAL '24 hours' THEN
+        RETURN jsonb_build_object('success', FALSE, 'balance', credit_balance_for(v_user_id), 'error', 'release_window_closed');
+    END IF;
+    IF EXISTS (
+        SELECT 1 FROM credit_ledger
+        WHERE user_id = v_user_id AND entry_type = 'refund' AND reference = p_reservation_id
+    ) THEN
+        RETURN jsonb_build_object('success', FALSE, 'balance', credit_balance_for(v_user_id), 'error', 'already_released');
+    END IF;
+
+    v_amount := LEAST(COALESCE(p_amount, -v_spend.amount), -v_spend.amount);
+    IF v_amount <= 0 THEN
+        RAISE EXCEPTION 'Amount must be positive';
+    END IF;
+
+    INSERT INTO credits (user_id, balance) VALUES (v_user_id, v_amount)
+    ON CONFLICT (user_id) DO UPDATE SET balance = credits.balance + EXCLUDED.balance;
+
+    v_balance := credit_balance_for(v_user_id);
+    INSERT INTO credit_ledger (user_id, entry_type, amount, balance_after, reason, feature, reference)
+    VALUES (v_user_id, 'refund', v_amount, v_balance, p_reason, v_spend.feature, p_reservation_id)
+    RETURNING id INTO v_entry_id;
+
+    RETURN jsonb_build_object('success', TRUE, 'balance', v_balance, 'ledger_id', v_entry_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the RPC entry points are callable from the app; grants are server-only
+REVOKE EXECUTE ON FUNCTION credit_balance_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION lock_credits_for(UUID) FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION expire_credits_for(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_credit_balance() TO authenticated;
+GRANT EXECUTE ON FUNCTION spend_credits(INTEGER, TEXT, TEXT, TEXT) TO authenticated;
+REVOKE EXECUTE ON FUNCTION grant_credits(UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION grant_credits(UUID, INTEGER, TEXT, TIMESTAMP WITH TIME ZONE, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION release_credits(TEXT, INTEGER, TEXT) TO authenticated;
+
 -- Function to clean up expired credits (can be called by a cron job)
 CREATE OR REPLACE FUNCTION cleanup_expired_credits()
 RETURNS INTEGER AS $$
 DECLARE
-    deleted_count INTEGER;
+    v_user RECORD;
+    user_count INTEGER := 0;
 BEGIN
-    DELETE FROM expiring_credits 
-    WHERE expires_at < NOW();
-    
-    GET DIAGNOSTICS deleted_count = ROW_COUNT;
-    RETURN deleted_count;
+    FOR v_user IN
+        SELECT DISTINCT user_id FROM expiring_credits WHERE expires_at < NOW()
+    LOOP
+        PERFORM lock_credits_for(v_user.user_id);
+        PERFORM expire_credits_for(v_user.user_id);
+        user_count := user_count + 1;
+    END LOOP;
+    RETURN user_count;
 END;
 $$ LANGUAGE plpgsql;
 
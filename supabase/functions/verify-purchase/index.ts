@@ -0,0 +1,179 @@
+// Credits a store purchase after checking it with RevenueCat. The app calls
+// this through supabase.functions.invoke('verify-purchase') with
+// { productId, transactionId }; see verifyPurchaseOnline in
+// services/onlineStorage.ts. The RevenueCat app user id is the Supabase user
+// id (PurchasesProvider logs in with it), so a user can only claim purchases
+// made on their own account.
+//
+// Grants go through grant_credits with the store transaction id as the
+// reference, so a purchase is credited at most once however often it is
+// verified.
+//
+// Environment: SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (set
+// by Supabase) and REVENUECAT_SECRET_KEY (a RevenueCat v1 secret API key).
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+interface Plan {
+  credits: number;
+  durationDays: number;
+}
+
+// Must match PLAN_CREDITS in services/subscriptionService.ts. Credits expire
+// when the plan's period would end.
+const PLANS: Record<string, Plan> = {
+  weekly: { credits: 100, durationDays: 7 },
+  monthly: { credits: 400, durationDays: 30 },
+  yearly: { credits: 1000, durationDays: 365 },
+  year: { credits: 1000, durationDays: 365 },
+};
+
+interface RevenueCatPurchase {
+  id?: string;
+  store_transaction_id?: string;
+  purchase_date?: string;
+  expires_date?: string | null;
+  refunded_at?: string | null;
+}
+
+interface RevenueCatSubscriber {
+  non_subscriptions?: Record<string, RevenueCatPurchase[]>;
+  subscriptions?: Record<string, RevenueCatPurchase>;
+}
+
+interface VerificationResult {
+  success: boolean;
+  granted: number;
+  balance: number;
+  error?: string;
+}
+
+const json = (body: VerificationResult | { error: string }, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const fetchSubscriber = async (userId: string): Promise<RevenueCatSubscriber | null> => {
+  const response = await fetch(`https://api.revenuecat.com/v1/subscribers/${encodeURIComponent(userId)}`, {
+    headers: { Authorization: `Bearer ${Deno.env.get('REVENUECAT_SECRET_KEY')}` },
+  });
+  if (!response.ok) {
+    console.error(`verify-purchase: RevenueCat returned ${response.status}`);
+    return null;
+  }
+  const data = await response.json();
+  return data.subscriber ?? null;
+};
+
+// Product ids are compared case-insensitively, like the app does
+const entriesFor = <T>(entries: Record<string, T> | undefined, productId: string): T[] =>
+  Object.entries(entries ?? {})
+    .filter(([id]) => id.toLowerCase() === productId)
+    .map(([, entry]) => entry);
+
+const transactionIdOf = (purchase: RevenueCatPurchase) => purchase.store_transaction_id ?? purchase.id;
+
+// The purchase being claimed: the one-time purchase or subscription with the
+// given transaction id, or without one, the product's active subscription.
+// Refunded purchases never count.
+const findPurchase = (
+  subscriber: RevenueCatSubscriber,
+  productId: string,
+  transactionId: string | null
+): RevenueCatPurchase | null => {
+  const oneTime = entriesFor(subscriber.non_subscriptions, productId).flat();
+  const subscriptions = entriesFor(subscriber.subscriptions, productId);
+  const candidates = [...oneTime, ...subscriptions].filter(purchase => !purchase.refunded_at);
+
+  if (transactionId) {
+    return (
+      candidates.find(
+        purchase => purchase.store_transaction_id === transactionId || purchase.id === transactionId
+      ) ?? null
+    );
+  }
+  const now = Date.now();
+  return (
+    subscriptions.find(
+      purchase =>
+        !purchase.refunded_at &&
+        !!transactionIdOf(purchase) &&
+        (!purchase.expires_date || new Date(purchase.expires_date).getTime() > now)
+    ) ?? null
+  );
+};
+
+Deno.serve(async request => {
+  if (request.method !== 'POST') {
+    return json({ error: 'method_not_allowed' }, 405);
+  }
+
+  const authorization = request.headers.get('Authorization');
+  if (!authorization) {
+    return json({ error: 'not_authenticated' }, 401);
+  }
+  const userClient = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const {
+    data: { user },
+  } = await userClient.auth.getUser();
+  if (!user) {
+    return json({ error: 'not_authenticated' }, 401);
+  }
+
+  let productId: string;
+  let transactionId: string | null;
+  try {
+    const body = await request.json();
+    productId = String(body.productId ?? '').toLowerCase();
+    transactionId = body.transactionId ? String(body.transactionId) : null;
+  } catch {
+    return json({ error: 'invalid_request' }, 400);
+  }
+
+  const balance = async () => {
+    const { data } = await userClient.rpc('get_credit_balance');
+    return (data as number | null) ?? 0;
+  };
+
+  const plan = PLANS[productId];
+  if (!plan) {
+    return json({ success: false, granted: 0, balance: await balance(), error: 'unknown_product' });
+  }
+
+  const subscriber = await fetchSubscriber(user.id);
+  if (!subscriber) {
+    return json({ error: 'store_unavailable' }, 502);
+  }
+  const purchase = findPurchase(subscriber, productId, transactionId);
+  const reference = purchase ? transactionIdOf(purchase) : undefined;
+  if (!purchase || !reference) {
+    console.warn(`verify-purchase: no purchase of ${productId} (${transactionId ?? 'latest'}) for ${user.id}`);
+    return json({ success: false, granted: 0, balance: await balance(), error: 'purchase_not_found' });
+  }
+
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + plan.durationDays);
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+  const { data, error } = await admin.rpc('grant_credits', {
+    p_user_id: user.id,
+    p_amount: plan.credits,
+    p_reason: `Purchase: ${productId}`,
+    p_expires_at: expiresAt.toISOString(),
+    p_reference: reference,
+    p_feature: null,
+  });
+  if (error) {
+    console.error('verify-purchase: grant_credits failed:', error);
+    return json({ error: 'grant_failed' }, 500);
+  }
+
+  const result = data as { success: boolean; balance: number; error?: string };
+  if (!result.success && result.error === 'already_granted') {
+    return json({ success: true, granted: 0, balance: result.balance });
+  }
+  if (!result.success) {
+    return json({ success: false, granted: 0, balance: result.balance, error: result.error });
+  }
+  console.log(`verify-purchase: granted ${plan.credits} for ${productId} (${reference}) to ${user.id}`);
+  return json({ success: true, granted: plan.credits, balance: result.balance });
+});
@@ -0,0 +1,33 @@
+import Database from 'better-sqlite3';
+import type { SQLiteDatabase } from 'expo-sqlite';
+
+// The subset of expo-sqlite's async API the app uses, backed by an in-memory
+// better-sqlite3 database, for tests. `sql` sets up its starting contents.
+export const openMemoryDatabase = (sql?: string): SQLiteDatabase => {
+  const sqlite = new Database(':memory:');
+  if (sql) {
+    sqlite.exec(sql);
+  }
+  const db = {
+    execAsync: async (sql: string) => {
+      sqlite.exec(sql);
+    },
+    runAsync: async (sql: string, params: unknown[] = []) => {
+      const result = sqlite.prepare(sql).run(...params);
+      return { lastInsertRowId: Number(result.lastInsertRowid), changes: result.changes };
+    },
+    getAllAsync: async (sql: string, params: unknown[] = []) => sqlite.prepare(sql).all(...params),
+    getFirstAsync: async (sql: string, params: unknown[] = []) => sqlite.prepare(sql).get(...params) ?? null,
+    withTransactionAsync: async (task: () => Promise<void>) => {
+      sqlite.exec('BEGIN;');
+      try {
+        await task();
+        sqlite.exec('COMMIT;');
+      } catch (error) {
+        sqlite.exec('ROLLBACK;');
+        throw error;
+      }
+    },
+  };
+  return db as unknown as SQLiteDatabase;
+};
@@ -0,0 +1,34 @@
+import { activeDayFor, streakStats } from '../achievements';
+
+describe('streakStats', () => {
+  it('counts the run of days ending today or yesterday as current', () => {
+    expect(streakStats(['2024-03-01', '2024-03-04', '2024-03-05'], '2024-03-06')).toEqual({
+      daysActive: 3,
+      currentStreak: 2,
+      longestStreak: 2,
+    });
+    expect(streakStats(['2024-03-04', '2024-03-05'], '2024-03-07').currentStreak).toBe(0);
+    expect(streakStats([], '2024-03-07')).toEqual({ daysActive: 0, currentStreak: 0, longestStreak: 0 });
+  });
+
+  it('joins a day logged late to the streaks around it', () => {
+    // 2024-03-02 was recorded after 2024-03-03, e.g. a session that started before midnight
+    expect(streakStats(['2024-03-01', '2024-03-02', '2024-03-03'], '2024-03-03')).toEqual({
+      daysActive: 3,
+      currentStreak: 3,
+      longestStreak: 3,
+    });
+  });
+
+  it('keeps counting across month and year ends', () => {
+    expect(streakStats(['2023-12-31', '2024-01-01', '2024-02-29', '2024-03-01'], '2024-03-01').longestStreak).toBe(2);
+  });
+});
+
+describe('activeDayFor', () => {
+  it('uses the session start day for study sessions and today for quizzes', () => {
+    expect(activeDayFor({ type: 'study-session', day: '2024-03-01', seconds: 600 }, '2024-03-02')).toBe('2024-03-01');
+    expect(activeDayFor({ type: 'quiz-completed', scorePercent: 50 }, '2024-03-02')).toBe('2024-03-02');
+    expect(activeDayFor({ type: 'scan' }, '2024-03-02')).toBeNull();
+  });
+});
@@ -0,0 +1,44 @@
+import { hasAnswerKey, isCorrectAnswer, parseQuizDocument, quizToText } from '../quizFormat';
+
+const UNMARKED = `1. Which planet is largest?
+A) Mars
+B) Jupiter
+C) Venus
+
+2. The capital of Italy is ____.`;
+
+describe('parseQuizDocument', () => {
+  it('marks questions without an answer instead of defaulting to option A', () => {
+    const [choice, blank] = parseQuizDocument(UNMARKED).questions;
+    expect(choice.correctAnswer).toBe(-1);
+    expect(hasAnswerKey(choice)).toBe(false);
+    expect(blank.type).toBe('fill-blank');
+    expect(hasAnswerKey(blank)).toBe(false);
+  });
+
+  it('keeps a missing answer key through the text form', () => {
+    const doc = parseQuizDocument(UNMARKED);
+    const text = quizToText(doc);
+    expect(text).toContain('Answer: No answer key');
+    expect(parseQuizDocument(text).questions).toEqual(doc.questions);
+  });
+
+  it('reads answers from a JSON document and drops out-of-range ones', () => {
+    const doc = parseQuizDocument(JSON.stringify({
+      version: 1,
+      questions: [
+        { question: 'Pick B', options: ['a', 'b'], correctAnswer: 1 },
+        { question: 'Pick none', options: ['a', 'b'], correctAnswer: 5 },
+      ],
+    }));
+    expect(doc.questions.map(q => q.correctAnswer)).toEqual([1, -1]);
+  });
+});
+
+describe('isCorrectAnswer', () => {
+  it('never counts an answer as correct without an answer key', () => {
+    const [choice] = parseQuizDocument(UNMARKED).questions;
+    expect(isCorrectAnswer(choice, -1)).toBe(false);
+    expect(isCorrectAnswer(choice, 1)).toBe(false);
+  });
+});
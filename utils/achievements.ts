@@ -0,0 +1,152 @@
+// Achievement rules and the counters they are measured against. Each event
+// only touches the counters that listen for it, so progress is kept up to date
+// incrementally instead of being recomputed from every table
+// (services/achievementService applies events and stores the counters).
+// Streaks are the exception: they come from the set of active days, which is
+// small enough to measure in full.
+
+export type AchievementEvent =
+  | { type: 'quiz-completed'; scorePercent: number }
+  | { type: 'note-created' }
+  | { type: 'flash-card-set-created' }
+  | { type: 'scan' }
+  // day is the local date the session started on (see utils/studyTimer localDay)
+  | { type: 'study-session'; day: string; seconds: number };
+
+type EventType = AchievementEvent['type'];
+type EventOf<T extends EventType> = Extract<AchievementEvent, { type: T }>;
+
+export type CounterKey =
+  | 'quizzes-completed'
+  | 'quizzes-80'
+  | 'notes-created'
+  | 'flash-card-sets'
+  | 'scans'
+  | 'study-seconds'
+  // Measured from the active days rather than stored, see streakStats
+  | 'days-active'
+  | 'streak-longest';
+
+export type Counters = Record<CounterKey, number>;
+
+export const EMPTY_COUNTERS: Counters = {
+  'quizzes-completed': 0,
+  'quizzes-80': 0,
+  'notes-created': 0,
+  'flash-card-sets': 0,
+  scans: 0,
+  'study-seconds': 0,
+  'days-active': 0,
+  'streak-longest': 0,
+};
+
+// Counters that applyEvent keeps; the rest come from streakStats
+export const STORED_COUNTERS: CounterKey[] = [
+  'quizzes-completed',
+  'quizzes-80',
+  'notes-created',
+  'flash-card-sets',
+  'scans',
+  'study-seconds',
+];
+
+interface CounterRule {
+  counter: CounterKey;
+  event: EventType;
+  where: (event: AchievementEvent) => boolean;
+  amount: (event: AchievementEvent) => number;
+}
+
+const counter = <T extends EventType>(
+  key: CounterKey,
+  event: T,
+  options: { where?: (event: EventOf<T>) => boolean; amount?: (event: EventOf<T>) => number } = {}
+): CounterRule => ({
+  counter: key,
+  event,
+  where: e => !options.where || options.where(e as EventOf<T>),
+  amount: e => (options.amount ? options.amount(e as EventOf<T>) : 1),
+});
+
+const COUNTER_RULES: CounterRule[] = [
+  counter('quizzes-completed', 'quiz-completed'),
+  counter('quizzes-80', 'quiz-completed', { where: event => event.scorePercent >= 80 }),
+  counter('notes-created', 'note-created'),
+  counter('flash-card-sets', 'flash-card-set-created'),
+  counter('scans', 'scan'),
+  counter('study-seconds', 'study-session', { amount: event => event.seconds }),
+];
+
+// Events that make a day count towards the streak
+const ACTIVE_DAY_EVENTS: EventType[] = ['study-session', 'quiz-completed'];
+
+export interface AchievementRule {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  counter: CounterKey;
+  target: number;
+}
+
+export const ACHIEVEMENTS: AchievementRule[] = [
+  { id: 'first-quiz', title: 'First Quiz', description: 'Complete your first quiz', icon: 'help-circle', counter: 'quizzes-completed', target: 1 },
+  { id: 'study-streak', title: 'Study Streak', description: 'Study 7 days in a row', icon: 'flame', counter: 'streak-longest', target: 7 },
+  { id: 'note-master', title: 'Note Master', description: 'Create 50 notes', icon: 'document-text', counter: 'notes-created', target: 50 },
+  { id: 'quiz-champion', title: 'Quiz Champion', description: 'Score 80%+ on 10 quizzes', icon: 'trophy', counter: 'quizzes-80', target: 10 },
+  { id: 'scanner-pro', title: 'Scanner Pro', description: 'Scan 100 images', icon: 'scan', counter: 'scans', target: 100 },
+  { id: 'flashcard-fanatic', title: 'Flashcard Fanatic', description: 'Create 25 flashcard sets', icon: 'card', counter: 'flash-card-sets', target: 25 },
+  { id: 'deep-focus', title: 'Deep Focus', description: 'Study for 10 hours with the timer', icon: 'timer', counter: 'study-seconds', target: 10 * 3600 },
+];
+
+// Days since 1970-01-01 for a local YYYY-MM-DD date. The date is already on
+// the user's calendar, so counting in UTC keeps every day exactly one apart,
+// whatever the device's time zone or DST.
+export const dayNumber = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, date) / 86400000);
+};
+
+// The local day an event makes active, or null if it doesn't count towards
+// the streak. Study sessions count on the day they started, even when they
+// are logged after midnight.
+export const activeDayFor = (event: AchievementEvent, today: string): string | null => {
+  if (!ACTIVE_DAY_EVENTS.includes(event.type)) return null;
+  return event.type === 'study-session' ? event.day : today;
+};
+
+export const applyEvent = (counters: Counters, event: AchievementEvent): Counters => {
+  const next = { ...counters };
+  for (const rule of COUNTER_RULES) {
+    if (rule.event === event.type && rule.where(event)) {
+      next[rule.counter] += rule.amount(event);
+    }
+  }
+  return next;
+};
+
+export interface StreakStats {
+  daysActive: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+// days are the distinct active days, oldest first. Recomputed from the whole
+// set so a day logged late still joins the streaks on either side of it.
+export const streakStats = (days: string[], today: string): StreakStats => {
+  let run = 0;
+  let longest = 0;
+  let previous = 0;
+  for (const day of days) {
+    const number = dayNumber(day);
+    run = previous && number === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = number;
+  }
+  // The last run is only current while it ends today or yesterday
+  const current = previous >= dayNumber(today) - 1 ? run : 0;
+  return { daysActive: days.length, currentStreak: current, longestStreak: longest };
+};
+
+export const reachedAchievements = (counters: Counters) =>
+  ACHIEVEMENTS.filter(rule => counters[rule.counter] >= rule.target);
@@ -0,0 +1,37 @@
+import * as FileSystem from 'expo-file-system';
+import { generateUUID } from './uuid';
+
+// Note attachments are copied out of the picker/camera cache, which the OS may
+// clear at any time, into a folder of the app's document storage.
+export const ATTACHMENTS_DIR = `${FileSystem.documentDirectory}attachments/`;
+
+const ensureAttachmentsDir = async () => {
+  const info = await FileSystem.getInfoAsync(ATTACHMENTS_DIR);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(ATTACHMENTS_DIR, { intermediates: true });
+  }
+};
+
+// Copies an image into attachment storage and returns its new uri
+export const storeAttachmentFile = async (sourceUri: string): Promise<string> => {
+  await ensureAttachmentsDir();
+  const extension = sourceUri.match(/\.(\w+)(?:\?.*)?$/)?.[1]?.toLowerCase() ?? 'jpg';
+  const uri = `${ATTACHMENTS_DIR}${generateUUID()}.${extension}`;
+  await FileSystem.copyAsync({ from: sourceUri, to: uri });
+  return uri;
+};
+
+export const deleteAttachmentFile = async (uri: string) => {
+  await FileSystem.deleteAsync(uri, { idempotent: true });
+};
+
+// Removes files no attachment row points to, e.g. left behind by a crash
+// between copying and saving, or by a database reset
+export const deleteUnreferencedAttachmentFiles = async (referencedUris: Set<string>): Promise<number> => {
+  const info = await FileSystem.getInfoAsync(ATTACHMENTS_DIR);
+  if (!info.exists) return 0;
+  const names = await FileSystem.readDirectoryAsync(ATTACHMENTS_DIR);
+  const orphans = names.map(name => `${ATTACHMENTS_DIR}${name}`).filter(uri => !referencedUris.has(uri));
+  await Promise.all(orphans.map(deleteAttachmentFile));
+  return orphans.length;
+};
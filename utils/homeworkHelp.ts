@@ -0,0 +1,109 @@
+// Homework answers are requested in fixed Markdown layouts (see
+// HINT_LADDER_FORMAT and WORK_CHECK_FORMAT in geminiServices) so the screen
+// can hand them out a piece at a time.
+
+export interface HintLadder {
+  nudge: string;
+  nextStep: string;
+  // The full worked solution, in the step-by-step layout of utils/solutionSteps
+  solution: string;
+}
+
+export type WorkVerdict = 'correct' | 'partly-correct' | 'incorrect';
+
+export interface WorkCheck {
+  verdict: WorkVerdict | null;
+  // The verdict line as written, e.g. "Partly correct: the method is right but..."
+  summary: string;
+  mistakes: string[];
+  strengths: string;
+  correctSolution: string;
+}
+
+const HEADING = /^#{1,4}\s*\**\s*(.+?)\s*:?\s*\**\s*$/;
+
+const headingName = (line: string) => line.trim().match(HEADING)?.[1].toLowerCase() ?? null;
+
+// Returns null when the nudge or next step is missing; the whole text is then
+// treated as the solution
+export const parseHintLadder = (text: string): HintLadder | null => {
+  const sections: Record<'nudge' | 'next' | 'solution', string[]> = { nudge: [], next: [], solution: [] };
+  let section: keyof typeof sections | null = null;
+
+  for (const line of text.split('\n')) {
+    const heading = headingName(line);
+    if (heading === 'nudge' || heading === 'hint') {
+      section = 'nudge';
+      continue;
+    }
+    if (heading === 'next step') {
+      section = 'next';
+      continue;
+    }
+    if (heading === 'solution' || heading === 'full solution') {
+      section = 'solution';
+      continue;
+    }
+    // Any other heading starts the worked solution ("## Step 1: ...")
+    if (heading && section !== 'solution' && section !== null) section = 'solution';
+    if (section) sections[section].push(line);
+  }
+
+  const nudge = sections.nudge.join('\n').trim();
+  const nextStep = sections.next.join('\n').trim();
+  if (!nudge || !nextStep) return null;
+  return { nudge, nextStep, solution: sections.solution.join('\n').trim() };
+};
+
+const verdictFromLine = (line: string): WorkVerdict | null => {
+  const normalized = line.replace(/[*_]/g, '').trim().toLowerCase();
+  if (/^(partly|partially|mostly)\b/.test(normalized)) return 'partly-correct';
+  if (/^(incorrect|not correct|wrong)\b/.test(normalized)) return 'incorrect';
+  if (/^correct\b/.test(normalized)) return 'correct';
+  return null;
+};
+
+const LIST_ITEM = /^\s*(?:\d+[.)]|[-*•])\s+/;
+
+// Numbered or bulleted items, each with any indented lines that follow it
+const listItems = (text: string) => {
+  const items: string[] = [];
+  for (const line of text.split('\n')) {
+    if (LIST_ITEM.test(line)) items.push(line.replace(LIST_ITEM, ''));
+    else if (items.length > 0 && line.trim()) items[items.length - 1] += `\n${line.trim()}`;
+  }
+  return items.map(item => item.trim()).filter(item => item && !/^none\b/i.test(item));
+};
+
+// Returns null when no verdict section can be found
+export const parseWorkCheck = (text: string): WorkCheck | null => {
+  const sections: Record<string, string[]> = {};
+  let section: string | null = null;
+  for (const line of text.split('\n')) {
+    const heading = headingName(line);
+    if (heading) {
+      section = heading;
+      sections[section] = [];
+    } else if (section) {
+      sections[section].push(line);
+    }
+  }
+
+  const find = (...names: string[]) => {
+    const key = Object.keys(sections).find(name => names.some(candidate => name.startsWith(candidate)));
+    return key ? sections[key].join('\n').trim() : '';
+  };
+
+  const summary = find('verdict');
+  if (!summary) return null;
+  const mistakesText = find('mistakes', 'errors');
+  const mistakes = listItems(mistakesText);
+  return {
+    verdict: verdictFromLine(summary),
+    summary,
+    // A mistakes section written as a paragraph still counts as one mistake
+    mistakes: mistakes.length > 0 || /^none\b/i.test(mistakesText) || !mistakesText ? mistakes : [mistakesText],
+    strengths: find('what you did well', 'strengths'),
+    correctSolution: find('correct solution', 'corrected solution', 'correct answer'),
+  };
+};
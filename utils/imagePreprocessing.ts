@@ -0,0 +1,314 @@
+// Image cleanup that runs before a scan is sent for OCR. The pipeline runs on
+// a canvas inside a hidden WebView (see components/ImagePreprocessor), so it
+// needs no native image library: rotate from EXIF, downscale, find the page
+// and straighten it, convert to grayscale, stretch the contrast and compress
+// to a size budget.
+
+export interface PreprocessOptions {
+  // Longest side of the output in pixels
+  maxDimension: number;
+  // Upper bound for the compressed JPEG in bytes
+  maxBytes: number;
+  grayscale: boolean;
+  enhanceContrast: boolean;
+  // Find the page outline and warp it to a flat rectangle
+  correctPerspective: boolean;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+  maxDimension: 2000,
+  maxBytes: 1_500_000,
+  grayscale: true,
+  enhanceContrast: true,
+  correctPerspective: true,
+};
+
+export interface PreprocessedImage {
+  uri: string;
+  originalUri: string;
+  width: number;
+  height: number;
+  bytes: number;
+  originalBytes: number;
+  perspectiveCorrected: boolean;
+}
+
+export type PreprocessMessage =
+  | { type: 'done'; data: string; width: number; height: number; perspectiveCorrected: boolean }
+  | { type: 'error'; message: string };
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Short summary for the before/after preview, e.g. "3.4 MB → 410 KB · straightened"
+export const describePreprocessing = (image: PreprocessedImage): string => {
+  const parts = [`${formatBytes(image.originalBytes)} → ${formatBytes(image.bytes)}`];
+  if (image.perspectiveCorrected) parts.push('straightened');
+  return parts.join(' · ');
+};
+
+export const buildPreprocessPage = (imageBase64: string, options: PreprocessOptions) => `<!DOCTYPE html>
+<html>
+<head><meta name="viewport" content="width=device-width, initial-scale=1"></head>
+<body>
+<script>
+  var OPTIONS = ${JSON.stringify(options)};
+  var BASE64 = '${imageBase64}';
+  var DETECT_SIZE = 256;
+
+  function post(message) { window.ReactNativeWebView.postMessage(JSON.stringify(message)); }
+
+  // EXIF orientation (1-8) from the APP1 segment, or 1 when there is none
+  function readOrientation() {
+    var bytes = atob(BASE64.slice(0, 87384));
+    function u16(i, little) { return little ? bytes.charCodeAt(i) | (bytes.charCodeAt(i + 1) << 8) : (bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1); }
+    function u32(i, little) { return little ? u16(i, true) + u16(i + 2, true) * 65536 : u16(i, false) * 65536 + u16(i + 2, false); }
+    if (u16(0, false) !== 0xffd8) return 1;
+    var offset = 2;
+    while (offset + 4 < bytes.length) {
+      var marker = u16(offset, false);
+      var length = u16(offset + 2, false);
+      if (marker === 0xffe1 && bytes.substr(offset + 4, 4) === 'Exif') {
+        var tiff = offset + 10;
+        var little = bytes.substr(tiff, 2) === 'II';
+        var ifd = tiff + u32(tiff + 4, little);
+        var count = u16(ifd, little);
+        for (var i = 0; i < count; i++) {
+          var entry = ifd + 2 + i * 12;
+          if (u16(entry, little) === 0x0112) return u16(entry + 8, little) || 1;
+        }
+        return 1;
+      }
+      if ((marker & 0xff00) !== 0xff00) return 1;
+      offset += 2 + length;
+    }
+    return 1;
+  }
+
+  // Draws the photo upright and no larger than maxDimension
+  function drawUpright(img, orientation) {
+    var swap = orientation >= 5;
+    var w = img.naturalWidth, h = img.naturalHeight;
+    var scale = Math.min(1, OPTIONS.maxDimension / Math.max(w, h));
+    var dw = Math.round(w * scale), dh = Math.round(h * scale);
+    var canvas = document.createElement('canvas');
+    canvas.width = swap ? dh : dw;
+    canvas.height = swap ? dw : dh;
+    var ctx = canvas.getContext('2d');
+    var transforms = {
+      2: [-1, 0, 0, 1, dw, 0], 3: [-1, 0, 0, -1, dw, dh], 4: [1, 0, 0, -1, 0, dh],
+      5: [0, 1, 1, 0, 0, 0], 6: [0, 1, -1, 0, dh, 0], 7: [0, -1, -1, 0, dh, dw], 8: [0, -1, 1, 0, 0, dw]
+    };
+    var t = transforms[orientation];
+    if (t) ctx.setTransform(t[0], t[1], t[2], t[3], t[4], t[5]);
+    ctx.drawImage(img, 0, 0, dw, dh);
+    return canvas;
+  }
+
+  function luminance(data, i) { return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]; }
+
+  // Otsu threshold over a 256-bin histogram
+  function otsu(gray) {
+    var hist = new Array(256).fill(0);
+    for (var i = 0; i < gray.length; i++) hist[gray[i]]++;
+    var total = gray.length, sum = 0;
+    for (var t = 0; t < 256; t++) sum += t * hist[t];
+    var sumB = 0, weightB = 0, best = 0, threshold = 127;
+    for (var t2 = 0; t2 < 256; t2++) {
+      weightB += hist[t2];
+      if (!weightB) continue;
+      var weightF = total - weightB;
+      if (!weightF) break;
+      sumB += t2 * hist[t2];
+      var between = weightB * weightF * Math.pow(sumB / weightB - (sum - sumB) / weightF, 2);
+      if (between > best) { best = between; threshold = t2; }
+    }
+    return threshold;
+  }
+
+  // Looks for a bright page on a darker background: the largest bright
+  // region, reduced to its four extreme corners. Returns null unless the
+  // region is clearly a page that doesn't already fill the photo.
+  function detectPage(canvas) {
+    var scale = Math.min(1, DETECT_SIZE / Math.max(canvas.width, canvas.height));
+    var w = Math.max(1, Math.round(canvas.width * scale)), h = Math.max(1, Math.round(canvas.height * scale));
+    var small = document.createElement('canvas');
+    small.width = w; small.height = h;
+    var sctx = small.getContext('2d');
+    sctx.drawImage(canvas, 0, 0, w, h);
+    var data = sctx.getImageData(0, 0, w, h).data;
+    var gray = new Uint8Array(w * h);
+    for (var p = 0; p < w * h; p++) gray[p] = luminance(data, p * 4);
+    var threshold = otsu(gray);
+
+    var seen = new Uint8Array(w * h), bestPixels = null;
+    for (var start = 0; start < w * h; start++) {
+      if (seen[start] || gray[start] <= threshold) continue;
+      var stack = [start], pixels = [];
+      seen[start] = 1;
+      while (stack.length) {
+        var q = stack.pop(), x = q % w, y = (q - x) / w;
+        pixels.push(q);
+        var neighbours = [x > 0 ? q - 1 : -1, x < w - 1 ? q + 1 : -1, y > 0 ? q - w : -1, y < h - 1 ? q + w : -1];
+        for (var n = 0; n < 4; n++) {
+          var m = neighbours[n];
+          if (m >= 0 && !seen[m] && gray[m] > threshold) { seen[m] = 1; stack.push(m); }
+        }
+      }
+      if (!bestPixels || pixels.length > bestPixels.length) bestPixels = pixels;
+    }
+    if (!bestPixels) return null;
+    var coverage = bestPixels.length / (w * h);
+    if (coverage < 0.2 || coverage > 0.92) return null;
+
+    var tl, tr, br, bl, minSum = Infinity, maxSum = -Infinity, minDiff = Infinity, maxDiff = -Infinity;
+    for (var k = 0; k < bestPixels.length; k++) {
+      var px = bestPixels[k] % w, py = (bestPixels[k] - px) / w;
+      if (px + py < minSum) { minSum = px + py; tl = [px, py]; }
+      if (px + py > maxSum) { maxSum = px + py; br = [px, py]; }
+      if (px - py > maxDiff) { maxDiff = px - py; tr = [px, py]; }
+      if (px - py < minDiff) { minDiff = px - py; bl = [px, py]; }
+    }
+    var corners = [tl, tr, br, bl];
+    var area = 0;
+    for (var c = 0; c < 4; c++) {
+      var a = corners[c], b = corners[(c + 1) % 4];
+      area += a[0] * b[1] - b[0] * a[1];
+    }
+    // A page fills its own outline closely; blobs and hands don't
+    var fill = bestPixels.length / (Math.abs(area) / 2);
+    if (fill < 0.85 || fill > 1.18) return null;
+    return corners.map(function (corner) { return [(corner[0] + 0.5) / scale, (corner[1] + 0.5) / scale]; });
+  }
+
+  function solve(A, b) {
+    var n = b.length;
+    for (var col = 0; col < n; col++) {
+      var pivot = col;
+      for (var r = col + 1; r < n; r++) if (Math.abs(A[r][col]) > Math.abs(A[pivot][col])) pivot = r;
+      var tmp = A[col]; A[col] = A[pivot]; A[pivot] = tmp;
+      var tb = b[col]; b[col] = b[pivot]; b[pivot] = tb;
+      for (var r2 = col + 1; r2 < n; r2++) {
+        var f = A[r2][col] / A[col][col];
+        for (var c = col; c < n; c++) A[r2][c] -= f * A[col][c];
+        b[r2] -= f * b[col];
+      }
+    }
+    var x = new Array(n);
+    for (var i = n - 1; i >= 0; i--) {
+      var s = b[i];
+      for (var j = i + 1; j < n; j++) s -= A[i][j] * x[j];
+      x[i] = s / A[i][i];
+    }
+    return x;
+  }
+
+  // Homography taking output rectangle points to the page corners
+  function homography(dst, src) {
+    var A = [], b = [];
+    for (var i = 0; i < 4; i++) {
+      var x = dst[i][0], y = dst[i][1], u = src[i][0], v = src[i][1];
+      A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]); b.push(u);
+      A.push([0, 0, 0, x, y, 1, -v * x, -v * y]); b.push(v);
+    }
+    return solve(A, b);
+  }
+
+  function warp(canvas, corners) {
+    function dist(a, b) { return Math.hypot(a[0] - b[0], a[1] - b[1]); }
+    var ow = Math.round(Math.max(dist(corners[0], corners[1]), dist(corners[3], corners[2])));
+    var oh = Math.round(Math.max(dist(corners[0], corners[3]), dist(corners[1], corners[2])));
+    var H = homography([[0, 0], [ow, 0], [ow, oh], [0, oh]], corners);
+    var sw = canvas.width, sh = canvas.height;
+    var src = canvas.getContext('2d').getImageData(0, 0, sw, sh).data;
+    var out = document.createElement('canvas');
+    out.width = ow; out.height = oh;
+    var octx = out.getContext('2d');
+    var image = octx.createImageData(ow, oh), dst = image.data;
+    for (var y = 0; y < oh; y++) {
+      for (var x = 0; x < ow; x++) {
+        var d = H[6] * x + H[7] * y + 1;
+        var u = (H[0] * x + H[1] * y + H[2]) / d, v = (H[3] * x + H[4] * y + H[5]) / d;
+        var x0 = Math.min(sw - 2, Math.max(0, Math.floor(u))), y0 = Math.min(sh - 2, Math.max(0, Math.floor(v)));
+        var fx = Math.min(1, Math.max(0, u - x0)), fy = Math.min(1, Math.max(0, v - y0));
+        var i00 = (y0 * sw + x0) * 4, i10 = i00 + 4, i01 = i00 + sw * 4, i11 = i01 + 4;
+        var o = (y * ow + x) * 4;
+        for (var ch = 0; ch < 3; ch++) {
+          var top = src[i00 + ch] + (src[i10 + ch] - src[i00 + ch]) * fx;
+          var bottom = src[i01 + ch] + (src[i11 + ch] - src[i01 + ch]) * fx;
+          dst[o + ch] = top + (bottom - top) * fy;
+        }
+        dst[o + 3] = 255;
+      }
+    }
+    octx.putImageData(image, 0, 0);
+    return out;
+  }
+
+  // Grayscale and/or a levels stretch between the 1st and 99th percentile
+  function adjustTones(canvas) {
+    if (!OPTIONS.grayscale && !OPTIONS.enhanceContrast) return;
+    var ctx = canvas.getContext('2d');
+    var image = ctx.getImageData(0, 0, canvas.width, canvas.height), data = image.data;
+    var lut = new Uint8ClampedArray(256);
+    for (var v = 0; v < 256; v++) lut[v] = v;
+    if (OPTIONS.enhanceContrast) {
+      var hist = new Array(256).fill(0), total = data.length / 4;
+      for (var i = 0; i < data.length; i += 4) hist[Math.round(luminance(data, i))]++;
+      var low = 0, high = 255, count = 0;
+      while (low < 255 && (count += hist[low]) < total * 0.01) low++;
+      count = 0;
+      while (high > 0 && (count += hist[high]) < total * 0.01) high--;
+      if (high - low > 16) for (var l = 0; l < 256; l++) lut[l] = ((l - low) * 255) / (high - low);
+    }
+    for (var j = 0; j < data.length; j += 4) {
+      if (OPTIONS.grayscale) {
+        var g = lut[Math.round(luminance(data, j))];
+        data[j] = data[j + 1] = data[j + 2] = g;
+      } else {
+        data[j] = lut[data[j]]; data[j + 1] = lut[data[j + 1]]; data[j + 2] = lut[data[j + 2]];
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+  }
+
+  // Lowers the JPEG quality, then the size, until the file fits the budget
+  function compress(canvas) {
+    var current = canvas;
+    for (var attempt = 0; attempt < 4; attempt++) {
+      for (var quality = 0.85; quality >= 0.45; quality -= 0.1) {
+        var data = current.toDataURL('image/jpeg', quality).split(',')[1];
+        if (data.length * 0.75 <= OPTIONS.maxBytes) return { data: data, canvas: current };
+      }
+      var smaller = document.createElement('canvas');
+      smaller.width = Math.round(current.width * 0.8);
+      smaller.height = Math.round(current.height * 0.8);
+      smaller.getContext('2d').drawImage(current, 0, 0, smaller.width, smaller.height);
+      current = smaller;
+    }
+    return { data: current.toDataURL('image/jpeg', 0.45).split(',')[1], canvas: current };
+  }
+
+  var img = new Image();
+  img.onload = function () {
+    try {
+      // Browsers that support image-orientation already draw photos upright
+      var exifHandled = window.CSS && CSS.supports && CSS.supports('image-orientation', 'from-image');
+      var canvas = drawUpright(img, exifHandled ? 1 : readOrientation());
+      var corners = OPTIONS.correctPerspective ? detectPage(canvas) : null;
+      if (corners) canvas = warp(canvas, corners);
+      adjustTones(canvas);
+      var result = compress(canvas);
+      post({ type: 'done', data: result.data, width: result.canvas.width, height: result.canvas.height, perspectiveCorrected: !!corners });
+    } catch (e) {
+      post({ type: 'error', message: String(e) });
+    }
+  };
+  img.onerror = function () { post({ type: 'error', message: 'The image could not be opened.' }); };
+  img.src = 'data:image/jpeg;base64,' + BASE64;
+</script>
+</body>
+</html>`;
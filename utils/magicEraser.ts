@@ -0,0 +1,115 @@
+// Line diff between a scan note and its Magic Eraser cleanup, for the review
+// screen. The model is asked to drop lines rather than rewrite them, so most
+// changes show up as removals.
+
+export type DiffLineKind = 'kept' | 'removed' | 'added';
+
+export interface DiffLine {
+  kind: DiffLineKind;
+  text: string;
+}
+
+// A run of unchanged lines long enough to fold away in the review
+export interface FoldedLines {
+  kind: 'folded';
+  lines: DiffLine[];
+}
+
+export interface DiffStats {
+  kept: number;
+  removed: number;
+  added: number;
+}
+
+// Past this many line pairs the diff falls back to treating the whole text as
+// replaced, rather than filling memory with the comparison table
+const MAX_DIFF_CELLS = 4_000_000;
+
+const contentLines = (text: string) =>
+  text
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line.trim());
+
+// OCR spacing differences shouldn't count as changes
+const comparable = (line: string) => line.replace(/\s+/g, ' ').trim();
+
+// Longest common subsequence of the non-blank lines
+export const diffLines = (original: string, cleaned: string): DiffLine[] => {
+  const before = contentLines(original);
+  const after = contentLines(cleaned);
+  if (before.length * after.length > MAX_DIFF_CELLS) {
+    return [
+      ...before.map(text => ({ kind: 'removed' as const, text })),
+      ...after.map(text => ({ kind: 'added' as const, text })),
+    ];
+  }
+
+  const a = before.map(comparable);
+  const b = after.map(comparable);
+  const width = b.length + 1;
+  // lengths[i * width + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ kind: 'kept', text: after[j] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ kind: 'removed', text: before[i++] });
+    } else {
+      result.push({ kind: 'added', text: after[j++] });
+    }
+  }
+  while (i < a.length) result.push({ kind: 'removed', text: before[i++] });
+  while (j < b.length) result.push({ kind: 'added', text: after[j++] });
+  return result;
+};
+
+export const diffStats = (diff: DiffLine[]): DiffStats =>
+  diff.reduce<DiffStats>(
+    (stats, line) => ({ ...stats, [line.kind]: stats[line.kind] + 1 }),
+    { kept: 0, removed: 0, added: 0 }
+  );
+
+// Folds runs of more than `context * 2 + 1` unchanged lines, leaving `context`
+// lines on either side of each change
+export const foldUnchanged = (diff: DiffLine[], context = 2): (DiffLine | FoldedLines)[] => {
+  const result: (DiffLine | FoldedLines)[] = [];
+  let run: DiffLine[] = [];
+  const flushRun = (atStart: boolean, atEnd: boolean) => {
+    const head = atStart ? 0 : context;
+    const tail = atEnd ? 0 : context;
+    if (run.length > head + tail + 1) {
+      result.push(...run.slice(0, head));
+      result.push({ kind: 'folded', lines: run.slice(head, run.length - tail) });
+      result.push(...run.slice(run.length - tail));
+    } else {
+      result.push(...run);
+    }
+    run = [];
+  };
+
+  diff.forEach(line => {
+    if (line.kind === 'kept') {
+      run.push(line);
+      return;
+    }
+    flushRun(result.length === 0, false);
+    result.push(line);
+  });
+  flushRun(result.length === 0, true);
+  return result;
+};
@@ -0,0 +1,165 @@
+// A small Markdown to HTML converter for AI answers and notes. It covers what
+// the model actually writes (headings, lists, quotes, tables, code, emphasis,
+// links)
+// and leaves LaTeX untouched in `.math` spans for KaTeX to render.
+
+export interface MarkdownHtmlOptions {
+  // Turn note chat citations like [2] into tappable links
+  citations?: boolean;
+}
+
+// Placeholders keep code and math away from the Markdown rules; \u0000 can't
+// appear in model output or be produced by escaping
+const placeholder = (index: number) => `\u0000${index}\u0000`;
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+
+const FENCED_CODE_PATTERN = /```[^\n]*\n([\s\S]*?)```/g;
+const INLINE_CODE_PATTERN = /`([^`\n]+)`/g;
+
+// $$...$$, \[...\], \(...\) and $...$. A single $ only opens math when it's
+// followed by a non-space and closes before a non-digit, so prices like
+// "$5 and $10" stay text.
+const MATH_PATTERN = /\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)|\$(?=\S)((?:\\\$|[^$\n])*?\S)\$(?!\d)/g;
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// True when the text contains LaTeX that needs KaTeX to display properly
+export const containsMath = (text: string) => new RegExp(MATH_PATTERN.source).test(text);
+
+const formatInline = (text: string, options: MarkdownHtmlOptions) => {
+  let html = escapeHtml(text)
+    .replace(/\*\*(?=\S)([^*]+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/__(?=\S)([^_]+?)__/g, '<strong>$1</strong>')
+    .replace(/(^|[^*])\*(?=\S)([^*]+?)\*(?!\*)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)(.+?)~~/g, '<del>$1</del>')
+    .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)]+)\)/g, '<a href="$2">$1</a>');
+  if (options.citations) {
+    html = html.replace(/\[(\d+(?:\s*,\s*\d+)*)\]/g, (_, numbers: string) =>
+      numbers
+        .split(',')
+        .map(n => `<a class="cite" href="#" data-cite="${n.trim()}">[${n.trim()}]</a>`)
+        .join('')
+    );
+  }
+  return html;
+};
+
+type Block = { kind: 'p' | 'quote' | 'ul' | 'ol' | 'table'; lines: string[] };
+
+const TABLE_SEPARATOR = /^\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?$/;
+
+const splitTableRow = (line: string) =>
+  line
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map(cell => cell.trim());
+
+// Pipe tables; the separator row under the header sets column alignment
+const renderTable = (lines: string[], options: MarkdownHtmlOptions) => {
+  const hasHeader = lines.length > 1 && TABLE_SEPARATOR.test(lines[1]);
+  const alignments = hasHeader
+    ? splitTableRow(lines[1]).map(cell =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : ''
+      )
+    : [];
+  const renderRow = (line: string, tag: 'th' | 'td') =>
+    `<tr>${splitTableRow(line)
+      .map((cell, index) => {
+        const align = alignments[index] ? ` style="text-align:${alignments[index]}"` : '';
+        return `<${tag}${align}>${formatInline(cell, options)}</${tag}>`;
+      })
+      .join('')}</tr>`;
+
+  const head = hasHeader ? `<thead>${renderRow(lines[0], 'th')}</thead>` : '';
+  const body = (hasHeader ? lines.slice(2) : lines).map(line => renderRow(line, 'td')).join('');
+  return `<div class="table"><table>${head}<tbody>${body}</tbody></table></div>`;
+};
+
+export const markdownToHtml = (markdown: string, options: MarkdownHtmlOptions = {}): string => {
+  const stash: string[] = [];
+  const keep = (html: string) => placeholder(stash.push(html) - 1);
+
+  const text = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(FENCED_CODE_PATTERN, (_, code: string) => `\n${keep(`<pre><code>${escapeHtml(code.replace(/\n$/, ''))}</code></pre>`)}\n`)
+    .replace(INLINE_CODE_PATTERN, (_, code: string) => keep(`<code>${escapeHtml(code)}</code>`))
+    .replace(MATH_PATTERN, (_, display: string, bracket: string, paren: string, inline: string) => {
+      const isDisplay = display !== undefined || bracket !== undefined;
+      const tex = display ?? bracket ?? paren ?? inline;
+      return keep(`<span class="math${isDisplay ? ' math-display' : ''}">${escapeHtml(tex.trim())}</span>`);
+    });
+
+  const html: string[] = [];
+  // Declared through a cast so TypeScript doesn't narrow it to null; the
+  // helpers below reassign it
+  let block = null as Block | null;
+
+  const flush = () => {
+    if (!block) return;
+    const items = block.kind === 'table' ? [] : block.lines.map(line => formatInline(line, options));
+    switch (block.kind) {
+      case 'p':
+        html.push(`<p>${items.join('<br>')}</p>`);
+        break;
+      case 'quote':
+        html.push(`<blockquote>${items.join('<br>')}</blockquote>`);
+        break;
+      case 'table':
+        html.push(renderTable(block.lines, options));
+        break;
+      default:
+        html.push(`<${block.kind}>${items.map(item => `<li>${item}</li>`).join('')}</${block.kind}>`);
+    }
+    block = null;
+  };
+
+  const append = (kind: Block['kind'], line: string) => {
+    if (block?.kind !== kind) {
+      flush();
+      block = { kind, lines: [] };
+    }
+    block!.lines.push(line);
+  };
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    let match: RegExpMatchArray | null;
+
+    if (!line) {
+      flush();
+    } else if ((match = line.match(/^(#{1,6})\s+(.*?)#*$/))) {
+      flush();
+      const level = match[1].length;
+      html.push(`<h${level}>${formatInline(match[2], options)}</h${level}>`);
+    } else if (/^(-{3,}|\*{3,}|_{3,})$/.test(line)) {
+      flush();
+      html.push('<hr>');
+    } else if (/^\u0000\d+\u0000$/.test(line)) {
+      // A code block or display formula on its own line
+      flush();
+      html.push(`<div class="block">${line}</div>`);
+    } else if (line.startsWith('|')) {
+      append('table', line);
+    } else if ((match = line.match(/^[-*+•]\s+(.*)$/))) {
+      append('ul', match[1]);
+    } else if ((match = line.match(/^\d+[.)]\s+(.*)$/))) {
+      append('ol', match[1]);
+    } else if ((match = line.match(/^>\s?(.*)$/))) {
+      append('quote', match[1]);
+    } else if (block && (block.kind === 'ul' || block.kind === 'ol') && /^\s{2,}/.test(rawLine)) {
+      // Indented continuation of the previous list item
+      block.lines[block.lines.length - 1] += ` ${line}`;
+    } else {
+      append('p', line);
+    }
+  }
+  flush();
+
+  return html.join('\n').replace(PLACEHOLDER_PATTERN, (_, index: string) => stash[Number(index)] ?? '');
+};
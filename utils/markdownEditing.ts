@@ -0,0 +1,119 @@
+// Toolbar edits for the Markdown note editor. Each takes the text and the
+// current selection and returns the new text with the selection to restore,
+// so formatting can be toggled on and off like in a word processor.
+
+export interface TextSelection {
+  start: number;
+  end: number;
+}
+
+export interface EditResult {
+  text: string;
+  selection: TextSelection;
+}
+
+export type MarkdownFormat =
+  | 'heading'
+  | 'bold'
+  | 'italic'
+  | 'code'
+  | 'math'
+  | 'bullet-list'
+  | 'numbered-list'
+  | 'quote'
+  | 'table';
+
+const WRAP_MARKERS: Partial<Record<MarkdownFormat, string>> = {
+  bold: '**',
+  italic: '*',
+  code: '`',
+  math: '$',
+};
+
+const LINE_PREFIXES: Partial<Record<MarkdownFormat, RegExp>> = {
+  'heading': /^#{1,6}\s+/,
+  'bullet-list': /^[-*+]\s+/,
+  'numbered-list': /^\d+[.)]\s+/,
+  'quote': /^>\s?/,
+};
+
+const TABLE_TEMPLATE = '| Column 1 | Column 2 |\n| --- | --- |\n|  |  |';
+
+// Wraps the selection in markers, or unwraps it when it's already wrapped.
+// With nothing selected the markers are inserted with the cursor between.
+const toggleWrap = (text: string, { start, end }: TextSelection, marker: string): EditResult => {
+  const before = text.slice(0, start);
+  const selected = text.slice(start, end);
+  const after = text.slice(end);
+
+  if (before.endsWith(marker) && after.startsWith(marker)) {
+    return {
+      text: before.slice(0, -marker.length) + selected + after.slice(marker.length),
+      selection: { start: start - marker.length, end: end - marker.length },
+    };
+  }
+  if (selected.length >= marker.length * 2 && selected.startsWith(marker) && selected.endsWith(marker)) {
+    const inner = selected.slice(marker.length, -marker.length);
+    return { text: before + inner + after, selection: { start, end: start + inner.length } };
+  }
+  return {
+    text: before + marker + selected + marker + after,
+    selection: { start: start + marker.length, end: end + marker.length },
+  };
+};
+
+// Adds a prefix to every line the selection touches, or removes it when all
+// of them already have it. Numbered lists are renumbered from 1.
+const toggleLinePrefix = (text: string, { start, end }: TextSelection, format: MarkdownFormat): EditResult => {
+  const pattern = LINE_PREFIXES[format]!;
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const nextBreak = text.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const lines = text.slice(lineStart, lineEnd).split('\n');
+
+  const allPrefixed = lines.every(line => pattern.test(line));
+  const updated = lines.map((line, index) => {
+    // Switching between list kinds or heading levels replaces the old prefix
+    const bare = line.replace(LINE_PREFIXES[format]!, '').replace(/^([-*+]|\d+[.)])\s+/, '');
+    if (allPrefixed) return line.replace(pattern, '');
+    switch (format) {
+      case 'heading':
+        return `## ${bare}`;
+      case 'bullet-list':
+        return `- ${bare}`;
+      case 'numbered-list':
+        return `${index + 1}. ${bare}`;
+      default:
+        return `> ${line}`;
+    }
+  });
+
+  const replaced = updated.join('\n');
+  const newText = text.slice(0, lineStart) + replaced + text.slice(lineEnd);
+  if (start === end) {
+    // Keep the cursor at the same place in its line
+    const cursor = Math.max(lineStart, start + (updated[0].length - lines[0].length));
+    return { text: newText, selection: { start: cursor, end: cursor } };
+  }
+  return { text: newText, selection: { start: lineStart, end: lineStart + replaced.length } };
+};
+
+// Inserts a block on its own lines after the current line
+const insertBlock = (text: string, { end }: TextSelection, block: string): EditResult => {
+  const nextBreak = text.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? text.length : nextBreak;
+  const before = text.slice(0, lineEnd);
+  const prefix = before.length === 0 ? '' : before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+  const insertAt = lineEnd + prefix.length;
+  return {
+    text: before + prefix + block + '\n' + text.slice(lineEnd),
+    selection: { start: insertAt, end: insertAt + block.indexOf('\n') },
+  };
+};
+
+export const applyMarkdownFormat = (text: string, selection: TextSelection, format: MarkdownFormat): EditResult => {
+  const marker = WRAP_MARKERS[format];
+  if (marker) return toggleWrap(text, selection, marker);
+  if (format === 'table') return insertBlock(text, selection, TABLE_TEMPLATE);
+  return toggleLinePrefix(text, selection, format);
+};
@@ -0,0 +1,44 @@
+import { stripCitations } from './noteChunks';
+
+// Markdown renderings of note chat threads, for sharing a conversation and
+// for pinning an answer into its note.
+
+interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string | Date;
+}
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// Citation numbers only mean something next to the retrieved passages, so
+// they're dropped from exported and pinned text
+export const noteChatToMarkdown = (noteTitle: string, turns: ChatTurn[]): string => {
+  const lines = [`# Chat about "${noteTitle}"`, ''];
+  if (turns.length > 0) {
+    lines.push(`_${formatDate(turns[0].createdAt)}_`, '');
+  }
+  for (const turn of turns) {
+    if (turn.role === 'user') {
+      lines.push(`**You:** ${turn.content.trim()}`, '');
+    } else {
+      lines.push(`**AI:** ${stripCitations(turn.content).trim()}`, '');
+    }
+  }
+  return lines.join('\n').trimEnd() + '\n';
+};
+
+const formatPinnedAnswer = (question: string | undefined, answer: string): string => {
+  const heading = question ? `**📌 ${question.trim()}**` : '**📌 Pinned from chat**';
+  return `---\n${heading}\n\n${stripCitations(answer).trim()}`;
+};
+
+export const appendPinnedAnswer = (noteContent: string, question: string | undefined, answer: string): string =>
+  `${noteContent.trimEnd()}\n\n${formatPinnedAnswer(question, answer)}\n`;
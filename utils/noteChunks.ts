@@ -0,0 +1,89 @@
+// Splits notes into passages for retrieval-augmented note chat. Chunks keep
+// their character offsets in the note so a citation can point back at the
+// exact spot in the reader.
+
+export interface NoteChunk {
+  index: number;
+  text: string;
+  start: number; // offset of the first character in the note
+  end: number; // offset just past the last character
+}
+
+const TARGET_CHUNK_CHARS = 700;
+const MAX_CHUNK_CHARS = 1000;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Paragraph spans, with blank lines as separators
+const paragraphSpans = (content: string): Span[] => {
+  const spans: Span[] = [];
+  const paragraphRe = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraphRe.exec(content))) {
+    if (match[0].trim()) spans.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return spans;
+};
+
+// Paragraphs longer than a chunk are cut at sentence ends, or hard-cut if a
+// single sentence is longer than that
+const splitLongSpan = (content: string, span: Span): Span[] => {
+  if (span.end - span.start <= MAX_CHUNK_CHARS) return [span];
+  const pieces: Span[] = [];
+  let start = span.start;
+  while (span.end - start > MAX_CHUNK_CHARS) {
+    const window = content.slice(start, start + MAX_CHUNK_CHARS);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('? '), window.lastIndexOf('! '));
+    const cut = sentenceEnd > TARGET_CHUNK_CHARS / 2 ? sentenceEnd + 1 : MAX_CHUNK_CHARS;
+    pieces.push({ start, end: start + cut });
+    start += cut;
+    while (start < span.end && /\s/.test(content[start])) start++;
+  }
+  if (start < span.end) pieces.push({ start, end: span.end });
+  return pieces;
+};
+
+export const chunkNote = (content: string): NoteChunk[] => {
+  const spans = paragraphSpans(content).flatMap(span => splitLongSpan(content, span));
+  const chunks: NoteChunk[] = [];
+  let current: Span | null = null;
+
+  // Neighbouring short paragraphs are merged up to the target size
+  for (const span of spans) {
+    if (current && span.end - current.start <= TARGET_CHUNK_CHARS) {
+      current.end = span.end;
+      continue;
+    }
+    if (current) chunks.push({ index: chunks.length, text: content.slice(current.start, current.end), ...current });
+    current = { ...span };
+  }
+  if (current) chunks.push({ index: chunks.length, text: content.slice(current.start, current.end), ...current });
+
+  return chunks;
+};
+
+// Cheap content fingerprint (djb2) used to tell whether a note's index is stale
+export const hashNoteContent = (content: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) | 0;
+  }
+  return `${content.length}:${(hash >>> 0).toString(16)}`;
+};
+
+// Answers cite passages as [1], [2] or [1, 3]
+const CITATION_RE = /\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+export const extractCitationNumbers = (answer: string): number[] => {
+  const numbers = new Set<number>();
+  for (const match of answer.matchAll(CITATION_RE)) {
+    match[1].split(',').forEach(n => numbers.add(Number(n.trim())));
+  }
+  return [...numbers];
+};
+
+export const stripCitations = (answer: string): string =>
+  answer.replace(/\s*\[(\d+(?:\s*,\s*\d+)*)\]/g, '');
@@ -0,0 +1,31 @@
+import type { Folder } from '../services/historyStorage';
+
+// Folders in tree order (each folder followed by its subfolders) with their
+// depth and full path, for pickers that show nesting with indentation.
+export interface FolderEntry {
+  folder: Folder;
+  depth: number;
+  path: string; // e.g. "Biology / Cells"
+}
+
+export const flattenFolders = (folders: Folder[]): FolderEntry[] => {
+  const children = new Map<number | null, Folder[]>();
+  const ids = new Set(folders.map(folder => folder.id));
+  for (const folder of folders) {
+    // A folder whose parent is gone is shown at the top level
+    const parentId = folder.parent_id !== null && ids.has(folder.parent_id) ? folder.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), folder]);
+  }
+
+  const entries: FolderEntry[] = [];
+  const visit = (parentId: number | null, depth: number, parentPath: string) => {
+    for (const folder of children.get(parentId) ?? []) {
+      const path = parentPath ? `${parentPath} / ${folder.name}` : folder.name;
+      entries.push({ folder, depth, path });
+      visit(folder.id, depth + 1, path);
+    }
+  };
+  visit(null, 0, '');
+  return entries;
+};
+
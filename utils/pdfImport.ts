@@ -0,0 +1,144 @@
+import { pageSeparator } from './scanPages';
+
+// Turning an extracted PDF into notes: finding chapters, and keeping notes
+// and AI requests to a manageable size.
+
+// A PDF bookmark: its title and the 1-based page it points to
+export interface PdfOutlineEntry {
+  title: string;
+  page: number;
+}
+
+export interface PdfSection {
+  title: string;
+  // 1-based, inclusive
+  startPage: number;
+  endPage: number;
+}
+
+export interface PdfNoteDraft {
+  title: string;
+  content: string;
+}
+
+export type PdfImportMode = 'single' | 'chapters';
+
+// The whole file is sent in one request, so keep it within what the function accepts
+export const MAX_PDF_BYTES = 20 * 1024 * 1024;
+
+// Longer notes are saved as numbered parts so the editor and note tools stay responsive
+export const MAX_NOTE_CHARS = 40000;
+
+const CHAPTER_HEADING =
+  /^(chapter|unit|part|lesson|module|section)\s+(\d+|[ivxlcdm]+|one|two|three|four|five|six|seven|eight|nine|ten)\b.*$/i;
+const MAX_TITLE_CHARS = 80;
+
+const truncateTitle = (title: string) =>
+  title.length > MAX_TITLE_CHARS ? `${title.slice(0, MAX_TITLE_CHARS - 3).trimEnd()}...` : title;
+
+export const pdfTitleFromFileName = (fileName: string) =>
+  fileName.replace(/\.pdf$/i, '').replace(/[_-]+/g, ' ').trim() || 'Imported PDF';
+
+// Chapters from the bookmarks when there are at least two, otherwise from
+// "Chapter 3"-style headings at the top of a page. Pages before the first
+// chapter become an introduction. Returns a single section when nothing
+// chapter-like is found.
+export const detectChapters = (pages: string[], outline: PdfOutlineEntry[], documentTitle: string): PdfSection[] => {
+  let starts: { title: string; page: number }[] = [];
+
+  const bookmarks = outline
+    .filter(entry => entry.page >= 1 && entry.page <= pages.length)
+    .sort((a, b) => a.page - b.page)
+    .filter((entry, index, sorted) => index === 0 || entry.page !== sorted[index - 1].page);
+  if (bookmarks.length >= 2) {
+    starts = bookmarks.map(entry => ({ title: entry.title.trim(), page: entry.page }));
+  } else {
+    pages.forEach((text, index) => {
+      const heading = text
+        .split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .slice(0, 3)
+        .find(line => CHAPTER_HEADING.test(line));
+      if (heading) starts.push({ title: heading, page: index + 1 });
+    });
+  }
+
+  if (starts.length < 2) {
+    return [{ title: documentTitle, startPage: 1, endPage: pages.length }];
+  }
+
+  const sections: PdfSection[] = [];
+  if (starts[0].page > 1 && pages.slice(0, starts[0].page - 1).some(text => text.trim())) {
+    sections.push({ title: 'Introduction', startPage: 1, endPage: starts[0].page - 1 });
+  }
+  starts.forEach((start, index) => {
+    sections.push({
+      title: truncateTitle(start.title),
+      startPage: start.page,
+      endPage: index + 1 < starts.length ? starts[index + 1].page - 1 : pages.length,
+    });
+  });
+  return sections;
+};
+
+// The section's pages with the same separators as multi-page scans, numbered
+// by their page in the PDF
+export const sectionText = (pages: string[], section: PdfSection) =>
+  pages
+    .slice(section.startPage - 1, section.endPage)
+    .map((text, index) => (index === 0 ? text.trim() : `${pageSeparator(section.startPage + index)}\n\n${text.trim()}`))
+    .join('\n\n')
+    .trim();
+
+// Splits at paragraph breaks, then line breaks, and only cuts mid-line when a
+// single line is longer than maxChars
+export const splitText = (text: string, maxChars: number): string[] => {
+  if (text.length <= maxChars) return [text];
+  const chunks: string[] = [];
+  let current = '';
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    const pieces =
+      paragraph.length <= maxChars
+        ? [paragraph]
+        : paragraph.split('\n').flatMap(line =>
+            line.length <= maxChars ? [line] : line.match(new RegExp(`[\\s\\S]{1,${maxChars}}`, 'g')) ?? []
+          );
+    pieces.forEach((piece, index) => {
+      // Lines of a split paragraph rejoin with single breaks
+      const separator = index === 0 ? '\n\n' : '\n';
+      if (current && current.length + separator.length + piece.length > maxChars) flush();
+      current = current ? current + separator + piece : piece;
+    });
+  }
+  flush();
+  return chunks;
+};
+
+// One draft per section (or a single one for the whole document), with
+// oversized drafts split into "Part n of m"
+export const buildPdfNotes = (
+  pages: string[],
+  sections: PdfSection[],
+  mode: PdfImportMode,
+  documentTitle: string
+): PdfNoteDraft[] => {
+  const wholeDocument: PdfSection = { title: documentTitle, startPage: 1, endPage: pages.length };
+  const drafts = (mode === 'chapters' ? sections : [wholeDocument])
+    .map(section => ({ title: section.title, content: sectionText(pages, section) }))
+    .filter(draft => draft.content.length > 0);
+
+  return drafts.flatMap(draft => {
+    const parts = splitText(draft.content, MAX_NOTE_CHARS);
+    if (parts.length === 1) return [draft];
+    return parts.map((content, index) => ({
+      title: truncateTitle(`${draft.title} (Part ${index + 1} of ${parts.length})`),
+      content,
+    }));
+  });
+};
@@ -0,0 +1,274 @@
+// Quizzes are stored in `quiz_maker.content` as a versioned JSON document.
+// Older rows (and plain-text AI output) use the "1. / A) / ✓ / ANSWERS:" text
+// format, which `parseQuizDocument` still understands so it can be migrated.
+
+export const QUIZ_DOCUMENT_VERSION = 1;
+
+export type QuizQuestionType = 'multiple-choice' | 'true-false' | 'fill-blank';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  question: string;
+  options: string[];
+  correctAnswer: number; // index into options, -1 for fill-blank or when there's no answer key
+  answerText?: string; // expected answer for fill-blank questions
+  explanation?: string;
+}
+
+export interface QuizDocument {
+  version: number;
+  questions: QuizQuestion[];
+}
+
+// A learner's answer: option index for choice questions, typed text for fill-blank
+export type QuizAnswer = number | string;
+
+const QUESTION_RE = /^(?:Q(?:uestion)?\s*)?(\d+)\s*[.):]\s*(.+)$/i;
+// Lowercase letters only count with a parenthesis so "e.g." isn't read as option E
+const OPTION_RE = /^\(?([A-F]|[a-f](?=\)))\s*[).:]\s*(.+)$/;
+const ANSWERS_HEADER_RE = /^\**\s*(?:answers?|answer key)\s*:?\s*\**$/i;
+const CORRECT_LINE_RE = /^\(?\s*(?:correct\s+)?answer\s*:\s*(.+?)\)?$/i;
+const EXPLANATION_RE = /^\(?\s*explanation\s*:\s*(.+?)\)?$/i;
+const CORRECT_MARK_RE = /\s*(?:✓|✔|\(correct\))\s*$/i;
+
+// Written by quizToText for questions without one, and read back as such
+export const NO_ANSWER_KEY = 'No answer key';
+
+export const createQuizDocument = (questions: QuizQuestion[]): QuizDocument => ({
+  version: QUIZ_DOCUMENT_VERSION,
+  questions: questions.map((q, index) => ({ ...q, id: q.id || `q${index + 1}` })),
+});
+
+export const serializeQuizDocument = (doc: QuizDocument): string =>
+  JSON.stringify(createQuizDocument(doc.questions));
+
+export const isQuizDocumentContent = (content: string | null | undefined): boolean => {
+  if (!content || !content.trim().startsWith('{')) return false;
+  try {
+    const parsed = JSON.parse(content);
+    return typeof parsed?.version === 'number' && Array.isArray(parsed?.questions);
+  } catch {
+    return false;
+  }
+};
+
+const inferType = (question: string, options: string[]): QuizQuestionType => {
+  if (options.length === 0) return 'fill-blank';
+  if (
+    options.length === 2 &&
+    options[0].trim().toLowerCase() === 'true' &&
+    options[1].trim().toLowerCase() === 'false'
+  ) {
+    return 'true-false';
+  }
+  return 'multiple-choice';
+};
+
+const normalizeQuestion = (raw: any, index: number): QuizQuestion | null => {
+  if (!raw || typeof raw.question !== 'string' || !raw.question.trim()) return null;
+  const options: string[] = Array.isArray(raw.options)
+    ? raw.options.filter((o: unknown) => typeof o === 'string')
+    : [];
+  const type: QuizQuestionType = ['multiple-choice', 'true-false', 'fill-blank'].includes(raw.type)
+    ? raw.type
+    : inferType(raw.question, options);
+  const correctAnswer =
+    typeof raw.correctAnswer === 'number' && raw.correctAnswer >= 0 && raw.correctAnswer < options.length
+      ? raw.correctAnswer
+      : -1;
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : `q${index + 1}`,
+    type,
+    question: raw.question.trim(),
+    options,
+    correctAnswer,
+    ...(typeof raw.answerText === 'string' && raw.answerText.trim() ? { answerText: raw.answerText.trim() } : {}),
+    ...(typeof raw.explanation === 'string' && raw.explanation.trim() ? { explanation: raw.explanation.trim() } : {}),
+  };
+};
+
+// Resolves "B", "B) Paris", "Paris" or "True" against a question's options
+const applyAnswer = (question: QuizQuestion, value: string) => {
+  const answer = value.replace(CORRECT_MARK_RE, '').trim();
+  if (!answer || answer.toLowerCase() === NO_ANSWER_KEY.toLowerCase()) return;
+
+  const letterMatch = answer.match(/^\(?([A-Fa-f])(?:\s*[).:]\s*(.*)|\s*)$/);
+  if (letterMatch && question.options.length > 0) {
+    const index = letterMatch[1].toUpperCase().charCodeAt(0) - 65;
+    if (index < question.options.length) {
+      question.correctAnswer = index;
+      return;
+    }
+  }
+
+  const optionIndex = question.options.findIndex(o => o.trim().toLowerCase() === answer.toLowerCase());
+  if (optionIndex !== -1) {
+    question.correctAnswer = optionIndex;
+    return;
+  }
+
+  if (question.options.length === 0) {
+    question.answerText = answer;
+  }
+};
+
+const parseLegacyQuizText = (content: string): QuizQuestion[] => {
+  const questions: QuizQuestion[] = [];
+  const answerKey = new Map<number, string>();
+  let current: QuizQuestion | null = null;
+  let inAnswerKey = false;
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.replace(/\*\*/g, '').trim();
+    if (!trimmed) continue;
+
+    if (ANSWERS_HEADER_RE.test(trimmed)) {
+      inAnswerKey = true;
+      continue;
+    }
+
+    if (inAnswerKey) {
+      const keyMatch = trimmed.match(/^(?:Q(?:uestion)?\s*)?(\d+)\s*[.):-]\s*(.+)$/i);
+      if (keyMatch) answerKey.set(Number(keyMatch[1]), keyMatch[2]);
+      continue;
+    }
+
+    const questionMatch = trimmed.match(QUESTION_RE);
+    if (questionMatch) {
+      current = {
+        id: `q${questions.length + 1}`,
+        type: 'multiple-choice',
+        question: questionMatch[2].trim(),
+        options: [],
+        // Stays -1 when the text marks no answer, rather than guessing option A
+        correctAnswer: -1,
+      };
+      questions.push(current);
+      continue;
+    }
+    if (!current) continue;
+
+    const correctMatch = trimmed.match(CORRECT_LINE_RE);
+    if (correctMatch) {
+      applyAnswer(current, correctMatch[1]);
+      continue;
+    }
+
+    const explanationMatch = trimmed.match(EXPLANATION_RE);
+    if (explanationMatch) {
+      current.explanation = explanationMatch[1].trim();
+      continue;
+    }
+
+    const optionMatch = trimmed.match(OPTION_RE);
+    if (optionMatch) {
+      const index = optionMatch[1].toUpperCase().charCodeAt(0) - 65;
+      let optionText = optionMatch[2].trim();
+      if (CORRECT_MARK_RE.test(optionText)) {
+        optionText = optionText.replace(CORRECT_MARK_RE, '');
+        current.correctAnswer = index;
+      }
+      current.options[index] = optionText;
+      continue;
+    }
+
+    // Wrapped question text before any options
+    if (current.options.length === 0) {
+      current.question = `${current.question} ${trimmed}`;
+    }
+  }
+
+  questions.forEach((question, index) => {
+    question.options = Array.from(question.options, o => o ?? '');
+    const key = answerKey.get(index + 1);
+    if (key) applyAnswer(question, key);
+    question.type = inferType(question.question, question.options);
+    if (question.type === 'fill-blank') question.correctAnswer = -1;
+  });
+
+  return questions;
+};
+
+export const parseQuizDocument = (content: string | null | undefined): QuizDocument => {
+  if (!content) return createQuizDocument([]);
+
+  if (isQuizDocumentContent(content)) {
+    const parsed = JSON.parse(content);
+    const questions = (parsed.questions as any[])
+      .map((q, index) => normalizeQuestion(q, index))
+      .filter(Boolean) as QuizQuestion[];
+    return { version: parsed.version, questions };
+  }
+
+  return createQuizDocument(parseLegacyQuizText(content));
+};
+
+// Accepts whatever the quiz generator returned: a document, a JSON string or legacy text
+export const toQuizDocument = (raw: unknown): QuizDocument => {
+  if (raw && typeof raw === 'object' && Array.isArray((raw as any).questions)) {
+    return parseQuizDocument(JSON.stringify({ version: QUIZ_DOCUMENT_VERSION, ...(raw as object) }));
+  }
+  if (typeof raw !== 'string') return createQuizDocument([]);
+
+  const cleaned = raw.trim().replace(/^```[a-zA-Z]*\n?|```$/g, '').trim();
+  if (cleaned.startsWith('{') || cleaned.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(cleaned);
+      const questions = Array.isArray(parsed) ? parsed : parsed?.questions;
+      if (Array.isArray(questions)) {
+        return parseQuizDocument(JSON.stringify({ version: QUIZ_DOCUMENT_VERSION, questions }));
+      }
+    } catch {
+      // fall through to the text parser
+    }
+  }
+  return parseQuizDocument(cleaned);
+};
+
+// False for questions whose source never said which answer is right
+export const hasAnswerKey = (question: QuizQuestion): boolean =>
+  question.type === 'fill-blank' ? !!question.answerText : question.correctAnswer >= 0;
+
+// Human-readable rendering; it round-trips through parseQuizDocument so it
+// doubles as the editable form of a quiz.
+export const quizToText = (doc: QuizDocument): string =>
+  doc.questions
+    .map((q, index) => {
+      const lines = [`${index + 1}. ${q.question}`];
+      q.options.forEach((option, optionIndex) => {
+        const mark = optionIndex === q.correctAnswer ? ' ✓' : '';
+        lines.push(`   ${String.fromCharCode(65 + optionIndex)}) ${option}${mark}`);
+      });
+      if (q.type === 'fill-blank' && q.answerText) {
+        lines.push(`   Answer: ${q.answerText}`);
+      } else if (!hasAnswerKey(q)) {
+        lines.push(`   Answer: ${NO_ANSWER_KEY}`);
+      }
+      if (q.explanation) {
+        lines.push(`   Explanation: ${q.explanation}`);
+      }
+      return lines.join('\n');
+    })
+    .join('\n\n');
+
+// Display text for quiz content that may be JSON or legacy text
+export const quizContentToText = (content: string): string =>
+  isQuizDocumentContent(content) ? quizToText(parseQuizDocument(content)) : content;
+
+export const countQuizQuestions = (content: string): number =>
+  parseQuizDocument(content).questions.length;
+
+const normalizeText = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!?]$/, '');
+
+export const isAnswered = (answer: QuizAnswer | undefined): boolean =>
+  typeof answer === 'number' ? answer >= 0 : !!answer && answer.trim().length > 0;
+
+export const isCorrectAnswer = (question: QuizQuestion, answer: QuizAnswer | undefined): boolean => {
+  if (answer === undefined || !hasAnswerKey(question)) return false;
+  if (question.type === 'fill-blank') {
+    return typeof answer === 'string' && normalizeText(answer) === normalizeText(question.answerText!);
+  }
+  return answer === question.correctAnswer;
+};
@@ -0,0 +1,15 @@
+// Multi-page scans are saved as one note with a separator line before every
+// page after the first, e.g. "--- Page 2 ---".
+
+// One page of a finished scan: the photo as taken and the text read from it
+export interface ScannedPage {
+  imageUri: string;
+  text: string;
+}
+
+export const pageSeparator = (pageNumber: number) => `--- Page ${pageNumber} ---`;
+
+export const joinScanPages = (pageTexts: string[]): string =>
+  pageTexts
+    .map((text, index) => (index === 0 ? text.trim() : `${pageSeparator(index + 1)}\n\n${text.trim()}`))
+    .join('\n\n');
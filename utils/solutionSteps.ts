@@ -0,0 +1,53 @@
+// Structured solutions are requested in this layout (see STEP_BY_STEP_FORMAT
+// in geminiServices) so they can be revealed one step at a time:
+//
+//   ## Step 1: Expand the brackets
+//   ...
+//   ## Final Answer
+//   ...
+
+export interface SolutionStep {
+  title: string;
+  body: string;
+}
+
+export interface ParsedSolution {
+  intro: string;
+  steps: SolutionStep[];
+  finalAnswer: string;
+}
+
+const STEP_HEADING = /^#{1,4}\s*\**\s*Step\s+(\d+)\s*[:.)-]?\s*(.*?)\**\s*$/i;
+const ANSWER_HEADING = /^#{1,4}\s*\**\s*(Final Answer|Answer)\s*:?\s*\**\s*$/i;
+
+// Returns null when the text isn't laid out in steps; it's then shown as a
+// plain answer
+export const parseSolutionSteps = (text: string): ParsedSolution | null => {
+  const intro: string[] = [];
+  const steps: { title: string; lines: string[] }[] = [];
+  const finalAnswer: string[] = [];
+  let section: 'intro' | 'step' | 'answer' = 'intro';
+
+  for (const line of text.split('\n')) {
+    const stepMatch = line.trim().match(STEP_HEADING);
+    if (stepMatch) {
+      section = 'step';
+      steps.push({ title: stepMatch[2].trim() || `Step ${stepMatch[1]}`, lines: [] });
+      continue;
+    }
+    if (ANSWER_HEADING.test(line.trim())) {
+      section = 'answer';
+      continue;
+    }
+    if (section === 'intro') intro.push(line);
+    else if (section === 'step') steps[steps.length - 1].lines.push(line);
+    else finalAnswer.push(line);
+  }
+
+  if (steps.length < 2) return null;
+  return {
+    intro: intro.join('\n').trim(),
+    steps: steps.map(step => ({ title: step.title, body: step.lines.join('\n').trim() })),
+    finalAnswer: finalAnswer.join('\n').trim(),
+  };
+};
@@ -0,0 +1,108 @@
+// SM-2 style scheduler used by the flash card review queue.
+// Grades map onto the classic Again/Hard/Good/Easy buttons.
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+export interface CardSchedule {
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  due: string; // ISO timestamp
+}
+
+export interface FlashCard {
+  front: string;
+  back: string;
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const RELEARN_MINUTES = 10;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const newCardSchedule = (now: Date = new Date()): CardSchedule => ({
+  ease: DEFAULT_EASE,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due: now.toISOString(),
+});
+
+export const scheduleReview = (
+  previous: CardSchedule | null,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): CardSchedule => {
+  const card = previous ?? newCardSchedule(now);
+  let { ease, interval, repetitions, lapses } = card;
+
+  if (grade === 'again') {
+    // Failed cards come back in the same session and restart their ladder
+    ease = Math.max(MIN_EASE, ease - 0.2);
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: repetitions > 0 ? lapses + 1 : lapses,
+      due: new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000).toISOString(),
+    };
+  }
+
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+  } else if (grade === 'good') {
+    if (repetitions === 0) interval = 1;
+    else if (repetitions === 1) interval = 6;
+    else interval = Math.round(interval * ease);
+  } else {
+    ease = ease + 0.15;
+    if (repetitions === 0) interval = 4;
+    else interval = Math.round(Math.max(interval + 1, interval * ease * 1.3));
+  }
+
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions: repetitions + 1,
+    lapses,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+};
+
+// Cards due at any point before local midnight count as "due today"
+export const endOfToday = (now: Date = new Date()): Date => {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+};
+
+export const isDue = (schedule: CardSchedule | null, now: Date = new Date()): boolean => {
+  if (!schedule) return true;
+  return new Date(schedule.due).getTime() <= endOfToday(now).getTime();
+};
+
+export const formatInterval = (schedule: CardSchedule): string => {
+  if (schedule.interval === 0) return `${RELEARN_MINUTES}m`;
+  if (schedule.interval < 30) return `${schedule.interval}d`;
+  if (schedule.interval < 365) return `${Math.round(schedule.interval / 30)}mo`;
+  return `${Math.round((schedule.interval / 365) * 10) / 10}y`;
+};
+
+// Flash card sets are stored as FRONT:/BACK: blocks separated by ---
+export const parseFlashCards = (content: string): FlashCard[] => {
+  return content
+    .split('---')
+    .map(cardBlock => {
+      const frontMatch = cardBlock.match(/FRONT:\s*(.*)/);
+      const backMatch = cardBlock.match(/BACK:\s*(.*)/);
+      if (frontMatch && backMatch) {
+        return { front: frontMatch[1].trim(), back: backMatch[1].trim() };
+      }
+      return null;
+    })
+    .filter(Boolean) as FlashCard[];
+};
@@ -0,0 +1,64 @@
+// Pomodoro phases, and formatting for the timer and logged study time.
+
+export type TimerPhase = 'focus' | 'short-break' | 'long-break';
+
+export interface TimerSettings {
+  focusMinutes: number;
+  shortBreakMinutes: number;
+  longBreakMinutes: number;
+  // Focus sessions between long breaks
+  sessionsBeforeLongBreak: number;
+}
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  focusMinutes: 25,
+  shortBreakMinutes: 5,
+  longBreakMinutes: 15,
+  sessionsBeforeLongBreak: 4,
+};
+
+export const FOCUS_LENGTHS = [15, 25, 45, 60];
+
+// Shorter focus periods that were stopped early aren't worth logging
+export const MIN_LOGGED_SECONDS = 60;
+
+export const PHASE_LABELS: Record<TimerPhase, string> = {
+  focus: 'Focus',
+  'short-break': 'Short Break',
+  'long-break': 'Long Break',
+};
+
+export const phaseMinutes = (phase: TimerPhase, settings: TimerSettings) =>
+  phase === 'focus' ? settings.focusMinutes : phase === 'short-break' ? settings.shortBreakMinutes : settings.longBreakMinutes;
+
+// completedFocusSessions counts the one that just ended
+export const nextPhase = (phase: TimerPhase, completedFocusSessions: number, settings: TimerSettings): TimerPhase => {
+  if (phase !== 'focus') return 'focus';
+  return completedFocusSessions % settings.sessionsBeforeLongBreak === 0 ? 'long-break' : 'short-break';
+};
+
+// mm:ss, or h:mm:ss past an hour
+export const formatClock = (millis: number) => {
+  const totalSeconds = Math.max(0, Math.ceil(millis / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${String(minutes).padStart(2, '0')}:${seconds}`;
+};
+
+// "1h 25m", "40m" or "0m"
+export const formatStudyTime = (seconds: number) => {
+  const totalMinutes = Math.floor(seconds / 60);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  if (hours === 0) return `${minutes}m`;
+  return minutes === 0 ? `${hours}h` : `${hours}h ${minutes}m`;
+};
+
+// The calendar date on this device's clock, as YYYY-MM-DD. Stored with each
+// session so a day stays the day the user studied on, whatever time zone the
+// streak is later computed in.
+export const localDay = (date: Date = new Date()) =>
+  [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
@@ -0,0 +1,92 @@
+// Languages, pricing and note/flash card formatting for the translator.
+
+export interface TranslationSegment {
+  source: string;
+  translation: string;
+}
+
+// A word or phrase from the source text worth learning, explained in the target language
+export interface VocabularyItem {
+  term: string;
+  translation: string;
+  explanation: string;
+}
+
+export interface TranslationResult {
+  // Name of the source language; the one detected when the user chose auto-detect
+  sourceLanguage: string;
+  // The text sentence by sentence (or line by line), for the side-by-side view
+  segments: TranslationSegment[];
+  vocabulary: VocabularyItem[];
+}
+
+export const AUTO_DETECT = 'Detect language';
+
+// Sent to the model by name, so no codes are needed
+export const LANGUAGES = [
+  'English',
+  'Spanish',
+  'French',
+  'German',
+  'Italian',
+  'Portuguese',
+  'Dutch',
+  'Russian',
+  'Polish',
+  'Turkish',
+  'Arabic',
+  'Hebrew',
+  'Hindi',
+  'Bengali',
+  'Urdu',
+  'Chinese (Simplified)',
+  'Chinese (Traditional)',
+  'Japanese',
+  'Korean',
+  'Vietnamese',
+  'Thai',
+  'Indonesian',
+  'Swahili',
+  'Greek',
+  'Latin',
+];
+
+export const MAX_TRANSLATION_CHARS = 8000;
+const CHARS_PER_CREDIT = 2000;
+
+export const translationCost = (text: string) => Math.max(1, Math.ceil(text.trim().length / CHARS_PER_CREDIT));
+
+export const translatedText = (result: TranslationResult) =>
+  result.segments.map(segment => segment.translation).join('\n\n');
+
+// Pipes would end the table cell and line breaks the row
+const tableCell = (text: string) => text.replace(/\|/g, '/').replace(/\s*\n+\s*/g, ' ').trim();
+
+// A note with the source and translation side by side as a Markdown table,
+// followed by the vocabulary list
+export const translationToMarkdown = (result: TranslationResult, targetLanguage: string) => {
+  const lines = [
+    `| ${tableCell(result.sourceLanguage)} | ${tableCell(targetLanguage)} |`,
+    '| --- | --- |',
+    ...result.segments.map(segment => `| ${tableCell(segment.source)} | ${tableCell(segment.translation)} |`),
+  ];
+  if (result.vocabulary.length > 0) {
+    lines.push('', '## Vocabulary', '');
+    result.vocabulary.forEach(item => {
+      lines.push(`- **${item.term}** – ${item.translation}${item.explanation ? `: ${item.explanation}` : ''}`);
+    });
+  }
+  return lines.join('\n');
+};
+
+// Each side is read as a single line, and --- separates cards
+const cardText = (text: string) => text.replace(/-{3,}/g, '–').replace(/\s*\n+\s*/g, ' ').trim();
+
+// Flash card set content in the FRONT/BACK format the flash card screens read
+export const vocabularyToFlashCards = (vocabulary: VocabularyItem[]) =>
+  vocabulary
+    .map(item => {
+      const back = item.explanation ? `${item.translation} – ${item.explanation}` : item.translation;
+      return `FRONT: ${cardText(item.term)}\nBACK: ${cardText(back)}`;
+    })
+    .join('\n---\n');
@@ -0,0 +1,8 @@
+// RFC 4122 version 4 identifiers for records created on the device.
+// They only need to be unique per user, so Math.random is good enough here.
+export const generateUUID = (): string =>
+  'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    const value = char === 'x' ? random : (random & 0x3) | 0x8;
+    return value.toString(16);
+  });
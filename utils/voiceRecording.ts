@@ -0,0 +1,45 @@
+import { RecordingOptions, RecordingPresets } from 'expo-audio';
+
+// Recording settings and pricing for voice notes. Speech needs neither stereo
+// nor music bitrates, and a smaller file keeps the transcription upload light.
+export const VOICE_NOTE_RECORDING: RecordingOptions = {
+  ...RecordingPresets.HIGH_QUALITY,
+  numberOfChannels: 1,
+  bitRate: 64000,
+  isMeteringEnabled: true,
+};
+
+// About 15 MB at the bitrate above, which is what one transcription request accepts
+export const MAX_RECORDING_MILLIS = 30 * 60 * 1000;
+
+export const MINUTES_PER_TRANSCRIPTION_CREDIT = 5;
+
+export const transcriptionCost = (durationMillis: number) =>
+  Math.max(1, Math.ceil(durationMillis / (MINUTES_PER_TRANSCRIPTION_CREDIT * 60 * 1000)));
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  '3gp': 'audio/3gpp',
+  caf: 'audio/x-caf',
+  wav: 'audio/wav',
+  webm: 'audio/webm',
+};
+
+export const audioMimeType = (uri: string) => {
+  const extension = uri.match(/\.(\w+)(?:\?.*)?$/)?.[1]?.toLowerCase() ?? '';
+  return AUDIO_MIME_TYPES[extension] ?? 'audio/mp4';
+};
+
+// 75000 -> "1:15", 3725000 -> "1:02:05"
+export const formatDuration = (millis: number) => {
+  const totalSeconds = Math.floor(millis / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export const voiceNoteTitle = (date: Date = new Date()) =>
+  `Voice Note ${date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}, ${date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}`;